@@ -1,46 +1,67 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { MemoryStore, Category, MemoryItem, ChatMessage } from './types';
-import { 
-  Brain, Sprout, ShieldAlert, Plus, BookOpen, Send, Sparkles, 
-  ArrowLeft, Settings, Moon, Sun, Phone, MessageSquare, Mic, Check,
-  Search, X, Wifi, Battery
+import React, { useState, useEffect } from 'react';
+import { Theme } from './types';
+import {
+  Brain, Plus, Sparkles, X, Wifi, Battery, Undo, SlidersHorizontal, Bell, WifiOff, BatteryCharging, Pin, ChevronUp, ChevronDown
 } from './components/Icons';
+import { IconComponent, APPS, WIDGETS, OVERLAYS, findApp, findWidget } from './components/apps';
+import { useShellState } from './components/apps/shell';
+import { ShellContext, useShell } from './components/apps/ShellContext';
 import MemoryEntryModal from './components/MemoryEntryModal';
-import MemoryCard from './components/MemoryCard';
-import { sendMessageToLucy, resetChatSession } from './services/geminiService';
+import RevisionHistoryModal from './components/RevisionHistoryModal';
+import LockScreen from './components/LockScreen';
+import {
+  createMemoryItem, addMemoryItem, updateMemoryItem, restoreMemoryRevision, applyResolutions
+} from './services/memoryService';
+import { countUnreadNotifications, dismissNotification, clearNotifications, formatDueTime } from './services/reminderService';
+import { BatteryStatus, watchBattery } from './services/connectivityService';
+import {
+  DEFAULT_LAUNCHER_LAYOUT, MAX_DOCK_ITEMS, arrangeLauncher, moveLauncherItem, setItemHidden, setItemPinned, addWidget, removeWidget,
+  moveWidget
+} from './services/launcherService';
 
 // --- Types & Constants ---
-type AppId = 'home' | 'journal' | 'chat' | 'settings' | 'phone' | 'messages' | 'live';
-type Theme = 'light' | 'dark';
-
-// Default Data
-const DEFAULT_MEMORY: MemoryStore = {
-  struggles: [],
-  development: [],
-  mindset: []
-};
+
+// Something on the home screen: an app from the registry or one of an app's shortcuts
+interface LauncherItem {
+  id: string;
+  label: string;
+  icon: IconComponent;
+  colorClass: string;
+  accent?: string;
+  badge?: number;
+  open: () => void;
+}
+
+// Holding a home screen icon this long starts rearranging
+const LONG_PRESS_MS = 500;
 
 // --- Helper Components ---
 
-const StatusBar = ({ theme }: { theme: Theme }) => {
+const StatusBar = ({ theme, networkOnline }: { theme: Theme; networkOnline: boolean }) => {
   const [time, setTime] = useState(new Date());
+  const [battery, setBattery] = useState<BatteryStatus | null>(null);
 
   useEffect(() => {
     const timer = setInterval(() => setTime(new Date()), 60000); // Update every minute is enough
     return () => clearInterval(timer);
   }, []);
 
+  // Stays hidden in browsers that don't report the battery
+  useEffect(() => watchBattery(setBattery), []);
+
   const timeString = time.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
 
   return (
     <div className={`w-full flex justify-between items-center px-6 py-2 text-xs font-medium select-none ${theme === 'dark' ? 'text-white' : 'text-slate-900'}`}>
        <span>{timeString}</span>
        <div className="flex items-center gap-2">
-         <Wifi className="w-4 h-4" />
-         <div className="flex items-center gap-1">
-            <span>100%</span>
-            <Battery className="w-4 h-4" />
-         </div>
+         {networkOnline ? <Wifi className="w-4 h-4" /> : <span title="Offline"><WifiOff className="w-4 h-4 opacity-60" /></span>}
+         {battery && (
+           <div className="flex items-center gap-1" title={battery.charging ? 'Charging' : 'On battery'}>
+              <span>{Math.round(battery.level * 100)}%</span>
+              {battery.charging ? <BatteryCharging className="w-4 h-4" /> : <Battery className="w-4 h-4" />}
+           </div>
+         )}
        </div>
     </div>
   );
@@ -66,451 +87,430 @@ const Clock = ({ theme }: { theme: Theme }) => {
   );
 };
 
-const AppIcon = ({ 
-  icon: Icon, 
-  label, 
-  colorClass, 
-  onClick, 
-  theme 
-}: { 
+const AppIcon: React.FC<{ 
   icon: any, 
   label: string, 
   colorClass: string, 
   onClick: () => void,
-  theme: Theme 
+  theme: Theme,
+  badge?: number
+}> = ({ 
+  icon: Icon, 
+  label, 
+  colorClass, 
+  onClick, 
+  theme,
+  badge = 0
 }) => (
   <div className="flex flex-col items-center gap-2 cursor-pointer active:scale-90 transition-transform duration-200 group" onClick={onClick}>
-    <div className={`w-[68px] h-[68px] rounded-[24px] flex items-center justify-center shadow-md ${colorClass} ${theme === 'dark' ? 'shadow-black/20' : 'shadow-slate-200'}`}>
+    <div className={`relative w-[68px] h-[68px] rounded-[24px] flex items-center justify-center shadow-md ${colorClass} ${theme === 'dark' ? 'shadow-black/20' : 'shadow-slate-200'}`}>
       <Icon className="w-8 h-8 text-white" />
+      {badge > 0 && (
+        <span className="absolute -top-1 -right-1 min-w-[22px] h-[22px] px-1.5 rounded-full bg-red-500 text-white text-xs font-bold flex items-center justify-center">
+          {badge > 99 ? '99+' : badge}
+        </span>
+      )}
     </div>
     <span className={`text-xs font-medium tracking-tight transition-colors ${theme === 'dark' ? 'text-slate-200' : 'text-slate-700'}`}>{label}</span>
   </div>
 );
 
-// --- Main App Component ---
-
-const App: React.FC = () => {
-  // System State
-  const [memory, setMemory] = useState<MemoryStore>(DEFAULT_MEMORY);
-  const [activeApp, setActiveApp] = useState<AppId>('home');
-  const [isModalOpen, setIsModalOpen] = useState(false);
-  const [theme, setTheme] = useState<Theme>('light');
-  
-  // Permissions State (Simulation)
-  const [permissions, setPermissions] = useState({
-    mic: false,
-    location: false,
-    activity: false,
-    autoUpdate: false
-  });
-  
-  // App Specific State
-  const [journalFilter, setJournalFilter] = useState<Category | 'all'>('all');
-  const [journalSearchQuery, setJournalSearchQuery] = useState('');
-  const [liveListening, setLiveListening] = useState(false);
-  
-  // Chat State
-  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([
-    { id: 'welcome', role: 'model', text: "Systems online. Lucy ready.", timestamp: Date.now() }
-  ]);
-  const [inputMessage, setInputMessage] = useState('');
-  const [isChatLoading, setIsChatLoading] = useState(false);
-  const chatEndRef = useRef<HTMLDivElement>(null);
-
-  // Persistence & Initialization
-  useEffect(() => {
-    const storedMemory = localStorage.getItem('lucy_memory');
-    if (storedMemory) setMemory(JSON.parse(storedMemory));
+// The home screen: widgets, the app grid and the dock, all inside the apps' state
+const HomeScreen: React.FC = () => {
+  const {
+    activeApp, theme, networkOnline, reminderStore, setReminderStore, isShadeOpen, setIsShadeOpen, launcherLayout, setLauncherLayout,
+    isEditingHome, setIsEditingHome, draggingItemId, setDraggingItemId, longPressRef, openApp, goHome, openNewMemory, openShade,
+    openNotification
+  } = useShell();
+
+  const renderNotificationShade = () => (
+    <div className="fixed inset-0 z-50 bg-black/40 backdrop-blur-sm animate-fade-in" onClick={() => setIsShadeOpen(false)}>
+      <div
+        onClick={(e) => e.stopPropagation()}
+        className={`rounded-b-[2rem] shadow-2xl px-4 pt-6 pb-4 max-h-[80vh] overflow-y-auto ${theme === 'dark' ? 'bg-zinc-900 text-white' : 'bg-white text-slate-900'}`}
+      >
+        <div className="flex items-center gap-2 mb-3 px-1">
+          <h2 className="text-lg font-bold flex-1">Notifications</h2>
+          {reminderStore.notifications.length > 0 && (
+            <button onClick={() => setReminderStore(clearNotifications)} className="text-xs font-medium opacity-60 hover:opacity-100">Clear all</button>
+          )}
+          <button onClick={() => setIsShadeOpen(false)} className="p-1 opacity-60 hover:opacity-100"><X className="w-5 h-5" /></button>
+        </div>
+        {reminderStore.notifications.length === 0 && (
+          <p className="text-sm opacity-50 text-center py-6">Nothing new. Reminders and check-ins land here when they're due.</p>
+        )}
+        <div className="space-y-2">
+          {reminderStore.notifications.map(n => (
+            <div key={n.id} className={`rounded-2xl p-4 flex items-start gap-3 ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-50'}`}>
+              <Bell className="w-4 h-4 text-violet-500 shrink-0 mt-0.5" />
+              <div className="flex-1 min-w-0">
+                <p className="text-xs font-semibold uppercase tracking-wider opacity-50">
+                  {n.kind === 'check-in' ? 'Check-in' : n.kind === 'reflection' ? `Reflection · ${n.category}` : 'Reminder'} · {formatDueTime(n.firedAt)}
+                </p>
+                <p className="text-sm mt-1">{n.title}</p>
+                {n.kind !== 'reminder' && (
+                  <button onClick={() => openNotification(n)} className="mt-2 flex items-center gap-1 text-xs font-semibold text-brand-500">
+                    <Sparkles className="w-3.5 h-3.5" /> Talk it through with Lucy
+                  </button>
+                )}
+              </div>
+              <button onClick={() => setReminderStore(st => dismissNotification(st, n.id))} title="Dismiss" className="p-1 opacity-50 hover:opacity-100">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={() => { setIsShadeOpen(false); openApp('reminders'); }}
+          className="w-full mt-3 py-2 text-sm font-medium opacity-60 hover:opacity-100"
+        >
+          Manage reminders
+        </button>
+      </div>
+    </div>
+  );
 
-    const storedTheme = localStorage.getItem('lucy_theme') as Theme;
-    if (storedTheme) setTheme(storedTheme);
-    
-    // Auto-update check simulation
-    const storedPerms = localStorage.getItem('lucy_permissions');
-    if (storedPerms) setPermissions(JSON.parse(storedPerms));
-  }, []);
+  // APPS never changes, so each app's badge and shortcut hooks run in the same order on every render
+  const launcherItems: LauncherItem[] = [
+    ...APPS.map(app => ({
+      id: app.id,
+      label: app.label || app.name,
+      icon: app.icon,
+      colorClass: app.color,
+      accent: app.accent?.[theme],
+      badge: app.useBadge?.(),
+      open: () => openApp(app.id)
+    })),
+    ...APPS.flatMap(app => (app.useShortcuts?.() || []).map(shortcut => ({
+      id: shortcut.id,
+      label: shortcut.label,
+      icon: shortcut.icon,
+      colorClass: shortcut.color,
+      open: () => openApp(app.id, shortcut.target)
+    })))
+  ];
+  const launcherItemIds = launcherItems.map(item => item.id);
+  const findLauncherItem = (id: string) => launcherItems.find(item => item.id === id)!;
+  const launcher = arrangeLauncher(launcherLayout, launcherItemIds);
+  const widgetIds = launcherLayout.widgets.filter(id => findWidget(id));
+  const availableWidgets = WIDGETS.filter(widget => !widgetIds.includes(widget.id));
+  const panelClass = `p-4 rounded-[1.5rem] backdrop-blur-xl border ${theme === 'dark' ? 'bg-zinc-900/60 border-zinc-800' : 'bg-white/60 border-white/50 shadow-sm'}`;
+
+  const cancelLongPress = () => {
+    if (longPressRef.current !== null) window.clearTimeout(longPressRef.current);
+    longPressRef.current = null;
+  };
 
-  useEffect(() => {
-    localStorage.setItem('lucy_theme', theme);
-    document.body.style.backgroundColor = theme === 'dark' ? '#000000' : '#f8fafc';
-  }, [theme]);
+  const startLongPress = () => {
+    cancelLongPress();
+    longPressRef.current = window.setTimeout(() => {
+      longPressRef.current = null;
+      setIsEditingHome(true);
+    }, LONG_PRESS_MS);
+  };
 
-  const toggleTheme = () => setTheme(prev => prev === 'light' ? 'dark' : 'light');
+  const finishEditingHome = () => {
+    setIsEditingHome(false);
+    setDraggingItemId(null);
+  };
 
-  const updatePermissions = (key: keyof typeof permissions) => {
-    const newPerms = { ...permissions, [key]: !permissions[key] };
-    setPermissions(newPerms);
-    localStorage.setItem('lucy_permissions', JSON.stringify(newPerms));
-    
-    // If mic enabled, user feels like "Auto Update" is possible
-    if (key === 'mic' && newPerms.mic) {
-        // Request actual browser permission
-        navigator.mediaDevices.getUserMedia({ audio: true }).catch(err => {
-            console.error("Mic permission denied by browser", err);
-            setPermissions(p => ({ ...p, mic: false }));
-        });
+  // Icons capture the pointer while dragged, so the icon under it is found by position
+  const dragLauncherItem = (point: { clientX: number; clientY: number }) => {
+    if (!draggingItemId) return;
+    const targetId = document.elementFromPoint(point.clientX, point.clientY)?.closest('[data-launcher-item]')?.getAttribute('data-launcher-item');
+    if (targetId && targetId !== draggingItemId) {
+      setLauncherLayout(layout => moveLauncherItem(layout, launcherItemIds, draggingItemId, targetId));
     }
   };
 
-  const handleSendMessage = async () => {
-    if (!inputMessage.trim() || isChatLoading) return;
-
-    const userMsg: ChatMessage = { id: crypto.randomUUID(), role: 'user', text: inputMessage, timestamp: Date.now() };
-    setChatMessages(prev => [...prev, userMsg]);
-    setInputMessage('');
-    setIsChatLoading(true);
-
-    try {
-      const responseText = await sendMessageToLucy(userMsg.text, memory);
-      setChatMessages(prev => [...prev, { id: crypto.randomUUID(), role: 'model', text: responseText, timestamp: Date.now() }]);
-    } catch (error) {
-       setChatMessages(prev => [...prev, { id: crypto.randomUUID(), role: 'model', text: "Connection Error.", timestamp: Date.now() }]);
-    } finally {
-      setIsChatLoading(false);
-    }
+  const renderWidget = (id: string) => {
+    const widget = findWidget(id);
+    if (!widget) return null;
+    const View = widget.view;
+    return <View theme={theme} onOpen={() => openApp(widget.app)} />;
   };
 
-  // --- Views ---
+  const editBadgeClass = `absolute w-6 h-6 rounded-full flex items-center justify-center shadow disabled:opacity-30 ${theme === 'dark' ? 'bg-zinc-700 text-white' : 'bg-white text-slate-700'}`;
+
+  const renderLauncherIcon = (id: string) => {
+    const item = findLauncherItem(id);
+    const isPinned = launcherLayout.dock.includes(id);
+    return (
+      <div
+        key={id}
+        data-launcher-item={id}
+        onPointerDown={isEditingHome ? () => setDraggingItemId(id) : startLongPress}
+        onPointerUp={cancelLongPress}
+        onPointerLeave={cancelLongPress}
+        onContextMenu={(e) => e.preventDefault()}
+        className={`relative select-none ${isEditingHome ? 'touch-none' : ''} ${draggingItemId === id ? 'opacity-40' : ''}`}
+      >
+        <AppIcon theme={theme} icon={item.icon} label={item.label} colorClass={item.colorClass} badge={item.badge} onClick={isEditingHome ? () => {} : item.open} />
+        {isEditingHome && (
+          <>
+            <button
+              onPointerDown={(e) => e.stopPropagation()}
+              onClick={() => setLauncherLayout(layout => setItemHidden(layout, id, true))}
+              title={`Hide ${item.label}`}
+              className={`${editBadgeClass} -top-1 left-0`}
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onPointerDown={(e) => e.stopPropagation()}
+              onClick={() => setLauncherLayout(layout => setItemPinned(layout, launcherItemIds, id, !isPinned))}
+              disabled={!isPinned && launcher.dock.length >= MAX_DOCK_ITEMS}
+              title={isPinned ? `Unpin ${item.label}` : `Pin ${item.label} to the dock`}
+              className={`${editBadgeClass} -top-1 right-0`}
+            >
+              <Pin className="w-3.5 h-3.5" />
+            </button>
+          </>
+        )}
+      </div>
+    );
+  };
 
-  const renderHome = () => (
+  return (
     <div className="flex flex-col min-h-screen pb-28 relative overflow-hidden">
-      <StatusBar theme={theme} />
-      
+      <StatusBar theme={theme} networkOnline={networkOnline} />
+
+      {/* Notification Bell */}
+      <button
+        onClick={openShade}
+        title="Notifications"
+        className={`absolute top-10 right-5 p-2.5 rounded-full backdrop-blur-xl ${theme === 'dark' ? 'bg-zinc-900/60 text-white' : 'bg-white/60 text-slate-800 shadow-sm'}`}
+      >
+        <Bell className="w-5 h-5" />
+        {countUnreadNotifications(reminderStore) > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[20px] h-[20px] px-1 rounded-full bg-red-500 text-white text-[11px] font-bold flex items-center justify-center">
+            {countUnreadNotifications(reminderStore)}
+          </span>
+        )}
+      </button>
+      {!isEditingHome && (
+        <button
+          onClick={() => setIsEditingHome(true)}
+          title="Edit home screen"
+          className={`absolute top-10 right-[4.5rem] p-2.5 rounded-full backdrop-blur-xl ${theme === 'dark' ? 'bg-zinc-900/60 text-white' : 'bg-white/60 text-slate-800 shadow-sm'}`}
+        >
+          <SlidersHorizontal className="w-5 h-5" />
+        </button>
+      )}
+      {isShadeOpen && renderNotificationShade()}
+    
       <Clock theme={theme} />
 
       {/* Main Grid */}
       <div className="flex-1 px-6 flex flex-col justify-end pb-8 gap-8">
-        
+
+        {isEditingHome && (
+          <div className="flex items-center gap-3">
+            <span className={`flex-1 text-sm ${theme === 'dark' ? 'text-zinc-400' : 'text-slate-500'}`}>Drag icons to rearrange them.</span>
+            <button onClick={() => setLauncherLayout(DEFAULT_LAUNCHER_LAYOUT)} className="px-3 py-1.5 rounded-full text-sm font-medium opacity-70 hover:opacity-100">Reset</button>
+            <button onClick={finishEditingHome} className="px-4 py-1.5 rounded-full bg-brand-600 text-white text-sm font-medium">Done</button>
+          </div>
+        )}
+      
         {/* Widget Area */}
-        <div 
-            onClick={() => { setActiveApp('chat'); }}
-            className={`w-full p-6 rounded-[2rem] backdrop-blur-xl border flex flex-col gap-2 transition-all active:scale-95 cursor-pointer
-              ${theme === 'dark' 
-                ? 'bg-zinc-900/60 border-zinc-800 text-white shadow-lg' 
-                : 'bg-white/60 border-white/50 text-slate-800 shadow-xl shadow-slate-200/50'
-              }`}
-        >
-            <div className="flex items-center gap-3 mb-1">
-                <Sparkles className={`w-5 h-5 ${theme === 'dark' ? 'text-purple-400' : 'text-brand-600'}`} />
-                <span className="font-semibold text-lg">Daily Insight</span>
-            </div>
-            <p className={`text-sm leading-relaxed ${theme === 'dark' ? 'text-zinc-400' : 'text-slate-600'}`}>
-               "Progress is impossible without change, and those who cannot change their minds cannot change anything."
-            </p>
-        </div>
+        {widgetIds.map((id, index) => (
+          <div key={id} className="relative">
+            <div className={isEditingHome ? 'pointer-events-none' : ''}>{renderWidget(id)}</div>
+            {isEditingHome && (
+              <div className="absolute top-3 right-3 flex gap-1.5">
+                <button onClick={() => setLauncherLayout(layout => moveWidget(layout, id, -1))} disabled={index === 0} title="Move up" className={`${editBadgeClass} static`}>
+                  <ChevronUp className="w-4 h-4" />
+                </button>
+                <button onClick={() => setLauncherLayout(layout => moveWidget(layout, id, 1))} disabled={index === widgetIds.length - 1} title="Move down" className={`${editBadgeClass} static`}>
+                  <ChevronDown className="w-4 h-4" />
+                </button>
+                <button onClick={() => setLauncherLayout(layout => removeWidget(layout, id))} title="Remove widget" className={`${editBadgeClass} static`}>
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+        {isEditingHome && availableWidgets.length > 0 && (
+          <div className={panelClass}>
+            <span className="text-xs font-semibold uppercase tracking-wider opacity-50">Add a widget</span>
+            {availableWidgets.map(widget => (
+              <button key={widget.id} onClick={() => setLauncherLayout(layout => addWidget(layout, widget.id))} className="w-full flex items-center gap-3 pt-3 text-left">
+                <Plus className="w-4 h-4 shrink-0 text-brand-500" />
+                <span className="flex-1 min-w-0">
+                  <span className="block text-sm font-medium">{widget.name}</span>
+                  <span className={`block text-xs ${theme === 'dark' ? 'text-zinc-400' : 'text-slate-500'}`}>{widget.description}</span>
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
 
         {/* App Grid */}
-        <div className="grid grid-cols-4 gap-y-6 gap-x-4">
-           <AppIcon theme={theme} icon={Phone} label="Phone" colorClass="bg-green-500" onClick={() => setActiveApp('phone')} />
-           <AppIcon theme={theme} icon={MessageSquare} label="Messages" colorClass="bg-blue-500" onClick={() => setActiveApp('messages')} />
-           <AppIcon theme={theme} icon={Settings} label="Settings" colorClass="bg-slate-500" onClick={() => setActiveApp('settings')} />
-           <AppIcon theme={theme} icon={Mic} label="Lucy Live" colorClass="bg-rose-500" onClick={() => setActiveApp('live')} />
-           
-           <AppIcon theme={theme} icon={ShieldAlert} label="Struggles" colorClass="bg-amber-500" onClick={() => { setJournalFilter('struggles'); setActiveApp('journal'); }} />
-           <AppIcon theme={theme} icon={Sprout} label="Growth" colorClass="bg-emerald-500" onClick={() => { setJournalFilter('development'); setActiveApp('journal'); }} />
-           <AppIcon theme={theme} icon={Brain} label="Mindset" colorClass="bg-indigo-500" onClick={() => { setJournalFilter('mindset'); setActiveApp('journal'); }} />
-           <AppIcon theme={theme} icon={BookOpen} label="Journal" colorClass="bg-orange-500" onClick={() => { setJournalFilter('all'); setActiveApp('journal'); }} />
+        <div
+          className="grid grid-cols-4 gap-y-6 gap-x-4"
+          onPointerMove={dragLauncherItem}
+          onPointerUp={() => setDraggingItemId(null)}
+          onPointerCancel={() => setDraggingItemId(null)}
+          onPointerLeave={() => setDraggingItemId(null)}
+        >
+          {launcher.grid.map(renderLauncherIcon)}
         </div>
+
+        {isEditingHome && launcher.hidden.length > 0 && (
+          <div className={panelClass}>
+            <span className="text-xs font-semibold uppercase tracking-wider opacity-50">Hidden</span>
+            <div className="flex flex-wrap gap-2 pt-3">
+              {launcher.hidden.map(id => (
+                <button
+                  key={id}
+                  onClick={() => setLauncherLayout(layout => setItemHidden(layout, id, false))}
+                  title={`Show ${findLauncherItem(id).label}`}
+                  className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100'}`}
+                >
+                  <Plus className="w-3.5 h-3.5" /> {findLauncherItem(id).label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
-      
+    
       {/* Dock */}
       <nav className="fixed bottom-6 left-4 right-4 z-40">
         <div className={`p-2.5 rounded-[2.2rem] shadow-2xl flex justify-evenly items-center backdrop-blur-2xl border
             ${theme === 'dark' ? 'bg-zinc-800/80 border-zinc-700/50' : 'bg-white/80 border-white/40'}`}>
-           
-           <button onClick={() => setActiveApp('home')} className={`p-4 rounded-[1.5rem] ${activeApp === 'home' ? (theme === 'dark' ? 'bg-zinc-700' : 'bg-slate-200') : ''}`}>
+         
+           <button onClick={goHome} className={`p-4 rounded-[1.5rem] ${activeApp === 'home' ? (theme === 'dark' ? 'bg-zinc-700' : 'bg-slate-200') : ''}`}>
              <Brain className={`w-6 h-6 ${theme === 'dark' ? 'text-white' : 'text-slate-800'}`} />
            </button>
 
-           <button onClick={() => setActiveApp('chat')} className="p-4 rounded-[1.5rem] relative group">
-             <div className="absolute inset-0 bg-brand-500/20 rounded-[1.5rem] opacity-0 group-hover:opacity-100 scale-75 transition-all"></div>
-             <Sparkles className={`w-6 h-6 ${theme === 'dark' ? 'text-purple-400' : 'text-brand-600'}`} />
-           </button>
-
-           <button onClick={() => setIsModalOpen(true)} className="p-4 rounded-[1.5rem]">
+           {launcher.dock.map(id => {
+             const item = findLauncherItem(id);
+             const Icon = item.icon;
+             return (
+               <button
+                 key={id}
+                 onClick={isEditingHome ? () => setLauncherLayout(layout => setItemPinned(layout, launcherItemIds, id, false)) : item.open}
+                 title={isEditingHome ? `Unpin ${item.label}` : item.label}
+                 className="p-4 rounded-[1.5rem] relative group"
+               >
+                 <div className="absolute inset-0 bg-brand-500/20 rounded-[1.5rem] opacity-0 group-hover:opacity-100 scale-75 transition-all"></div>
+                 <Icon className={`w-6 h-6 ${item.accent || (theme === 'dark' ? 'text-white' : 'text-slate-800')}`} />
+                 {isEditingHome ? (
+                   <span className={`${editBadgeClass} w-5 h-5 top-1 right-1`}><X className="w-3 h-3" /></span>
+                 ) : !!item.badge && (
+                   <span className="absolute top-2.5 right-2.5 w-2.5 h-2.5 rounded-full bg-red-500" />
+                 )}
+               </button>
+             );
+           })}
+
+           <button onClick={openNewMemory} className="p-4 rounded-[1.5rem]">
              <Plus className={`w-6 h-6 ${theme === 'dark' ? 'text-white' : 'text-slate-800'}`} />
            </button>
         </div>
       </nav>
     </div>
   );
+};
 
-  const renderSettings = () => (
-      <div className={`min-h-screen ${theme === 'dark' ? 'bg-black text-white' : 'bg-slate-50 text-slate-900'} animate-fade-in`}>
-         <div className="sticky top-0 p-4 flex items-center gap-4 bg-inherit z-10">
-             <button onClick={() => setActiveApp('home')}><ArrowLeft className="w-6 h-6" /></button>
-             <h1 className="text-2xl font-bold">Settings</h1>
-         </div>
-         
-         <div className="p-4 space-y-6">
-             {/* Account Section */}
-             <div className={`p-6 rounded-3xl flex items-center gap-4 ${theme === 'dark' ? 'bg-zinc-900' : 'bg-white shadow-sm'}`}>
-                 <div className="w-16 h-16 rounded-full bg-gradient-to-tr from-brand-400 to-blue-500 flex items-center justify-center text-white text-xl font-bold">L</div>
-                 <div>
-                     <h2 className="text-xl font-bold">Lucy OS</h2>
-                     <p className="opacity-60 text-sm">System Active</p>
-                 </div>
-             </div>
-
-             {/* Appearance */}
-             <div className={`rounded-3xl overflow-hidden ${theme === 'dark' ? 'bg-zinc-900' : 'bg-white shadow-sm'}`}>
-                 <div className="p-4 border-b border-white/5 opacity-80 font-bold text-sm uppercase tracking-wider pl-6">Appearance</div>
-                 <div onClick={toggleTheme} className="p-5 flex items-center justify-between active:bg-black/5 cursor-pointer">
-                     <div className="flex items-center gap-3">
-                         {theme === 'dark' ? <Moon className="w-5 h-5 text-blue-400" /> : <Sun className="w-5 h-5 text-orange-400" />}
-                         <span className="font-medium">Dark Mode</span>
-                     </div>
-                     <div className={`w-12 h-7 rounded-full p-1 transition-colors ${theme === 'dark' ? 'bg-brand-500' : 'bg-slate-300'}`}>
-                         <div className={`w-5 h-5 bg-white rounded-full shadow-md transform transition-transform ${theme === 'dark' ? 'translate-x-5' : ''}`}></div>
-                     </div>
-                 </div>
-             </div>
-
-             {/* Privacy & Permissions */}
-             <div className={`rounded-3xl overflow-hidden ${theme === 'dark' ? 'bg-zinc-900' : 'bg-white shadow-sm'}`}>
-                 <div className="p-4 border-b border-white/5 opacity-80 font-bold text-sm uppercase tracking-wider pl-6">Intelligent Access</div>
-                 
-                 {/* Mic */}
-                 <div onClick={() => updatePermissions('mic')} className="p-5 flex items-center justify-between active:bg-black/5 cursor-pointer border-b border-white/5">
-                     <div className="flex items-center gap-3">
-                         <Mic className="w-5 h-5 text-rose-500" />
-                         <div>
-                             <div className="font-medium">Conversation Listener</div>
-                             <div className="text-xs opacity-60">Allow Lucy to hear environment</div>
-                         </div>
-                     </div>
-                     <div className={`w-12 h-7 rounded-full p-1 transition-colors ${permissions.mic ? 'bg-brand-500' : 'bg-slate-300'}`}>
-                         <div className={`w-5 h-5 bg-white rounded-full shadow-md transform transition-transform ${permissions.mic ? 'translate-x-5' : ''}`}></div>
-                     </div>
-                 </div>
-
-                 {/* Activity */}
-                 <div onClick={() => updatePermissions('activity')} className="p-5 flex items-center justify-between active:bg-black/5 cursor-pointer">
-                     <div className="flex items-center gap-3">
-                         <Phone className="w-5 h-5 text-green-500" />
-                         <div>
-                             <div className="font-medium">Activity Tracking</div>
-                             <div className="text-xs opacity-60">Analyze app usage patterns</div>
-                         </div>
-                     </div>
-                     <div className={`w-12 h-7 rounded-full p-1 transition-colors ${permissions.activity ? 'bg-brand-500' : 'bg-slate-300'}`}>
-                         <div className={`w-5 h-5 bg-white rounded-full shadow-md transform transition-transform ${permissions.activity ? 'translate-x-5' : ''}`}></div>
-                     </div>
-                 </div>
-             </div>
-             
-             <p className="text-center text-xs opacity-40 mt-8">Lucy OS v2.1 • Samsung One UI Inspired</p>
-         </div>
-      </div>
-  );
-
-  const renderLiveApp = () => (
-    <div className={`min-h-screen flex flex-col items-center justify-center p-8 text-center relative ${theme === 'dark' ? 'bg-black text-white' : 'bg-white text-slate-900'}`}>
-        <button onClick={() => setActiveApp('home')} className="absolute top-4 left-4 p-2 rounded-full bg-slate-100/10"><ArrowLeft className="w-6 h-6" /></button>
-        
-        <div className={`w-40 h-40 rounded-full flex items-center justify-center mb-8 transition-all duration-1000 ${liveListening ? 'bg-rose-500 shadow-[0_0_100px_rgba(244,63,94,0.4)] animate-pulse' : 'bg-slate-200 dark:bg-zinc-800'}`}>
-            <Mic className={`w-16 h-16 ${liveListening ? 'text-white' : 'text-slate-400'}`} />
-        </div>
-        
-        <h2 className="text-3xl font-bold mb-2">Lucy Live</h2>
-        <p className="opacity-60 max-w-xs mx-auto mb-10">
-            {permissions.mic 
-              ? (liveListening ? "Listening to your environment to update memory context..." : "Tap to start passive listening.") 
-              : "Microphone permission required. Go to Settings."}
-        </p>
-
-        {permissions.mic && (
-            <button 
-                onClick={() => setLiveListening(!liveListening)}
-                className={`px-8 py-3 rounded-full font-bold text-lg transition-all ${liveListening ? 'bg-slate-800 text-white dark:bg-white dark:text-black' : 'bg-rose-500 text-white'}`}
-            >
-                {liveListening ? 'Stop Listening' : 'Start Listening'}
-            </button>
-        )}
-    </div>
-  );
+// Every app's state, nested around the unlocked shell. Locking unmounts them all.
+const AppStates: React.FC<{ children?: React.ReactNode }> = ({ children }) => (
+  <>{APPS.reduceRight<React.ReactNode>((inner, { state: State }) => (State ? <State>{inner}</State> : inner), children)}</>
+);
 
-  const renderSimpleApp = (title: string, icon: any, color: string) => (
-      <div className={`min-h-screen flex flex-col items-center justify-center p-8 text-center relative ${theme === 'dark' ? 'bg-black text-white' : 'bg-white text-slate-900'}`}>
-         <button onClick={() => setActiveApp('home')} className="absolute top-4 left-4 p-2 rounded-full bg-slate-100/10"><ArrowLeft className="w-6 h-6" /></button>
-         <div className={`w-24 h-24 rounded-[2rem] flex items-center justify-center mb-6 ${color} shadow-2xl`}>
-             {React.createElement(icon, { className: "w-10 h-10 text-white" })}
-         </div>
-         <h1 className="text-3xl font-bold mb-2">{title}</h1>
-         <p className="opacity-50">This system app is currently simulated for the OS experience.</p>
-      </div>
-  );
+// --- Main App Component ---
 
-  const renderJournal = () => (
-    <div className={`min-h-screen flex flex-col pb-24 ${theme === 'dark' ? 'bg-black text-white' : 'bg-slate-50 text-slate-900'} animate-fade-in`}>
-       {/* App Header */}
-       <div className={`sticky top-0 z-20 px-4 pt-4 pb-2 flex flex-col gap-4 border-b ${theme === 'dark' ? 'bg-black/80 border-white/10' : 'bg-white/90 border-slate-200'} backdrop-blur-md`}>
-          <div className="flex items-center justify-between">
-             <div className="flex items-center gap-3">
-               <button onClick={() => setActiveApp('home')}><ArrowLeft className="w-6 h-6" /></button>
-               <h1 className="text-xl font-bold">Memory Bank</h1>
-             </div>
-             <button onClick={() => setIsModalOpen(true)} className={`p-2 rounded-full ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100'}`}>
-                <Plus className="w-5 h-5" />
-             </button>
-          </div>
-          
-          {/* Search Bar */}
-          <div className={`relative flex items-center px-4 py-3 rounded-xl transition-colors ${theme === 'dark' ? 'bg-zinc-900 focus-within:bg-zinc-800' : 'bg-slate-100 focus-within:bg-white border border-transparent focus-within:border-slate-200 shadow-sm'}`}>
-             <Search className="w-4 h-4 opacity-40 mr-3" />
-             <input 
-                type="text"
-                placeholder="Search memories..."
-                value={journalSearchQuery}
-                onChange={(e) => setJournalSearchQuery(e.target.value)}
-                className="bg-transparent w-full outline-none text-sm placeholder:opacity-50 font-medium"
-             />
-             {journalSearchQuery && (
-                <button onClick={() => setJournalSearchQuery('')} className="p-1"><X className="w-4 h-4 opacity-50 hover:opacity-100" /></button>
-             )}
-          </div>
-       </div>
+const App: React.FC = () => {
+  const shell = useShellState();
+  const {
+    memory, activeApp, isModalOpen, setIsModalOpen, editingMemory, setEditingMemory, memoryDraft, setMemoryDraft, proposalBeingEdited,
+    setProposalBeingEdited, historyTarget, setHistoryTarget, pendingDeletion, theme, storageNotice, setStorageNotice, isLocked,
+    isShadeOpen, notificationBanner, setNotificationBanner, journalCategories, openApp, goHome, unlockApp, saveMemory, handleUndoDelete,
+    linkOptions, historyItem, openNotification
+  } = shell;
+
+  // Every app's screen comes from the registry
+  const renderApp = () => {
+    const View = findApp(activeApp)?.view;
+    return View && <View theme={theme} onClose={goHome} openApp={openApp} />;
+  };
 
-       {/* Category Tabs */}
-       <div className="px-4 py-4 flex gap-2 overflow-x-auto no-scrollbar shrink-0">
-          {(['all', 'struggles', 'development', 'mindset'] as const).map(cat => (
-             <button
-               key={cat}
-               onClick={() => setJournalFilter(cat)}
-               className={`px-5 py-2 rounded-full text-sm font-medium transition-all border capitalize ${
-                 journalFilter === cat 
-                   ? (theme === 'dark' ? 'bg-white text-black border-white' : 'bg-slate-900 text-white border-slate-900')
-                   : (theme === 'dark' ? 'bg-zinc-900 text-zinc-400 border-zinc-800' : 'bg-white text-slate-600 border-slate-200')
-               }`}
-             >
-               {cat}
-             </button>
-          ))}
-       </div>
+  if (isLocked) return <LockScreen theme={theme} onUnlock={unlockApp} />;
 
-       <div className="flex-1 px-4 space-y-4 overflow-y-auto">
-         {(['development', 'mindset', 'struggles'] as const)
-            .filter(cat => journalFilter === 'all' || journalFilter === cat)
-            .map(cat => {
-              // Filtering Logic: Check both description and details
-              const filteredItems = memory[cat].filter(item => {
-                 if (!journalSearchQuery) return true;
-                 const q = journalSearchQuery.toLowerCase();
-                 const inDesc = item.value.description.toLowerCase().includes(q);
-                 const inDetails = item.value.details?.some(d => d.toLowerCase().includes(q));
-                 return inDesc || inDetails;
-              });
-              
-              if (filteredItems.length === 0) {
-                  // Only show "No records" if we aren't searching, or if searching reveals nothing for a specific filtered tab
-                  if (journalSearchQuery && journalFilter !== 'all' && journalFilter === cat) {
-                      return <div key={cat} className="p-4 text-center text-sm opacity-50">No matches in {cat}.</div>;
-                  }
-                  if (memory[cat].length === 0) return null; // Don't show header if empty natively
-                  return null; 
-              }
-
-              return (
-               <div key={cat} className="space-y-3">
-                  {(journalFilter === 'all' || journalSearchQuery) && <h3 className="capitalize text-xs font-bold opacity-40 ml-1 mt-2">{cat}</h3>}
-                  {filteredItems.map(item => (
-                    <MemoryCard key={item.id} item={item} category={cat} />
-                  ))}
-               </div>
-              );
-         })}
-         
-         {/* Global Empty State for Search */}
-         {journalSearchQuery && (
-             ['development', 'mindset', 'struggles'].every(cat => 
-                 memory[cat as Category].filter(item => 
-                     item.value.description.toLowerCase().includes(journalSearchQuery.toLowerCase()) || 
-                     item.value.details?.some(d => d.toLowerCase().includes(journalSearchQuery.toLowerCase()))
-                 ).length === 0
-             )
-         ) && (
-             <div className="flex flex-col items-center justify-center pt-10 opacity-50">
-                 <Search className="w-12 h-12 mb-2" />
-                 <p>No memories found for "{journalSearchQuery}"</p>
-             </div>
-         )}
-       </div>
-    </div>
-  );
+  return (
+    <ShellContext.Provider value={shell}>
+      <div className={`min-h-screen font-sans transition-colors duration-300 ${theme === 'dark' ? 'bg-black text-white' : 'bg-[#f8fafc] text-slate-900'}`}>
+        <AppStates>
+          <main>
+            {activeApp === 'home' ? <HomeScreen /> : renderApp()}
+            {OVERLAYS.map((Overlay, index) => <Overlay key={index} theme={theme} />)}
+          </main>
+        </AppStates>
+
+        <MemoryEntryModal 
+          isOpen={isModalOpen} 
+          editing={editingMemory}
+          draft={memoryDraft}
+          onClose={() => { setIsModalOpen(false); setEditingMemory(null); setMemoryDraft(null); setProposalBeingEdited(null); }} 
+          linkOptions={linkOptions}
+          categories={journalCategories}
+          onSave={(c, value) => {
+              const updated = editingMemory
+                ? updateMemoryItem(memory, editingMemory.category, editingMemory.item.id, value)
+                : addMemoryItem(memory, c, createMemoryItem(value));
+              saveMemory(applyResolutions(updated, value));
+              proposalBeingEdited?.onAccepted();
+          }} 
+        />
+
+        <RevisionHistoryModal
+          item={historyItem}
+          onClose={() => setHistoryTarget(null)}
+          onRestore={(idx) => {
+              if (!historyTarget) return;
+              saveMemory(restoreMemoryRevision(memory, historyTarget.category, historyTarget.id, idx));
+          }}
+        />
+
+        {/* Storage Notice */}
+        {storageNotice && (
+          <div className="fixed top-4 left-4 right-4 z-[60] flex justify-center animate-fade-in">
+            <div className="flex items-start gap-3 max-w-md px-5 py-3 rounded-2xl shadow-2xl bg-amber-500 text-white">
+              <span className="text-sm leading-snug">{storageNotice}</span>
+              <button onClick={() => setStorageNotice(null)} className="p-0.5 shrink-0"><X className="w-4 h-4" /></button>
+            </div>
+          </div>
+        )}
 
-  const renderChat = () => (
-    <div className={`flex flex-col h-screen fixed inset-0 z-50 ${theme === 'dark' ? 'bg-black text-white' : 'bg-white text-slate-900'} animate-fade-in`}>
-      <div className={`p-4 flex items-center gap-3 border-b ${theme === 'dark' ? 'border-zinc-800' : 'border-slate-100'}`}>
-        <button onClick={() => setActiveApp('home')}><ArrowLeft className="w-6 h-6" /></button>
-        <div className="flex flex-col">
-           <h2 className="font-bold leading-none">Lucy</h2>
-           <span className="text-[10px] text-brand-500 font-medium leading-tight flex items-center gap-1 mt-1">
-             <span className="w-1.5 h-1.5 bg-brand-500 rounded-full animate-pulse"></span> Online
-           </span>
-        </div>
-      </div>
+        {/* Reminder Banner */}
+        {notificationBanner && !isShadeOpen && (
+          <div className="fixed top-4 left-4 right-4 z-[55] flex justify-center animate-fade-in">
+            <div className={`flex items-start gap-3 w-full max-w-md px-5 py-3 rounded-2xl shadow-2xl ${theme === 'dark' ? 'bg-zinc-800 text-white' : 'bg-white text-slate-900'}`}>
+              <Bell className="w-5 h-5 text-violet-500 shrink-0 mt-0.5" />
+              <button onClick={() => openNotification(notificationBanner)} className="flex-1 text-left text-sm leading-snug">
+                {notificationBanner.title}
+              </button>
+              <button onClick={() => setNotificationBanner(null)} className="p-0.5 shrink-0 opacity-60"><X className="w-4 h-4" /></button>
+            </div>
+          </div>
+        )}
 
-      <div className={`flex-1 overflow-y-auto p-4 space-y-6 ${theme === 'dark' ? 'bg-zinc-900/20' : 'bg-slate-50/50'}`}>
-        {chatMessages.map((msg) => (
-          <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-            <div className={`max-w-[85%] rounded-[1.2rem] px-5 py-3 text-[15px] leading-relaxed ${
-                msg.role === 'user' 
-                  ? 'bg-brand-600 text-white rounded-br-sm' 
-                  : (theme === 'dark' ? 'bg-zinc-800 text-zinc-200' : 'bg-white text-slate-800 border border-slate-100') + ' rounded-bl-sm'
-              }`}>
-              <p className="whitespace-pre-wrap">{msg.text}</p>
+        {/* Undo Toast */}
+        {pendingDeletion && (
+          <div className="fixed bottom-28 left-4 right-4 z-50 flex justify-center animate-fade-in-up">
+            <div className={`flex items-center gap-4 px-5 py-3 rounded-2xl shadow-2xl ${theme === 'dark' ? 'bg-zinc-800 text-white' : 'bg-slate-900 text-white'}`}>
+              <span className="text-sm">Memory deleted</span>
+              <button onClick={handleUndoDelete} className="flex items-center gap-1 text-sm font-semibold text-brand-400">
+                <Undo className="w-4 h-4" /> Undo
+              </button>
             </div>
           </div>
-        ))}
-        <div ref={chatEndRef} />
-      </div>
-      
-      <div className={`p-3 pb-8 md:pb-4 border-t ${theme === 'dark' ? 'border-zinc-800 bg-black' : 'border-slate-100 bg-white'}`}>
-        <div className={`relative flex items-center gap-2 rounded-full p-1 pl-4 ${theme === 'dark' ? 'bg-zinc-900' : 'bg-slate-100'}`}>
-          <input 
-            type="text" 
-            className="w-full bg-transparent border-none focus:ring-0 placeholder:opacity-40 py-2.5 outline-none"
-            placeholder="Message Lucy..."
-            value={inputMessage}
-            onChange={(e) => setInputMessage(e.target.value)}
-            onKeyDown={(e) => e.key === 'Enter' && handleSendMessage()}
-            autoFocus
-          />
-          <button 
-            onClick={handleSendMessage}
-            className="p-2 bg-brand-600 text-white rounded-full active:scale-90 transition-transform"
-          >
-            <Send className="w-5 h-5" />
-          </button>
-        </div>
+        )}
       </div>
-    </div>
-  );
-
-  return (
-    <div className={`min-h-screen font-sans transition-colors duration-300 ${theme === 'dark' ? 'bg-black text-white' : 'bg-[#f8fafc] text-slate-900'}`}>
-      <main>
-        {activeApp === 'home' && renderHome()}
-        {activeApp === 'journal' && renderJournal()}
-        {activeApp === 'chat' && renderChat()}
-        {activeApp === 'settings' && renderSettings()}
-        {activeApp === 'live' && renderLiveApp()}
-        {activeApp === 'phone' && renderSimpleApp("Phone", Phone, "bg-green-500")}
-        {activeApp === 'messages' && renderSimpleApp("Messages", MessageSquare, "bg-blue-500")}
-      </main>
-
-      <MemoryEntryModal 
-        isOpen={isModalOpen} 
-        onClose={() => setIsModalOpen(false)} 
-        onSave={(c, d, det) => {
-            const newItem: MemoryItem = { id: crypto.randomUUID(), timestamp: new Date().toISOString(), value: { description: d, details: det } };
-            const updated = { ...memory, [c]: [newItem, ...memory[c]] };
-            setMemory(updated);
-            localStorage.setItem('lucy_memory', JSON.stringify(updated));
-        }} 
-      />
-    </div>
+    </ShellContext.Provider>
   );
 };
 
-export default App;
\ No newline at end of file
+export default App;
@@ -0,0 +1,14 @@
+import React from 'react';
+import { Theme } from '../types';
+import { Check } from './Icons';
+
+// The tick box used for goal steps; the row around it handles the click
+const Checkbox: React.FC<{ checked: boolean; theme: Theme }> = ({ checked, theme }) => (
+  <span className={`w-5 h-5 rounded-md border flex items-center justify-center shrink-0 ${
+    checked ? 'bg-lime-600 border-lime-600 text-white' : (theme === 'dark' ? 'border-zinc-600' : 'border-slate-300')
+  }`}>
+    {checked && <Check className="w-3.5 h-3.5" />}
+  </span>
+);
+
+export default Checkbox;
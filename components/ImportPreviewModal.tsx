@@ -0,0 +1,124 @@
+import React, { useState, useEffect } from 'react';
+import { Category, CategoryDefinition } from '../types';
+import { ImportPreview, ImportMode } from '../services/transferService';
+import { findCategory } from '../services/categoryService';
+import { Upload } from './Icons';
+
+interface Props {
+  preview: ImportPreview | null;
+  categories: CategoryDefinition[];
+  onCancel: () => void;
+  onConfirm: (modes: Record<Category, ImportMode>, restoreChat: boolean) => void;
+}
+
+const SOURCE_LABELS: Record<ImportPreview['source'], string> = {
+  'lucy-backup': 'Lucy OS backup',
+  'lucy-store': 'Lucy OS memory data',
+  'python': 'Python script memory'
+};
+
+const MODE_LABELS: Record<ImportMode, string> = {
+  merge: 'Merge',
+  replace: 'Replace',
+  skip: 'Skip'
+};
+
+const ImportPreviewModal: React.FC<Props> = ({ preview, categories, onCancel, onConfirm }) => {
+  const [modes, setModes] = useState<Record<Category, ImportMode>>({});
+  const [restoreChat, setRestoreChat] = useState(false);
+
+  // Reset choices for every new file; empty categories default to skip
+  useEffect(() => {
+    if (!preview) return;
+    const initial = {} as Record<Category, ImportMode>;
+    Object.keys(preview.categories).forEach(cat => {
+      initial[cat] = preview.categories[cat].incoming.length ? 'merge' : 'skip';
+    });
+    setModes(initial);
+    setRestoreChat(false);
+  }, [preview]);
+
+  if (!preview) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg overflow-hidden animate-fade-in-up">
+        <div className="bg-brand-50 p-6 border-b border-brand-100">
+          <h2 className="text-xl font-semibold text-brand-900 flex items-center gap-2">
+            <Upload className="w-5 h-5" /> Import Preview
+          </h2>
+          <p className="text-sm text-brand-600">{SOURCE_LABELS[preview.source]}. Nothing changes until you confirm.</p>
+        </div>
+
+        <div className="p-6 space-y-4 max-h-[60vh] overflow-y-auto">
+          {Object.keys(preview.categories).map(cat => {
+            const info = preview.categories[cat];
+            // Categories this device doesn't have yet are named as in the backup
+            const name = findCategory([...categories, ...preview.definitions], cat).name;
+            return (
+              <div key={cat} className="p-4 rounded-xl border border-slate-200">
+                <div className="flex items-center justify-between mb-3">
+                  <span className="font-semibold text-slate-800">{name}</span>
+                  <span className="text-xs text-slate-500">
+                    {info.incoming.length} in file · {info.fresh.length} new · {info.duplicates.length} duplicate
+                  </span>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  {(Object.keys(MODE_LABELS) as ImportMode[]).map(mode => (
+                    <button
+                      key={mode}
+                      type="button"
+                      disabled={mode !== 'skip' && info.incoming.length === 0}
+                      onClick={() => setModes(m => ({ ...m, [cat]: mode }))}
+                      className={`py-1.5 rounded-lg text-sm font-medium transition-all disabled:opacity-30 ${
+                        modes[cat] === mode ? 'bg-brand-600 text-white shadow-md' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                      }`}
+                    >
+                      {MODE_LABELS[mode]}
+                    </button>
+                  ))}
+                </div>
+                {modes[cat] === 'replace' && info.existingCount > 0 && (
+                  <p className="text-xs text-red-500 mt-2">Replaces your {info.existingCount} current {name} entries.</p>
+                )}
+                {modes[cat] === 'merge' && info.duplicates.length > 0 && (
+                  <p className="text-xs text-slate-400 mt-2">Duplicates are left out when merging.</p>
+                )}
+              </div>
+            );
+          })}
+
+          {preview.chat.length > 0 && (
+            <label className="flex items-center gap-3 p-4 rounded-xl border border-slate-200 cursor-pointer">
+              <input type="checkbox" checked={restoreChat} onChange={(e) => setRestoreChat(e.target.checked)} />
+              <span className="text-sm text-slate-700">Restore the {preview.chat.length} chat messages in this backup as a new conversation</span>
+            </label>
+          )}
+
+          {preview.dropped > 0 && (
+            <p className="text-xs text-amber-600">{preview.dropped} unreadable entries in the file will be ignored.</p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 pt-4 border-t border-slate-100">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => onConfirm(modes, restoreChat)}
+            className="px-6 py-2 bg-brand-600 text-white rounded-lg hover:bg-brand-700 shadow-lg shadow-brand-200 transition-all font-medium"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportPreviewModal;
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { Theme } from '../types';
+import { Lock } from './Icons';
+
+interface Props {
+  theme: Theme;
+  onUnlock: (passcode: string) => Promise<boolean>; // False for a wrong passcode
+}
+
+const LockScreen: React.FC<Props> = ({ theme, onUnlock }) => {
+  const [passcode, setPasscode] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passcode || isChecking) return;
+    setIsChecking(true);
+    setError(null);
+    try {
+      // Key derivation is deliberately slow, so the unlock can take a moment
+      if (!(await onUnlock(passcode))) {
+        setError("That passcode isn't right.");
+        setPasscode('');
+      }
+    } catch (err) {
+      console.error("Unlock failed", err);
+      setError("Lucy OS couldn't open your data. Try again.");
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className={`min-h-screen flex flex-col items-center justify-center px-8 ${theme === 'dark' ? 'bg-black text-white' : 'bg-slate-50 text-slate-900'}`}>
+      <div className="w-16 h-16 rounded-full bg-brand-600 flex items-center justify-center mb-6 shadow-lg shadow-brand-500/30">
+        <Lock className="w-8 h-8 text-white" />
+      </div>
+      <h1 className="text-2xl font-bold mb-1">Lucy OS is locked</h1>
+      <p className="text-sm opacity-60 mb-8">Enter your passcode to open your Memory Bank.</p>
+
+      <form onSubmit={submit} className="w-full max-w-xs space-y-3">
+        <input
+          type="password"
+          autoFocus
+          autoComplete="current-password"
+          value={passcode}
+          onChange={(e) => { setPasscode(e.target.value); setError(null); }}
+          placeholder="Passcode"
+          className={`w-full px-4 py-3 rounded-xl outline-none text-center text-lg tracking-widest ${theme === 'dark' ? 'bg-zinc-900' : 'bg-white border border-slate-200'}`}
+        />
+        {error && <p className="text-sm text-red-500 text-center">{error}</p>}
+        <button
+          type="submit"
+          disabled={!passcode || isChecking}
+          className="w-full py-3 rounded-xl bg-brand-600 text-white font-medium disabled:opacity-40"
+        >
+          {isChecking ? 'Unlocking...' : 'Unlock'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LockScreen;
@@ -0,0 +1,127 @@
+import React from 'react';
+import { MemoryItem, CategoryDefinition } from '../types';
+import { MOOD_LABELS } from '../services/journalService';
+import { highlightSegments } from '../services/searchService';
+import { CATEGORY_COLOR_CLASSES, CATEGORY_ICON_COMPONENTS } from './categoryStyles';
+import { Pencil, Trash2, History } from './Icons';
+
+interface Props {
+  item: MemoryItem;
+  category: CategoryDefinition;
+  links?: { id: string; label: string; description: string }[]; // Resolved both ways, e.g. "Resolved by" for backlinks
+  onEdit?: () => void;
+  onDelete?: () => void;
+  onShowHistory?: () => void;
+  onTagClick?: (tag: string) => void;
+  highlight?: string[]; // Search terms to mark in the text
+}
+
+const Highlighted: React.FC<{ text: string; terms: string[] }> = ({ text, terms }) => (
+  <>
+    {highlightSegments(text, terms).map((segment, idx) => segment.highlight
+      ? <mark key={idx} className="bg-yellow-200/80 text-inherit rounded-sm px-0.5">{segment.text}</mark>
+      : <React.Fragment key={idx}>{segment.text}</React.Fragment>
+    )}
+  </>
+);
+
+const MemoryCard: React.FC<Props> = ({ item, category, links = [], onEdit, onDelete, onShowHistory, onTagClick, highlight = [] }) => {
+  const Icon = CATEGORY_ICON_COMPONENTS[category.icon];
+  const colors = CATEGORY_COLOR_CLASSES[category.color];
+  const isStruggle = category.id === 'struggles';
+
+  const dateStr = new Date(item.timestamp).toLocaleDateString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric'
+  });
+
+  const revisionCount = item.revisions?.length || 0;
+  const { tags = [], mood, status } = item.value;
+
+  return (
+    <div className={`p-5 rounded-xl border transition-all duration-300 hover:shadow-md ${colors.card}`}>
+      <div className="flex justify-between items-start mb-3">
+        <div className="flex items-center gap-2">
+          <div className="p-2 bg-white rounded-lg shadow-sm">
+            <Icon className={`w-5 h-5 ${colors.text}`} />
+          </div>
+          <span className="text-xs font-semibold uppercase tracking-wider opacity-60 text-slate-900">
+            {category.name}
+          </span>
+        </div>
+        <div className="flex items-center gap-1">
+          <span className="text-xs text-slate-500 font-mono mr-1">{dateStr}</span>
+          {onShowHistory && revisionCount > 0 && (
+            <button onClick={onShowHistory} title="Revision history" className="flex items-center gap-1 p-1.5 rounded-lg text-slate-500 hover:bg-white/70">
+              <History className="w-4 h-4" />
+              <span className="text-[10px] font-semibold">{revisionCount}</span>
+            </button>
+          )}
+          {onEdit && (
+            <button onClick={onEdit} title="Edit" className="p-1.5 rounded-lg text-slate-500 hover:bg-white/70">
+              <Pencil className="w-4 h-4" />
+            </button>
+          )}
+          {onDelete && (
+            <button onClick={onDelete} title="Delete" className="p-1.5 rounded-lg text-red-400 hover:text-red-600 hover:bg-white/70">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+      
+      <h3 className="text-lg font-bold text-slate-800 mb-2 leading-tight">
+        <Highlighted text={item.value.description} terms={highlight} />
+      </h3>
+
+      {(isStruggle || mood) && (
+        <div className="flex flex-wrap gap-1.5 mb-2 text-[11px] font-semibold">
+          {isStruggle && (
+            <span className={`px-2 py-0.5 rounded-full ${status === 'resolved' ? 'bg-emerald-100 text-emerald-700' : 'bg-amber-100 text-amber-700'}`}>
+              {status === 'resolved' ? 'Resolved' : 'Active'}
+            </span>
+          )}
+          {mood && <span className="px-2 py-0.5 rounded-full bg-white/70 text-slate-600">Mood · {MOOD_LABELS[mood - 1]}</span>}
+        </div>
+      )}
+      
+      {item.value.details && item.value.details.length > 0 && (
+        <ul className="space-y-1 mt-3">
+          {item.value.details.map((detail, idx) => (
+            <li key={idx} className="flex items-start text-sm text-slate-700">
+              <span className="mr-2 mt-1.5 w-1 h-1 rounded-full bg-slate-400 shrink-0"></span>
+              <span className="opacity-90"><Highlighted text={detail} terms={highlight} /></span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {links.length > 0 && (
+        <ul className="mt-3 space-y-1 text-xs text-slate-600">
+          {links.map(link => (
+            <li key={`${link.label}-${link.id}`} className="truncate">
+              <span className="font-semibold">{link.label}:</span> {link.description}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 mt-3">
+          {tags.map(tag => (
+            <button
+              key={tag}
+              onClick={onTagClick ? () => onTagClick(tag) : undefined}
+              className="text-xs px-2 py-0.5 rounded-full bg-white/70 text-slate-600 hover:text-brand-700"
+            >
+              #<Highlighted text={tag} terms={highlight} />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MemoryCard;
@@ -0,0 +1,310 @@
+import React, { useState, useEffect } from 'react';
+import { Category, CategoryDefinition, MemoryItem, MemoryValue, MemoryLink, StruggleStatus } from '../types';
+import { normalizeTags } from '../services/validation';
+import { MOOD_LABELS } from '../services/journalService';
+import { Plus, Trash2, X } from './Icons';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: (category: Category, value: MemoryValue) => void;
+  editing?: { category: Category; item: MemoryItem } | null; // When set, the modal edits this item instead of creating one
+  draft?: { category: Category; description: string; details: string[] } | null; // Prefills a new entry
+  linkOptions?: { id: string; category: Category; description: string }[]; // Entries this one can be linked to
+  categories: CategoryDefinition[]; // The ones new entries can go in
+}
+
+const MemoryEntryModal: React.FC<Props> = ({ isOpen, onClose, onSave, editing, draft, linkOptions = [], categories }) => {
+  const [category, setCategory] = useState<Category>('development');
+  const [description, setDescription] = useState('');
+  const [detailInput, setDetailInput] = useState('');
+  const [details, setDetails] = useState<string[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [tagInput, setTagInput] = useState('');
+  const [mood, setMood] = useState<number | undefined>(undefined);
+  const [status, setStatus] = useState<StruggleStatus>('active');
+  const [links, setLinks] = useState<MemoryLink[]>([]);
+
+  // Load the item being edited, or the draft, each time the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+    if (editing) {
+      const { value } = editing.item;
+      setCategory(editing.category);
+      setDescription(value.description);
+      setDetails(value.details || []);
+      setDetailInput('');
+      setTags(value.tags || []);
+      setMood(value.mood);
+      setStatus(value.status || 'active');
+      setLinks(value.links || []);
+    } else if (draft) {
+      setCategory(draft.category);
+      setDescription(draft.description);
+      setDetails(draft.details);
+      setDetailInput('');
+    }
+    setTagInput('');
+  }, [isOpen, editing, draft]);
+
+  if (!isOpen) return null;
+
+  const handleAddDetail = () => {
+    if (detailInput.trim()) {
+      setDetails([...details, detailInput.trim()]);
+      setDetailInput('');
+    }
+  };
+
+  const handleRemoveDetail = (index: number) => {
+    setDetails(details.filter((_, i) => i !== index));
+  };
+
+  // Commas or Enter finish a tag
+  const handleAddTags = (text: string = tagInput) => {
+    const added = normalizeTags(text.split(','));
+    if (added.length) setTags(normalizeTags([...tags, ...added]));
+    setTagInput('');
+  };
+
+  const handleAddLink = (targetId: string) => {
+    if (!targetId || links.some(l => l.targetId === targetId)) return;
+    const target = linkOptions.find(o => o.id === targetId);
+    // A development or mindset entry pointing at a struggle most likely resolves it
+    setLinks([...links, { targetId, kind: target?.category === 'struggles' && category !== 'struggles' ? 'resolves' : 'related' }]);
+  };
+
+  const reset = () => {
+    setDescription('');
+    setDetails([]);
+    setDetailInput('');
+    setTags([]);
+    setTagInput('');
+    setMood(undefined);
+    setStatus('active');
+    setLinks([]);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!description.trim()) return;
+    const pendingTags = normalizeTags([...tags, ...tagInput.split(',')]);
+    const value: MemoryValue = { description, details };
+    if (pendingTags.length) value.tags = pendingTags;
+    if (mood) value.mood = mood;
+    if (category === 'struggles' && status === 'resolved') value.status = status;
+    if (links.length) value.links = links;
+    onSave(category, value);
+    reset();
+    onClose();
+  };
+
+  const handleCancel = () => {
+    // Don't leave the edited item's text behind for the next new entry
+    if (editing || draft) reset();
+    onClose();
+  };
+
+  const linkable = linkOptions.filter(o => o.id !== editing?.item.id && !links.some(l => l.targetId === o.id));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg overflow-hidden animate-fade-in-up">
+        <div className="bg-brand-50 p-6 border-b border-brand-100">
+          <h2 className="text-xl font-semibold text-brand-900">{editing ? 'Edit Memory Entry' : 'New Memory Entry'}</h2>
+          <p className="text-sm text-brand-600">
+            {editing ? 'The previous version is kept in the revision history.' : 'Record your journey for Lucy to remember.'}
+          </p>
+        </div>
+        
+        <form onSubmit={handleSubmit} className="p-6 space-y-4 max-h-[75vh] overflow-y-auto">
+          
+          {/* Category Selection */}
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Category</label>
+            <div className="grid grid-cols-3 gap-2">
+              {categories.map((cat) => (
+                <button
+                  key={cat.id}
+                  type="button"
+                  disabled={!!editing}
+                  onClick={() => setCategory(cat.id)}
+                  className={`py-2 px-3 rounded-lg text-sm font-medium transition-all truncate ${
+                    category === cat.id
+                      ? 'bg-brand-600 text-white shadow-md'
+                      : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+                  } disabled:cursor-not-allowed ${editing && category !== cat.id ? 'opacity-40' : ''}`}
+                >
+                  {cat.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Description */}
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Main Description</label>
+            <input
+              type="text"
+              required
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="e.g., Expanded poultry farm operations..."
+              className="w-full px-4 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-brand-500 focus:border-brand-500 outline-none transition-all"
+            />
+          </div>
+
+          {/* Details List */}
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Details / Examples</label>
+            <div className="flex gap-2 mb-2">
+              <input
+                type="text"
+                value={detailInput}
+                onChange={(e) => setDetailInput(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && (e.preventDefault(), handleAddDetail())}
+                placeholder="Add a specific detail..."
+                className="flex-1 px-4 py-2 rounded-lg border border-slate-300 focus:ring-2 focus:ring-brand-500 outline-none"
+              />
+              <button
+                type="button"
+                onClick={handleAddDetail}
+                className="bg-slate-800 text-white p-2 rounded-lg hover:bg-slate-900 transition-colors"
+              >
+                <Plus className="w-5 h-5" />
+              </button>
+            </div>
+            
+            <ul className="space-y-2 max-h-32 overflow-y-auto">
+              {details.map((detail, idx) => (
+                <li key={idx} className="flex items-center justify-between bg-slate-50 px-3 py-2 rounded text-sm text-slate-700 border border-slate-100">
+                  <span>{detail}</span>
+                  <button type="button" onClick={() => handleRemoveDetail(idx)} className="text-red-400 hover:text-red-600">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+              {details.length === 0 && (
+                <li className="text-xs text-slate-400 italic">No details added yet.</li>
+              )}
+            </ul>
+          </div>
+
+          {/* Tags */}
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Tags</label>
+            <div className="flex flex-wrap items-center gap-1.5 px-3 py-2 rounded-lg border border-slate-300 focus-within:ring-2 focus-within:ring-brand-500">
+              {tags.map(tag => (
+                <span key={tag} className="flex items-center gap-1 text-xs bg-brand-50 text-brand-700 px-2 py-1 rounded-full">
+                  #{tag}
+                  <button type="button" onClick={() => setTags(tags.filter(t => t !== tag))}><X className="w-3 h-3" /></button>
+                </span>
+              ))}
+              <input
+                type="text"
+                value={tagInput}
+                onChange={(e) => (e.target.value.includes(',') ? handleAddTags(e.target.value) : setTagInput(e.target.value))}
+                onKeyDown={(e) => e.key === 'Enter' && (e.preventDefault(), handleAddTags())}
+                onBlur={() => handleAddTags()}
+                placeholder={tags.length ? '' : 'work, health, family...'}
+                className="flex-1 min-w-[6rem] text-sm outline-none"
+              />
+            </div>
+          </div>
+
+          {/* Mood */}
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">Mood <span className="font-normal text-slate-400">(optional)</span></label>
+            <div className="grid grid-cols-5 gap-1.5">
+              {MOOD_LABELS.map((label, idx) => (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() => setMood(mood === idx + 1 ? undefined : idx + 1)}
+                  className={`py-1.5 rounded-lg text-xs font-medium transition-all ${mood === idx + 1 ? 'bg-brand-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Status */}
+          {category === 'struggles' && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Status</label>
+              <div className="grid grid-cols-2 gap-2">
+                {(['active', 'resolved'] as StruggleStatus[]).map(s => (
+                  <button
+                    key={s}
+                    type="button"
+                    onClick={() => setStatus(s)}
+                    className={`py-1.5 rounded-lg text-sm font-medium capitalize transition-all ${status === s ? 'bg-brand-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                  >
+                    {s}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Links */}
+          {(linkable.length > 0 || links.length > 0) && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">Linked entries</label>
+              <ul className="space-y-2 mb-2">
+                {links.map(link => {
+                  const target = linkOptions.find(o => o.id === link.targetId);
+                  return (
+                    <li key={link.targetId} className="flex items-center gap-2 bg-slate-50 px-3 py-2 rounded text-sm text-slate-700 border border-slate-100">
+                      <select
+                        value={link.kind}
+                        onChange={(e) => setLinks(links.map(l => (l.targetId === link.targetId ? { ...l, kind: e.target.value as MemoryLink['kind'] } : l)))}
+                        className="text-xs bg-transparent outline-none font-medium text-brand-700"
+                      >
+                        <option value="resolves" disabled={target?.category !== 'struggles'}>Resolves</option>
+                        <option value="related">Related to</option>
+                      </select>
+                      <span className="flex-1 truncate">{target?.description || 'Deleted entry'}</span>
+                      <button type="button" onClick={() => setLinks(links.filter(l => l.targetId !== link.targetId))} className="text-red-400 hover:text-red-600">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+              {linkable.length > 0 && (
+                <select
+                  value=""
+                  onChange={(e) => handleAddLink(e.target.value)}
+                  className="w-full px-3 py-2 rounded-lg border border-slate-300 text-sm text-slate-600 outline-none"
+                >
+                  <option value="">Link to another entry...</option>
+                  {linkable.map(o => <option key={o.id} value={o.id}>{categories.find(c => c.id === o.category)?.name || o.category}: {o.description}</option>)}
+                </select>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3 pt-4 border-t border-slate-100">
+            <button
+              type="button"
+              onClick={handleCancel}
+              className="px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-6 py-2 bg-brand-600 text-white rounded-lg hover:bg-brand-700 shadow-lg shadow-brand-200 transition-all font-medium"
+            >
+              {editing ? 'Save Changes' : 'Save Memory'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default MemoryEntryModal;
@@ -0,0 +1,76 @@
+import React from 'react';
+import { MemoryProposal } from '../types';
+import { Check, Pencil, X, Sparkles } from './Icons';
+
+interface Props {
+  proposal: MemoryProposal;
+  theme: 'light' | 'dark';
+  categoryName: string; // As named in the category registry
+  targetMissing?: boolean; // The entry an add_detail proposal points at has since been deleted
+  onAccept: () => void;
+  onEdit: () => void;
+  onReject: () => void;
+}
+
+const MemoryProposalCard: React.FC<Props> = ({ proposal, theme, categoryName, targetMissing, onAccept, onEdit, onReject }) => {
+  const isPending = proposal.status === 'pending';
+
+  return (
+    <div className={`mt-3 rounded-2xl border p-4 text-sm ${theme === 'dark' ? 'border-zinc-700 bg-zinc-900' : 'border-slate-200 bg-slate-50'}`}>
+      <div className="flex items-center gap-2 mb-2">
+        <Sparkles className="w-4 h-4 text-brand-500" />
+        <span className="text-xs font-semibold uppercase tracking-wider opacity-60">
+          {proposal.kind === 'add_item' ? 'New memory' : 'Add to memory'} · {categoryName}
+        </span>
+      </div>
+
+      {proposal.kind === 'add_item' ? (
+        <p className="font-semibold">{proposal.description}</p>
+      ) : (
+        <p className="opacity-60 text-xs mb-1">{proposal.description}</p>
+      )}
+      {proposal.details.length > 0 && (
+        <ul className="mt-1 space-y-1">
+          {proposal.details.map((detail, idx) => (
+            <li key={idx} className="flex items-start">
+              <span className="mr-2 mt-2 w-1 h-1 rounded-full bg-current opacity-50 shrink-0"></span>
+              <span>{detail}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {isPending && targetMissing && (
+        <p className="text-xs text-amber-500 mt-2">That entry no longer exists.</p>
+      )}
+
+      {isPending ? (
+        <div className="flex gap-2 mt-3">
+          <button
+            onClick={onAccept}
+            disabled={targetMissing}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-full bg-brand-600 text-white font-medium disabled:opacity-40"
+          >
+            <Check className="w-4 h-4" /> Accept
+          </button>
+          <button
+            onClick={onEdit}
+            disabled={targetMissing}
+            className={`flex items-center gap-1 px-3 py-1.5 rounded-full font-medium disabled:opacity-40 ${theme === 'dark' ? 'bg-zinc-800' : 'bg-white border border-slate-200'}`}
+          >
+            <Pencil className="w-4 h-4" /> Edit
+          </button>
+          <button onClick={onReject} className="flex items-center gap-1 px-3 py-1.5 rounded-full font-medium text-red-500">
+            <X className="w-4 h-4" /> Reject
+          </button>
+        </div>
+      ) : (
+        <p className={`text-xs font-semibold mt-3 ${proposal.status === 'accepted' ? 'text-brand-500' : 'opacity-50'}`}>
+          {proposal.status === 'accepted' ? 'Saved to Memory Bank' : 'Rejected'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default MemoryProposalCard;
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { PasscodeRecord } from '../types';
+import { createPasscode, unlockWithPasscode, MIN_PASSCODE_LENGTH } from '../services/privacyService';
+import { Lock, X } from './Icons';
+
+export type PasscodeAction = 'set' | 'change' | 'remove';
+
+interface Props {
+  action: PasscodeAction | null;
+  current: PasscodeRecord | null;
+  onClose: () => void;
+  // The new passcode and its key, or null when the passcode is being removed
+  onDone: (next: { record: PasscodeRecord; key: CryptoKey } | null) => Promise<void>;
+}
+
+const TITLES: Record<PasscodeAction, string> = {
+  set: 'Set a passcode',
+  change: 'Change passcode',
+  remove: 'Remove passcode'
+};
+
+const PasscodeModal: React.FC<Props> = ({ action, current, onClose, onDone }) => {
+  const [currentPasscode, setCurrentPasscode] = useState('');
+  const [passcode, setPasscode] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  if (!action) return null;
+
+  const needsCurrent = action !== 'set';
+  const needsNew = action !== 'remove';
+
+  const close = () => {
+    setCurrentPasscode('');
+    setPasscode('');
+    setConfirmation('');
+    setError(null);
+    onClose();
+  };
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (needsNew && passcode.length < MIN_PASSCODE_LENGTH) {
+      setError(`Use at least ${MIN_PASSCODE_LENGTH} characters.`);
+      return;
+    }
+    if (needsNew && passcode !== confirmation) {
+      setError("The passcodes don't match.");
+      return;
+    }
+
+    setIsWorking(true);
+    setError(null);
+    try {
+      if (needsCurrent && (!current || !(await unlockWithPasscode(currentPasscode, current)))) {
+        setError("Your current passcode isn't right.");
+        return;
+      }
+      await onDone(needsNew ? await createPasscode(passcode) : null);
+      close();
+    } catch (err) {
+      console.error("Passcode change failed", err);
+      setError("Your data couldn't be re-encrypted. Nothing was changed.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const inputClass = 'w-full mt-1 px-4 py-2 rounded-xl outline-none text-sm bg-slate-100 focus:bg-white border border-transparent focus:border-slate-200';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 backdrop-blur-sm p-4">
+      <form onSubmit={submit} className="bg-white rounded-2xl shadow-xl w-full max-w-sm overflow-hidden animate-fade-in-up text-slate-900">
+        <div className="bg-brand-50 p-6 border-b border-brand-100 flex items-start justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-brand-900 flex items-center gap-2">
+              <Lock className="w-5 h-5" /> {TITLES[action]}
+            </h2>
+            <p className="text-sm text-brand-600">
+              {action === 'remove'
+                ? 'Your Memory Bank and chats will be stored unencrypted again.'
+                : "There's no way to recover a forgotten passcode. Keep a backup of your Memory Bank."}
+            </p>
+          </div>
+          <button type="button" onClick={close} className="p-1 text-brand-900 opacity-60 hover:opacity-100">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-3">
+          {needsCurrent && (
+            <label className="block">
+              <span className="text-xs opacity-60">Current passcode</span>
+              <input type="password" autoFocus autoComplete="current-password" value={currentPasscode} onChange={(e) => setCurrentPasscode(e.target.value)} className={inputClass} />
+            </label>
+          )}
+          {needsNew && (
+            <>
+              <label className="block">
+                <span className="text-xs opacity-60">New passcode</span>
+                <input type="password" autoFocus={!needsCurrent} autoComplete="new-password" value={passcode} onChange={(e) => setPasscode(e.target.value)} className={inputClass} />
+              </label>
+              <label className="block">
+                <span className="text-xs opacity-60">Repeat new passcode</span>
+                <input type="password" autoComplete="new-password" value={confirmation} onChange={(e) => setConfirmation(e.target.value)} className={inputClass} />
+              </label>
+            </>
+          )}
+          {error && <p className="text-sm text-red-500">{error}</p>}
+        </div>
+
+        <div className="p-6 pt-0 flex justify-end gap-2">
+          <button type="button" onClick={close} className="px-4 py-2 rounded-full text-sm font-medium text-slate-600">Cancel</button>
+          <button
+            type="submit"
+            disabled={isWorking}
+            className={`px-4 py-2 rounded-full text-sm font-medium text-white disabled:opacity-40 ${action === 'remove' ? 'bg-red-500' : 'bg-brand-600'}`}
+          >
+            {isWorking ? 'Saving...' : action === 'remove' ? 'Remove' : 'Save'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default PasscodeModal;
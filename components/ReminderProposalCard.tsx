@@ -0,0 +1,48 @@
+import React from 'react';
+import { ReminderProposal } from '../types';
+import { Bell, Check, X } from './Icons';
+import { RECURRENCE_LABELS, formatDueTime } from '../services/reminderService';
+
+interface Props {
+  proposal: ReminderProposal;
+  theme: 'light' | 'dark';
+  checkInOn?: string; // Description of the struggle a check-in follows up on
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+const ReminderProposalCard: React.FC<Props> = ({ proposal, theme, checkInOn, onAccept, onReject }) => {
+  const isPending = proposal.status === 'pending';
+
+  return (
+    <div className={`mt-3 rounded-2xl border p-4 text-sm ${theme === 'dark' ? 'border-zinc-700 bg-zinc-900' : 'border-slate-200 bg-slate-50'}`}>
+      <div className="flex items-center gap-2 mb-2">
+        <Bell className="w-4 h-4 text-violet-500" />
+        <span className="text-xs font-semibold uppercase tracking-wider opacity-60">
+          {proposal.memoryId ? 'Check-in' : 'Reminder'} · {formatDueTime(proposal.dueAt)}
+          {proposal.recurrence !== 'none' && ` · ${RECURRENCE_LABELS[proposal.recurrence].toLowerCase()}`}
+        </span>
+      </div>
+
+      <p className="font-semibold">{proposal.title}</p>
+      {checkInOn && <p className="opacity-60 text-xs mt-1">About: {checkInOn}</p>}
+
+      {isPending ? (
+        <div className="flex gap-2 mt-3">
+          <button onClick={onAccept} className="flex items-center gap-1 px-3 py-1.5 rounded-full bg-brand-600 text-white font-medium">
+            <Check className="w-4 h-4" /> Set reminder
+          </button>
+          <button onClick={onReject} className="flex items-center gap-1 px-3 py-1.5 rounded-full font-medium text-red-500">
+            <X className="w-4 h-4" /> Dismiss
+          </button>
+        </div>
+      ) : (
+        <p className={`text-xs font-semibold mt-3 ${proposal.status === 'accepted' ? 'text-brand-500' : 'opacity-50'}`}>
+          {proposal.status === 'accepted' ? 'Reminder set' : 'Dismissed'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ReminderProposalCard;
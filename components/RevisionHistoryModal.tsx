@@ -0,0 +1,84 @@
+import React from 'react';
+import { MemoryItem } from '../types';
+import { History, X } from './Icons';
+
+interface Props {
+  item: MemoryItem | null;
+  onClose: () => void;
+  onRestore: (revisionIndex: number) => void;
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString(undefined, {
+  year: 'numeric',
+  month: 'short',
+  day: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit'
+});
+
+const RevisionHistoryModal: React.FC<Props> = ({ item, onClose, onRestore }) => {
+  if (!item) return null;
+
+  const revisions = item.revisions || [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 backdrop-blur-sm p-4">
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg overflow-hidden animate-fade-in-up">
+        <div className="bg-brand-50 p-6 border-b border-brand-100 flex items-start justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-brand-900 flex items-center gap-2">
+              <History className="w-5 h-5" /> Revision History
+            </h2>
+            <p className="text-sm text-brand-600">Restoring a revision keeps the current version in history.</p>
+          </div>
+          <button onClick={onClose} className="p-1 text-brand-900 opacity-60 hover:opacity-100">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 max-h-[60vh] overflow-y-auto">
+          {/* Current */}
+          <div className="p-4 rounded-xl border border-brand-200 bg-brand-50/50">
+            <div className="flex justify-between items-center mb-2">
+              <span className="text-xs font-semibold uppercase tracking-wider text-brand-700">Current</span>
+              <span className="text-xs text-slate-500 font-mono">{formatDate(item.updatedAt || item.timestamp)}</span>
+            </div>
+            <p className="font-semibold text-slate-800">{item.value.description}</p>
+            {item.value.details.length > 0 && (
+              <ul className="mt-2 space-y-1 text-sm text-slate-600 list-disc pl-5">
+                {item.value.details.map((d, idx) => <li key={idx}>{d}</li>)}
+              </ul>
+            )}
+          </div>
+
+          {/* Newest revision first */}
+          {revisions.map((rev, idx) => ({ rev, idx })).reverse().map(({ rev, idx }) => (
+            <div key={idx} className="p-4 rounded-xl border border-slate-200">
+              <div className="flex justify-between items-center mb-2">
+                <span className="text-xs text-slate-500 font-mono">{formatDate(rev.timestamp)}</span>
+                <button
+                  onClick={() => onRestore(idx)}
+                  className="text-xs font-semibold px-3 py-1 rounded-full bg-slate-800 text-white hover:bg-slate-900 transition-colors"
+                >
+                  Restore
+                </button>
+              </div>
+              <p className="font-semibold text-slate-800">{rev.value.description}</p>
+              {rev.value.details.length > 0 && (
+                <ul className="mt-2 space-y-1 text-sm text-slate-600 list-disc pl-5">
+                  {rev.value.details.map((d, i) => <li key={i}>{d}</li>)}
+                </ul>
+              )}
+            </div>
+          ))}
+
+          {revisions.length === 0 && (
+            <p className="text-xs text-slate-400 italic text-center">This memory has not been edited.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RevisionHistoryModal;
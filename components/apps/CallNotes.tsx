@@ -0,0 +1,93 @@
+import React from 'react';
+import { ArrowLeft, Mic, Sparkles } from '../Icons';
+import MemoryProposalCard from '../MemoryProposalCard';
+import { findCategory } from '../../services/categoryService';
+import { contactName } from '../../services/messageService';
+import { formatCallDuration } from '../../services/callService';
+import { OverlayViewProps } from './types';
+import { useShell } from './ShellContext';
+import { usePhone } from './phoneState';
+
+// Notes on the call that just ended, and Lucy's suggestions from them
+const CallNotes: React.FC<OverlayViewProps> = ({ theme }) => {
+  const { categories, contacts, browserPermissions } = useShell();
+  const {
+    callLog, notesCallId, callNotesDraft, setCallNotesDraft, callNotesPartial, isNotesDictating, isSuggestingFromNotes, callNotesError,
+    toggleNotesDictation, closeCallNotes, saveCallNotes, callProposals
+  } = usePhone();
+  const call = callLog.find(c => c.id === notesCallId);
+  if (!call) return null;
+  const name = contactName(contacts, call.address);
+  const actions = callProposals(call.id);
+
+  return (
+    <div className={`fixed inset-0 z-50 flex flex-col animate-fade-in ${theme === 'dark' ? 'bg-black text-white' : 'bg-white text-slate-900'}`}>
+      <div className={`p-4 flex items-center gap-3 border-b ${theme === 'dark' ? 'border-zinc-800' : 'border-slate-100'}`}>
+        <button onClick={closeCallNotes}><ArrowLeft className="w-6 h-6" /></button>
+        <div className="flex flex-col flex-1 min-w-0">
+          <h2 className="font-bold leading-none truncate">Call notes · {name}</h2>
+          <span className="text-[10px] opacity-50 mt-1">
+            {new Date(call.startedAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })} · {formatCallDuration(call.durationSeconds)}
+          </span>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        <p className="text-sm opacity-60">What was the call about? Write or dictate a few lines. Lucy can suggest what to keep in your Memory Bank.</p>
+        <div className={`rounded-2xl p-3 ${theme === 'dark' ? 'bg-zinc-900' : 'bg-slate-50 border border-slate-100'}`}>
+          <textarea
+            autoFocus
+            rows={6}
+            value={callNotesDraft}
+            onChange={(e) => setCallNotesDraft(e.target.value)}
+            placeholder="We talked about..."
+            className="w-full bg-transparent outline-none resize-none text-[15px] leading-relaxed placeholder:opacity-40"
+          />
+          {callNotesPartial && <p className="text-sm opacity-50">{callNotesPartial}</p>}
+          <div className="flex justify-end">
+            <button
+              onClick={toggleNotesDictation}
+              disabled={browserPermissions.microphone === 'denied' || browserPermissions.microphone === 'unsupported'}
+              title={isNotesDictating ? 'Stop dictating' : 'Dictate notes'}
+              className={`p-2 rounded-full disabled:opacity-30 ${isNotesDictating ? 'bg-rose-500 text-white animate-pulse' : (theme === 'dark' ? 'bg-zinc-800' : 'bg-white border border-slate-200')}`}
+            >
+              <Mic className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {callNotesError && <p className="text-sm text-amber-500">{callNotesError}</p>}
+
+        {call.proposals?.map(proposal => (
+          <MemoryProposalCard
+            key={proposal.id}
+            proposal={proposal}
+            theme={theme}
+            categoryName={findCategory(categories, proposal.category).name}
+            onAccept={() => actions.accept(proposal)}
+            onEdit={() => actions.edit(proposal)}
+            onReject={() => actions.reject(proposal)}
+          />
+        ))}
+      </div>
+
+      <div className={`p-4 pb-8 md:pb-4 border-t flex gap-2 ${theme === 'dark' ? 'border-zinc-800' : 'border-slate-100'}`}>
+        <button
+          onClick={() => saveCallNotes(false)}
+          className={`flex-1 py-3 rounded-full text-sm font-medium ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100'}`}
+        >
+          {callNotesDraft.trim() ? 'Save' : 'Skip'}
+        </button>
+        <button
+          onClick={() => saveCallNotes(true)}
+          disabled={!callNotesDraft.trim() || isSuggestingFromNotes}
+          className="flex-1 py-3 rounded-full text-sm font-medium bg-brand-600 text-white flex items-center justify-center gap-1.5 disabled:opacity-40"
+        >
+          <Sparkles className="w-4 h-4" /> {isSuggestingFromNotes ? 'Lucy is reading...' : 'Save & ask Lucy'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CallNotes;
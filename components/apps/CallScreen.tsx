@@ -0,0 +1,33 @@
+import React from 'react';
+import { PhoneOff } from '../Icons';
+import { contactName } from '../../services/messageService';
+import { formatCallDuration } from '../../services/callService';
+import { OverlayViewProps } from './types';
+import { useShell } from './ShellContext';
+import { usePhone } from './phoneState';
+
+// The call in progress covers every screen until it ends
+const CallScreen: React.FC<OverlayViewProps> = () => {
+  const { contacts } = useShell();
+  const { dialer, activeCall, callElapsed, hangUp } = usePhone();
+  if (!activeCall) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col items-center justify-between py-24 bg-gradient-to-b from-slate-800 to-black text-white animate-fade-in">
+      <div className="flex flex-col items-center gap-3">
+        <div className="w-24 h-24 rounded-full bg-green-500/20 text-green-400 flex items-center justify-center text-4xl font-bold">
+          {contactName(contacts, activeCall.address).charAt(0).toUpperCase()}
+        </div>
+        <h2 className="text-3xl font-semibold">{contactName(contacts, activeCall.address)}</h2>
+        <p className="opacity-60">{activeCall.connected ? formatCallDuration(callElapsed) : 'Calling…'}</p>
+        {dialer.id === 'stub' && <p className="text-xs opacity-40 max-w-xs text-center">Simulated call. Browsers can't place phone calls.</p>}
+      </div>
+      <button onClick={hangUp} title="Hang up" className="w-20 h-20 rounded-full bg-red-500 flex items-center justify-center active:scale-90 transition-transform shadow-lg shadow-red-500/30">
+        <PhoneOff className="w-9 h-9" />
+      </button>
+    </div>
+  
+  );
+};
+
+export default CallScreen;
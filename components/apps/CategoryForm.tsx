@@ -0,0 +1,118 @@
+import React from 'react';
+import { CATEGORY_COLOR_CLASSES, CATEGORY_ICON_COMPONENTS } from '../categoryStyles';
+import { itemsIn } from '../../services/memoryService';
+import { isBuiltInCategory, findCategory } from '../../services/categoryService';
+import { CATEGORY_ICONS, CATEGORY_COLORS } from '../../services/validation';
+import { OverlayViewProps } from './types';
+import { useShell } from './ShellContext';
+import { useSettings } from './settingsState';
+
+const CategoryForm: React.FC<OverlayViewProps> = ({ theme }) => {
+  const { memory, categories } = useShell();
+  const { categoryForm, setCategoryForm, saveCategoryForm, archiveCategory, mergeCategoryInto } = useSettings();
+  if (!categoryForm) return null;
+  const editing = categoryForm.id ? findCategory(categories, categoryForm.id) : null;
+  const canRetire = !!editing && !isBuiltInCategory(editing.id);
+  const field = `w-full mt-1 px-4 py-2 rounded-xl outline-none text-sm ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100'}`;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black bg-opacity-50 backdrop-blur-sm p-4">
+      <div className={`rounded-2xl shadow-xl w-full max-w-sm p-6 space-y-3 max-h-[90vh] overflow-y-auto animate-fade-in-up ${theme === 'dark' ? 'bg-zinc-900 text-white' : 'bg-white text-slate-900'}`}>
+        <h2 className="text-lg font-semibold">{editing ? 'Edit category' : 'New category'}</h2>
+        <label className="block">
+          <span className="text-xs opacity-60">Name</span>
+          <input
+            value={categoryForm.name}
+            onChange={(e) => setCategoryForm({ ...categoryForm, name: e.target.value })}
+            placeholder="Health"
+            className={field}
+          />
+        </label>
+        <div>
+          <span className="text-xs opacity-60">Icon</span>
+          <div className="mt-1 grid grid-cols-5 gap-2">
+            {CATEGORY_ICONS.map(icon => {
+              const Icon = CATEGORY_ICON_COMPONENTS[icon];
+              const isSelected = categoryForm.icon === icon;
+              return (
+                <button
+                  key={icon}
+                  onClick={() => setCategoryForm({ ...categoryForm, icon })}
+                  title={icon}
+                  className={`h-10 rounded-xl flex items-center justify-center ${
+                    isSelected ? `${CATEGORY_COLOR_CLASSES[categoryForm.color].solid} text-white` : (theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100')
+                  }`}
+                >
+                  <Icon className="w-5 h-5" />
+                </button>
+              );
+            })}
+          </div>
+        </div>
+        <div>
+          <span className="text-xs opacity-60">Colour</span>
+          <div className="mt-1 flex flex-wrap gap-2">
+            {CATEGORY_COLORS.map(color => (
+              <button
+                key={color}
+                onClick={() => setCategoryForm({ ...categoryForm, color })}
+                title={color}
+                className={`w-8 h-8 rounded-full ${CATEGORY_COLOR_CLASSES[color].solid} ${categoryForm.color === color ? 'ring-2 ring-offset-2 ring-brand-500' : ''}`}
+              />
+            ))}
+          </div>
+        </div>
+        <label className="block">
+          <span className="text-xs opacity-60">What belongs here, for Lucy (optional)</span>
+          <textarea
+            value={categoryForm.hint}
+            onChange={(e) => setCategoryForm({ ...categoryForm, hint: e.target.value })}
+            rows={2}
+            placeholder="Sleep, exercise, appointments and how my body feels"
+            className={`${field} resize-none`}
+          />
+        </label>
+
+        {canRetire && (
+          <div className={`pt-3 border-t space-y-2 ${theme === 'dark' ? 'border-zinc-800' : 'border-slate-100'}`}>
+            <span className="text-xs opacity-60">Merge its {itemsIn(memory, editing.id).length} entries into another category</span>
+            <div className="flex gap-2">
+              <select
+                value={categoryForm.mergeInto}
+                onChange={(e) => setCategoryForm({ ...categoryForm, mergeInto: e.target.value })}
+                className={`${field} !mt-0 flex-1`}
+              >
+                <option value="">Choose a category...</option>
+                {categories.filter(c => c.id !== editing.id).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </select>
+              <button
+                onClick={() => mergeCategoryInto(editing.id, categoryForm.mergeInto)}
+                disabled={!categoryForm.mergeInto}
+                className="px-4 py-2 rounded-full text-sm font-medium text-red-500 disabled:opacity-40"
+              >
+                Merge
+              </button>
+            </div>
+            <button onClick={() => archiveCategory(editing)} className={`px-4 py-2 rounded-full text-sm font-medium ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100'}`}>
+              {editing.archived ? 'Restore from archive' : 'Archive'}
+            </button>
+            {!editing.archived && <p className="text-xs opacity-50">Archiving hides the category and its entries from the journal and from Lucy. Nothing is deleted.</p>}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <button onClick={() => setCategoryForm(null)} className="px-4 py-2 rounded-full text-sm font-medium opacity-70">Cancel</button>
+          <button
+            onClick={saveCategoryForm}
+            disabled={!categoryForm.name.trim()}
+            className="px-4 py-2 rounded-full text-sm font-medium text-white bg-brand-600 disabled:opacity-40"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CategoryForm;
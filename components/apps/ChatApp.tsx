@@ -0,0 +1,280 @@
+import React from 'react';
+import { Plus, Send, ArrowLeft, MessageSquare, Mic, Pencil, Trash2, Square, Volume, VolumeOff, Lock, LockOpen } from '../Icons';
+import MemoryProposalCard from '../MemoryProposalCard';
+import ReminderProposalCard from '../ReminderProposalCard';
+import { isSpeechSynthesisSupported } from '../../services/speech';
+import { findMemoryItem } from '../../services/memoryService';
+import { findCategory } from '../../services/categoryService';
+import { renameConversation, deleteConversation } from '../../services/conversationService';
+import { LucyStatus } from '../../services/connectivityService';
+import { AppViewProps } from './types';
+import { useShell } from './ShellContext';
+import { useChat } from './chatState';
+
+const LUCY_STATUS_STYLES: Record<LucyStatus, { label: string; text: string; dot: string }> = {
+  online: { label: 'Online', text: 'text-brand-500', dot: 'bg-brand-500 animate-pulse' },
+  degraded: { label: 'Connection unstable', text: 'text-amber-500', dot: 'bg-amber-500' },
+  offline: { label: 'Offline', text: 'text-slate-400', dot: 'bg-slate-400' }
+};
+
+const ChatApp: React.FC<AppViewProps> = ({ theme, onClose }) => {
+  const {
+    memory, categories, browserPermissions, voiceSettings, privacySettings, isPrivateShared, setIsPrivateShared, conversationStore,
+    setConversationStore, activeConversation, canReachModel, lucyConnection, updateVoiceSettings, canUse, requestPermission
+  } = useShell();
+  const {
+    isConversationListOpen, setIsConversationListOpen, renamingConversation, setRenamingConversation, inputMessage, setInputMessage,
+    isChatLoading, chatEndRef, outbox, isOutboxPaused, setIsOutboxPaused, isDictating, dictationPartial, dictationError,
+    chatMessages, startNewConversation, openConversation, handleSendMessage, handleStopReply, startDictation, stopDictation,
+    messageProposals, setReminderProposalStatus, acceptReminderProposal
+  } = useChat();
+
+  return (
+    <div className={`flex flex-col h-screen fixed inset-0 z-50 ${theme === 'dark' ? 'bg-black text-white' : 'bg-white text-slate-900'} animate-fade-in`}>
+      <div className={`p-4 flex items-center gap-3 border-b ${theme === 'dark' ? 'border-zinc-800' : 'border-slate-100'}`}>
+        <button onClick={onClose}><ArrowLeft className="w-6 h-6" /></button>
+        <div className="flex flex-col flex-1 min-w-0">
+           <h2 className="font-bold leading-none">Lucy</h2>
+           <span className={`text-[10px] font-medium leading-tight flex items-center gap-1 mt-1 ${LUCY_STATUS_STYLES[lucyConnection].text}`}>
+             <span className={`w-1.5 h-1.5 rounded-full ${LUCY_STATUS_STYLES[lucyConnection].dot}`}></span> {LUCY_STATUS_STYLES[lucyConnection].label}
+             {activeConversation && <span className="opacity-60 truncate">· {activeConversation.title}</span>}
+           </span>
+        </div>
+        {privacySettings.privateCategories.length > 0 && (
+          <button
+            onClick={() => setIsPrivateShared(shared => !shared)}
+            title={isPrivateShared
+              ? 'Private categories are shared with Lucy until the app locks. Tap to hide them again.'
+              : `Lucy can't see ${privacySettings.privateCategories.map(id => findCategory(categories, id).name).join(', ')}. Tap to share them for this session.`}
+            className={`p-2 rounded-full ${isPrivateShared ? 'bg-amber-500 text-white' : (theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100')}`}
+          >
+            {isPrivateShared ? <LockOpen className="w-5 h-5" /> : <Lock className="w-5 h-5" />}
+          </button>
+        )}
+        {isSpeechSynthesisSupported() && (
+          <button
+            onClick={() => updateVoiceSettings({ readReplies: !voiceSettings.readReplies })}
+            title={voiceSettings.readReplies ? 'Stop reading replies aloud' : 'Read replies aloud'}
+            className={`p-2 rounded-full ${voiceSettings.readReplies ? 'bg-brand-600 text-white' : (theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100')}`}
+          >
+            {voiceSettings.readReplies ? <Volume className="w-5 h-5" /> : <VolumeOff className="w-5 h-5" />}
+          </button>
+        )}
+        <button onClick={startNewConversation} title="New conversation" className={`p-2 rounded-full ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100'}`}>
+           <Plus className="w-5 h-5" />
+        </button>
+        <button onClick={() => setIsConversationListOpen(true)} title="Conversations" className={`p-2 rounded-full ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100'}`}>
+           <MessageSquare className="w-5 h-5" />
+        </button>
+      </div>
+
+      {/* Conversation List */}
+      {isConversationListOpen && (
+        <div className={`absolute inset-0 z-10 flex flex-col animate-fade-in ${theme === 'dark' ? 'bg-black' : 'bg-white'}`}>
+          <div className={`p-4 flex items-center gap-3 border-b ${theme === 'dark' ? 'border-zinc-800' : 'border-slate-100'}`}>
+            <button onClick={() => { setIsConversationListOpen(false); setRenamingConversation(null); }}><ArrowLeft className="w-6 h-6" /></button>
+            <h2 className="font-bold flex-1">Conversations</h2>
+            <button onClick={startNewConversation} className="flex items-center gap-1 px-3 py-1.5 rounded-full bg-brand-600 text-white text-sm font-medium">
+              <Plus className="w-4 h-4" /> New
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-4 space-y-2">
+            {conversationStore.conversations.map(conv => (
+              <div
+                key={conv.id}
+                onClick={() => renamingConversation?.id !== conv.id && openConversation(conv.id)}
+                className={`p-4 rounded-2xl flex items-center gap-3 cursor-pointer border transition-colors ${
+                  conv.id === conversationStore.activeId
+                    ? 'border-brand-500'
+                    : (theme === 'dark' ? 'border-zinc-800 bg-zinc-900' : 'border-slate-100 bg-slate-50')
+                }`}
+              >
+                <div className="flex-1 min-w-0">
+                  {renamingConversation?.id === conv.id ? (
+                    <input
+                      autoFocus
+                      value={renamingConversation.title}
+                      onClick={(e) => e.stopPropagation()}
+                      onChange={(e) => setRenamingConversation({ id: conv.id, title: e.target.value })}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          setConversationStore(s => renameConversation(s, conv.id, renamingConversation.title));
+                          setRenamingConversation(null);
+                        }
+                        if (e.key === 'Escape') setRenamingConversation(null);
+                      }}
+                      onBlur={() => {
+                        setConversationStore(s => renameConversation(s, conv.id, renamingConversation.title));
+                        setRenamingConversation(null);
+                      }}
+                      className="w-full bg-transparent outline-none font-medium border-b border-brand-500"
+                    />
+                  ) : (
+                    <div className="font-medium truncate">{conv.title}</div>
+                  )}
+                  <div className="text-xs opacity-50 mt-0.5">
+                    {new Date(conv.updatedAt).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })} · {conv.messages.length} messages
+                  </div>
+                </div>
+                <button
+                  onClick={(e) => { e.stopPropagation(); setRenamingConversation({ id: conv.id, title: conv.title }); }}
+                  className="p-1.5 rounded-lg opacity-50 hover:opacity-100"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); setConversationStore(s => deleteConversation(s, conv.id)); }}
+                  className="p-1.5 rounded-lg text-red-400 hover:text-red-600"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+
+            {conversationStore.conversations.length === 0 && (
+              <div className="flex flex-col items-center justify-center pt-10 opacity-50">
+                <MessageSquare className="w-12 h-12 mb-2" />
+                <p>No saved conversations yet.</p>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className={`flex-1 overflow-y-auto p-4 space-y-6 ${theme === 'dark' ? 'bg-zinc-900/20' : 'bg-slate-50/50'}`}>
+        {chatMessages.map((msg) => (
+          <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <div className={`max-w-[85%] rounded-[1.2rem] px-5 py-3 text-[15px] leading-relaxed ${
+                msg.role === 'user' 
+                  ? `bg-brand-600 text-white rounded-br-sm ${msg.status === 'queued' ? 'opacity-60' : ''}` 
+                  : (theme === 'dark' ? 'bg-zinc-800 text-zinc-200' : 'bg-white text-slate-800 border border-slate-100') + ' rounded-bl-sm'
+              }`}>
+              {msg.status === 'streaming' && !msg.text ? (
+                <div className="flex gap-1 py-2">
+                  <span className="w-2 h-2 rounded-full bg-current opacity-40 animate-bounce"></span>
+                  <span className="w-2 h-2 rounded-full bg-current opacity-40 animate-bounce [animation-delay:150ms]"></span>
+                  <span className="w-2 h-2 rounded-full bg-current opacity-40 animate-bounce [animation-delay:300ms]"></span>
+                </div>
+              ) : (
+                <p className="whitespace-pre-wrap">{msg.text}</p>
+              )}
+              {activeConversation && msg.proposals?.map(proposal => {
+                const actions = messageProposals(activeConversation.id, msg.id);
+                return (
+                  <MemoryProposalCard
+                    key={proposal.id}
+                    proposal={proposal}
+                    theme={theme}
+                    categoryName={findCategory(categories, proposal.category).name}
+                    targetMissing={proposal.kind === 'add_detail' && !findMemoryItem(memory, proposal.targetId || '')}
+                    onAccept={() => actions.accept(proposal)}
+                    onEdit={() => actions.edit(proposal)}
+                    onReject={() => actions.reject(proposal)}
+                  />
+                );
+              })}
+              {activeConversation && msg.reminders?.map(proposal => (
+                <ReminderProposalCard
+                  key={proposal.id}
+                  proposal={proposal}
+                  theme={theme}
+                  checkInOn={proposal.memoryId ? findMemoryItem(memory, proposal.memoryId)?.item.value.description : undefined}
+                  onAccept={() => acceptReminderProposal(activeConversation.id, msg.id, proposal)}
+                  onReject={() => setReminderProposalStatus(activeConversation.id, msg.id, proposal.id, 'rejected')}
+                />
+              ))}
+              {msg.citations && msg.citations.length > 0 && (
+                <div className={`mt-3 pt-2 border-t text-xs ${theme === 'dark' ? 'border-zinc-700' : 'border-slate-100'}`}>
+                  <span className="font-semibold uppercase tracking-wider opacity-50">Sources</span>
+                  <div className="flex flex-wrap gap-1.5 mt-1.5">
+                    {msg.citations.map(id => {
+                      const cited = findMemoryItem(memory, id);
+                      return (
+                        <span key={id} className={`px-2 py-1 rounded-full ${cited ? 'bg-brand-500/10 text-brand-500' : 'opacity-40 line-through'}`}>
+                          {cited ? cited.item.value.description.slice(0, 40) : 'Deleted memory'}
+                        </span>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+              {msg.status === 'queued' && <span className="block mt-1 text-[11px] opacity-80">Waiting to send</span>}
+              {msg.status === 'interrupted' && (
+                <span className="block mt-2 text-[11px] font-semibold uppercase tracking-wider text-amber-500">
+                  {msg.text ? 'Interrupted' : 'Stopped before replying'}
+                </span>
+              )}
+            </div>
+          </div>
+        ))}
+        <div ref={chatEndRef} />
+      </div>
+      
+      <div className={`p-3 pb-8 md:pb-4 border-t ${theme === 'dark' ? 'border-zinc-800 bg-black' : 'border-slate-100 bg-white'}`}>
+        {outbox.length > 0 && (
+          <div className="px-4 pb-2 flex items-center justify-between gap-2 text-xs">
+            <span className="opacity-60">
+              {outbox.length} {outbox.length === 1 ? 'message' : 'messages'} waiting for Lucy
+              {canReachModel ? '' : ". They'll be sent when you're back online."}
+            </span>
+            {canReachModel && isOutboxPaused && (
+              <button onClick={() => setIsOutboxPaused(false)} className="shrink-0 font-medium text-brand-500">Send now</button>
+            )}
+          </div>
+        )}
+        {(isDictating || dictationError) && (
+          <p className={`px-4 pb-2 text-xs ${dictationError ? 'text-amber-500' : 'opacity-60'}`}>
+            {dictationError || `Listening… ${dictationPartial}`}
+          </p>
+        )}
+        <div className={`relative flex items-center gap-2 rounded-full p-1 pl-4 ${theme === 'dark' ? 'bg-zinc-900' : 'bg-slate-100'}`}>
+          <input 
+            type="text" 
+            className="w-full bg-transparent border-none focus:ring-0 placeholder:opacity-40 py-2.5 outline-none"
+            placeholder="Message Lucy..."
+            value={inputMessage}
+            onChange={(e) => setInputMessage(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSendMessage()}
+            autoFocus
+          />
+          <button
+            onPointerDown={(e) => {
+              e.preventDefault();
+              if (canUse('chat', 'microphone')) startDictation();
+              else requestPermission('chat', 'microphone');
+            }}
+            onPointerUp={stopDictation}
+            onPointerLeave={stopDictation}
+            onPointerCancel={stopDictation}
+            disabled={isChatLoading || browserPermissions.microphone === 'denied' || browserPermissions.microphone === 'unsupported'}
+            title={canUse('chat', 'microphone')
+              ? 'Hold to talk'
+              : browserPermissions.microphone === 'denied' ? "The browser is blocking the microphone. Allow it in the site settings." : 'Tap to let Lucy use the microphone'}
+            className={`p-2 rounded-full shrink-0 select-none touch-none transition-transform disabled:opacity-30 ${isDictating ? 'bg-rose-500 text-white scale-110' : (theme === 'dark' ? 'bg-zinc-800' : 'bg-white')}`}
+          >
+            <Mic className="w-5 h-5" />
+          </button>
+          {isChatLoading ? (
+            <button 
+              onClick={handleStopReply}
+              title="Stop"
+              className="p-2 bg-slate-800 text-white rounded-full active:scale-90 transition-transform"
+            >
+              <Square className="w-5 h-5" />
+            </button>
+          ) : (
+            <button 
+              onClick={() => handleSendMessage()}
+              className="p-2 bg-brand-600 text-white rounded-full active:scale-90 transition-transform"
+            >
+              <Send className="w-5 h-5" />
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChatApp;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { OverlayViewProps } from './types';
+import { useShell } from './ShellContext';
+
+const ContactForm: React.FC<OverlayViewProps> = ({ theme }) => {
+  const { contactForm, setContactForm, saveContactForm } = useShell();
+  if (!contactForm) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black bg-opacity-50 backdrop-blur-sm p-4">
+      <div className={`rounded-2xl shadow-xl w-full max-w-sm p-6 space-y-3 animate-fade-in-up ${theme === 'dark' ? 'bg-zinc-900 text-white' : 'bg-white text-slate-900'}`}>
+        <h2 className="text-lg font-semibold">{contactForm.id ? 'Edit contact' : 'New contact'}</h2>
+        {([
+          ['name', 'Name', 'Alex'],
+          ['address', 'Number or address', '+1 555 0100'],
+          ['note', 'Note (optional)', 'How you know them']
+        ] as const).map(([field, label, placeholder]) => (
+          <label key={field} className="block">
+            <span className="text-xs opacity-60">{label}</span>
+            <input
+              value={contactForm[field]}
+              onChange={(e) => setContactForm({ ...contactForm, [field]: e.target.value })}
+              placeholder={placeholder}
+              className={`w-full mt-1 px-4 py-2 rounded-xl outline-none text-sm ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100'}`}
+            />
+          </label>
+        ))}
+        <div className="flex justify-end gap-2 pt-2">
+          <button onClick={() => setContactForm(null)} className="px-4 py-2 rounded-full text-sm font-medium opacity-70">Cancel</button>
+          <button
+            onClick={saveContactForm}
+            disabled={!contactForm.address.trim()}
+            className="px-4 py-2 rounded-full text-sm font-medium text-white bg-brand-600 disabled:opacity-40"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  
+  );
+};
+
+export default ContactForm;
@@ -0,0 +1,75 @@
+import React from 'react';
+import Checkbox from '../Checkbox';
+import { OverlayViewProps } from './types';
+import { useShell } from './ShellContext';
+import { useGoals } from './goalsState';
+
+const GoalForm: React.FC<OverlayViewProps> = ({ theme }) => {
+  const { memory } = useShell();
+  const { goalForm, setGoalForm, saveGoalForm, toggleGoalFormLink } = useGoals();
+  if (!goalForm) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black bg-opacity-50 backdrop-blur-sm p-4">
+      <div className={`rounded-2xl shadow-xl w-full max-w-sm p-6 space-y-3 max-h-[90vh] overflow-y-auto animate-fade-in-up ${theme === 'dark' ? 'bg-zinc-900 text-white' : 'bg-white text-slate-900'}`}>
+        <h2 className="text-lg font-semibold">{goalForm.id ? 'Edit goal' : 'New goal'}</h2>
+        <label className="block">
+          <span className="text-xs opacity-60">Goal</span>
+          <input
+            value={goalForm.title}
+            onChange={(e) => setGoalForm({ ...goalForm, title: e.target.value })}
+            placeholder="Run a half marathon"
+            className={`w-full mt-1 px-4 py-2 rounded-xl outline-none text-sm ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100'}`}
+          />
+        </label>
+        <label className="block">
+          <span className="text-xs opacity-60">Target date (optional)</span>
+          <input
+            type="date"
+            value={goalForm.targetDate}
+            onChange={(e) => setGoalForm({ ...goalForm, targetDate: e.target.value })}
+            className={`w-full mt-1 px-4 py-2 rounded-xl outline-none text-sm ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100'}`}
+          />
+        </label>
+        <label className="block">
+          <span className="text-xs opacity-60">Steps, one per line</span>
+          <textarea
+            value={goalForm.steps}
+            onChange={(e) => setGoalForm({ ...goalForm, steps: e.target.value })}
+            rows={4}
+            placeholder={'Run 5 km without stopping\nRun 10 km\nSign up for a race'}
+            className={`w-full mt-1 px-4 py-2 rounded-xl outline-none text-sm resize-none ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100'}`}
+          />
+        </label>
+        {([
+          ['developmentIds', 'Progress so far', memory.development],
+          ['blockerIds', 'Blocked by', memory.struggles]
+        ] as const).map(([field, label, items]) => items.length > 0 && (
+          <div key={field}>
+            <span className="text-xs opacity-60">{label}</span>
+            <div className="mt-1 max-h-32 overflow-y-auto space-y-1">
+              {items.map(item => (
+                <button key={item.id} onClick={() => toggleGoalFormLink(field, item.id)} className="w-full flex items-center gap-2 py-1 text-left text-sm">
+                  <Checkbox checked={goalForm[field].includes(item.id)} theme={theme} />
+                  <span className={`truncate ${item.value.status === 'resolved' ? 'opacity-50' : ''}`}>{item.value.description}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+        <div className="flex justify-end gap-2 pt-2">
+          <button onClick={() => setGoalForm(null)} className="px-4 py-2 rounded-full text-sm font-medium opacity-70">Cancel</button>
+          <button
+            onClick={saveGoalForm}
+            disabled={!goalForm.title.trim()}
+            className="px-4 py-2 rounded-full text-sm font-medium text-white bg-brand-600 disabled:opacity-40"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GoalForm;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { Target } from '../Icons';
+import { goalProgress } from '../../services/goalService';
+import { WidgetViewProps } from './types';
+import { useGoals } from './goalsState';
+import WidgetCard from './WidgetCard';
+
+const GoalProgressWidget: React.FC<WidgetViewProps> = ({ theme, onOpen }) => {
+  const { goals } = useGoals();
+  const openGoals = goals.filter(goal => !goal.completedAt);
+
+  return (
+    <WidgetCard theme={theme} onClick={onOpen}>
+      <div className="flex items-center gap-3 mb-1">
+        <Target className="w-5 h-5 text-lime-600" />
+        <span className="font-semibold text-lg flex-1">Goals</span>
+      </div>
+      {openGoals.length === 0 ? (
+        <p className={`text-sm ${theme === 'dark' ? 'text-zinc-400' : 'text-slate-600'}`}>No goals in progress.</p>
+      ) : openGoals.slice(0, 3).map(goal => (
+        <div key={goal.id} className="flex flex-col gap-1 text-sm">
+          <span className="truncate">{goal.title}</span>
+          <div className={`h-1.5 rounded-full overflow-hidden ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-200'}`}>
+            <div className="h-full bg-lime-600 rounded-full" style={{ width: `${Math.round(goalProgress(goal) * 100)}%` }} />
+          </div>
+        </div>
+      ))}
+    </WidgetCard>
+  );
+};
+
+export default GoalProgressWidget;
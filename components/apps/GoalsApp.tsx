@@ -0,0 +1,134 @@
+import React from 'react';
+import { Plus, ArrowLeft, Pencil, Trash2 } from '../Icons';
+import { deleteGoal, toggleGoalStep, goalProgress, describeTarget } from '../../services/goalService';
+import { REFLECTION_TEMPLATES } from '../../services/reflectionService';
+import { AppViewProps } from './types';
+import Checkbox from '../Checkbox';
+import { useShell } from './ShellContext';
+import { useGoals } from './goalsState';
+
+const GoalsApp: React.FC<AppViewProps> = ({ theme, onClose }) => {
+  const { memory } = useShell();
+  const { goals, setGoals, reframeSubjectId, setReframeSubjectId, openGoalForm, beginReflection } = useGoals();
+
+  const card = `rounded-3xl p-5 ${theme === 'dark' ? 'bg-zinc-900' : 'bg-white shadow-sm'}`;
+  const activeStruggles = memory.struggles.filter(item => item.value.status !== 'resolved');
+  const sorted = [...goals].sort((a, b) => Number(!!a.completedAt) - Number(!!b.completedAt));
+
+  return (
+    <div className={`min-h-screen pb-24 ${theme === 'dark' ? 'bg-black text-white' : 'bg-slate-50 text-slate-900'} animate-fade-in`}>
+      <div className={`sticky top-0 z-20 px-4 pt-4 pb-3 flex items-center gap-3 border-b ${theme === 'dark' ? 'bg-black/80 border-white/10' : 'bg-white/90 border-slate-200'} backdrop-blur-md`}>
+        <button onClick={onClose}><ArrowLeft className="w-6 h-6" /></button>
+        <h1 className="text-xl font-bold flex-1">Goals</h1>
+        <button onClick={() => openGoalForm()} className="flex items-center gap-1 px-3 py-1.5 rounded-full bg-lime-600 text-white text-sm font-medium">
+          <Plus className="w-4 h-4" /> Goal
+        </button>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <div className={card}>
+          <h2 className="font-semibold">Guided reflection</h2>
+          <p className="text-xs opacity-60 mt-1">Lucy walks you through a few questions and saves your answers to the Memory Bank.</p>
+          <div className="mt-3 space-y-2">
+            {REFLECTION_TEMPLATES.map(t => (
+              <div key={t.id} className={`rounded-2xl p-3 ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-50'}`}>
+                <div className="flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium">{t.title}</p>
+                    <p className="text-xs opacity-60">{t.description}</p>
+                  </div>
+                  <button
+                    onClick={() => beginReflection(t.id)}
+                    disabled={t.needsStruggle && !activeStruggles.some(i => i.id === reframeSubjectId)}
+                    className="px-3 py-1.5 rounded-full bg-brand-600 text-white text-xs font-medium disabled:opacity-40"
+                  >
+                    Start
+                  </button>
+                </div>
+                {t.needsStruggle && (
+                  <select
+                    value={reframeSubjectId}
+                    onChange={(e) => setReframeSubjectId(e.target.value)}
+                    className={`w-full mt-2 px-3 py-2 rounded-xl outline-none text-sm ${theme === 'dark' ? 'bg-zinc-900' : 'bg-white border border-slate-200'}`}
+                  >
+                    <option value="">{activeStruggles.length ? 'Choose a struggle…' : 'No active struggles'}</option>
+                    {activeStruggles.map(item => <option key={item.id} value={item.id}>{item.value.description}</option>)}
+                  </select>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {goals.length === 0 && (
+          <p className="text-center text-sm opacity-50 py-6">No goals yet. Add one and break it into steps you can tick off.</p>
+        )}
+
+        {sorted.map(goal => {
+          const progress = goalProgress(goal);
+          const developments = memory.development.filter(item => goal.developmentIds.includes(item.id));
+          const blockers = memory.struggles.filter(item => goal.blockerIds.includes(item.id));
+          return (
+            <div key={goal.id} className={`${card} ${goal.completedAt ? 'opacity-70' : ''}`}>
+              <div className="flex items-start gap-2">
+                <div className="flex-1 min-w-0">
+                  <h3 className="font-semibold">{goal.title}</h3>
+                  <p className={`text-xs mt-0.5 ${describeTarget(goal).includes('overdue') ? 'text-red-500' : 'opacity-60'}`}>{describeTarget(goal)}</p>
+                </div>
+                <button onClick={() => openGoalForm(goal)} title="Edit goal" className="p-1.5 opacity-50 hover:opacity-100"><Pencil className="w-4 h-4" /></button>
+                <button onClick={() => setGoals(list => deleteGoal(list, goal.id))} title="Delete goal" className="p-1.5 opacity-50 hover:opacity-100"><Trash2 className="w-4 h-4" /></button>
+              </div>
+
+              <div className="flex items-center gap-3 mt-3">
+                <div className={`flex-1 h-2 rounded-full overflow-hidden ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100'}`}>
+                  <div className="h-full bg-lime-600 transition-all" style={{ width: `${Math.round(progress * 100)}%` }} />
+                </div>
+                <span className="text-xs font-semibold w-10 text-right">{Math.round(progress * 100)}%</span>
+              </div>
+
+              {goal.steps.length > 0 && (
+                <div className="mt-3 space-y-1">
+                  {goal.steps.map(step => (
+                    <button
+                      key={step.id}
+                      onClick={() => setGoals(list => toggleGoalStep(list, goal.id, step.id))}
+                      className="w-full flex items-center gap-2 py-1 text-left text-sm"
+                    >
+                      <Checkbox checked={!!step.doneAt} theme={theme} />
+                      <span className={step.doneAt ? 'line-through opacity-50' : ''}>{step.text}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {developments.length > 0 && (
+                <div className="mt-3 flex flex-wrap gap-1.5">
+                  {developments.map(item => (
+                    <span key={item.id} className="text-[11px] px-2 py-0.5 rounded-full bg-emerald-500/10 text-emerald-600 truncate max-w-[12rem]">
+                      {item.value.description}
+                    </span>
+                  ))}
+                </div>
+              )}
+              {blockers.length > 0 && (
+                <div className="mt-2 flex flex-wrap gap-1.5 items-center">
+                  <span className="text-[11px] opacity-50">Blocked by</span>
+                  {blockers.map(item => (
+                    <span
+                      key={item.id}
+                      className={`text-[11px] px-2 py-0.5 rounded-full bg-amber-500/10 text-amber-600 truncate max-w-[12rem] ${item.value.status === 'resolved' ? 'line-through opacity-60' : ''}`}
+                    >
+                      {item.value.description}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default GoalsApp;
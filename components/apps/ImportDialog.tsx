@@ -0,0 +1,22 @@
+import React from 'react';
+import ImportPreviewModal from '../ImportPreviewModal';
+import { OverlayViewProps } from './types';
+import { useShell } from './ShellContext';
+import { useSettings } from './settingsState';
+
+// What a backup picked in Settings would change, before it's applied
+const ImportDialog: React.FC<OverlayViewProps> = () => {
+  const { categories } = useShell();
+  const { importPreview, setImportPreview, confirmImport } = useSettings();
+
+  return (
+    <ImportPreviewModal
+      preview={importPreview}
+      categories={categories}
+      onCancel={() => setImportPreview(null)}
+      onConfirm={confirmImport}
+    />
+  );
+};
+
+export default ImportDialog;
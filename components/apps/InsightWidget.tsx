@@ -0,0 +1,46 @@
+import React from 'react';
+import { Sparkles, RefreshCw } from '../Icons';
+import { findMemoryItem } from '../../services/memoryService';
+import { WidgetViewProps } from './types';
+import { useShell } from './ShellContext';
+import { useChat } from './chatState';
+import WidgetCard from './WidgetCard';
+
+const InsightWidget: React.FC<WidgetViewProps> = ({ theme, onOpen }) => {
+  const { memory } = useShell();
+  const { dailyInsight, isInsightLoading, insightAttemptRef, refreshInsight, openInsightInChat } = useChat();
+
+  return (
+    <WidgetCard theme={theme} onClick={dailyInsight ? openInsightInChat : onOpen}>
+        <div className="flex items-center gap-3 mb-1">
+            <Sparkles className={`w-5 h-5 ${theme === 'dark' ? 'text-purple-400' : 'text-brand-600'}`} />
+            <span className="font-semibold text-lg flex-1">Daily Insight</span>
+            <button
+              onClick={(e) => { e.stopPropagation(); refreshInsight(insightAttemptRef.current + 1); }}
+              disabled={isInsightLoading}
+              title="New insight"
+              className="p-1.5 -m-1.5 rounded-full opacity-50 hover:opacity-100 disabled:opacity-30"
+            >
+              <RefreshCw className={`w-4 h-4 ${isInsightLoading ? 'animate-spin' : ''}`} />
+            </button>
+        </div>
+        <p className={`text-sm leading-relaxed ${theme === 'dark' ? 'text-zinc-400' : 'text-slate-600'}`}>
+           {dailyInsight?.text || "Lucy is reflecting on your recent memories..."}
+        </p>
+        {dailyInsight && dailyInsight.sourceIds.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 mt-1">
+            {dailyInsight.sourceIds.map(id => {
+              const source = findMemoryItem(memory, id);
+              return source && (
+                <span key={id} className="text-[11px] px-2 py-0.5 rounded-full bg-brand-500/10 text-brand-500 truncate max-w-[10rem]">
+                  {source.item.value.description}
+                </span>
+              );
+            })}
+          </div>
+        )}
+    </WidgetCard>
+  );
+};
+
+export default InsightWidget;
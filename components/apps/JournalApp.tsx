@@ -0,0 +1,222 @@
+import React from 'react';
+import { Plus, ArrowLeft, Search, X, SlidersHorizontal, Lock } from '../Icons';
+import MemoryCard from '../MemoryCard';
+import { findCategory } from '../../services/categoryService';
+import {
+  JournalSort, JournalHit, DEFAULT_JOURNAL_FILTERS, MOOD_LABELS, collectTags, countActiveFacets
+} from '../../services/journalService';
+import { AppViewProps } from './types';
+import { useShell } from './ShellContext';
+import { useJournal } from './journalState';
+
+const JournalApp: React.FC<AppViewProps> = ({ theme, onClose }) => {
+  const {
+    memory, categories, setHistoryTarget, privacySettings, journalCategories, openNewMemory, openEditMemory, handleDeleteMemory,
+    cardLinks
+  } = useShell();
+  const {
+    journalFilters, setJournalFilters, isFacetPanelOpen, setIsFacetPanelOpen, journalResults, updateJournalFilters, toggleJournalTag
+  } = useJournal();
+
+  const renderJournalEntries = () => {
+    const { hits, ranked } = journalResults;
+    const isNarrowed = !!journalFilters.query || countActiveFacets(journalFilters) > 0;
+
+    const renderCard = ({ category: cat, item, matches }: JournalHit) => (
+      <MemoryCard
+        key={item.id}
+        item={item}
+        category={findCategory(categories, cat)}
+        links={cardLinks(item)}
+        highlight={matches}
+        onEdit={() => openEditMemory(cat, item)}
+        onDelete={() => handleDeleteMemory(cat, item)}
+        onShowHistory={() => setHistoryTarget({ category: cat, id: item.id })}
+        onTagClick={(tag) => { toggleJournalTag(tag); setIsFacetPanelOpen(true); }}
+      />
+    );
+
+    return (
+       <div className="flex-1 px-4 space-y-4 overflow-y-auto">
+         {ranked ? (
+           <div className="space-y-3">
+             <h3 className="text-xs font-bold opacity-40 ml-1 mt-2">{hits.length} {hits.length === 1 ? 'match' : 'matches'}, best first</h3>
+             {hits.map(renderCard)}
+           </div>
+         ) : journalCategories.map(cat => {
+              const filteredItems = hits.filter(hit => hit.category === cat.id);
+              if (filteredItems.length === 0) return null;
+
+              return (
+               <div key={cat.id} className="space-y-3">
+                  {(journalFilters.category === 'all' || isNarrowed) && <h3 className="text-xs font-bold opacity-40 ml-1 mt-2">{cat.name}</h3>}
+                  {filteredItems.map(renderCard)}
+               </div>
+              );
+         })}
+         
+         {/* Global Empty State for Search */}
+         {isNarrowed && hits.length === 0 && (
+             <div className="flex flex-col items-center justify-center pt-10 opacity-50">
+                 <Search className="w-12 h-12 mb-2" />
+                 <p>{journalFilters.query ? `No memories found for "${journalFilters.query}"` : 'No memories match these filters'}</p>
+             </div>
+         )}
+       </div>
+    );
+  };
+
+  return (
+    <div className={`min-h-screen flex flex-col pb-24 ${theme === 'dark' ? 'bg-black text-white' : 'bg-slate-50 text-slate-900'} animate-fade-in`}>
+       {/* App Header */}
+       <div className={`sticky top-0 z-20 px-4 pt-4 pb-2 flex flex-col gap-4 border-b ${theme === 'dark' ? 'bg-black/80 border-white/10' : 'bg-white/90 border-slate-200'} backdrop-blur-md`}>
+          <div className="flex items-center justify-between">
+             <div className="flex items-center gap-3">
+               <button onClick={onClose}><ArrowLeft className="w-6 h-6" /></button>
+               <h1 className="text-xl font-bold">Memory Bank</h1>
+             </div>
+             <button onClick={openNewMemory} className={`p-2 rounded-full ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100'}`}>
+                <Plus className="w-5 h-5" />
+             </button>
+          </div>
+          
+          {/* Search Bar */}
+          <div className="flex items-center gap-2">
+            <div className={`relative flex-1 flex items-center px-4 py-3 rounded-xl transition-colors ${theme === 'dark' ? 'bg-zinc-900 focus-within:bg-zinc-800' : 'bg-slate-100 focus-within:bg-white border border-transparent focus-within:border-slate-200 shadow-sm'}`}>
+               <Search className="w-4 h-4 opacity-40 mr-3" />
+               <input 
+                  type="text"
+                  placeholder="Search, or try tag:work from:2026-01"
+                  value={journalFilters.query}
+                  onChange={(e) => updateJournalFilters({ query: e.target.value })}
+                  className="bg-transparent w-full outline-none text-sm placeholder:opacity-50 font-medium"
+               />
+               {journalFilters.query && (
+                  <button onClick={() => updateJournalFilters({ query: '' })} className="p-1"><X className="w-4 h-4 opacity-50 hover:opacity-100" /></button>
+               )}
+            </div>
+            <button
+              onClick={() => setIsFacetPanelOpen(open => !open)}
+              title="Filter and sort"
+              className={`relative p-3 rounded-xl ${isFacetPanelOpen ? 'bg-brand-600 text-white' : (theme === 'dark' ? 'bg-zinc-900' : 'bg-slate-100')}`}
+            >
+              <SlidersHorizontal className="w-4 h-4" />
+              {countActiveFacets(journalFilters) > 0 && (
+                <span className="absolute -top-1 -right-1 w-4 h-4 rounded-full bg-rose-500 text-white text-[10px] font-bold flex items-center justify-center">
+                  {countActiveFacets(journalFilters)}
+                </span>
+              )}
+            </button>
+          </div>
+
+          {isFacetPanelOpen && (
+            <div className="flex flex-col gap-3 pb-2 text-sm">
+              {collectTags(memory).length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                  {collectTags(memory).map(({ tag, count }) => (
+                    <button key={tag} onClick={() => toggleJournalTag(tag)} className={`px-3 py-1.5 rounded-full text-xs font-medium border transition-all ${journalFilters.tags.includes(tag)
+                       ? (theme === 'dark' ? 'bg-white text-black border-white' : 'bg-slate-900 text-white border-slate-900')
+                       : (theme === 'dark' ? 'bg-zinc-900 text-zinc-400 border-zinc-800' : 'bg-white text-slate-600 border-slate-200')
+                     }`}>
+                      #{tag} <span className="opacity-50">{count}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex items-center gap-2">
+                <span className="text-xs opacity-60 w-10">From</span>
+                <input
+                  type="date"
+                  value={journalFilters.from}
+                  max={journalFilters.to || undefined}
+                  onChange={(e) => updateJournalFilters({ from: e.target.value })}
+                  className={`flex-1 px-3 py-1.5 rounded-lg outline-none text-xs ${theme === 'dark' ? 'bg-zinc-900' : 'bg-slate-100'}`}
+                />
+                <span className="text-xs opacity-60">to</span>
+                <input
+                  type="date"
+                  value={journalFilters.to}
+                  min={journalFilters.from || undefined}
+                  onChange={(e) => updateJournalFilters({ to: e.target.value })}
+                  className={`flex-1 px-3 py-1.5 rounded-lg outline-none text-xs ${theme === 'dark' ? 'bg-zinc-900' : 'bg-slate-100'}`}
+                />
+              </div>
+
+              <div className="flex flex-wrap gap-1.5">
+                {MOOD_LABELS.map((label, idx) => {
+                  const mood = idx + 1;
+                  const active = journalFilters.moods.includes(mood);
+                  return (
+                    <button
+                      key={label}
+                      onClick={() => updateJournalFilters({ moods: active ? journalFilters.moods.filter(m => m !== mood) : [...journalFilters.moods, mood] })}
+                      className={`px-3 py-1.5 rounded-full text-xs font-medium border transition-all ${active
+                       ? (theme === 'dark' ? 'bg-white text-black border-white' : 'bg-slate-900 text-white border-slate-900')
+                       : (theme === 'dark' ? 'bg-zinc-900 text-zinc-400 border-zinc-800' : 'bg-white text-slate-600 border-slate-200')
+                     }`}
+                    >
+                      {label}
+                    </button>
+                  );
+                })}
+              </div>
+
+              <div className="flex flex-wrap items-center gap-1.5">
+                {(['any', 'active', 'resolved'] as const).map(status => (
+                  <button key={status} onClick={() => updateJournalFilters({ status })} className={`px-3 py-1.5 rounded-full text-xs font-medium border transition-all ${journalFilters.status === status
+                       ? (theme === 'dark' ? 'bg-white text-black border-white' : 'bg-slate-900 text-white border-slate-900')
+                       : (theme === 'dark' ? 'bg-zinc-900 text-zinc-400 border-zinc-800' : 'bg-white text-slate-600 border-slate-200')
+                     }`}>
+                    {status === 'any' ? 'Any status' : status === 'active' ? 'Active struggles' : 'Resolved struggles'}
+                  </button>
+                ))}
+                <select
+                  value={journalFilters.sort}
+                  onChange={(e) => updateJournalFilters({ sort: e.target.value as JournalSort })}
+                  className={`ml-auto px-3 py-1.5 rounded-lg outline-none text-xs ${theme === 'dark' ? 'bg-zinc-900' : 'bg-slate-100'}`}
+                >
+                  <option value="relevance">Best match</option>
+                  <option value="newest">Newest first</option>
+                  <option value="oldest">Oldest first</option>
+                  <option value="mood-high">Best mood first</option>
+                  <option value="mood-low">Lowest mood first</option>
+                </select>
+              </div>
+
+              {countActiveFacets(journalFilters) > 0 && (
+                <button
+                  onClick={() => setJournalFilters(f => ({ ...DEFAULT_JOURNAL_FILTERS, category: f.category, query: f.query, sort: f.sort }))}
+                  className="self-start text-xs font-medium text-brand-500"
+                >
+                  Clear filters
+                </button>
+              )}
+            </div>
+          )}
+       </div>
+
+       {/* Category Tabs */}
+       <div className="px-4 py-4 flex gap-2 overflow-x-auto no-scrollbar shrink-0">
+          {[{ id: 'all', name: 'All' }, ...journalCategories].map(cat => (
+             <button
+               key={cat.id}
+               onClick={() => updateJournalFilters({ category: cat.id })}
+               className={`px-5 py-2 rounded-full text-sm font-medium transition-all border whitespace-nowrap ${
+                 journalFilters.category === cat.id 
+                   ? (theme === 'dark' ? 'bg-white text-black border-white' : 'bg-slate-900 text-white border-slate-900')
+                   : (theme === 'dark' ? 'bg-zinc-900 text-zinc-400 border-zinc-800' : 'bg-white text-slate-600 border-slate-200')
+               }`}
+             >
+               {cat.name}
+               {privacySettings.privateCategories.includes(cat.id) && <Lock className="w-3 h-3 inline ml-1.5 -mt-0.5 opacity-60" />}
+             </button>
+          ))}
+       </div>
+
+       {renderJournalEntries()}
+    </div>
+  );
+};
+
+export default JournalApp;
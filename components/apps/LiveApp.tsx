@@ -0,0 +1,82 @@
+import React from 'react';
+import { ArrowLeft, Mic } from '../Icons';
+import MemoryProposalCard from '../MemoryProposalCard';
+import { findCategory } from '../../services/categoryService';
+import { AppViewProps } from './types';
+import { useShell } from './ShellContext';
+import { useLive } from './liveState';
+
+const LiveApp: React.FC<AppViewProps> = ({ theme, onClose }) => {
+  const { categories, browserPermissions, canUse, requestPermission } = useShell();
+  const {
+    liveListening, liveTranscript, livePartial, liveError, isSuggesting, liveProposals, startListening, stopListening,
+    liveProposalActions
+  } = useLive();
+
+  return (
+    <div className={`min-h-screen flex flex-col items-center p-8 pt-20 text-center relative ${theme === 'dark' ? 'bg-black text-white' : 'bg-white text-slate-900'}`}>
+        <button onClick={onClose} className="absolute top-4 left-4 p-2 rounded-full bg-slate-100/10"><ArrowLeft className="w-6 h-6" /></button>
+        
+        <div className={`w-40 h-40 rounded-full flex items-center justify-center mb-8 transition-all duration-1000 ${liveListening ? 'bg-rose-500 shadow-[0_0_100px_rgba(244,63,94,0.4)] animate-pulse' : 'bg-slate-200 dark:bg-zinc-800'}`}>
+            <Mic className={`w-16 h-16 ${liveListening ? 'text-white' : 'text-slate-400'}`} />
+        </div>
+        
+        <h2 className="text-3xl font-bold mb-2">Lucy Live</h2>
+        <p className="opacity-60 max-w-xs mx-auto mb-10">
+            {canUse('live', 'microphone')
+              ? (liveListening
+                  ? "Listening. When you stop, Lucy will suggest what to keep in your Memory Bank."
+                  : (isSuggesting ? "Lucy is going through what you said..." : "Tap to start listening. Audio isn't stored."))
+              : browserPermissions.microphone === 'denied'
+                ? "The browser is blocking the microphone. Allow it in the site settings, then come back."
+                : "Lucy Live needs the microphone to hear you."}
+        </p>
+
+        {!canUse('live', 'microphone') && browserPermissions.microphone !== 'denied' && browserPermissions.microphone !== 'unsupported' && (
+            <button onClick={() => requestPermission('live', 'microphone')} className="px-8 py-3 rounded-full font-bold text-lg bg-rose-500 text-white">
+                Allow Microphone
+            </button>
+        )}
+
+        {canUse('live', 'microphone') && (
+            <button 
+                onClick={liveListening ? stopListening : startListening}
+                disabled={isSuggesting}
+                className={`px-8 py-3 rounded-full font-bold text-lg transition-all disabled:opacity-40 ${liveListening ? 'bg-slate-800 text-white dark:bg-white dark:text-black' : 'bg-rose-500 text-white'}`}
+            >
+                {liveListening ? 'Stop Listening' : 'Start Listening'}
+            </button>
+        )}
+
+        {liveError && <p className="text-sm text-amber-500 max-w-sm mt-6">{liveError}</p>}
+
+        {(liveTranscript.length > 0 || livePartial) && (
+            <div className={`w-full max-w-md mt-8 rounded-3xl p-5 text-left ${theme === 'dark' ? 'bg-zinc-900' : 'bg-slate-50 border border-slate-100'}`}>
+                <div className="text-xs font-semibold uppercase tracking-wider opacity-50 mb-2">Transcript</div>
+                <p className="text-sm leading-relaxed whitespace-pre-wrap">
+                    {liveTranscript.join(' ')}
+                    {livePartial && <span className="opacity-50"> {livePartial}</span>}
+                </p>
+            </div>
+        )}
+
+        {liveProposals.length > 0 && (
+            <div className="w-full max-w-md mt-4 text-left">
+                {liveProposals.map(proposal => (
+                    <MemoryProposalCard
+                      key={proposal.id}
+                      proposal={proposal}
+                      theme={theme}
+                      categoryName={findCategory(categories, proposal.category).name}
+                      onAccept={() => liveProposalActions.accept(proposal)}
+                      onEdit={() => liveProposalActions.edit(proposal)}
+                      onReject={() => liveProposalActions.reject(proposal)}
+                    />
+                ))}
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default LiveApp;
@@ -0,0 +1,269 @@
+import React from 'react';
+import { Plus, Send, Sparkles, ArrowLeft, Phone, MessageSquare, X, Pencil, Trash2, Users } from '../Icons';
+import { deleteContact, findContact, contactName, findThread, deleteThread } from '../../services/messageService';
+import { AppViewProps } from './types';
+import { useShell } from './ShellContext';
+import { useMessages } from './messagesState';
+
+const MessagesApp: React.FC<AppViewProps> = ({ theme, onClose, openApp }) => {
+  const { contacts, setContacts, setContactForm } = useShell();
+  const {
+    messageThreads, setMessageThreads, messagesTab, setMessagesTab, openAddress, setOpenAddress, messageInput, setMessageInput,
+    setIsInputFromLucy, replySuggestions, setReplySuggestions, isSuggestingReplies, draftInstruction, setDraftInstruction,
+    isDrafting, messagingError, messagesEndRef, openMessageThread, sendTextMessage, retryTextMessage, requestReplySuggestions,
+    requestDraft
+  } = useMessages();
+
+  const renderMessageThread = (address: string) => {
+    const thread = findThread(messageThreads, address);
+    const contact = findContact(contacts, address);
+    const name = contact?.name || address;
+
+    return (
+      <div className={`flex flex-col h-screen fixed inset-0 z-50 ${theme === 'dark' ? 'bg-black text-white' : 'bg-white text-slate-900'} animate-fade-in`}>
+        <div className={`p-4 flex items-center gap-3 border-b ${theme === 'dark' ? 'border-zinc-800' : 'border-slate-100'}`}>
+          <button onClick={() => setOpenAddress(null)}><ArrowLeft className="w-6 h-6" /></button>
+          <div className="flex flex-col flex-1 min-w-0">
+            <h2 className="font-bold leading-none truncate">{name}</h2>
+            {contact && <span className="text-[10px] opacity-50 mt-1 truncate">{address}</span>}
+          </div>
+          <button
+            onClick={() => openApp('phone', address)}
+            title={`Call ${name}`}
+            className={`p-2 rounded-full ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100'}`}
+          >
+            <Phone className="w-5 h-5" />
+          </button>
+          {!contact && (
+            <button
+              onClick={() => setContactForm({ name: '', address, note: '' })}
+              className={`px-3 py-1.5 rounded-full text-xs font-medium ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100'}`}
+            >
+              Add contact
+            </button>
+          )}
+          {thread && (
+            <button
+              onClick={() => { setMessageThreads(t => deleteThread(t, thread.id)); setOpenAddress(null); }}
+              title="Delete conversation"
+              className={`p-2 rounded-full ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100'}`}
+            >
+              <Trash2 className="w-5 h-5" />
+            </button>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {!thread?.messages.length && <p className="text-center text-sm opacity-50 mt-8">No messages with {name} yet.</p>}
+          {thread?.messages.map(msg => (
+            <div key={msg.id} className={`flex flex-col ${msg.direction === 'outgoing' ? 'items-end' : 'items-start'}`}>
+              <div className={`max-w-[80%] px-4 py-2.5 rounded-2xl text-[15px] whitespace-pre-wrap ${
+                msg.direction === 'outgoing'
+                  ? `bg-blue-500 text-white rounded-br-sm ${msg.status === 'failed' ? 'opacity-60' : ''}`
+                  : (theme === 'dark' ? 'bg-zinc-800 rounded-bl-sm' : 'bg-slate-100 rounded-bl-sm')
+              }`}>
+                {msg.text}
+              </div>
+              <span className="text-[10px] opacity-40 mt-1 px-1">
+                {new Date(msg.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                {msg.draftedByLucy && ' · Drafted with Lucy'}
+                {msg.status === 'sending' && ' · Sending…'}
+              </span>
+              {msg.status === 'failed' && thread && (
+                <button onClick={() => retryTextMessage(address, thread, msg)} className="text-[11px] font-semibold text-red-500 px-1">
+                  Not sent. Tap to retry
+                </button>
+              )}
+            </div>
+          ))}
+          <div ref={messagesEndRef} />
+        </div>
+
+        <div className={`p-3 pb-8 md:pb-4 border-t space-y-2 ${theme === 'dark' ? 'border-zinc-800 bg-black' : 'border-slate-100 bg-white'}`}>
+          {messagingError && <p className="px-4 text-xs text-amber-500">{messagingError}</p>}
+
+          {replySuggestions && replySuggestions.replies.length > 0 && (
+            <div className="flex gap-2 overflow-x-auto no-scrollbar px-1">
+              {replySuggestions.replies.map(reply => (
+                <button
+                  key={reply}
+                  onClick={() => { setMessageInput(reply); setIsInputFromLucy(true); setReplySuggestions(null); }}
+                  className={`shrink-0 px-3 py-1.5 rounded-full text-sm border ${theme === 'dark' ? 'border-zinc-700' : 'border-slate-200'}`}
+                >
+                  {reply}
+                </button>
+              ))}
+            </div>
+          )}
+          {replySuggestions?.origin === 'offline' && replySuggestions.replies.length > 0 && (
+            <p className="px-4 text-[11px] opacity-50">Lucy couldn't be reached, so these are general replies.</p>
+          )}
+
+          {draftInstruction !== null ? (
+            <div className={`flex items-center gap-2 rounded-2xl p-1 pl-4 ${theme === 'dark' ? 'bg-zinc-900' : 'bg-brand-50'}`}>
+              <Sparkles className="w-4 h-4 text-brand-500 shrink-0" />
+              <input
+                autoFocus
+                value={draftInstruction}
+                onChange={(e) => setDraftInstruction(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !isDrafting) requestDraft(address);
+                  if (e.key === 'Escape') setDraftInstruction(null);
+                }}
+                placeholder="What should it say? e.g. running 10 minutes late"
+                className="w-full bg-transparent py-2 outline-none text-sm placeholder:opacity-40"
+              />
+              <button onClick={() => setDraftInstruction(null)} className="p-2 opacity-60"><X className="w-4 h-4" /></button>
+              <button
+                onClick={() => requestDraft(address)}
+                disabled={isDrafting}
+                className="px-3 py-1.5 rounded-full bg-brand-600 text-white text-xs font-medium disabled:opacity-40"
+              >
+                {isDrafting ? 'Writing...' : 'Draft'}
+              </button>
+            </div>
+          ) : (
+            <div className="flex gap-2 px-1">
+              <button
+                onClick={() => requestReplySuggestions(address)}
+                disabled={isSuggestingReplies || !thread?.messages.length}
+                className={`flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-medium disabled:opacity-40 ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100'}`}
+              >
+                <Sparkles className="w-3.5 h-3.5" /> {isSuggestingReplies ? 'Thinking...' : 'Suggest replies'}
+              </button>
+              <button
+                onClick={() => setDraftInstruction('')}
+                className={`flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-medium ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100'}`}
+              >
+                <Pencil className="w-3.5 h-3.5" /> Draft with Lucy
+              </button>
+            </div>
+          )}
+
+          <div className={`flex items-end gap-2 rounded-3xl p-1 pl-4 ${theme === 'dark' ? 'bg-zinc-900' : 'bg-slate-100'}`}>
+            <textarea
+              rows={Math.min(5, messageInput.split('\n').length)}
+              className="w-full bg-transparent border-none focus:ring-0 placeholder:opacity-40 py-2.5 outline-none resize-none"
+              placeholder={`Message ${name}`}
+              value={messageInput}
+              onChange={(e) => setMessageInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  sendTextMessage(address);
+                }
+              }}
+            />
+            <button
+              onClick={() => sendTextMessage(address)}
+              disabled={!messageInput.trim()}
+              className="p-2 bg-blue-500 text-white rounded-full active:scale-90 transition-transform disabled:opacity-40"
+            >
+              <Send className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className={`min-h-screen flex flex-col pb-24 ${theme === 'dark' ? 'bg-black text-white' : 'bg-slate-50 text-slate-900'} animate-fade-in`}>
+      <div className={`sticky top-0 z-20 px-4 pt-4 pb-3 flex flex-col gap-3 border-b ${theme === 'dark' ? 'bg-black/80 border-white/10' : 'bg-white/90 border-slate-200'} backdrop-blur-md`}>
+        <div className="flex items-center gap-3">
+          <button onClick={onClose} className={`p-2 rounded-full ${theme === 'dark' ? 'hover:bg-white/10' : 'hover:bg-black/5'}`}>
+            <ArrowLeft className="w-6 h-6" />
+          </button>
+          <h1 className="text-xl font-bold flex-1">Messages</h1>
+          <button
+            onClick={() => setContactForm({ name: '', address: '', note: '' })}
+            title="New contact"
+            className="flex items-center gap-1 px-3 py-1.5 rounded-full bg-blue-500 text-white text-sm font-medium"
+          >
+            <Plus className="w-4 h-4" /> Contact
+          </button>
+        </div>
+        <div className="flex gap-2">
+          {([['threads', 'Conversations', MessageSquare], ['contacts', 'Contacts', Users]] as const).map(([tab, label, Icon]) => (
+            <button
+              key={tab}
+              onClick={() => setMessagesTab(tab)}
+              className={`flex items-center gap-1.5 px-4 py-1.5 rounded-full text-sm font-medium ${
+                messagesTab === tab ? 'bg-blue-500 text-white' : (theme === 'dark' ? 'bg-zinc-900' : 'bg-white border border-slate-200')
+              }`}
+            >
+              <Icon className="w-4 h-4" /> {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-4 space-y-2">
+        {messagesTab === 'threads' && (messageThreads.length === 0 ? (
+          <p className="text-center text-sm opacity-50 mt-8">No conversations yet. Pick someone from your contacts to start one.</p>
+        ) : messageThreads.map(thread => {
+          const last = thread.messages[thread.messages.length - 1];
+          return (
+            <div
+              key={thread.id}
+              onClick={() => openMessageThread(thread.address)}
+              className={`p-4 rounded-2xl flex items-center gap-3 cursor-pointer ${theme === 'dark' ? 'bg-zinc-900' : 'bg-white shadow-sm'}`}
+            >
+              <div className="w-10 h-10 rounded-full bg-blue-500/15 text-blue-500 flex items-center justify-center font-bold shrink-0">
+                {contactName(contacts, thread.address).charAt(0).toUpperCase()}
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between gap-2">
+                  <span className={`truncate ${thread.unread ? 'font-bold' : 'font-medium'}`}>{contactName(contacts, thread.address)}</span>
+                  <span className="text-[11px] opacity-50 shrink-0">{new Date(thread.updatedAt).toLocaleDateString()}</span>
+                </div>
+                <p className={`text-sm truncate ${thread.unread ? '' : 'opacity-60'}`}>
+                  {last ? `${last.direction === 'outgoing' ? 'You: ' : ''}${last.text}` : ''}
+                </p>
+              </div>
+              {thread.unread > 0 && (
+                <span className="min-w-[22px] h-[22px] px-1.5 rounded-full bg-blue-500 text-white text-xs font-bold flex items-center justify-center">{thread.unread}</span>
+              )}
+            </div>
+          );
+        }))}
+
+        {messagesTab === 'contacts' && (contacts.length === 0 ? (
+          <p className="text-center text-sm opacity-50 mt-8">No contacts yet.</p>
+        ) : contacts.map(contact => (
+          <div
+            key={contact.id}
+            onClick={() => openMessageThread(contact.address)}
+            className={`p-4 rounded-2xl flex items-center gap-3 cursor-pointer ${theme === 'dark' ? 'bg-zinc-900' : 'bg-white shadow-sm'}`}
+          >
+            <div className="w-10 h-10 rounded-full bg-blue-500/15 text-blue-500 flex items-center justify-center font-bold shrink-0">
+              {contact.name.charAt(0).toUpperCase()}
+            </div>
+            <div className="flex-1 min-w-0">
+              <div className="font-medium truncate">{contact.name}</div>
+              <div className="text-xs opacity-50 truncate">{contact.note ? `${contact.address} · ${contact.note}` : contact.address}</div>
+            </div>
+            <button
+              onClick={(e) => { e.stopPropagation(); setContactForm({ id: contact.id, name: contact.name, address: contact.address, note: contact.note || '' }); }}
+              title="Edit contact"
+              className="p-2 opacity-50 hover:opacity-100"
+            >
+              <Pencil className="w-4 h-4" />
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); setContacts(c => deleteContact(c, contact.id)); }}
+              title="Delete contact"
+              className="p-2 opacity-50 hover:opacity-100"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        )))}
+      </div>
+
+      {openAddress && renderMessageThread(openAddress)}
+    </div>
+  );
+};
+
+export default MessagesApp;
@@ -0,0 +1,22 @@
+import React from 'react';
+import PasscodeModal from '../PasscodeModal';
+import { OverlayViewProps } from './types';
+import { useShell } from './ShellContext';
+import { useSettings } from './settingsState';
+
+// Setting, changing or removing the passcode from Settings
+const PasscodeDialog: React.FC<OverlayViewProps> = () => {
+  const { privacySettings, applyPasscode } = useShell();
+  const { passcodeAction, setPasscodeAction } = useSettings();
+
+  return (
+    <PasscodeModal
+      action={passcodeAction}
+      current={privacySettings.passcode}
+      onClose={() => setPasscodeAction(null)}
+      onDone={applyPasscode}
+    />
+  );
+};
+
+export default PasscodeDialog;
@@ -0,0 +1,153 @@
+import React from 'react';
+import { Plus, ArrowLeft, Phone, MessageSquare, Pencil, Trash2, Users, Grid, Delete } from '../Icons';
+import { findContact, contactName } from '../../services/messageService';
+import { deleteCall, formatCallDuration, isMissedCall, cleanDialInput } from '../../services/callService';
+import { AppViewProps } from './types';
+import { useShell } from './ShellContext';
+import { usePhone } from './phoneState';
+
+const DIAL_KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '*', '0', '#'];
+
+const PhoneApp: React.FC<AppViewProps> = ({ theme, onClose }) => {
+  const { contacts, setContactForm } = useShell();
+  const {
+    callLog, setCallLog, phoneTab, setPhoneTab, dialInput, setDialInput, phoneError, openCallNotes, placeCall, messageContact
+  } = usePhone();
+
+  const dialedContact = findContact(contacts, dialInput);
+
+  return (
+    <div className={`min-h-screen flex flex-col pb-24 ${theme === 'dark' ? 'bg-black text-white' : 'bg-slate-50 text-slate-900'} animate-fade-in`}>
+      <div className={`sticky top-0 z-20 px-4 pt-4 pb-3 flex flex-col gap-3 border-b ${theme === 'dark' ? 'bg-black/80 border-white/10' : 'bg-white/90 border-slate-200'} backdrop-blur-md`}>
+        <div className="flex items-center gap-3">
+          <button onClick={onClose} className={`p-2 rounded-full ${theme === 'dark' ? 'hover:bg-white/10' : 'hover:bg-black/5'}`}>
+            <ArrowLeft className="w-6 h-6" />
+          </button>
+          <h1 className="text-xl font-bold flex-1">Phone</h1>
+          {phoneTab === 'contacts' && (
+            <button
+              onClick={() => setContactForm({ name: '', address: '', note: '' })}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-full bg-green-500 text-white text-sm font-medium"
+            >
+              <Plus className="w-4 h-4" /> Contact
+            </button>
+          )}
+        </div>
+        <div className="flex gap-2">
+          {([['keypad', 'Keypad', Grid], ['recents', 'Recents', Phone], ['contacts', 'Contacts', Users]] as const).map(([tab, label, Icon]) => (
+            <button
+              key={tab}
+              onClick={() => setPhoneTab(tab)}
+              className={`flex items-center gap-1.5 px-4 py-1.5 rounded-full text-sm font-medium ${
+                phoneTab === tab ? 'bg-green-500 text-white' : (theme === 'dark' ? 'bg-zinc-900' : 'bg-white border border-slate-200')
+              }`}
+            >
+              <Icon className="w-4 h-4" /> {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {phoneError && <p className="px-6 pt-4 text-sm text-amber-500">{phoneError}</p>}
+
+      {phoneTab === 'keypad' && (
+        <div className="flex-1 flex flex-col items-center px-8 pt-10 gap-6">
+          <div className="h-16 flex flex-col items-center justify-center">
+            <input
+              value={dialInput}
+              onChange={(e) => setDialInput(cleanDialInput(e.target.value))}
+              onKeyDown={(e) => e.key === 'Enter' && placeCall(dialInput)}
+              inputMode="tel"
+              placeholder="Enter a number"
+              className="bg-transparent text-center text-3xl font-light tracking-wider outline-none w-full placeholder:opacity-30 placeholder:text-xl"
+            />
+            {dialedContact && <span className="text-sm text-green-500 font-medium">{dialedContact.name}</span>}
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            {DIAL_KEYS.map(key => (
+              <button
+                key={key}
+                onClick={() => setDialInput(d => d + key)}
+                className={`w-20 h-20 rounded-full text-3xl font-light active:scale-95 transition-transform ${theme === 'dark' ? 'bg-zinc-900' : 'bg-white shadow-sm'}`}
+              >
+                {key}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-3 gap-4 items-center">
+            <span />
+            <button
+              onClick={() => placeCall(dialInput)}
+              disabled={!dialInput}
+              title="Call"
+              className="w-20 h-20 rounded-full bg-green-500 text-white flex items-center justify-center active:scale-90 transition-transform disabled:opacity-40"
+            >
+              <Phone className="w-8 h-8" />
+            </button>
+            {dialInput && (
+              <button onClick={() => setDialInput(d => d.slice(0, -1))} title="Delete" className="w-20 h-20 flex items-center justify-center opacity-60">
+                <Delete className="w-7 h-7" />
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {phoneTab === 'recents' && (
+        <div className="p-4 space-y-2">
+          {callLog.length === 0 && <p className="text-center text-sm opacity-50 mt-8">No calls yet.</p>}
+          {callLog.map(call => (
+            <div key={call.id} className={`p-4 rounded-2xl flex items-center gap-3 ${theme === 'dark' ? 'bg-zinc-900' : 'bg-white shadow-sm'}`}>
+              <div className="flex-1 min-w-0">
+                <div className={`font-medium truncate ${isMissedCall(call) ? 'text-red-500' : ''}`}>{contactName(contacts, call.address)}</div>
+                <div className="text-xs opacity-50 truncate">
+                  {call.direction === 'outgoing' ? 'Outgoing' : isMissedCall(call) ? 'Missed' : 'Incoming'}
+                  {' · '}{call.durationSeconds ? formatCallDuration(call.durationSeconds) : 'Not connected'}
+                  {' · '}{new Date(call.startedAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+                </div>
+                {call.notes && <p className="text-sm opacity-70 mt-1 line-clamp-2">{call.notes}</p>}
+              </div>
+              {call.durationSeconds > 0 && (
+                <button onClick={() => openCallNotes(call)} title={call.notes ? 'Call notes' : 'Add call notes'} className={`p-2 ${call.notes ? 'text-brand-500' : 'opacity-50 hover:opacity-100'}`}>
+                  <Pencil className="w-4 h-4" />
+                </button>
+              )}
+              <button onClick={() => placeCall(call.address)} title="Call back" className="p-2 text-green-500">
+                <Phone className="w-5 h-5" />
+              </button>
+              <button onClick={() => setCallLog(calls => deleteCall(calls, call.id))} title="Remove from recents" className="p-2 opacity-50 hover:opacity-100">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {phoneTab === 'contacts' && (
+        <div className="p-4 space-y-2">
+          {contacts.length === 0 && <p className="text-center text-sm opacity-50 mt-8">No contacts yet. They're shared with Messages.</p>}
+          {contacts.map(contact => (
+            <div key={contact.id} className={`p-4 rounded-2xl flex items-center gap-3 ${theme === 'dark' ? 'bg-zinc-900' : 'bg-white shadow-sm'}`}>
+              <div className="w-10 h-10 rounded-full bg-green-500/15 text-green-600 flex items-center justify-center font-bold shrink-0">
+                {contact.name.charAt(0).toUpperCase()}
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="font-medium truncate">{contact.name}</div>
+                <div className="text-xs opacity-50 truncate">{contact.address}</div>
+              </div>
+              <button onClick={() => messageContact(contact.address)} title="Message" className="p-2 text-blue-500">
+                <MessageSquare className="w-5 h-5" />
+              </button>
+              <button onClick={() => placeCall(contact.address)} title="Call" className="p-2 text-green-500">
+                <Phone className="w-5 h-5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+    </div>
+  );
+};
+
+export default PhoneApp;
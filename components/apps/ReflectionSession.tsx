@@ -0,0 +1,121 @@
+import React from 'react';
+import { Sparkles, X, Check, Send } from '../Icons';
+import { openGoalSteps } from '../../services/goalService';
+import { getTemplate, currentQuestion, reflectionEntry } from '../../services/reflectionService';
+import Checkbox from '../Checkbox';
+import { OverlayViewProps } from './types';
+import { useGoals } from './goalsState';
+
+// A guided reflection, full screen until it's saved or discarded
+const ReflectionSession: React.FC<OverlayViewProps> = ({ theme }) => {
+  const {
+    goals, reflection, setReflection, reflectionInput, setReflectionInput, reflectionSteps, setReflectionSteps, isReflectionThinking,
+    submitReflectionAnswer, saveReflection
+  } = useGoals();
+  if (!reflection) return null;
+  const template = getTemplate(reflection.templateId);
+  const question = currentQuestion(reflection);
+  const stepLabels = goals.flatMap(g => g.steps).filter(s => reflection.stepIds.includes(s.id)).map(s => s.text);
+  const entry = question ? null : reflectionEntry(reflection, stepLabels);
+
+  return (
+    <div className={`fixed inset-0 z-[60] flex flex-col animate-fade-in ${theme === 'dark' ? 'bg-black text-white' : 'bg-slate-50 text-slate-900'}`}>
+      <div className={`px-4 pt-4 pb-3 flex items-center gap-3 border-b ${theme === 'dark' ? 'border-white/10' : 'border-slate-200'}`}>
+        <Sparkles className="w-5 h-5 text-brand-500" />
+        <h1 className="text-lg font-bold flex-1">{template.title}</h1>
+        <button onClick={() => setReflection(null)} title="End session" className="p-1 opacity-60 hover:opacity-100"><X className="w-6 h-6" /></button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {reflection.turns.map((turn, idx) => (
+          <div key={idx} className={`flex ${turn.from === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <p className={`max-w-[85%] px-4 py-3 rounded-2xl text-sm whitespace-pre-wrap ${
+              turn.from === 'user'
+                ? 'bg-brand-600 text-white rounded-br-sm'
+                : (theme === 'dark' ? 'bg-zinc-800 text-zinc-200' : 'bg-white border border-slate-100') + ' rounded-bl-sm'
+            }`}>
+              {turn.text}
+            </p>
+          </div>
+        ))}
+        {isReflectionThinking && <p className="text-xs opacity-50 px-1">Lucy is thinking…</p>}
+        {reflection.origin === 'offline' && (
+          <p className="text-xs opacity-50 px-1">Lucy is offline, so the questions are asked as written.</p>
+        )}
+
+        {!question && (
+          <div className={`rounded-2xl border p-4 text-sm ${theme === 'dark' ? 'border-zinc-700 bg-zinc-900' : 'border-slate-200 bg-white'}`}>
+            {entry ? (
+              <>
+                <p className="text-xs font-semibold uppercase tracking-wider opacity-60 mb-2">New memory · {entry.category}</p>
+                <p className="font-semibold">{entry.value.description}</p>
+                <ul className="mt-1 space-y-1">
+                  {entry.value.details.map((detail, idx) => <li key={idx} className="opacity-80">{detail}</li>)}
+                </ul>
+              </>
+            ) : (
+              <p className="opacity-60">There's nothing to save as a memory from this session.</p>
+            )}
+            {stepLabels.length > 0 && (
+              <p className="text-xs mt-3 text-lime-600">{stepLabels.length} goal {stepLabels.length === 1 ? 'step' : 'steps'} will be marked done.</p>
+            )}
+            <div className="flex gap-2 mt-4">
+              <button
+                onClick={saveReflection}
+                disabled={!entry && !stepLabels.length}
+                className="flex items-center gap-1 px-4 py-2 rounded-full bg-brand-600 text-white font-medium disabled:opacity-40"
+              >
+                <Check className="w-4 h-4" /> Save
+              </button>
+              <button onClick={() => setReflection(null)} className="px-4 py-2 rounded-full font-medium text-red-500">Discard</button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {question && (
+        <div className={`p-4 border-t space-y-2 ${theme === 'dark' ? 'border-white/10' : 'border-slate-200'}`}>
+          {question.kind === 'goal-steps' ? (
+            <div className="max-h-48 overflow-y-auto space-y-1">
+              {openGoalSteps(goals).map(({ goal, step }) => (
+                <button
+                  key={step.id}
+                  onClick={() => setReflectionSteps(ids => (ids.includes(step.id) ? ids.filter(i => i !== step.id) : [...ids, step.id]))}
+                  className="w-full flex items-center gap-2 py-1 text-left text-sm"
+                >
+                  <Checkbox checked={reflectionSteps.includes(step.id)} theme={theme} />
+                  <span className="flex-1 truncate">{step.text}</span>
+                  <span className="text-xs opacity-50 truncate max-w-[40%]">{goal.title}</span>
+                </button>
+              ))}
+            </div>
+          ) : (
+            <textarea
+              value={reflectionInput}
+              onChange={(e) => setReflectionInput(e.target.value)}
+              rows={3}
+              placeholder="Take your time…"
+              className={`w-full px-4 py-3 rounded-2xl outline-none text-sm resize-none ${theme === 'dark' ? 'bg-zinc-900' : 'bg-white border border-slate-200'}`}
+            />
+          )}
+          <div className="flex justify-end gap-2">
+            {(question.optional || question.kind === 'goal-steps') && (
+              <button onClick={() => submitReflectionAnswer(true)} disabled={isReflectionThinking} className="px-4 py-2 rounded-full text-sm font-medium opacity-70">
+                Skip
+              </button>
+            )}
+            <button
+              onClick={() => submitReflectionAnswer()}
+              disabled={isReflectionThinking || (question.kind === 'text' ? !reflectionInput.trim() : !reflectionSteps.length)}
+              className="flex items-center gap-1 px-4 py-2 rounded-full bg-brand-600 text-white text-sm font-medium disabled:opacity-40"
+            >
+              <Send className="w-4 h-4" /> Answer
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReflectionSession;
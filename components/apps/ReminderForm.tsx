@@ -0,0 +1,58 @@
+import React from 'react';
+import { Recurrence } from '../../types';
+import { RECURRENCE_LABELS } from '../../services/reminderService';
+import { OverlayViewProps } from './types';
+import { useReminders } from './remindersState';
+
+const ReminderForm: React.FC<OverlayViewProps> = ({ theme }) => {
+  const { reminderForm, setReminderForm, saveReminderForm } = useReminders();
+  if (!reminderForm) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black bg-opacity-50 backdrop-blur-sm p-4">
+      <div className={`rounded-2xl shadow-xl w-full max-w-sm p-6 space-y-3 animate-fade-in-up ${theme === 'dark' ? 'bg-zinc-900 text-white' : 'bg-white text-slate-900'}`}>
+        <h2 className="text-lg font-semibold">New reminder</h2>
+        <label className="block">
+          <span className="text-xs opacity-60">Remind me to</span>
+          <input
+            value={reminderForm.title}
+            onChange={(e) => setReminderForm({ ...reminderForm, title: e.target.value })}
+            placeholder="Go for a walk before work"
+            className={`w-full mt-1 px-4 py-2 rounded-xl outline-none text-sm ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100'}`}
+          />
+        </label>
+        <label className="block">
+          <span className="text-xs opacity-60">When</span>
+          <input
+            type="datetime-local"
+            value={reminderForm.due}
+            onChange={(e) => setReminderForm({ ...reminderForm, due: e.target.value })}
+            className={`w-full mt-1 px-4 py-2 rounded-xl outline-none text-sm ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100'}`}
+          />
+        </label>
+        <label className="block">
+          <span className="text-xs opacity-60">Repeat</span>
+          <select
+            value={reminderForm.recurrence}
+            onChange={(e) => setReminderForm({ ...reminderForm, recurrence: e.target.value as Recurrence })}
+            className={`w-full mt-1 px-4 py-2 rounded-xl outline-none text-sm ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100'}`}
+          >
+            {(Object.keys(RECURRENCE_LABELS) as Recurrence[]).map(r => <option key={r} value={r}>{RECURRENCE_LABELS[r]}</option>)}
+          </select>
+        </label>
+        <div className="flex justify-end gap-2 pt-2">
+          <button onClick={() => setReminderForm(null)} className="px-4 py-2 rounded-full text-sm font-medium opacity-70">Cancel</button>
+          <button
+            onClick={saveReminderForm}
+            disabled={!reminderForm.title.trim() || !reminderForm.due}
+            className="px-4 py-2 rounded-full text-sm font-medium text-white bg-brand-600 disabled:opacity-40"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReminderForm;
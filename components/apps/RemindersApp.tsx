@@ -0,0 +1,122 @@
+import React from 'react';
+import { Recurrence } from '../../types';
+import { Plus, ArrowLeft, Trash2, Bell } from '../Icons';
+import {
+  RECURRENCE_LABELS, reflectionPrompt, deleteReminder, findCheckIn, findReflection, setReflectionSchedule, formatDueTime
+} from '../../services/reminderService';
+import { AppViewProps } from './types';
+import { useShell } from './ShellContext';
+import { useReminders } from './remindersState';
+
+const RemindersApp: React.FC<AppViewProps> = ({ theme, onClose }) => {
+  const { memory, browserPermissions, reminderStore, setReminderStore, journalCategories, canUse, requestPermission } = useShell();
+  const { openReminderForm, toggleCheckIn } = useReminders();
+
+  const card = `rounded-3xl p-5 ${theme === 'dark' ? 'bg-zinc-900' : 'bg-white shadow-sm'}`;
+  const toggle = (active: boolean) => `px-3 py-1.5 rounded-full text-xs font-medium transition-all ${
+    active ? (theme === 'dark' ? 'bg-white text-black' : 'bg-slate-900 text-white') : (theme === 'dark' ? 'bg-zinc-800 text-zinc-400' : 'bg-slate-100 text-slate-600')
+  }`;
+  const activeStruggles = memory.struggles.filter(item => item.value.status !== 'resolved');
+  const notificationState = browserPermissions.notifications;
+
+  return (
+    <div className={`min-h-screen pb-24 ${theme === 'dark' ? 'bg-black text-white' : 'bg-slate-50 text-slate-900'} animate-fade-in`}>
+      <div className={`sticky top-0 z-20 px-4 pt-4 pb-3 flex items-center gap-3 border-b ${theme === 'dark' ? 'bg-black/80 border-white/10' : 'bg-white/90 border-slate-200'} backdrop-blur-md`}>
+        <button onClick={onClose}><ArrowLeft className="w-6 h-6" /></button>
+        <h1 className="text-xl font-bold flex-1">Reminders</h1>
+        <button onClick={openReminderForm} className="flex items-center gap-1 px-3 py-1.5 rounded-full bg-violet-500 text-white text-sm font-medium">
+          <Plus className="w-4 h-4" /> Reminder
+        </button>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {!canUse('reminders', 'notifications') && (
+          <div className={card}>
+            <p className="text-sm">
+              {notificationState === 'unsupported'
+                ? "This browser can't show notifications. Reminders still appear in the shade on the home screen."
+                : notificationState === 'denied'
+                  ? 'Notifications are blocked in the browser settings. Reminders still appear in the shade on the home screen.'
+                  : 'Reminders appear in the shade on the home screen. Allow notifications to get them outside Lucy OS too.'}
+            </p>
+            {notificationState !== 'unsupported' && notificationState !== 'denied' && (
+              <button
+                onClick={() => requestPermission('reminders', 'notifications')}
+                className="mt-3 flex items-center gap-1.5 px-4 py-2 rounded-full bg-violet-500 text-white text-sm font-medium"
+              >
+                <Bell className="w-4 h-4" /> Allow notifications
+              </button>
+            )}
+          </div>
+        )}
+
+        <div className={card}>
+          <h2 className="font-semibold">Reflection prompts</h2>
+          <p className="text-xs opacity-60 mt-1">A question for each part of your journal, in the evening.</p>
+          <div className="mt-4 space-y-4">
+            {journalCategories.map(cat => {
+              const current = findReflection(reminderStore, cat.id)?.recurrence || 'none';
+              return (
+                <div key={cat.id}>
+                  <p className="text-sm font-medium">{cat.name}</p>
+                  <p className="text-xs opacity-60 mb-2">{reflectionPrompt(cat)}</p>
+                  <div className="flex gap-1.5">
+                    {(['none', 'daily', 'weekly'] as Recurrence[]).map(r => (
+                      <button key={r} onClick={() => setReminderStore(s => setReflectionSchedule(s, cat, r))} className={toggle(current === r)}>
+                        {r === 'none' ? 'Off' : r === 'daily' ? 'Daily' : 'Weekly'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className={card}>
+          <h2 className="font-semibold">Weekly check-ins</h2>
+          <p className="text-xs opacity-60 mt-1">Lucy asks how an active struggle went, once a week.</p>
+          {activeStruggles.length === 0 && <p className="text-sm opacity-50 mt-3">No active struggles.</p>}
+          <div className="mt-3 space-y-2">
+            {activeStruggles.map(item => {
+              const checkIn = findCheckIn(reminderStore, item.id);
+              return (
+                <div key={item.id} className="flex items-center gap-3">
+                  <span className="flex-1 text-sm truncate">{item.value.description}</span>
+                  <button onClick={() => toggleCheckIn(item)} className={toggle(!!checkIn)}>
+                    {checkIn ? 'On' : 'Off'}
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className={card}>
+          <h2 className="font-semibold">Upcoming</h2>
+          {reminderStore.reminders.length === 0 && <p className="text-sm opacity-50 mt-3">Nothing scheduled. Add a reminder, or ask Lucy to set one.</p>}
+          <div className="mt-3 space-y-3">
+            {reminderStore.reminders.map(reminder => (
+              <div key={reminder.id} className="flex items-start gap-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm">{reminder.title}</p>
+                  <p className="text-xs opacity-50 mt-0.5">
+                    {formatDueTime(reminder.dueAt)}
+                    {reminder.recurrence !== 'none' && ` · ${RECURRENCE_LABELS[reminder.recurrence].toLowerCase()}`}
+                    {reminder.kind !== 'reminder' && ` · ${reminder.kind}`}
+                    {reminder.createdBy === 'lucy' && ' · set with Lucy'}
+                  </p>
+                </div>
+                <button onClick={() => setReminderStore(s => deleteReminder(s, reminder.id))} title="Delete reminder" className="p-1.5 opacity-50 hover:opacity-100">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RemindersApp;
@@ -0,0 +1,484 @@
+import React from 'react';
+import { AppId } from '../../types';
+import { Plus, Sparkles, ArrowLeft, Moon, Sun, Check, Download, Upload, Lock } from '../Icons';
+import { CATEGORY_COLOR_CLASSES, CATEGORY_ICON_COMPONENTS } from '../categoryStyles';
+import { PROVIDER_OPTIONS } from '../../services/providers';
+import { SPEECH_BACKEND_OPTIONS, speak, isSpeechSynthesisSupported } from '../../services/speech';
+import { itemsIn } from '../../services/memoryService';
+import { ExportFormat } from '../../services/transferService';
+import { AUTO_LOCK_OPTIONS } from '../../services/privacyService';
+import { APP_CAPABILITIES, APP_LABELS, CAPABILITY_INFO, describeAuditEntry } from '../../services/permissionService';
+import { MESSAGE_TRANSPORT_OPTIONS } from '../../services/messaging';
+import { AppViewProps } from './types';
+import { useShell } from './ShellContext';
+import { useSettings } from './settingsState';
+
+// Permission history entries shown before "Show all"
+const AUDIT_PREVIEW_COUNT = 6;
+
+const SettingsApp: React.FC<AppViewProps> = ({ theme, onClose }) => {
+  const {
+    memory, categories, permissions, browserPermissions, llmSettings, speechSettings, voiceSettings, privacySettings, messagingSettings,
+    journalCategories, lockApp, updatePrivacySettings, togglePrivateCategory, updateLlmSettings, updateSpeechSettings,
+    updateVoiceSettings, selectProvider, toggleTheme, canUse, togglePermission, updateMessagingSettings
+  } = useShell();
+  const {
+    isAuditExpanded, setIsAuditExpanded, auditExplanation, isExplainingAudit, voices, setPasscodeAction, includeChatInExport,
+    setIncludeChatInExport, importInputRef, openCategoryForm, handleExport, handleImportFile, explainPermissions
+  } = useSettings();
+
+  return (
+      <div className={`min-h-screen ${theme === 'dark' ? 'bg-black text-white' : 'bg-slate-50 text-slate-900'} animate-fade-in`}>
+         <div className="sticky top-0 p-4 flex items-center gap-4 bg-inherit z-10">
+             <button onClick={onClose}><ArrowLeft className="w-6 h-6" /></button>
+             <h1 className="text-2xl font-bold">Settings</h1>
+         </div>
+         
+         <div className="p-4 space-y-6">
+             {/* Account Section */}
+             <div className={`p-6 rounded-3xl flex items-center gap-4 ${theme === 'dark' ? 'bg-zinc-900' : 'bg-white shadow-sm'}`}>
+                 <div className="w-16 h-16 rounded-full bg-gradient-to-tr from-brand-400 to-blue-500 flex items-center justify-center text-white text-xl font-bold">L</div>
+                 <div>
+                     <h2 className="text-xl font-bold">Lucy OS</h2>
+                     <p className="opacity-60 text-sm">System Active</p>
+                 </div>
+             </div>
+
+             {/* Appearance */}
+             <div className={`rounded-3xl overflow-hidden ${theme === 'dark' ? 'bg-zinc-900' : 'bg-white shadow-sm'}`}>
+                 <div className="p-4 border-b border-white/5 opacity-80 font-bold text-sm uppercase tracking-wider pl-6">Appearance</div>
+                 <div onClick={toggleTheme} className="p-5 flex items-center justify-between active:bg-black/5 cursor-pointer">
+                     <div className="flex items-center gap-3">
+                         {theme === 'dark' ? <Moon className="w-5 h-5 text-blue-400" /> : <Sun className="w-5 h-5 text-orange-400" />}
+                         <span className="font-medium">Dark Mode</span>
+                     </div>
+                     <div className={`w-12 h-7 rounded-full p-1 transition-colors ${theme === 'dark' ? 'bg-brand-500' : 'bg-slate-300'}`}>
+                         <div className={`w-5 h-5 bg-white rounded-full shadow-md transform transition-transform ${theme === 'dark' ? 'translate-x-5' : ''}`}></div>
+                     </div>
+                 </div>
+             </div>
+
+             {/* Model */}
+             <div className={`rounded-3xl overflow-hidden ${theme === 'dark' ? 'bg-zinc-900' : 'bg-white shadow-sm'}`}>
+                 <div className="p-4 border-b border-white/5 opacity-80 font-bold text-sm uppercase tracking-wider pl-6">Lucy's Model</div>
+
+                 <div className="p-5 space-y-2 border-b border-white/5">
+                     {PROVIDER_OPTIONS.map(option => (
+                         <div key={option.id} onClick={() => selectProvider(option.id)} className="flex items-center justify-between cursor-pointer py-1">
+                             <span className="font-medium">{option.label}</span>
+                             {llmSettings.provider === option.id && <Check className="w-5 h-5 text-brand-500" />}
+                         </div>
+                     ))}
+                 </div>
+
+                 <div className="p-5 space-y-4">
+                     <label className="block">
+                         <span className="text-xs opacity-60">Model</span>
+                         <input
+                           value={llmSettings.model}
+                           onChange={(e) => updateLlmSettings({ model: e.target.value })}
+                           className={`w-full mt-1 px-4 py-2 rounded-xl outline-none text-sm ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100'}`}
+                         />
+                     </label>
+
+                     <label className="block">
+                         <span className="text-xs opacity-60">Temperature · {llmSettings.temperature.toFixed(1)}</span>
+                         <input
+                           type="range" min={0} max={2} step={0.1}
+                           value={llmSettings.temperature}
+                           onChange={(e) => updateLlmSettings({ temperature: Number(e.target.value) })}
+                           className="w-full mt-1 accent-brand-500"
+                         />
+                     </label>
+
+                     {llmSettings.provider === 'openai' && (
+                         <label className="block">
+                             <span className="text-xs opacity-60">Server URL</span>
+                             <input
+                               value={llmSettings.baseUrl}
+                               onChange={(e) => updateLlmSettings({ baseUrl: e.target.value })}
+                               placeholder="http://localhost:11434/v1"
+                               className={`w-full mt-1 px-4 py-2 rounded-xl outline-none text-sm ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100'}`}
+                             />
+                         </label>
+                     )}
+
+                     {llmSettings.provider !== 'mock' && (
+                         <label className="block">
+                             <span className="text-xs opacity-60">API Key {llmSettings.provider === 'gemini' ? '(leave empty to use the built-in key)' : '(optional)'}</span>
+                             <input
+                               type="password"
+                               value={llmSettings.apiKey}
+                               onChange={(e) => updateLlmSettings({ apiKey: e.target.value })}
+                               className={`w-full mt-1 px-4 py-2 rounded-xl outline-none text-sm ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100'}`}
+                             />
+                         </label>
+                     )}
+                 </div>
+
+                 <div onClick={() => updateLlmSettings({ useEmbeddings: !llmSettings.useEmbeddings })} className="p-5 flex items-center justify-between border-t border-white/5 active:bg-black/5 cursor-pointer">
+                     <div>
+                         <span className="font-medium block">Semantic memory search</span>
+                         <span className="text-xs opacity-60">Find related memories by meaning, not just matching words. Sends entries to the model's embedding service.</span>
+                     </div>
+                     <div className={`w-12 h-7 shrink-0 ml-3 rounded-full p-1 transition-colors ${llmSettings.useEmbeddings ? 'bg-brand-500' : 'bg-slate-300'}`}>
+                         <div className={`w-5 h-5 bg-white rounded-full shadow-md transform transition-transform ${llmSettings.useEmbeddings ? 'translate-x-5' : ''}`}></div>
+                     </div>
+                 </div>
+             </div>
+
+             {/* Lucy Live */}
+             <div className={`rounded-3xl overflow-hidden ${theme === 'dark' ? 'bg-zinc-900' : 'bg-white shadow-sm'}`}>
+                 <div className="p-4 border-b border-white/5 opacity-80 font-bold text-sm uppercase tracking-wider pl-6">Lucy Live Transcription</div>
+
+                 <div className="p-5 space-y-2 border-b border-white/5">
+                     {SPEECH_BACKEND_OPTIONS.map(option => (
+                         <div key={option.id} onClick={() => updateSpeechSettings({ backend: option.id })} className="flex items-center justify-between cursor-pointer py-1">
+                             <span className="font-medium">{option.label}</span>
+                             {speechSettings.backend === option.id && <Check className="w-5 h-5 text-brand-500" />}
+                         </div>
+                     ))}
+                 </div>
+
+                 <div className="p-5 space-y-4">
+                     <label className="block">
+                         <span className="text-xs opacity-60">Language</span>
+                         <input
+                           value={speechSettings.language}
+                           onChange={(e) => updateSpeechSettings({ language: e.target.value })}
+                           placeholder="en-US"
+                           className={`w-full mt-1 px-4 py-2 rounded-xl outline-none text-sm ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100'}`}
+                         />
+                     </label>
+
+                     {speechSettings.backend === 'server' && (
+                         <>
+                           <label className="block">
+                               <span className="text-xs opacity-60">Server URL</span>
+                               <input
+                                 value={speechSettings.serverUrl}
+                                 onChange={(e) => updateSpeechSettings({ serverUrl: e.target.value })}
+                                 placeholder="http://localhost:8000/v1"
+                                 className={`w-full mt-1 px-4 py-2 rounded-xl outline-none text-sm ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100'}`}
+                               />
+                           </label>
+                           <label className="block">
+                               <span className="text-xs opacity-60">API Key (optional)</span>
+                               <input
+                                 type="password"
+                                 value={speechSettings.apiKey}
+                                 onChange={(e) => updateSpeechSettings({ apiKey: e.target.value })}
+                                 className={`w-full mt-1 px-4 py-2 rounded-xl outline-none text-sm ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100'}`}
+                               />
+                           </label>
+                         </>
+                     )}
+                 </div>
+
+                 <div onClick={() => updateSpeechSettings({ allowCloud: !speechSettings.allowCloud })} className="p-5 flex items-center justify-between border-t border-white/5 active:bg-black/5 cursor-pointer">
+                     <div>
+                         <span className="font-medium block">Allow cloud transcription</span>
+                         <span className="text-xs opacity-60">Off keeps audio on this device: only on-device recognition or a server on this device is used.</span>
+                     </div>
+                     <div className={`w-12 h-7 shrink-0 ml-3 rounded-full p-1 transition-colors ${speechSettings.allowCloud ? 'bg-brand-500' : 'bg-slate-300'}`}>
+                         <div className={`w-5 h-5 bg-white rounded-full shadow-md transform transition-transform ${speechSettings.allowCloud ? 'translate-x-5' : ''}`}></div>
+                     </div>
+                 </div>
+             </div>
+
+             {/* Messages */}
+             <div className={`rounded-3xl overflow-hidden ${theme === 'dark' ? 'bg-zinc-900' : 'bg-white shadow-sm'}`}>
+                 <div className="p-4 border-b border-white/5 opacity-80 font-bold text-sm uppercase tracking-wider pl-6">Messages</div>
+
+                 <div className="p-5 space-y-2 border-b border-white/5">
+                     {MESSAGE_TRANSPORT_OPTIONS.map(option => (
+                         <div key={option.id} onClick={() => updateMessagingSettings({ transport: option.id })} className="flex items-center justify-between cursor-pointer py-1">
+                             <span className="font-medium">{option.label}</span>
+                             {messagingSettings.transport === option.id && <Check className="w-5 h-5 text-brand-500" />}
+                         </div>
+                     ))}
+                 </div>
+
+                 <div className="p-5 space-y-4">
+                     {messagingSettings.transport === 'loopback' ? (
+                         <p className="text-xs opacity-60">Messages stay on this device and each contact answers from a short script. Useful for trying things out.</p>
+                     ) : (
+                         <>
+                           <label className="block">
+                               <span className="text-xs opacity-60">Server URL</span>
+                               <input
+                                 value={messagingSettings.serverUrl}
+                                 onChange={(e) => updateMessagingSettings({ serverUrl: e.target.value })}
+                                 placeholder="http://localhost:8787"
+                                 className={`w-full mt-1 px-4 py-2 rounded-xl outline-none text-sm ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100'}`}
+                               />
+                           </label>
+                           <label className="block">
+                               <span className="text-xs opacity-60">API Key (optional)</span>
+                               <input
+                                 type="password"
+                                 value={messagingSettings.apiKey}
+                                 onChange={(e) => updateMessagingSettings({ apiKey: e.target.value })}
+                                 className={`w-full mt-1 px-4 py-2 rounded-xl outline-none text-sm ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100'}`}
+                               />
+                           </label>
+                         </>
+                     )}
+                 </div>
+             </div>
+
+             {/* Voice */}
+             <div className={`rounded-3xl overflow-hidden ${theme === 'dark' ? 'bg-zinc-900' : 'bg-white shadow-sm'}`}>
+                 <div className="p-4 border-b border-white/5 opacity-80 font-bold text-sm uppercase tracking-wider pl-6">Voice Conversation</div>
+
+                 <div className="p-5 space-y-4">
+                     <label className="block">
+                         <span className="text-xs opacity-60">Lucy's voice</span>
+                         <select
+                           value={voiceSettings.voiceURI}
+                           onChange={(e) => updateVoiceSettings({ voiceURI: e.target.value })}
+                           disabled={!voices.length}
+                           className={`w-full mt-1 px-4 py-2 rounded-xl outline-none text-sm ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100'}`}
+                         >
+                             <option value="">System default</option>
+                             {voices.map(v => <option key={v.voiceURI} value={v.voiceURI}>{v.name} ({v.lang})</option>)}
+                         </select>
+                     </label>
+
+                     <label className="block">
+                         <span className="text-xs opacity-60">Speaking rate · {voiceSettings.rate.toFixed(1)}×</span>
+                         <input
+                           type="range" min={0.5} max={2} step={0.1}
+                           value={voiceSettings.rate}
+                           onChange={(e) => updateVoiceSettings({ rate: Number(e.target.value) })}
+                           className="w-full mt-1 accent-brand-500"
+                         />
+                     </label>
+
+                     <button
+                       onClick={() => speak("Systems online. Lucy ready.", voiceSettings)}
+                       disabled={!isSpeechSynthesisSupported()}
+                       className={`px-4 py-2 rounded-full text-sm font-medium disabled:opacity-40 ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100'}`}
+                     >
+                         Test voice
+                     </button>
+                 </div>
+
+                 <div onClick={() => updateVoiceSettings({ readReplies: !voiceSettings.readReplies })} className="p-5 flex items-center justify-between border-t border-white/5 active:bg-black/5 cursor-pointer">
+                     <div>
+                         <span className="font-medium block">Read replies aloud</span>
+                         <span className="text-xs opacity-60">Hands-free mode: Lucy speaks each reply when it's finished.</span>
+                     </div>
+                     <div className={`w-12 h-7 shrink-0 ml-3 rounded-full p-1 transition-colors ${voiceSettings.readReplies ? 'bg-brand-500' : 'bg-slate-300'}`}>
+                         <div className={`w-5 h-5 bg-white rounded-full shadow-md transform transition-transform ${voiceSettings.readReplies ? 'translate-x-5' : ''}`}></div>
+                     </div>
+                 </div>
+                 <div onClick={() => updateVoiceSettings({ autoSend: !voiceSettings.autoSend })} className="p-5 flex items-center justify-between border-t border-white/5 active:bg-black/5 cursor-pointer">
+                     <div>
+                         <span className="font-medium block">Send when I let go</span>
+                         <span className="text-xs opacity-60">Dictated messages are sent as soon as you release the mic button.</span>
+                     </div>
+                     <div className={`w-12 h-7 shrink-0 ml-3 rounded-full p-1 transition-colors ${voiceSettings.autoSend ? 'bg-brand-500' : 'bg-slate-300'}`}>
+                         <div className={`w-5 h-5 bg-white rounded-full shadow-md transform transition-transform ${voiceSettings.autoSend ? 'translate-x-5' : ''}`}></div>
+                     </div>
+                 </div>
+             </div>
+
+             {/* Privacy */}
+             <div className={`rounded-3xl overflow-hidden ${theme === 'dark' ? 'bg-zinc-900' : 'bg-white shadow-sm'}`}>
+                 <div className="p-4 border-b border-white/5 opacity-80 font-bold text-sm uppercase tracking-wider pl-6">Privacy & Lock</div>
+
+                 <div className="p-5 space-y-4">
+                     <div>
+                         <span className="font-medium block">Passcode lock</span>
+                         <span className="text-xs opacity-60">
+                           {privacySettings.passcode
+                             ? 'On. Your Memory Bank and chats are encrypted on this device and need the passcode to open.'
+                             : 'Off. Set a passcode to lock Lucy OS and encrypt your Memory Bank and chats on this device.'}
+                         </span>
+                     </div>
+                     <div className="flex flex-wrap gap-2">
+                         {privacySettings.passcode ? (
+                           <>
+                             <button onClick={lockApp} className="flex items-center gap-1 px-4 py-2 rounded-full bg-brand-600 text-white text-sm font-medium">
+                                 <Lock className="w-4 h-4" /> Lock now
+                             </button>
+                             <button onClick={() => setPasscodeAction('change')} className={`px-4 py-2 rounded-full text-sm font-medium ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100'}`}>
+                                 Change passcode
+                             </button>
+                             <button onClick={() => setPasscodeAction('remove')} className="px-4 py-2 rounded-full text-sm font-medium text-red-500">
+                                 Remove
+                             </button>
+                           </>
+                         ) : (
+                           <button onClick={() => setPasscodeAction('set')} className="flex items-center gap-1 px-4 py-2 rounded-full bg-brand-600 text-white text-sm font-medium">
+                               <Lock className="w-4 h-4" /> Set passcode
+                           </button>
+                         )}
+                     </div>
+
+                     {privacySettings.passcode && (
+                       <label className="block">
+                           <span className="text-xs opacity-60">Lock automatically after</span>
+                           <select
+                             value={privacySettings.autoLockMinutes}
+                             onChange={(e) => updatePrivacySettings({ autoLockMinutes: Number(e.target.value) }).catch(err => console.error("Failed to save privacy settings", err))}
+                             className={`w-full mt-1 px-4 py-2 rounded-xl outline-none text-sm ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100'}`}
+                           >
+                               {AUTO_LOCK_OPTIONS.map(o => <option key={o.minutes} value={o.minutes}>{o.minutes ? `${o.label} of inactivity` : o.label}</option>)}
+                           </select>
+                       </label>
+                     )}
+                 </div>
+
+                 <div className="px-5 pt-4 pb-1 border-t border-white/5">
+                     <span className="font-medium block">Private categories</span>
+                     <span className="text-xs opacity-60">Kept out of what Lucy sees. You can share them for a session from the lock button in the chat.</span>
+                 </div>
+                 {journalCategories.map(category => {
+                     const isPrivate = privacySettings.privateCategories.includes(category.id);
+                     return (
+                       <div key={category.id} onClick={() => togglePrivateCategory(category.id)} className="px-5 py-3 flex items-center justify-between active:bg-black/5 cursor-pointer">
+                           <span className="text-sm">{category.name}</span>
+                           <div className={`w-12 h-7 shrink-0 ml-3 rounded-full p-1 transition-colors ${isPrivate ? 'bg-brand-500' : 'bg-slate-300'}`}>
+                               <div className={`w-5 h-5 bg-white rounded-full shadow-md transform transition-transform ${isPrivate ? 'translate-x-5' : ''}`}></div>
+                           </div>
+                       </div>
+                     );
+                 })}
+             </div>
+
+             {/* Memory Categories */}
+             <div className={`rounded-3xl overflow-hidden ${theme === 'dark' ? 'bg-zinc-900' : 'bg-white shadow-sm'}`}>
+                 <div className="p-4 border-b border-white/5 opacity-80 font-bold text-sm uppercase tracking-wider pl-6">Memory Categories</div>
+                 {categories.map(category => {
+                     const Icon = CATEGORY_ICON_COMPONENTS[category.icon];
+                     return (
+                       <div key={category.id} onClick={() => openCategoryForm(category)} className={`px-5 py-3 flex items-center gap-3 active:bg-black/5 cursor-pointer ${category.archived ? 'opacity-50' : ''}`}>
+                           <span className={`w-8 h-8 shrink-0 rounded-xl flex items-center justify-center ${CATEGORY_COLOR_CLASSES[category.color].solid}`}>
+                               <Icon className="w-4 h-4 text-white" />
+                           </span>
+                           <span className="flex-1 min-w-0">
+                               <span className="text-sm block">{category.name}{category.archived ? ' (archived)' : ''}</span>
+                               {category.hint && <span className="text-xs opacity-60 block truncate">{category.hint}</span>}
+                           </span>
+                           <span className="text-xs opacity-50">{itemsIn(memory, category.id).length}</span>
+                       </div>
+                     );
+                 })}
+                 <button onClick={() => openCategoryForm()} className="w-full px-5 py-3 flex items-center gap-2 text-sm font-medium text-brand-500 border-t border-white/5">
+                     <Plus className="w-4 h-4" /> New category
+                 </button>
+             </div>
+
+             {/* Backup & Restore */}
+             <div className={`rounded-3xl overflow-hidden ${theme === 'dark' ? 'bg-zinc-900' : 'bg-white shadow-sm'}`}>
+                 <div className="p-4 border-b border-white/5 opacity-80 font-bold text-sm uppercase tracking-wider pl-6">Backup & Restore</div>
+
+                 <div className="p-5 grid grid-cols-3 gap-2 border-b border-white/5">
+                     {([['json', 'JSON'], ['markdown', 'Markdown'], ['python', 'Python']] as [ExportFormat, string][]).map(([format, label]) => (
+                         <button
+                           key={format}
+                           onClick={() => handleExport(format)}
+                           className={`flex flex-col items-center gap-1 py-3 rounded-2xl text-sm font-medium active:scale-95 transition-transform ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100'}`}
+                         >
+                           <Download className="w-5 h-5 text-brand-500" />
+                           {label}
+                         </button>
+                     ))}
+                 </div>
+
+                 <div onClick={() => setIncludeChatInExport(v => !v)} className="p-5 flex items-center justify-between active:bg-black/5 cursor-pointer border-b border-white/5">
+                     <div>
+                         <div className="font-medium">Include Chat History</div>
+                         <div className="text-xs opacity-60">Added to JSON and Markdown exports</div>
+                     </div>
+                     <div className={`w-12 h-7 rounded-full p-1 transition-colors ${includeChatInExport ? 'bg-brand-500' : 'bg-slate-300'}`}>
+                         <div className={`w-5 h-5 bg-white rounded-full shadow-md transform transition-transform ${includeChatInExport ? 'translate-x-5' : ''}`}></div>
+                     </div>
+                 </div>
+
+                 <div onClick={() => importInputRef.current?.click()} className="p-5 flex items-center gap-3 active:bg-black/5 cursor-pointer">
+                     <Upload className="w-5 h-5 text-blue-500" />
+                     <div>
+                         <div className="font-medium">Import Memories</div>
+                         <div className="text-xs opacity-60">Lucy OS backup or Python script JSON</div>
+                     </div>
+                 </div>
+                 <input ref={importInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImportFile} />
+             </div>
+
+             {/* App Permissions */}
+             <div className={`rounded-3xl overflow-hidden ${theme === 'dark' ? 'bg-zinc-900' : 'bg-white shadow-sm'}`}>
+                 <div className="p-4 border-b border-white/5 opacity-80 font-bold text-sm uppercase tracking-wider pl-6">App Permissions</div>
+
+                 {(Object.keys(APP_CAPABILITIES) as AppId[]).map(app => (
+                   <div key={app} className="border-b border-white/5">
+                       <div className="px-5 pt-4 text-xs font-semibold uppercase tracking-wider opacity-50">{APP_LABELS[app]}</div>
+                       {APP_CAPABILITIES[app]!.map(capability => {
+                           const allowed = canUse(app, capability);
+                           const browserState = browserPermissions[capability];
+                           const unavailable = browserState === 'denied' || browserState === 'unsupported';
+                           return (
+                             <div
+                               key={capability}
+                               onClick={() => !unavailable && togglePermission(app, capability)}
+                               className={`px-5 py-4 flex items-center justify-between ${unavailable ? 'opacity-60' : 'active:bg-black/5 cursor-pointer'}`}
+                             >
+                                 <div>
+                                     <div className="font-medium">{CAPABILITY_INFO[capability].label}</div>
+                                     <div className="text-xs opacity-60">{CAPABILITY_INFO[capability].description}</div>
+                                     {browserState === 'denied' && <div className="text-xs text-amber-500 mt-1">Blocked by the browser. Allow it in the site settings.</div>}
+                                     {browserState === 'unsupported' && <div className="text-xs text-amber-500 mt-1">Not available in this browser.</div>}
+                                 </div>
+                                 <div className={`w-12 h-7 shrink-0 ml-3 rounded-full p-1 transition-colors ${allowed ? 'bg-brand-500' : 'bg-slate-300'}`}>
+                                     <div className={`w-5 h-5 bg-white rounded-full shadow-md transform transition-transform ${allowed ? 'translate-x-5' : ''}`}></div>
+                                 </div>
+                             </div>
+                           );
+                       })}
+                   </div>
+                 ))}
+
+                 {/* Audit log */}
+                 <div className="p-5 space-y-3">
+                     <div className="flex items-center justify-between">
+                         <span className="font-medium">Permission history</span>
+                         <button
+                           onClick={explainPermissions}
+                           disabled={isExplainingAudit}
+                           className="flex items-center gap-1 px-3 py-1.5 rounded-full bg-brand-600 text-white text-xs font-medium disabled:opacity-40"
+                         >
+                             <Sparkles className="w-3.5 h-3.5" /> {isExplainingAudit ? 'Thinking...' : 'Ask Lucy to explain'}
+                         </button>
+                     </div>
+                     {auditExplanation && (
+                       <div className={`rounded-2xl p-4 text-sm leading-relaxed ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-50'}`}>
+                           {auditExplanation.text}
+                           {auditExplanation.origin === 'offline' && <p className="text-[11px] opacity-50 mt-2">Lucy couldn't be reached, so this summary was made on the device.</p>}
+                       </div>
+                     )}
+                     {permissions.audit.length === 0 ? (
+                       <p className="text-xs opacity-50">No app has asked for anything yet.</p>
+                     ) : (
+                       <ul className="space-y-1.5 text-xs opacity-70">
+                           {[...permissions.audit].reverse().slice(0, isAuditExpanded ? undefined : AUDIT_PREVIEW_COUNT).map(entry => (
+                             <li key={entry.id}>{describeAuditEntry(entry)}</li>
+                           ))}
+                       </ul>
+                     )}
+                     {permissions.audit.length > AUDIT_PREVIEW_COUNT && (
+                       <button onClick={() => setIsAuditExpanded(open => !open)} className="text-xs font-medium text-brand-500">
+                           {isAuditExpanded ? 'Show less' : `Show all ${permissions.audit.length}`}
+                       </button>
+                     )}
+                 </div>
+             </div>
+             
+             <p className="text-center text-xs opacity-40 mt-8">Lucy OS v2.1 • Samsung One UI Inspired</p>
+         </div>
+      </div>
+  );
+};
+
+export default SettingsApp;
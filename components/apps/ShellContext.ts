@@ -0,0 +1,12 @@
+import { createContext, useContext } from 'react';
+import { ShellState } from './shell';
+
+// The state the built-in apps share with the shell: the Memory Bank, conversations,
+// settings and the handlers that keep them saved. App provides it around every screen.
+export const ShellContext = createContext<ShellState | null>(null);
+
+export const useShell = (): ShellState => {
+  const shell = useContext(ShellContext);
+  if (!shell) throw new Error("useShell has to be called inside the Lucy OS shell");
+  return shell;
+};
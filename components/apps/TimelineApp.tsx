@@ -0,0 +1,157 @@
+import React from 'react';
+import { Sparkles, ArrowLeft, Flame } from '../Icons';
+import { CATEGORY_COLOR_CLASSES } from '../categoryStyles';
+import {
+  Granularity, RANGE_PRESETS, resolveRange, bucketEntries, struggleDurations, averageDaysToResolve, journalingStreaks, formatRange,
+  countTotal
+} from '../../services/analyticsService';
+import { AppViewProps } from './types';
+import { useShell } from './ShellContext';
+import { useTimeline } from './timelineState';
+
+const TimelineApp: React.FC<AppViewProps> = ({ theme, onClose }) => {
+  const { memory, categories } = useShell();
+  const {
+    timelineRange, setTimelineRange, timelineGranularity, setTimelineGranularity, periodReview, isReviewLoading, generatePeriodReview
+  } = useTimeline();
+
+  const range = resolveRange(timelineRange, memory);
+  const buckets = bucketEntries(memory, range, timelineGranularity);
+  const maxCount = Math.max(1, ...buckets.map(b => countTotal(b.counts)));
+  // Archived categories still count here, since their entries were written in the period
+  const charted = categories.filter(c => buckets.some(b => b.counts[c.id] > 0));
+  const durations = struggleDurations(memory, range);
+  const averageDays = averageDaysToResolve(durations);
+  const streaks = journalingStreaks(memory, range);
+  const review = periodReview?.range === timelineRange ? periodReview.review : null;
+  const preset = RANGE_PRESETS.find(p => p.id === timelineRange);
+  const card = `rounded-3xl p-5 ${theme === 'dark' ? 'bg-zinc-900' : 'bg-white shadow-sm'}`;
+  const toggle = (active: boolean) => `px-3 py-1.5 rounded-full text-xs font-medium transition-all ${
+    active ? (theme === 'dark' ? 'bg-white text-black' : 'bg-slate-900 text-white') : (theme === 'dark' ? 'bg-zinc-900 text-zinc-400' : 'bg-white text-slate-600 border border-slate-200')
+  }`;
+
+  return (
+    <div className={`min-h-screen pb-24 ${theme === 'dark' ? 'bg-black text-white' : 'bg-slate-50 text-slate-900'} animate-fade-in`}>
+      <div className={`sticky top-0 z-20 px-4 pt-4 pb-3 flex flex-col gap-3 border-b ${theme === 'dark' ? 'bg-black/80 border-white/10' : 'bg-white/90 border-slate-200'} backdrop-blur-md`}>
+        <div className="flex items-center gap-3">
+          <button onClick={onClose}><ArrowLeft className="w-6 h-6" /></button>
+          <h1 className="text-xl font-bold">Timeline</h1>
+        </div>
+        <div className="flex gap-1.5 overflow-x-auto no-scrollbar">
+          {RANGE_PRESETS.map(p => (
+            <button key={p.id} onClick={() => setTimelineRange(p.id)} className={toggle(timelineRange === p.id)}>{p.label}</button>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <p className="text-xs opacity-50 px-1">{formatRange(range)}</p>
+
+        {/* Entries over time */}
+        <div className={card}>
+          <div className="flex items-center justify-between mb-4">
+            <span className="font-semibold">Entries per {timelineGranularity}</span>
+            <div className="flex gap-1">
+              {(['week', 'month'] as Granularity[]).map(g => (
+                <button key={g} onClick={() => setTimelineGranularity(g)} className={`${toggle(timelineGranularity === g)} capitalize`}>{g}</button>
+              ))}
+            </div>
+          </div>
+          <div className="flex items-end gap-1 h-36 overflow-x-auto no-scrollbar">
+            {buckets.map(bucket => {
+              const total = countTotal(bucket.counts);
+              return (
+                <div key={bucket.start.toISOString()} className="flex flex-col items-center justify-end h-full min-w-[1.75rem] flex-1" title={`${bucket.label}: ${total}`}>
+                  <div className="w-full flex flex-col-reverse rounded-md overflow-hidden" style={{ height: `${(total / maxCount) * 100}%` }}>
+                    {charted.map(cat => bucket.counts[cat.id] > 0 && (
+                      <div key={cat.id} className={CATEGORY_COLOR_CLASSES[cat.color].solid} style={{ height: `${(bucket.counts[cat.id] / total) * 100}%` }} />
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex gap-1 mt-1 overflow-hidden">
+            {buckets.map((bucket, idx) => (
+              <span key={bucket.start.toISOString()} className="min-w-[1.75rem] flex-1 text-[9px] opacity-50 text-center truncate">
+                {idx % Math.ceil(buckets.length / 6) === 0 ? bucket.label : ''}
+              </span>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-x-4 gap-y-1 mt-3 text-xs opacity-70">
+            {charted.map(cat => (
+              <span key={cat.id} className="flex items-center gap-1.5"><span className={`w-2.5 h-2.5 rounded-sm ${CATEGORY_COLOR_CLASSES[cat.color].solid}`} />{cat.name}</span>
+            ))}
+          </div>
+        </div>
+
+        {/* Streaks */}
+        <div className="grid grid-cols-3 gap-3">
+          {[
+            { label: 'Current streak', value: streaks.current },
+            { label: 'Longest streak', value: streaks.longest },
+            { label: 'Active days', value: streaks.activeDays }
+          ].map(stat => (
+            <div key={stat.label} className={`${card} !p-4 text-center`}>
+              <Flame className={`w-5 h-5 mx-auto mb-1 ${stat.value > 0 ? 'text-orange-500' : 'opacity-30'}`} />
+              <div className="text-2xl font-bold">{stat.value}</div>
+              <div className="text-[11px] opacity-60">{stat.label}</div>
+            </div>
+          ))}
+        </div>
+
+        {/* Struggle durations */}
+        <div className={card}>
+          <div className="flex items-center justify-between mb-3">
+            <span className="font-semibold">Struggles</span>
+            {averageDays !== null && <span className="text-xs opacity-60">Resolved in {averageDays} days on average</span>}
+          </div>
+          {durations.length === 0 && <p className="text-sm opacity-50">No struggles recorded in this period.</p>}
+          <ul className="space-y-3">
+            {durations.map(d => (
+              <li key={d.item.id} className="text-sm">
+                <div className="flex justify-between gap-3">
+                  <span className="truncate">{d.item.value.description}</span>
+                  <span className={`shrink-0 text-xs font-semibold ${d.resolvedAt ? 'text-emerald-500' : 'text-amber-500'}`}>
+                    {d.resolvedAt ? `Resolved after ${d.days}d` : `Open ${d.days}d`}
+                  </span>
+                </div>
+                <div className={`h-1.5 mt-1 rounded-full ${theme === 'dark' ? 'bg-zinc-800' : 'bg-slate-100'}`}>
+                  <div
+                    className={`h-full rounded-full ${d.resolvedAt ? 'bg-emerald-500' : 'bg-amber-500'}`}
+                    style={{ width: `${Math.max(4, (d.days / Math.max(1, durations[0].days)) * 100)}%` }}
+                  />
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {/* Period review */}
+        <div className={card}>
+          <div className="flex items-center gap-2 mb-2">
+            <Sparkles className="w-5 h-5 text-brand-500" />
+            <span className="font-semibold flex-1">{preset?.days ? `Your last ${preset.label.toLowerCase()}` : 'Your journey so far'}</span>
+            <button
+              onClick={generatePeriodReview}
+              disabled={isReviewLoading}
+              className="px-3 py-1.5 rounded-full bg-brand-600 text-white text-xs font-medium disabled:opacity-40"
+            >
+              {isReviewLoading ? 'Writing...' : review ? 'Rewrite' : 'Write review'}
+            </button>
+          </div>
+          {review ? (
+            <>
+              <p className={`text-sm leading-relaxed whitespace-pre-wrap ${theme === 'dark' ? 'text-zinc-300' : 'text-slate-700'}`}>{review.text}</p>
+              {review.origin === 'offline' && <p className="text-[11px] opacity-50 mt-2">Lucy couldn't be reached, so this is a summary of the figures.</p>}
+            </>
+          ) : (
+            <p className="text-sm opacity-50">Lucy can look back over the entries in this period and write you a review.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TimelineApp;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { Bell } from '../Icons';
+import { formatDueTime } from '../../services/reminderService';
+import { WidgetViewProps } from './types';
+import { useShell } from './ShellContext';
+import WidgetCard from './WidgetCard';
+
+const UpNextWidget: React.FC<WidgetViewProps> = ({ theme, onOpen }) => {
+  const { reminderStore } = useShell();
+
+  return (
+    <WidgetCard theme={theme} onClick={onOpen}>
+      <div className="flex items-center gap-3 mb-1">
+        <Bell className="w-5 h-5 text-violet-500" />
+        <span className="font-semibold text-lg flex-1">Up Next</span>
+      </div>
+      {reminderStore.reminders.length === 0 ? (
+        <p className={`text-sm ${theme === 'dark' ? 'text-zinc-400' : 'text-slate-600'}`}>Nothing scheduled.</p>
+      ) : reminderStore.reminders.slice(0, 3).map(reminder => (
+        <div key={reminder.id} className="flex items-baseline gap-3 text-sm">
+          <span className="flex-1 truncate">{reminder.title}</span>
+          <span className={`shrink-0 text-xs ${theme === 'dark' ? 'text-zinc-400' : 'text-slate-500'}`}>{formatDueTime(reminder.dueAt)}</span>
+        </div>
+      ))}
+    </WidgetCard>
+  );
+};
+
+export default UpNextWidget;
@@ -0,0 +1,18 @@
+import React from 'react';
+import { Theme } from '../../types';
+
+// The frame every home screen widget sits in; tapping it opens the widget's app
+const WidgetCard: React.FC<{ theme: Theme; onClick: () => void; children: React.ReactNode }> = ({ theme, onClick, children }) => (
+  <div
+    onClick={onClick}
+    className={`w-full p-6 rounded-[2rem] backdrop-blur-xl border flex flex-col gap-2 transition-all active:scale-95 cursor-pointer
+      ${theme === 'dark'
+        ? 'bg-zinc-900/60 border-zinc-800 text-white shadow-lg'
+        : 'bg-white/60 border-white/50 text-slate-800 shadow-xl shadow-slate-200/50'
+      }`}
+  >
+    {children}
+  </div>
+);
+
+export default WidgetCard;
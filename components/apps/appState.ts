@@ -0,0 +1,66 @@
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { AppId } from '../../types';
+import { LoadResult } from '../../services/storageService';
+import { useShell } from './ShellContext';
+
+// Helpers for the state an app keeps to itself. Each app with state registers a
+// provider in ./index.ts; App mounts them all while Lucy OS is unlocked, so the
+// state outlives the app's screen and is dropped when the app locks.
+
+// A provider running `useAppState` and the hook its screen, widgets and overlays read it with
+export const createAppState = <T,>(name: string, useAppState: () => T) => {
+  const Context = createContext<T | null>(null);
+  const Provider: React.FC<{ children?: React.ReactNode }> = ({ children }) =>
+    React.createElement(Context.Provider, { value: useAppState() }, children);
+  const use = (): T => {
+    const state = useContext(Context);
+    if (!state) throw new Error(`${name} state has to be read inside its provider`);
+    return state;
+  };
+  return { Provider, use };
+};
+
+// A record only this app uses. It's read once the journal is open and saved after
+// every change; if it couldn't be read, nothing is saved over what's stored.
+export const useStoredState = <T,>(load: () => Promise<LoadResult<T>>, save: (value: T) => Promise<void>, initial: T, what: string) => {
+  const { isHydrated, setStorageNotice } = useShell();
+  const [value, setValue] = useState<T>(initial);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    if (!isHydrated || isLoaded) return;
+    load()
+      .then(stored => {
+        setValue(stored.value);
+        setIsLoaded(true);
+      })
+      .catch(err => {
+        console.error(`Failed to load ${what}`, err);
+        setStorageNotice("Saved data could not be loaded. Changes made now may not be kept.");
+      });
+  }, [isHydrated]);
+
+  useEffect(() => {
+    if (isLoaded) save(value).catch(err => console.error(`Failed to save ${what}`, err));
+  }, [value, isLoaded]);
+
+  return [value, setValue, isLoaded] as const;
+};
+
+// Runs each time the app is opened through openApp, with the target it was opened at
+export const useLaunch = (app: AppId, onLaunch: (target?: string) => void) => {
+  const { launchRequest } = useShell();
+  useEffect(() => {
+    if (launchRequest?.app === app) onLaunch(launchRequest.target);
+  }, [launchRequest]);
+};
+
+// Runs when the app is left by any route, the back gesture included
+export const useOnLeave = (app: AppId, onLeave: () => void) => {
+  const { activeApp } = useShell();
+  const wasOpenRef = useRef(activeApp === app);
+  useEffect(() => {
+    if (wasOpenRef.current && activeApp !== app) onLeave();
+    wasOpenRef.current = activeApp === app;
+  }, [activeApp]);
+};
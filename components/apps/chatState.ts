@@ -0,0 +1,317 @@
+import { useState, useEffect, useRef } from 'react';
+import { ChatMessage, Conversation, DailyInsight, OutboxEntry, ReminderProposal } from '../../types';
+import { sendMessageToLucy, summarizeConversation } from '../../services/lucyService';
+import { SpeechSession, SpeechError, createSpeechBackend, speak, stopSpeaking } from '../../services/speech';
+import * as storage from '../../services/storageService';
+import {
+  createConversation, addConversation, appendMessage, setActiveConversation, setConversationSummary, messagesToSummarize,
+  updateMessage, updateProposal, updateReminderProposal, insertMessageAfter, removeMessage, conversationBefore, queueMessage,
+  dequeueMessage, pruneOutbox
+} from '../../services/conversationService';
+import { createDailyInsight, isInsightCurrent, insightConversation, todayKey } from '../../services/insightService';
+import { addReminder, reminderFromProposal } from '../../services/reminderService';
+import { isNetworkOnline } from '../../services/connectivityService';
+import { createAppState, useOnLeave, useStoredState } from './appState';
+import { useShell } from './ShellContext';
+
+// How long the outbox waits before trying again when Lucy couldn't be reached
+const OUTBOX_RETRY_MS = 30000;
+
+// Shown in an empty conversation; never sent to the model
+const WELCOME_MESSAGE: ChatMessage = { id: 'welcome', role: 'model', text: "Systems online. Lucy ready.", timestamp: 0 };
+
+// The conversation being written, Lucy's reply as it streams, messages waiting in the
+// outbox, dictation and the daily insight. The conversations themselves are the shell's.
+const useChatState = () => {
+  const {
+    speechSettings, voiceSettings, conversationStore, setConversationStore, networkOnline, setReminderStore, activeConversation,
+    canReachModel, lucyConnection, lucyMemory, openApp, logPermissionUse, proposalActions
+  } = useShell();
+
+  const [isConversationListOpen, setIsConversationListOpen] = useState(false);
+  const [renamingConversation, setRenamingConversation] = useState<{ id: string; title: string } | null>(null);
+  const summarizingRef = useRef<Set<string>>(new Set());
+  const [inputMessage, setInputMessage] = useState('');
+  const [isChatLoading, setIsChatLoading] = useState(false);
+  const chatEndRef = useRef<HTMLDivElement>(null);
+  const chatAbortRef = useRef<AbortController | null>(null);
+
+  // Chat messages waiting until Lucy can be reached
+  const [outbox, setOutbox, isOutboxLoaded] = useStoredState<OutboxEntry[]>(storage.loadOutbox, storage.saveOutbox, [], 'outbox');
+  const [isOutboxPaused, setIsOutboxPaused] = useState(false);
+
+  // Home widget
+  const [dailyInsight, setDailyInsight, isInsightLoaded] = useStoredState<DailyInsight | null>(
+    storage.loadDailyInsight,
+    async (insight) => { if (insight) await storage.saveDailyInsight(insight); },
+    null,
+    'daily insight'
+  );
+  const [isInsightLoading, setIsInsightLoading] = useState(false);
+  const insightAttemptRef = useRef(0);
+
+  // Push-to-talk dictation into the chat input
+  const [isDictating, setIsDictating] = useState(false);
+  const [dictationPartial, setDictationPartial] = useState('');
+  const [dictationError, setDictationError] = useState<string | null>(null);
+  const dictationRef = useRef<{ session: SpeechSession | null; held: boolean; base: string; phrases: string[] }>({ session: null, held: false, base: '', phrases: [] });
+
+  const chatMessages = activeConversation?.messages.length ? activeConversation.messages : [WELCOME_MESSAGE];
+
+  // Queued messages go with their conversation when it's deleted
+  useEffect(() => {
+    setOutbox(o => pruneOutbox(o, conversationStore));
+  }, [conversationStore, isOutboxLoaded]);
+
+  // A returning connection is worth trying the outbox again right away
+  useEffect(() => {
+    if (networkOnline) setIsOutboxPaused(false);
+  }, [networkOnline]);
+
+  // Fold older turns into a summary once a conversation outgrows its context budget.
+  // If this fails, the history window simply drops the oldest turns instead.
+  useEffect(() => {
+    if (!activeConversation || isChatLoading || summarizingRef.current.has(activeConversation.id)) return;
+    const pending = messagesToSummarize(activeConversation);
+    if (!pending) return;
+
+    const { id, summary } = activeConversation;
+    summarizingRef.current.add(id);
+    summarizeConversation(summary, pending.messages)
+      .then(text => setConversationStore(s => setConversationSummary(s, id, text, pending.upTo)))
+      .catch(err => console.error("Conversation summary failed", err))
+      .finally(() => summarizingRef.current.delete(id));
+  }, [activeConversation, isChatLoading]);
+
+  const refreshInsight = async (attempt: number) => {
+    if (isInsightLoading) return;
+    insightAttemptRef.current = attempt;
+    setIsInsightLoading(true);
+    try {
+      setDailyInsight(await createDailyInsight(lucyMemory, todayKey(), attempt));
+    } finally {
+      setIsInsightLoading(false);
+    }
+  };
+
+  // Made once per day; the stored one is reused until the date changes
+  useEffect(() => {
+    if (isInsightLoaded && !isInsightLoading && !isInsightCurrent(dailyInsight, lucyMemory)) refreshInsight(0);
+  }, [isInsightLoaded, lucyMemory, dailyInsight]);
+
+  const openInsightInChat = () => {
+    if (!dailyInsight) return;
+    setConversationStore(s => addConversation(s, insightConversation(dailyInsight)));
+    openApp('chat');
+  };
+
+  const startNewConversation = () => {
+    setConversationStore(s => addConversation(s, createConversation()));
+    setIsConversationListOpen(false);
+  };
+
+  const openConversation = (id: string) => {
+    setConversationStore(s => setActiveConversation(s, id));
+    setIsConversationListOpen(false);
+  };
+
+  // Streams Lucy's reply to a message already in the conversation. `conversation` is
+  // the thread as it was before that message, which is what gets replayed to Lucy.
+  // Resolves false when she couldn't be reached and the message went to the outbox.
+  const deliverMessage = async (conversation: Conversation, userMsg: ChatMessage): Promise<boolean> => {
+    const conversationId = conversation.id;
+    // Lucy's bubble appears right away and fills in as the reply streams
+    const replyId = crypto.randomUUID();
+    setConversationStore(s => insertMessageAfter(
+      updateMessage(s, conversationId, userMsg.id, { status: undefined }),
+      conversationId,
+      userMsg.id,
+      { id: replyId, role: 'model', text: '', timestamp: Date.now(), status: 'streaming' }
+    ));
+    setIsChatLoading(true);
+
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+
+    let delivered = true;
+    try {
+      const reply = await sendMessageToLucy(userMsg.text, lucyMemory, conversation, {
+        signal: controller.signal,
+        onChunk: (text) => setConversationStore(s => updateMessage(s, conversationId, replyId, { text })),
+        onProposals: (proposals) => setConversationStore(s => updateMessage(s, conversationId, replyId, { proposals })),
+        onReminders: (reminders) => setConversationStore(s => updateMessage(s, conversationId, replyId, { reminders }))
+      });
+      if (reply.unreachable) {
+        delivered = false;
+      } else {
+        setConversationStore(s => updateMessage(s, conversationId, replyId, {
+          text: reply.text,
+          status: reply.interrupted ? 'interrupted' : undefined,
+          proposals: reply.proposals.length ? reply.proposals : undefined,
+          reminders: reply.reminders.length ? reply.reminders : undefined,
+          citations: reply.citations.length ? reply.citations : undefined
+        }));
+        if (voiceSettings.readReplies && !reply.interrupted) speak(reply.text, voiceSettings);
+      }
+    } catch (error) {
+      if (isNetworkOnline()) {
+        setConversationStore(s => updateMessage(s, conversationId, replyId, { text: "Connection Error.", status: undefined }));
+      } else {
+        delivered = false;
+      }
+    } finally {
+      chatAbortRef.current = null;
+      setIsChatLoading(false);
+    }
+
+    // The message waits in the outbox instead of getting an apology for a reply
+    if (!delivered) {
+      setConversationStore(s => updateMessage(removeMessage(s, conversationId, replyId), conversationId, userMsg.id, { status: 'queued' }));
+      setOutbox(o => queueMessage(o, conversationId, userMsg.id));
+      setIsOutboxPaused(true);
+    }
+    return delivered;
+  };
+
+  // Dictation passes its text directly, since inputMessage may not have re-rendered yet
+  const handleSendMessage = async (text: string = inputMessage) => {
+    if (!text.trim() || isChatLoading) return;
+    stopSpeaking();
+
+    const conversation = activeConversation || createConversation();
+    const conversationId = conversation.id;
+    if (!activeConversation) setConversationStore(s => addConversation(s, conversation));
+
+    const userMsg: ChatMessage = { id: crypto.randomUUID(), role: 'user', text, timestamp: Date.now() };
+    setInputMessage('');
+
+    // Anything already waiting goes first, so Lucy gets messages in the order they were written
+    if (lucyConnection === 'offline' || outbox.length) {
+      setConversationStore(s => appendMessage(s, conversationId, { ...userMsg, status: 'queued' }));
+      setOutbox(o => queueMessage(o, conversationId, userMsg.id));
+      return;
+    }
+
+    setConversationStore(s => appendMessage(s, conversationId, userMsg));
+    await deliverMessage(conversation, userMsg);
+  };
+
+  const sendQueuedMessage = async (entry: OutboxEntry) => {
+    const conversation = conversationStore.conversations.find(c => c.id === entry.conversationId);
+    const message = conversation?.messages.find(m => m.id === entry.messageId);
+    if (!conversation || !message) {
+      setOutbox(o => dequeueMessage(o, entry.messageId));
+      return;
+    }
+    if (await deliverMessage(conversationBefore(conversation, message.id), message)) {
+      setOutbox(o => dequeueMessage(o, entry.messageId));
+    }
+  };
+
+  // Sends the oldest waiting message whenever Lucy may be reachable. Each one sent
+  // changes the outbox, which brings the next one round.
+  useEffect(() => {
+    if (!isOutboxLoaded || !outbox.length || isOutboxPaused || !canReachModel || isChatLoading || chatAbortRef.current) return;
+    sendQueuedMessage(outbox[0]);
+  }, [outbox, isOutboxLoaded, isOutboxPaused, canReachModel, isChatLoading]);
+
+  // After a failed attempt the outbox waits a while, unless the connection comes back first
+  useEffect(() => {
+    if (!isOutboxPaused) return;
+    const timer = window.setTimeout(() => setIsOutboxPaused(false), OUTBOX_RETRY_MS);
+    return () => window.clearTimeout(timer);
+  }, [isOutboxPaused]);
+
+  const handleStopReply = () => {
+    chatAbortRef.current?.abort();
+    stopSpeaking();
+  };
+
+  const dictatedText = () => {
+    const { base, phrases } = dictationRef.current;
+    return [base, ...phrases].filter(Boolean).join(' ');
+  };
+
+  // Held down to talk: recognised phrases are added to whatever was already typed
+  const startDictation = async () => {
+    const dictation = dictationRef.current;
+    if (dictation.session || isChatLoading) return;
+    stopSpeaking();
+    dictation.held = true;
+    dictation.base = inputMessage.trim();
+    dictation.phrases = [];
+    setDictationError(null);
+    setIsDictating(true);
+    logPermissionUse('chat', 'microphone', 'Dictation');
+    try {
+      const session = await createSpeechBackend(speechSettings).start({
+        onPartial: setDictationPartial,
+        onFinal: (text) => {
+          dictation.phrases.push(text);
+          setInputMessage(dictatedText());
+        },
+        onError: (error) => {
+          dictation.session = null;
+          setIsDictating(false);
+          setDictationPartial('');
+          setDictationError(error.message);
+        }
+      });
+      dictation.session = session;
+      // Released before the microphone was ready
+      if (!dictation.held) stopDictation();
+    } catch (error) {
+      console.error("Could not start dictation", error);
+      setIsDictating(false);
+      setDictationError(error instanceof SpeechError ? error.message : "Dictation could not start.");
+    }
+  };
+
+  const stopDictation = async () => {
+    const dictation = dictationRef.current;
+    dictation.held = false;
+    const session = dictation.session;
+    if (!session) return;
+    dictation.session = null;
+    await session.stop().catch(err => console.error("Failed to stop dictation", err));
+    setIsDictating(false);
+    setDictationPartial('');
+
+    const text = dictatedText();
+    setInputMessage(text);
+    if (voiceSettings.autoSend && dictation.phrases.length) handleSendMessage(text);
+  };
+
+  useOnLeave('chat', () => {
+    stopDictation();
+    stopSpeaking();
+  });
+
+  // Locking unmounts the chat; the reply in flight and the microphone stop with it
+  useEffect(() => () => {
+    chatAbortRef.current?.abort();
+    dictationRef.current.session?.stop().catch(err => console.error("Failed to stop dictation", err));
+  }, []);
+
+  // Memory Bank proposals in one of Lucy's replies
+  const messageProposals = (conversationId: string, messageId: string) =>
+    proposalActions((proposalId, status) => setConversationStore(s => updateProposal(s, conversationId, messageId, proposalId, { status })));
+
+  const setReminderProposalStatus = (conversationId: string, messageId: string, proposalId: string, status: ReminderProposal['status']) =>
+    setConversationStore(s => updateReminderProposal(s, conversationId, messageId, proposalId, { status }));
+
+  const acceptReminderProposal = (conversationId: string, messageId: string, proposal: ReminderProposal) => {
+    setReminderStore(s => addReminder(s, reminderFromProposal(proposal)));
+    setReminderProposalStatus(conversationId, messageId, proposal.id, 'accepted');
+  };
+
+  return {
+    isConversationListOpen, setIsConversationListOpen, renamingConversation, setRenamingConversation, inputMessage,
+    setInputMessage, isChatLoading, chatEndRef, outbox, isOutboxPaused, setIsOutboxPaused, dailyInsight, isInsightLoading,
+    insightAttemptRef, isDictating, dictationPartial, dictationError, chatMessages, refreshInsight, openInsightInChat,
+    startNewConversation, openConversation, handleSendMessage, handleStopReply, startDictation, stopDictation, messageProposals,
+    setReminderProposalStatus, acceptReminderProposal
+  };
+};
+
+export const { Provider: ChatState, use: useChat } = createAppState('Chat', useChatState);
@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { Goal } from '../../types';
+import * as storage from '../../services/storageService';
+import { createMemoryItem, addMemoryItem } from '../../services/memoryService';
+import { createGoal, addGoal, updateGoal, completeGoalSteps, openGoalSteps } from '../../services/goalService';
+import {
+  ReflectionSession, ReflectionTemplateId, getTemplate, startReflection, answerReflection, currentQuestion, reflectionEntry
+} from '../../services/reflectionService';
+import { createAppState, useStoredState } from './appState';
+import { useShell } from './ShellContext';
+
+// Goals and guided reflection
+const useGoalsState = () => {
+  const { memory, lucyMemory, saveMemory } = useShell();
+
+  const [goals, setGoals] = useStoredState<Goal[]>(storage.loadGoals, storage.saveGoals, [], 'goals');
+  const [goalForm, setGoalForm] = useState<{
+    id?: string; title: string; targetDate: string; steps: string; developmentIds: string[]; blockerIds: string[];
+  } | null>(null);
+  const [reframeSubjectId, setReframeSubjectId] = useState('');
+  const [reflection, setReflection] = useState<ReflectionSession | null>(null);
+  const [reflectionInput, setReflectionInput] = useState('');
+  const [reflectionSteps, setReflectionSteps] = useState<string[]>([]);
+  const [isReflectionThinking, setIsReflectionThinking] = useState(false);
+
+  const openGoalForm = (goal?: Goal) => setGoalForm(goal
+    ? {
+        id: goal.id,
+        title: goal.title,
+        targetDate: goal.targetDate || '',
+        steps: goal.steps.map(s => s.text).join('\n'),
+        developmentIds: goal.developmentIds,
+        blockerIds: goal.blockerIds
+      }
+    : { title: '', targetDate: '', steps: '', developmentIds: [], blockerIds: [] });
+
+  const saveGoalForm = () => {
+    if (!goalForm || !goalForm.title.trim()) return;
+    const fields = {
+      title: goalForm.title,
+      targetDate: goalForm.targetDate || undefined,
+      steps: goalForm.steps.split('\n'),
+      developmentIds: goalForm.developmentIds,
+      blockerIds: goalForm.blockerIds
+    };
+    setGoals(list => (goalForm.id ? updateGoal(list, goalForm.id, fields) : addGoal(list, createGoal(fields))));
+    setGoalForm(null);
+  };
+
+  const toggleGoalFormLink = (field: 'developmentIds' | 'blockerIds', id: string) => {
+    if (!goalForm) return;
+    const ids = goalForm[field];
+    setGoalForm({ ...goalForm, [field]: ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id] });
+  };
+
+  const beginReflection = (templateId: ReflectionTemplateId) => {
+    const subject = getTemplate(templateId).needsStruggle ? memory.struggles.find(i => i.id === reframeSubjectId) : undefined;
+    if (getTemplate(templateId).needsStruggle && !subject) return;
+    setReflection(startReflection(templateId, subject, openGoalSteps(goals).length > 0));
+    setReflectionInput('');
+    setReflectionSteps([]);
+  };
+
+  const submitReflectionAnswer = async (skip = false) => {
+    const question = reflection && currentQuestion(reflection);
+    if (!reflection || !question || isReflectionThinking) return;
+    const stepIds = question.kind === 'goal-steps' && !skip ? reflectionSteps : [];
+    const stepLabels = openGoalSteps(goals).filter(o => stepIds.includes(o.step.id)).map(o => o.step.text);
+    const text = skip ? '' : question.kind === 'goal-steps' ? (stepLabels.join('; ') || 'None this time') : reflectionInput;
+    if (!skip && !text.trim()) return;
+
+    setIsReflectionThinking(true);
+    try {
+      const next = await answerReflection(reflection, { text, stepIds }, lucyMemory);
+      // Unless the session was closed while Lucy was thinking
+      setReflection(current => (current ? next : null));
+      setReflectionInput('');
+      setReflectionSteps([]);
+    } finally {
+      setIsReflectionThinking(false);
+    }
+  };
+
+  // Saves the session's entry and ticks off the goal steps it covered
+  const saveReflection = () => {
+    if (!reflection) return;
+    const stepLabels = goals.flatMap(g => g.steps).filter(s => reflection.stepIds.includes(s.id)).map(s => s.text);
+    const entry = reflectionEntry(reflection, stepLabels);
+    let developmentId: string | undefined;
+    if (entry) {
+      const item = createMemoryItem(entry.value);
+      saveMemory(addMemoryItem(memory, entry.category, item));
+      if (entry.category === 'development') developmentId = item.id;
+    }
+    if (reflection.stepIds.length) setGoals(list => completeGoalSteps(list, reflection.stepIds, developmentId));
+    setReflection(null);
+  };
+
+  return {
+    goals, setGoals, goalForm, setGoalForm, reframeSubjectId, setReframeSubjectId, reflection, setReflection, reflectionInput,
+    setReflectionInput, reflectionSteps, setReflectionSteps, isReflectionThinking, openGoalForm, saveGoalForm, toggleGoalFormLink,
+    beginReflection, submitReflectionAnswer, saveReflection
+  };
+};
+
+export const { Provider: GoalsState, use: useGoals } = createAppState('Goals', useGoalsState);
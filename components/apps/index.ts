@@ -0,0 +1,97 @@
+import { AppId } from '../../types';
+import { Phone, MessageSquare, Settings, Mic, BookOpen, Sparkles, ChartBar, Bell, Target } from '../Icons';
+import { AppDefinition, AppManifest, WidgetDefinition } from './types';
+import { APP_MANIFESTS } from './manifest';
+import PhoneApp from './PhoneApp';
+import MessagesApp from './MessagesApp';
+import SettingsApp from './SettingsApp';
+import LiveApp from './LiveApp';
+import JournalApp from './JournalApp';
+import TimelineApp from './TimelineApp';
+import RemindersApp from './RemindersApp';
+import GoalsApp from './GoalsApp';
+import ChatApp from './ChatApp';
+import InsightWidget from './InsightWidget';
+import UpNextWidget from './UpNextWidget';
+import GoalProgressWidget from './GoalProgressWidget';
+import CallScreen from './CallScreen';
+import CallNotes from './CallNotes';
+import ContactForm from './ContactForm';
+import ReminderForm from './ReminderForm';
+import GoalForm from './GoalForm';
+import ReflectionSession from './ReflectionSession';
+import CategoryForm from './CategoryForm';
+import PasscodeDialog from './PasscodeDialog';
+import ImportDialog from './ImportDialog';
+import { ChatState } from './chatState';
+import { PhoneState } from './phoneState';
+import { MessagesState, useUnreadMessages } from './messagesState';
+import { LiveState } from './liveState';
+import { JournalState, useCategoryShortcuts } from './journalState';
+import { TimelineState } from './timelineState';
+import { RemindersState } from './remindersState';
+import { GoalsState } from './goalsState';
+import { SettingsState } from './settingsState';
+
+export * from './types';
+export * from './manifest';
+
+// How each app in the manifest looks and what it shows
+const VIEWS: Record<AppId, Omit<AppDefinition, keyof AppManifest>> = {
+  phone: { icon: Phone, color: 'bg-green-500', view: PhoneApp, state: PhoneState, overlays: [CallScreen, CallNotes, ContactForm] },
+  messages: {
+    icon: MessageSquare,
+    color: 'bg-blue-500',
+    view: MessagesApp,
+    state: MessagesState,
+    overlays: [ContactForm],
+    useBadge: useUnreadMessages
+  },
+  settings: {
+    icon: Settings,
+    color: 'bg-slate-500',
+    view: SettingsApp,
+    state: SettingsState,
+    overlays: [CategoryForm, PasscodeDialog, ImportDialog]
+  },
+  live: { icon: Mic, color: 'bg-rose-500', view: LiveApp, state: LiveState },
+  journal: { icon: BookOpen, color: 'bg-orange-500', view: JournalApp, state: JournalState, useShortcuts: useCategoryShortcuts },
+  timeline: { icon: ChartBar, color: 'bg-cyan-500', view: TimelineApp, state: TimelineState },
+  reminders: {
+    icon: Bell,
+    color: 'bg-violet-500',
+    view: RemindersApp,
+    state: RemindersState,
+    overlays: [ReminderForm],
+    widgets: [{ id: 'up-next', name: 'Up next', description: 'Your next few reminders', view: UpNextWidget }]
+  },
+  goals: {
+    icon: Target,
+    color: 'bg-lime-600',
+    view: GoalsApp,
+    state: GoalsState,
+    overlays: [GoalForm, ReflectionSession],
+    widgets: [{ id: 'goal-progress', name: 'Goal progress', description: 'How far along your open goals are', view: GoalProgressWidget }]
+  },
+  chat: {
+    icon: Sparkles,
+    color: 'bg-brand-600',
+    accent: { light: 'text-brand-600', dark: 'text-purple-400' },
+    view: ChatApp,
+    state: ChatState,
+    widgets: [{ id: 'insight', name: 'Daily insight', description: "Lucy's reflection on your recent memories", view: InsightWidget }]
+  }
+};
+
+// Every app in Lucy OS, in their default order on the home screen
+export const APPS: AppDefinition[] = APP_MANIFESTS.map(app => ({ ...app, ...VIEWS[app.id] }));
+
+export const findApp = (id: AppId) => APPS.find(app => app.id === id);
+
+// Every widget any app offers, with the app it opens
+export const WIDGETS: (WidgetDefinition & { app: AppId })[] = APPS.flatMap(app => (app.widgets || []).map(widget => ({ ...widget, app: app.id })));
+
+export const findWidget = (id: string) => WIDGETS.find(widget => widget.id === id);
+
+// Every overlay any app declares, once each even when apps share one
+export const OVERLAYS = [...new Set(APPS.flatMap(app => app.overlays || []))];
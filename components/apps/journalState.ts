@@ -0,0 +1,48 @@
+import { useState, useEffect, useMemo } from 'react';
+import { JournalFilters, DEFAULT_JOURNAL_FILTERS, filterJournal } from '../../services/journalService';
+import { categoryShortcutId } from '../../services/launcherService';
+import { CATEGORY_COLOR_CLASSES, CATEGORY_ICON_COMPONENTS } from '../categoryStyles';
+import { AppShortcut } from './types';
+import { createAppState, useLaunch } from './appState';
+import { useShell } from './ShellContext';
+
+// The journal's search and filters
+const useJournalState = () => {
+  const { memory, journalCategories } = useShell();
+
+  const [journalFilters, setJournalFilters] = useState<JournalFilters>(DEFAULT_JOURNAL_FILTERS);
+  const [isFacetPanelOpen, setIsFacetPanelOpen] = useState(false);
+
+  // The journal opens on every category; the home screen shortcuts open it on one
+  useLaunch('journal', category => setJournalFilters({ ...DEFAULT_JOURNAL_FILTERS, category: category || 'all' }));
+
+  // A category archived or merged away while it was filtered on gives way to all of them
+  useEffect(() => {
+    if (journalFilters.category !== 'all' && !journalCategories.some(c => c.id === journalFilters.category)) {
+      setJournalFilters(f => ({ ...f, category: 'all' }));
+    }
+  }, [journalCategories]);
+
+  // Only recomputed when the store or the filters change, not on every render
+  const journalResults = useMemo(() => filterJournal(memory, journalFilters, journalCategories), [memory, journalFilters, journalCategories]);
+
+  const updateJournalFilters = (patch: Partial<JournalFilters>) => setJournalFilters(f => ({ ...f, ...patch }));
+
+  const toggleJournalTag = (tag: string) =>
+    setJournalFilters(f => ({ ...f, tags: f.tags.includes(tag) ? f.tags.filter(t => t !== tag) : [...f.tags, tag] }));
+
+  return {
+    journalFilters, setJournalFilters, isFacetPanelOpen, setIsFacetPanelOpen, journalResults, updateJournalFilters, toggleJournalTag
+  };
+};
+
+export const { Provider: JournalState, use: useJournal } = createAppState('Journal', useJournalState);
+
+// A home screen icon for each category
+export const useCategoryShortcuts = (): AppShortcut[] => useShell().journalCategories.map(category => ({
+  id: categoryShortcutId(category.id),
+  label: category.name,
+  icon: CATEGORY_ICON_COMPONENTS[category.icon],
+  color: CATEGORY_COLOR_CLASSES[category.color].solid,
+  target: category.id
+}));
@@ -0,0 +1,96 @@
+import { useState, useEffect, useRef } from 'react';
+import { MemoryProposal } from '../../types';
+import { suggestMemoriesFromTranscript } from '../../services/lucyService';
+import { SpeechSession, SpeechError, createSpeechBackend } from '../../services/speech';
+import { createAppState, useOnLeave } from './appState';
+import { useShell } from './ShellContext';
+
+// Lucy Live: transcribe while listening, then let Lucy suggest memories from the transcript
+const useLiveState = () => {
+  const { speechSettings, lucyMemory, logPermissionUse, proposalActions } = useShell();
+
+  const [liveListening, setLiveListening] = useState(false);
+  const [liveTranscript, setLiveTranscript] = useState<string[]>([]);
+  const [livePartial, setLivePartial] = useState('');
+  const [liveError, setLiveError] = useState<string | null>(null);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const [liveProposals, setLiveProposals] = useState<MemoryProposal[]>([]);
+  const liveSessionRef = useRef<SpeechSession | null>(null);
+  // Mirrors liveTranscript for handlers that run after the session's last await
+  const liveTranscriptRef = useRef<string[]>([]);
+
+  const startListening = async () => {
+    if (liveSessionRef.current) return;
+    liveTranscriptRef.current = [];
+    setLiveTranscript([]);
+    setLivePartial('');
+    setLiveError(null);
+    setLiveProposals([]);
+    setLiveListening(true);
+    logPermissionUse('live', 'microphone', 'Listening session');
+    try {
+      liveSessionRef.current = await createSpeechBackend(speechSettings).start({
+        onPartial: setLivePartial,
+        onFinal: (text) => {
+          liveTranscriptRef.current = [...liveTranscriptRef.current, text];
+          setLiveTranscript(liveTranscriptRef.current);
+        },
+        onError: (error) => {
+          liveSessionRef.current = null;
+          setLiveListening(false);
+          setLivePartial('');
+          setLiveError(error.message);
+        }
+      });
+    } catch (error) {
+      console.error("Could not start listening", error);
+      setLiveListening(false);
+      setLiveError(error instanceof SpeechError ? error.message : "Listening could not start.");
+    }
+  };
+
+  const stopListening = async () => {
+    const session = liveSessionRef.current;
+    liveSessionRef.current = null;
+    setLiveListening(false);
+    if (session) await session.stop().catch(err => console.error("Failed to stop listening", err));
+    setLivePartial('');
+
+    const transcript = liveTranscriptRef.current.join(' ').trim();
+    if (!transcript) return;
+    setIsSuggesting(true);
+    try {
+      const suggestions = await suggestMemoriesFromTranscript(transcript, lucyMemory);
+      setLiveProposals(suggestions);
+      if (!suggestions.length) setLiveError("Lucy didn't find anything new worth keeping.");
+    } catch (error) {
+      console.error("Memory suggestions failed", error);
+      setLiveError("Lucy couldn't go through the transcript. It's still shown below.");
+    } finally {
+      setIsSuggesting(false);
+    }
+  };
+
+  const stopLiveSession = () => {
+    liveSessionRef.current?.stop().catch(err => console.error("Failed to stop listening", err));
+    liveSessionRef.current = null;
+    setLiveListening(false);
+  };
+
+  useOnLeave('live', stopLiveSession);
+
+  // Locking unmounts Lucy Live, and the microphone stops with it
+  useEffect(() => () => {
+    liveSessionRef.current?.stop().catch(err => console.error("Failed to stop listening", err));
+  }, []);
+
+  const liveProposalActions = proposalActions((proposalId, status) =>
+    setLiveProposals(list => list.map(p => (p.id === proposalId ? { ...p, status } : p))));
+
+  return {
+    liveListening, liveTranscript, livePartial, liveError, isSuggesting, liveProposals, startListening, stopListening,
+    liveProposalActions
+  };
+};
+
+export const { Provider: LiveState, use: useLive } = createAppState('Lucy Live', useLiveState);
@@ -0,0 +1,19 @@
+import { AppId } from '../../types';
+import { AppManifest } from './types';
+
+// What each app is called and what it may ask for, in their default order on the
+// home screen. Kept apart from the views in ./index.ts so services can read it
+// without loading any screen.
+export const APP_MANIFESTS: AppManifest[] = [
+  { id: 'phone', name: 'Phone', capabilities: ['microphone'] },
+  { id: 'messages', name: 'Messages', capabilities: [] },
+  { id: 'settings', name: 'Settings', capabilities: [] },
+  { id: 'live', name: 'Lucy Live', capabilities: ['microphone'] },
+  { id: 'journal', name: 'Memory Bank', label: 'Journal', capabilities: ['persistent-storage'] },
+  { id: 'timeline', name: 'Timeline', capabilities: [] },
+  { id: 'reminders', name: 'Reminders', capabilities: ['notifications'] },
+  { id: 'goals', name: 'Goals', capabilities: [] },
+  { id: 'chat', name: 'Lucy', capabilities: ['microphone'] }
+];
+
+export const findManifest = (id: AppId) => APP_MANIFESTS.find(app => app.id === id);
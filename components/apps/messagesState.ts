@@ -0,0 +1,139 @@
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { MessageThread, TextMessage } from '../../types';
+import * as storage from '../../services/storageService';
+import { MessagingError, createMessageTransport } from '../../services/messaging';
+import {
+  ReplySuggestions, contactName, findThread, appendTextMessage, receiveMessage, updateTextMessage, markThreadRead, latestIncoming,
+  suggestReplies, draftMessage, countUnread
+} from '../../services/messageService';
+import { createAppState, useLaunch, useStoredState } from './appState';
+import { useShell } from './ShellContext';
+
+// Message threads, the one that's open, what's being written in it and the transport
+// that carries it. Contacts and the messaging settings are the shell's.
+const useMessagesState = () => {
+  const { activeApp, contacts, messagingSettings, lucyMemory } = useShell();
+
+  const [messageThreads, setMessageThreads, isLoaded] = useStoredState<MessageThread[]>(
+    storage.loadMessageThreads, storage.saveMessageThreads, [], 'messages'
+  );
+  const [messagesTab, setMessagesTab] = useState<'threads' | 'contacts'>('threads');
+  const [openAddress, setOpenAddress] = useState<string | null>(null);
+  const [messageInput, setMessageInput] = useState('');
+  const [isInputFromLucy, setIsInputFromLucy] = useState(false);
+  const [replySuggestions, setReplySuggestions] = useState<ReplySuggestions | null>(null);
+  const [isSuggestingReplies, setIsSuggestingReplies] = useState(false);
+  // What the user wants the message to say; null while the drafting box is closed
+  const [draftInstruction, setDraftInstruction] = useState<string | null>(null);
+  const [isDrafting, setIsDrafting] = useState(false);
+  const [messagingError, setMessagingError] = useState<string | null>(null);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  // The transport is rebuilt whenever its settings change
+  const messageTransport = useMemo(
+    () => createMessageTransport(messagingSettings),
+    [messagingSettings.transport, messagingSettings.serverUrl, messagingSettings.apiKey]
+  );
+
+  // Only connected while the threads are loaded, so nothing arrives while the app is locked
+  useEffect(() => {
+    if (!isLoaded) return;
+    return messageTransport.connect(incoming => setMessageThreads(t => receiveMessage(t, incoming)), latestIncoming(messageThreads));
+  }, [isLoaded, messageTransport]);
+
+  const openThread = findThread(messageThreads, openAddress || '');
+
+  // Messages arriving in the open thread are read straight away
+  useEffect(() => {
+    if (activeApp !== 'messages' || !openThread) return;
+    if (openThread.unread > 0) setMessageThreads(t => markThreadRead(t, openThread.id));
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [activeApp, openThread]);
+
+  const openMessageThread = (address: string) => {
+    setOpenAddress(address);
+    setMessageInput('');
+    setIsInputFromLucy(false);
+    setReplySuggestions(null);
+    setDraftInstruction(null);
+    setMessagingError(null);
+  };
+
+  // Other apps open Messages at an address to show that thread
+  useLaunch('messages', address => {
+    if (address) openMessageThread(address);
+  });
+
+  // Hands the message to the transport and records whether it was accepted
+  const deliverTextMessage = async (address: string, message: TextMessage) => {
+    let status: TextMessage['status'] = 'sent';
+    try {
+      await messageTransport.send({ id: message.id, to: address, text: message.text });
+    } catch (error) {
+      console.error("Sending message failed", error);
+      status = 'failed';
+      setMessagingError(error instanceof MessagingError ? error.message : "The message couldn't be sent.");
+    }
+    setMessageThreads(t => {
+      const thread = findThread(t, address);
+      return thread ? updateTextMessage(t, thread.id, message.id, { status }) : t;
+    });
+  };
+
+  const sendTextMessage = (address: string) => {
+    const text = messageInput.trim();
+    if (!text) return;
+    const message: TextMessage = { id: crypto.randomUUID(), direction: 'outgoing', text, timestamp: Date.now(), status: 'sending' };
+    if (isInputFromLucy) message.draftedByLucy = true;
+    setMessageThreads(t => appendTextMessage(t, address, message));
+    setMessageInput('');
+    setIsInputFromLucy(false);
+    setReplySuggestions(null);
+    setMessagingError(null);
+    deliverTextMessage(address, message);
+  };
+
+  const retryTextMessage = (address: string, thread: MessageThread, message: TextMessage) => {
+    setMessageThreads(t => updateTextMessage(t, thread.id, message.id, { status: 'sending' }));
+    setMessagingError(null);
+    deliverTextMessage(address, message);
+  };
+
+  const requestReplySuggestions = async (address: string) => {
+    setIsSuggestingReplies(true);
+    try {
+      setReplySuggestions(await suggestReplies(contactName(contacts, address), findThread(messageThreads, address), lucyMemory));
+    } finally {
+      setIsSuggestingReplies(false);
+    }
+  };
+
+  const requestDraft = async (address: string) => {
+    setIsDrafting(true);
+    setMessagingError(null);
+    try {
+      const draft = await draftMessage(contactName(contacts, address), findThread(messageThreads, address), draftInstruction || '', lucyMemory);
+      // Goes into the input for the user to edit; nothing is sent without them
+      setMessageInput(draft);
+      setIsInputFromLucy(true);
+      setDraftInstruction(null);
+    } catch (error) {
+      console.error("Drafting failed", error);
+      setMessagingError("Lucy couldn't write a draft right now. Try again in a moment.");
+    } finally {
+      setIsDrafting(false);
+    }
+  };
+
+  return {
+    messageThreads, setMessageThreads, messagesTab, setMessagesTab, openAddress, setOpenAddress, messageInput, setMessageInput,
+    setIsInputFromLucy, replySuggestions, setReplySuggestions, isSuggestingReplies, draftInstruction, setDraftInstruction,
+    isDrafting, messagingError, messagesEndRef, openMessageThread, sendTextMessage, retryTextMessage, requestReplySuggestions,
+    requestDraft
+  };
+};
+
+export const { Provider: MessagesState, use: useMessages } = createAppState('Messages', useMessagesState);
+
+// The Messages icon shows how many messages are unread
+export const useUnreadMessages = () => countUnread(useMessages().messageThreads);
@@ -0,0 +1,177 @@
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { CallRecord } from '../../types';
+import { suggestMemoriesFromCallNotes } from '../../services/lucyService';
+import { SpeechSession, SpeechError, createSpeechBackend } from '../../services/speech';
+import * as storage from '../../services/storageService';
+import { contactName } from '../../services/messageService';
+import { CallSession, CallError, createDialer } from '../../services/telephony';
+import { createCallRecord, addCall, updateCall, updateCallProposal } from '../../services/callService';
+import { createAppState, useLaunch, useStoredState } from './appState';
+import { useShell } from './ShellContext';
+
+// The dialer, the call log, the call in progress and the notes written after one
+const usePhoneState = () => {
+  const { speechSettings, contacts, lucyMemory, openApp, canUse, requestPermission, logPermissionUse, proposalActions } = useShell();
+
+  const dialer = useMemo(() => createDialer(), []);
+  const [callLog, setCallLog] = useStoredState<CallRecord[]>(storage.loadCallLog, storage.saveCallLog, [], 'call log');
+  const [phoneTab, setPhoneTab] = useState<'keypad' | 'recents' | 'contacts'>('keypad');
+  const [dialInput, setDialInput] = useState('');
+  const [activeCall, setActiveCall] = useState<{ id: string; address: string; connected: boolean } | null>(null);
+  const [callElapsed, setCallElapsed] = useState(0);
+  const [phoneError, setPhoneError] = useState<string | null>(null);
+  const callSessionRef = useRef<CallSession | null>(null);
+  const callConnectedAtRef = useRef<number | null>(null);
+  // The finished call whose notes are being written
+  const [notesCallId, setNotesCallId] = useState<string | null>(null);
+  const [callNotesDraft, setCallNotesDraft] = useState('');
+  const [callNotesPartial, setCallNotesPartial] = useState('');
+  const [isNotesDictating, setIsNotesDictating] = useState(false);
+  const [isSuggestingFromNotes, setIsSuggestingFromNotes] = useState(false);
+  const [callNotesError, setCallNotesError] = useState<string | null>(null);
+  const notesDictationRef = useRef<SpeechSession | null>(null);
+
+  useEffect(() => {
+    if (!activeCall?.connected) return;
+    const tick = () => setCallElapsed(Math.round((Date.now() - (callConnectedAtRef.current || Date.now())) / 1000));
+    tick();
+    const timer = window.setInterval(tick, 1000);
+    return () => window.clearInterval(timer);
+  }, [activeCall?.connected]);
+
+  const openCallNotes = (call: CallRecord) => {
+    setNotesCallId(call.id);
+    setCallNotesDraft(call.notes || '');
+    setCallNotesPartial('');
+    setCallNotesError(null);
+  };
+
+  const finishCall = (callId: string) => {
+    const connectedAt = callConnectedAtRef.current;
+    callSessionRef.current = null;
+    callConnectedAtRef.current = null;
+    setActiveCall(null);
+    setCallElapsed(0);
+    const durationSeconds = connectedAt ? Math.round((Date.now() - connectedAt) / 1000) : 0;
+    setCallLog(calls => updateCall(calls, callId, { durationSeconds }));
+    // Only calls that actually happened have anything to take notes on
+    if (connectedAt) {
+      setNotesCallId(callId);
+      setCallNotesDraft('');
+      setCallNotesError(null);
+    }
+  };
+
+  const placeCall = async (address: string) => {
+    const number = address.trim();
+    if (!number || activeCall) return;
+    const call = createCallRecord(number);
+    setPhoneError(null);
+    setCallLog(calls => addCall(calls, call));
+    setActiveCall({ id: call.id, address: number, connected: false });
+    try {
+      callSessionRef.current = await dialer.placeCall(number, {
+        onConnected: () => {
+          callConnectedAtRef.current = Date.now();
+          setActiveCall(current => (current?.id === call.id ? { ...current, connected: true } : current));
+        },
+        onEnded: () => finishCall(call.id)
+      });
+    } catch (error) {
+      console.error("Call failed", error);
+      setActiveCall(null);
+      setPhoneError(error instanceof CallError ? error.message : "The call couldn't be placed.");
+    }
+  };
+
+  // Other apps open the phone at a number to call it
+  useLaunch('phone', number => {
+    if (number) placeCall(number);
+  });
+
+  const hangUp = () => callSessionRef.current?.hangUp().catch(err => console.error("Failed to end call", err));
+
+  const stopNotesDictation = async () => {
+    const session = notesDictationRef.current;
+    notesDictationRef.current = null;
+    setIsNotesDictating(false);
+    setCallNotesPartial('');
+    if (session) await session.stop().catch(err => console.error("Failed to stop dictation", err));
+  };
+
+  const toggleNotesDictation = async () => {
+    if (isNotesDictating) return stopNotesDictation();
+    if (!canUse('phone', 'microphone') && !(await requestPermission('phone', 'microphone'))) return;
+    logPermissionUse('phone', 'microphone', 'Dictating call notes');
+    setCallNotesError(null);
+    setIsNotesDictating(true);
+    try {
+      notesDictationRef.current = await createSpeechBackend(speechSettings).start({
+        onPartial: setCallNotesPartial,
+        onFinal: (text) => setCallNotesDraft(draft => (draft.trim() ? `${draft.trimEnd()} ${text}` : text)),
+        onError: (error) => {
+          notesDictationRef.current = null;
+          setIsNotesDictating(false);
+          setCallNotesPartial('');
+          setCallNotesError(error.message);
+        }
+      });
+    } catch (error) {
+      console.error("Could not start dictation", error);
+      setIsNotesDictating(false);
+      setCallNotesError(error instanceof SpeechError ? error.message : "Dictation could not start.");
+    }
+  };
+
+  const closeCallNotes = () => {
+    stopNotesDictation();
+    setNotesCallId(null);
+    setCallNotesDraft('');
+    setCallNotesError(null);
+  };
+
+  // Saves the notes and, if asked, lets Lucy suggest Memory Bank entries from them
+  const saveCallNotes = async (askLucy: boolean) => {
+    const call = callLog.find(c => c.id === notesCallId);
+    if (!call) return;
+    await stopNotesDictation();
+    const notes = callNotesDraft.trim();
+    setCallLog(calls => updateCall(calls, call.id, { notes: notes || undefined }));
+    if (!askLucy || !notes) {
+      closeCallNotes();
+      return;
+    }
+    setIsSuggestingFromNotes(true);
+    setCallNotesError(null);
+    try {
+      const proposals = await suggestMemoriesFromCallNotes(contactName(contacts, call.address), notes, lucyMemory);
+      setCallLog(calls => updateCall(calls, call.id, { proposals }));
+      if (!proposals.length) setCallNotesError("Lucy didn't find anything new worth keeping.");
+    } catch (error) {
+      console.error("Memory suggestions failed", error);
+      setCallNotesError("Lucy couldn't go through your notes. They're saved with the call.");
+    } finally {
+      setIsSuggestingFromNotes(false);
+    }
+  };
+
+  // Memory Bank proposals Lucy made from a call's notes
+  const callProposals = (callId: string) =>
+    proposalActions((proposalId, status) => setCallLog(calls => updateCallProposal(calls, callId, proposalId, { status })));
+
+  const messageContact = (address: string) => openApp('messages', address);
+
+  // Locking unmounts the phone; the call and the microphone end with it
+  useEffect(() => () => {
+    callSessionRef.current?.hangUp().catch(err => console.error("Failed to end call", err));
+    notesDictationRef.current?.stop().catch(err => console.error("Failed to stop dictation", err));
+  }, []);
+
+  return {
+    dialer, callLog, setCallLog, phoneTab, setPhoneTab, dialInput, setDialInput, activeCall, callElapsed, phoneError, notesCallId,
+    callNotesDraft, setCallNotesDraft, callNotesPartial, isNotesDictating, isSuggestingFromNotes, callNotesError, openCallNotes,
+    placeCall, hangUp, toggleNotesDictation, closeCallNotes, saveCallNotes, callProposals, messageContact
+  };
+};
+
+export const { Provider: PhoneState, use: usePhone } = createAppState('Phone', usePhoneState);
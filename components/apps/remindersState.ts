@@ -0,0 +1,43 @@
+import { useState } from 'react';
+import { MemoryItem, Recurrence } from '../../types';
+import {
+  createReminder, addReminder, deleteReminder, findCheckIn, checkInReminder, toDateTimeInput
+} from '../../services/reminderService';
+import { createAppState } from './appState';
+import { useShell } from './ShellContext';
+
+// The new reminder form and struggle check-ins. The reminders themselves are the
+// shell's, since the scheduler and the notification shade run on every screen.
+const useRemindersState = () => {
+  const { reminderStore, setReminderStore } = useShell();
+
+  const [reminderForm, setReminderForm] = useState<{ title: string; due: string; recurrence: Recurrence } | null>(null);
+
+  const openReminderForm = () => {
+    const inAnHour = new Date(Date.now() + 3600000);
+    inAnHour.setMinutes(0, 0, 0);
+    setReminderForm({ title: '', due: toDateTimeInput(inAnHour.getTime()), recurrence: 'none' });
+  };
+
+  const saveReminderForm = () => {
+    const dueAt = reminderForm ? Date.parse(reminderForm.due) : NaN;
+    if (!reminderForm || !reminderForm.title.trim() || !Number.isFinite(dueAt)) return;
+    setReminderStore(s => addReminder(s, createReminder({
+      kind: 'reminder',
+      title: reminderForm.title.trim(),
+      dueAt,
+      recurrence: reminderForm.recurrence,
+      createdBy: 'user'
+    })));
+    setReminderForm(null);
+  };
+
+  const toggleCheckIn = (struggle: MemoryItem) => {
+    const existing = findCheckIn(reminderStore, struggle.id);
+    setReminderStore(s => (existing ? deleteReminder(s, existing.id) : addReminder(s, checkInReminder(struggle))));
+  };
+
+  return { reminderForm, setReminderForm, openReminderForm, saveReminderForm, toggleCheckIn };
+};
+
+export const { Provider: RemindersState, use: useReminders } = createAppState('Reminders', useRemindersState);
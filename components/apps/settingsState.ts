@@ -0,0 +1,111 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Category, CategoryDefinition, CategoryIcon, CategoryColor } from '../../types';
+import { PasscodeAction } from '../PasscodeModal';
+import { listVoices } from '../../services/speech';
+import { addCategory, createCategory, updateCategory, reconcileCategories } from '../../services/categoryService';
+import { createConversation, addConversation } from '../../services/conversationService';
+import {
+  ExportFormat, ImportMode, ImportPreview, ImportError, exportToJson, exportToMarkdown, exportToPython, exportFileName, downloadFile,
+  previewImport, applyImport
+} from '../../services/transferService';
+import { AuditExplanation, explainAuditLog } from '../../services/permissionService';
+import { createAppState } from './appState';
+import { useShell } from './ShellContext';
+
+// What Settings keeps while it's being used: the category being edited, the
+// permission history explanation, the passcode dialog and backups
+const useSettingsState = () => {
+  const {
+    memory, categories, setCategories, setStorageNotice, permissions, setConversationStore, activeConversation, saveMemory,
+    toggleCategoryArchived, mergeCategory
+  } = useShell();
+
+  // The category being created or edited
+  const [categoryForm, setCategoryForm] = useState<{
+    id?: string; name: string; icon: CategoryIcon; color: CategoryColor; hint: string; mergeInto: string;
+  } | null>(null);
+  const [isAuditExpanded, setIsAuditExpanded] = useState(false);
+  const [auditExplanation, setAuditExplanation] = useState<AuditExplanation | null>(null);
+  const [isExplainingAudit, setIsExplainingAudit] = useState(false);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [passcodeAction, setPasscodeAction] = useState<PasscodeAction | null>(null);
+  const [includeChatInExport, setIncludeChatInExport] = useState(false);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    listVoices().then(setVoices);
+  }, []);
+
+  const openCategoryForm = (category?: CategoryDefinition) => setCategoryForm(category
+    ? { id: category.id, name: category.name, icon: category.icon, color: category.color, hint: category.hint || '', mergeInto: '' }
+    : { name: '', icon: 'book', color: 'sky', hint: '', mergeInto: '' });
+
+  const saveCategoryForm = () => {
+    if (!categoryForm || !categoryForm.name.trim()) return;
+    const fields = { name: categoryForm.name, icon: categoryForm.icon, color: categoryForm.color, hint: categoryForm.hint };
+    setCategories(cs => (categoryForm.id ? updateCategory(cs, categoryForm.id, fields) : addCategory(cs, createCategory(cs, fields))));
+    setCategoryForm(null);
+  };
+
+  const archiveCategory = (category: CategoryDefinition) => {
+    toggleCategoryArchived(category);
+    setCategoryForm(null);
+  };
+
+  const mergeCategoryInto = (from: Category, into: Category) => {
+    mergeCategory(from, into);
+    setCategoryForm(null);
+  };
+
+  const explainPermissions = async () => {
+    setIsExplainingAudit(true);
+    try {
+      setAuditExplanation(await explainAuditLog(permissions));
+    } finally {
+      setIsExplainingAudit(false);
+    }
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    const chat = includeChatInExport ? activeConversation?.messages : undefined;
+    if (format === 'json') downloadFile(exportToJson(memory, categories, chat), exportFileName(format), 'application/json');
+    if (format === 'markdown') downloadFile(exportToMarkdown(memory, categories, chat), exportFileName(format), 'text/markdown');
+    if (format === 'python') downloadFile(exportToPython(memory), exportFileName(format), 'application/json');
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+    try {
+      setImportPreview(previewImport(await file.text(), memory));
+    } catch (error) {
+      console.error("Import failed", error);
+      setStorageNotice(error instanceof ImportError ? error.message : "The file could not be read.");
+    }
+  };
+
+  const confirmImport = (modes: Record<Category, ImportMode>, restoreChat: boolean) => {
+    if (!importPreview) return;
+    // Categories new to this device keep the name, icon and colour they had in the backup
+    const imported = applyImport(memory, importPreview, modes);
+    const added = importPreview.definitions.filter(d => Array.isArray(imported[d.id]) && !categories.some(c => c.id === d.id));
+    const reconciled = reconcileCategories([...categories, ...added], imported);
+    saveMemory(reconciled.memory);
+    setCategories(reconciled.categories);
+    if (restoreChat) {
+      const conversation = { ...createConversation(importPreview.chat), title: 'Imported conversation' };
+      setConversationStore(s => addConversation(s, conversation));
+    }
+    setImportPreview(null);
+  };
+
+  return {
+    categoryForm, setCategoryForm, isAuditExpanded, setIsAuditExpanded, auditExplanation, isExplainingAudit, voices, passcodeAction,
+    setPasscodeAction, includeChatInExport, setIncludeChatInExport, importPreview, setImportPreview, importInputRef, openCategoryForm,
+    saveCategoryForm, archiveCategory, mergeCategoryInto, explainPermissions, handleExport, handleImportFile, confirmImport
+  };
+};
+
+export const { Provider: SettingsState, use: useSettings } = createAppState('Settings', useSettingsState);
@@ -0,0 +1,613 @@
+import { useState, useEffect, useRef, useMemo } from 'react';
+import {
+  MemoryStore, Category, MemoryItem, Theme, Permissions, ConversationStore, LlmSettings, LlmProviderId, MemoryProposal,
+  SpeechSettings, VoiceSettings, PrivacySettings, PasscodeRecord, AppId, Capability, BrowserPermissionState, Contact,
+  MessagingSettings, ReminderStore, AppNotification, CategoryDefinition, LauncherLayout
+} from '../../types';
+import { findManifest } from './manifest';
+import { resetChatSession, configureLlm, configureCategories } from '../../services/lucyService';
+import { PROVIDER_OPTIONS, DEFAULT_LLM_SETTINGS } from '../../services/providers';
+import { DEFAULT_SPEECH_SETTINGS, DEFAULT_VOICE_SETTINGS, stopSpeaking } from '../../services/speech';
+import {
+  createMemoryItem, addMemoryItem, deleteMemoryItem, itemsIn, reinsertMemoryItem, addMemoryDetail, findMemoryItem, findBacklinks
+} from '../../services/memoryService';
+import {
+  BUILT_IN_CATEGORIES, findCategory, activeCategories, archivedCategoryIds, setCategoryArchived, mergeCategories, reconcileCategories
+} from '../../services/categoryService';
+import * as storage from '../../services/storageService';
+import { getActiveConversation, addConversation } from '../../services/conversationService';
+import { DEFAULT_PRIVACY_SETTINGS, unlockWithPasscode, withoutPrivateCategories } from '../../services/privacyService';
+import {
+  CAPABILITY_INFO, queryBrowserPermission, watchBrowserPermission, requestAccess, revokeAccess, isGranted, logPermissionEvent
+} from '../../services/permissionService';
+import { DEFAULT_MESSAGING_SETTINGS } from '../../services/messaging';
+import { createContact, upsertContact } from '../../services/messageService';
+import {
+  EMPTY_REMINDER_STORE, setReflectionSchedule, fireDueReminders, nextDueAt, markNotificationsRead, dismissNotification,
+  showSystemNotification, promptConversation
+} from '../../services/reminderService';
+import {
+  RequestOutcome, isNetworkOnline, watchNetwork, watchRequests, recentOutcomes, providerNeedsNetwork, lucyStatus
+} from '../../services/connectivityService';
+import { DEFAULT_LAUNCHER_LAYOUT } from '../../services/launcherService';
+import { startNavigation, navigateTo, navigateHome, watchNavigation } from '../../services/navigationService';
+
+// How long a deleted memory can still be brought back
+const UNDO_WINDOW_MS = 6000;
+
+// Longest wait between reminder checks, so a device that slept or a changed clock can't hold one back for long
+const REMINDER_CHECK_MS = 60000;
+
+// How long the in-app banner for a fired reminder stays up
+const NOTIFICATION_BANNER_MS = 6000;
+
+// Check for inactivity this often while an auto-lock is set
+const IDLE_CHECK_MS = 10000;
+
+// Default Data
+const DEFAULT_MEMORY: MemoryStore = {
+  struggles: [],
+  development: [],
+  mindset: []
+};
+
+// URLs naming an app that isn't installed land on the home screen
+const isKnownApp = (id: AppId) => !!findManifest(id);
+
+// What Lucy OS holds for all of its apps while it runs: the decrypted data they share,
+// settings, the open app and the handlers that change and save them. App calls it once
+// and hands the result to every screen through ShellContext. State only one app needs
+// lives with that app, see ./appState.ts.
+export const useShellState = () => {
+  // System State
+  const [memory, setMemory] = useState<MemoryStore>(DEFAULT_MEMORY);
+  const [categories, setCategories] = useState<CategoryDefinition[]>(BUILT_IN_CATEGORIES);
+  // Starts at whichever app the URL names, with home underneath it
+  const [activeApp, setActiveApp] = useState<AppId>(() => startNavigation(isKnownApp));
+  // The latest openApp call, for the app it opened to act on; see useLaunch
+  const [launchRequest, setLaunchRequest] = useState<{ app: AppId; target?: string } | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingMemory, setEditingMemory] = useState<{ category: Category; item: MemoryItem } | null>(null);
+  const [memoryDraft, setMemoryDraft] = useState<{ category: Category; description: string; details: string[] } | null>(null);
+  // Set while the entry modal is editing one of Lucy's proposals; marks it accepted once saved
+  const [proposalBeingEdited, setProposalBeingEdited] = useState<{ onAccepted: () => void } | null>(null);
+  const [historyTarget, setHistoryTarget] = useState<{ category: Category; id: string } | null>(null);
+  const [pendingDeletion, setPendingDeletion] = useState<{ category: Category; item: MemoryItem; index: number } | null>(null);
+  const undoTimerRef = useRef<number | null>(null);
+  const [theme, setTheme] = useState<Theme>('light');
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [storageNotice, setStorageNotice] = useState<string | null>(null);
+  
+  // App permissions, and what the browser itself currently allows
+  const [permissions, setPermissions] = useState<Permissions>(storage.DEFAULT_PERMISSIONS);
+  const [browserPermissions, setBrowserPermissions] = useState<Partial<Record<Capability, BrowserPermissionState>>>({});
+  const [llmSettings, setLlmSettings] = useState<LlmSettings>(DEFAULT_LLM_SETTINGS);
+  const [speechSettings, setSpeechSettings] = useState<SpeechSettings>(DEFAULT_SPEECH_SETTINGS);
+  const [voiceSettings, setVoiceSettings] = useState<VoiceSettings>(DEFAULT_VOICE_SETTINGS);
+
+  // Passcode lock and private categories
+  const [privacySettings, setPrivacySettings] = useState<PrivacySettings>(DEFAULT_PRIVACY_SETTINGS);
+  const [isLocked, setIsLocked] = useState(false);
+  // Private categories shared with Lucy until the app locks or reloads
+  const [isPrivateShared, setIsPrivateShared] = useState(false);
+  const lastActivityRef = useRef(Date.now());
+
+  // Conversations with Lucy; the chat app, reminders and backups all add to them
+  const [conversationStore, setConversationStore] = useState<ConversationStore>({ conversations: [], activeId: null });
+
+  // Connectivity
+  const [networkOnline, setNetworkOnline] = useState(isNetworkOnline());
+  const [requestOutcomes, setRequestOutcomes] = useState<RequestOutcome[]>(recentOutcomes());
+
+  // Contacts, shared by Phone and Messages
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [contactForm, setContactForm] = useState<{ id?: string; name: string; address: string; note: string } | null>(null);
+  const [messagingSettings, setMessagingSettings] = useState<MessagingSettings>(DEFAULT_MESSAGING_SETTINGS);
+
+  // Reminders and the notification shade
+  const [reminderStore, setReminderStore] = useState<ReminderStore>(EMPTY_REMINDER_STORE);
+  const [isShadeOpen, setIsShadeOpen] = useState(false);
+  const [notificationBanner, setNotificationBanner] = useState<AppNotification | null>(null);
+  // Bumped to re-arm the scheduler when a check finds nothing due
+  const [reminderCheck, setReminderCheck] = useState(0);
+
+  // Home screen arrangement and rearranging it
+  const [launcherLayout, setLauncherLayout] = useState<LauncherLayout>(DEFAULT_LAUNCHER_LAYOUT);
+  const [isEditingHome, setIsEditingHome] = useState(false);
+  const [draggingItemId, setDraggingItemId] = useState<string | null>(null);
+  const longPressRef = useRef<number | null>(null);
+
+  const activeConversation = getActiveConversation(conversationStore);
+
+  // Models on this machine stay reachable without a network
+  const canReachModel = networkOnline || !providerNeedsNetwork(llmSettings);
+  const lucyConnection = lucyStatus(canReachModel, requestOutcomes);
+
+  // Archived categories are hidden everywhere but Settings
+  const journalCategories = useMemo(() => activeCategories(categories), [categories]);
+
+  // The Memory Bank as Lucy may see it; archived categories are left out like private ones
+  const lucyMemory = useMemo(
+    () => withoutPrivateCategories(memory, [...(isPrivateShared ? [] : privacySettings.privateCategories), ...archivedCategoryIds(categories)]),
+    [memory, categories, isPrivateShared, privacySettings.privateCategories]
+  );
+
+  // Every switch between apps goes through the URL, so the back gesture follows along
+  const openApp = (id: AppId, target?: string) => {
+    navigateTo(id);
+    setActiveApp(id);
+    setLaunchRequest({ app: id, target });
+  };
+
+  const goHome = () => {
+    navigateHome();
+    setActiveApp('home');
+  };
+
+  useEffect(() => watchNavigation(app => setActiveApp(isKnownApp(app) ? app : 'home')), []);
+
+  // Persistence & Initialization
+
+  // The shared records that are encrypted while a passcode is set; apps read their own
+  // once isHydrated is set, see useStoredState
+  const loadJournalData = async () => {
+    const [storedMemory, storedConversations, storedContacts, storedReminders, storedCategories, storedLauncher] = await Promise.all([
+      storage.loadMemory(),
+      storage.loadConversations(),
+      storage.loadContacts(),
+      storage.loadReminders(),
+      storage.loadCategories(),
+      storage.loadLauncherLayout()
+    ]);
+    // Memory saved before categories were configurable gets the built-ins here
+    const reconciled = reconcileCategories(storedCategories.value, storedMemory.value);
+    setMemory(reconciled.memory);
+    setCategories(reconciled.categories);
+    setConversationStore(storedConversations.value);
+    setContacts(storedContacts.value);
+    setReminderStore(storedReminders.value);
+    setLauncherLayout(storedLauncher.value);
+
+    if (storedMemory.dropped > 0) {
+      setStorageNotice(`Some saved memories were damaged. ${storedMemory.dropped} unreadable ${storedMemory.dropped === 1 ? 'entry was' : 'entries were'} set aside and the rest restored.`);
+    }
+  };
+
+  useEffect(() => {
+    const hydrate = async () => {
+      let locked = false;
+      try {
+        const [storedTheme, storedPerms, storedLlm, storedSpeech, storedVoice, storedPrivacy, storedMessaging] = await Promise.all([
+          storage.loadTheme(),
+          storage.loadPermissions(),
+          storage.loadLlmSettings(),
+          storage.loadSpeechSettings(),
+          storage.loadVoiceSettings(),
+          storage.loadPrivacySettings(),
+          storage.loadMessagingSettings()
+        ]);
+        if (storedTheme.value) setTheme(storedTheme.value);
+        setPermissions(storedPerms.value);
+        setLlmSettings(storedLlm.value);
+        configureLlm(storedLlm.value);
+        setSpeechSettings(storedSpeech.value);
+        setVoiceSettings(storedVoice.value);
+        setPrivacySettings(storedPrivacy.value);
+        setMessagingSettings(storedMessaging.value);
+
+        if (storedPrivacy.value.passcode) {
+          // The journal stays sealed until the passcode is entered
+          locked = true;
+          storage.setEncryptionState({ mode: 'locked' });
+          setIsLocked(true);
+          return;
+        }
+        await loadJournalData();
+      } catch (error) {
+        console.error("Failed to load stored data", error);
+        setStorageNotice("Saved data could not be loaded. Changes made now may not be kept.");
+      } finally {
+        if (!locked) setIsHydrated(true);
+      }
+    };
+    hydrate();
+  }, []);
+
+  useEffect(() => {
+    if (isHydrated) storage.saveTheme(theme).catch(err => console.error("Failed to save theme", err));
+    document.body.style.backgroundColor = theme === 'dark' ? '#000000' : '#f8fafc';
+  }, [theme, isHydrated]);
+
+  const unlockApp = async (passcode: string): Promise<boolean> => {
+    const key = privacySettings.passcode && await unlockWithPasscode(passcode, privacySettings.passcode);
+    if (!key) return false;
+    storage.setEncryptionState({ mode: 'unlocked', key });
+    try {
+      await loadJournalData();
+    } catch (error) {
+      console.error("Failed to load stored data", error);
+      setStorageNotice("Saved data could not be loaded. Changes made now may not be kept.");
+    }
+    lastActivityRef.current = Date.now();
+    setIsHydrated(true);
+    setIsLocked(false);
+    return true;
+  };
+
+  // Drops all decrypted data; it's read again on unlock. The lock screen replaces every
+  // app's state provider, and each stops whatever it had running as it unmounts.
+  const lockApp = () => {
+    if (!privacySettings.passcode) return;
+    stopSpeaking();
+    resetChatSession();
+
+    setIsHydrated(false);
+    storage.setEncryptionState({ mode: 'locked' });
+    setMemory(DEFAULT_MEMORY);
+    setCategories(BUILT_IN_CATEGORIES);
+    setConversationStore({ conversations: [], activeId: null });
+    setContacts([]);
+    setContactForm(null);
+    setReminderStore(EMPTY_REMINDER_STORE);
+    setIsShadeOpen(false);
+    setNotificationBanner(null);
+    setLauncherLayout(DEFAULT_LAUNCHER_LAYOUT);
+    setIsEditingHome(false);
+    setDraggingItemId(null);
+    setIsModalOpen(false);
+    setEditingMemory(null);
+    setMemoryDraft(null);
+    setHistoryTarget(null);
+    setPendingDeletion(null);
+    setIsPrivateShared(false);
+    goHome();
+    setLaunchRequest(null);
+    setIsLocked(true);
+  };
+
+  // Locks after a stretch without any interaction, including while the app was in the background
+  useEffect(() => {
+    if (!privacySettings.passcode || !privacySettings.autoLockMinutes || isLocked) return;
+    const markActive = () => { lastActivityRef.current = Date.now(); };
+    const checkIdle = () => {
+      if (Date.now() - lastActivityRef.current >= privacySettings.autoLockMinutes * 60000) lockApp();
+    };
+    const events = ['pointerdown', 'keydown', 'wheel', 'touchstart'];
+    events.forEach(e => window.addEventListener(e, markActive, { passive: true }));
+    document.addEventListener('visibilitychange', checkIdle);
+    const timer = window.setInterval(checkIdle, IDLE_CHECK_MS);
+    markActive();
+    return () => {
+      events.forEach(e => window.removeEventListener(e, markActive));
+      document.removeEventListener('visibilitychange', checkIdle);
+      window.clearInterval(timer);
+    };
+  }, [privacySettings.passcode, privacySettings.autoLockMinutes, isLocked]);
+
+  const updatePrivacySettings = async (patch: Partial<PrivacySettings>) => {
+    const updated = { ...privacySettings, ...patch };
+    setPrivacySettings(updated);
+    await storage.savePrivacySettings(updated);
+  };
+
+  const togglePrivateCategory = (category: Category) => {
+    const { privateCategories } = privacySettings;
+    updatePrivacySettings({
+      privateCategories: privateCategories.includes(category) ? privateCategories.filter(c => c !== category) : [...privateCategories, category]
+    }).catch(err => console.error("Failed to save privacy settings", err));
+  };
+
+  // Categories
+  useEffect(() => {
+    configureCategories(categories);
+    if (isHydrated) storage.saveCategories(categories).catch(err => console.error("Failed to save categories", err));
+  }, [categories, isHydrated]);
+
+  // An archived category stops prompting for reflections; restoring it doesn't turn them back on
+  const toggleCategoryArchived = (category: CategoryDefinition) => {
+    setCategories(cs => setCategoryArchived(cs, category.id, !category.archived));
+    if (!category.archived) setReminderStore(s => setReflectionSchedule(s, category, 'none'));
+  };
+
+  // The entries keep their privacy: merging a private category makes the one it goes into private too
+  const mergeCategory = (from: Category, into: Category) => {
+    const merged = mergeCategories(memory, categories, from, into);
+    saveMemory(merged.memory);
+    setCategories(merged.categories);
+    setReminderStore(s => setReflectionSchedule(s, findCategory(categories, from), 'none'));
+    const { privateCategories } = privacySettings;
+    if (privateCategories.includes(from)) {
+      updatePrivacySettings({ privateCategories: [...new Set([...privateCategories.filter(c => c !== from), into])] })
+        .catch(err => console.error("Failed to save privacy settings", err));
+    }
+  };
+
+  // Re-encrypts the journal under the new passcode, or stores it in the clear when removed
+  // Saved together with the re-sealed data, so the settings only change once it's all written
+  const applyPasscode = async (next: { record: PasscodeRecord; key: CryptoKey } | null) => {
+    const updated = { ...privacySettings, passcode: next ? next.record : null };
+    await storage.changeEncryption(next ? { mode: 'unlocked', key: next.key } : { mode: 'off' }, updated);
+    setPrivacySettings(updated);
+  };
+
+  const saveMemory = (updated: MemoryStore) => {
+    setMemory(updated);
+    storage.saveMemory(updated).catch(err => {
+      console.error("Failed to save memory", err);
+      setStorageNotice("Your latest change could not be saved to this device.");
+    });
+  };
+
+  const openNewMemory = () => {
+    setEditingMemory(null);
+    setMemoryDraft(null);
+    setIsModalOpen(true);
+  };
+
+  const openEditMemory = (category: Category, item: MemoryItem) => {
+    setEditingMemory({ category, item });
+    setIsModalOpen(true);
+  };
+
+  const handleDeleteMemory = (category: Category, item: MemoryItem) => {
+    const index = itemsIn(memory, category).findIndex(i => i.id === item.id);
+    saveMemory(deleteMemoryItem(memory, category, item.id));
+    setPendingDeletion({ category, item, index });
+
+    if (undoTimerRef.current) window.clearTimeout(undoTimerRef.current);
+    undoTimerRef.current = window.setTimeout(() => setPendingDeletion(null), UNDO_WINDOW_MS);
+  };
+
+  const handleUndoDelete = () => {
+    if (!pendingDeletion) return;
+    saveMemory(reinsertMemoryItem(memory, pendingDeletion.category, pendingDeletion.item, pendingDeletion.index));
+    setPendingDeletion(null);
+    if (undoTimerRef.current) window.clearTimeout(undoTimerRef.current);
+  };
+
+  // Every entry, for the link picker in the entry modal
+  const linkOptions = journalCategories.flatMap(({ id: category }) =>
+    itemsIn(memory, category).map(item => ({ id: item.id, category, description: item.value.description }))
+  );
+
+  // Links shown on a card, in both directions
+  const cardLinks = (item: MemoryItem) => [
+    ...(item.value.links || []).flatMap(link => {
+      const target = findMemoryItem(memory, link.targetId);
+      return target ? [{ id: target.item.id, label: link.kind === 'resolves' ? 'Resolves' : 'Related to', description: target.item.value.description }] : [];
+    }),
+    ...findBacklinks(memory, item.id)
+      .filter(b => !item.value.links?.some(l => l.targetId === b.item.id))
+      .map(b => ({ id: b.item.id, label: b.kind === 'resolves' ? 'Resolved by' : 'Related to', description: b.item.value.description }))
+  ];
+
+  const historyItem = historyTarget ? itemsIn(memory, historyTarget.category).find(i => i.id === historyTarget.id) || null : null;
+
+  const isReplyStreaming = conversationStore.conversations.some(c => c.messages.some(m => m.status === 'streaming'));
+
+  // Chat replies arrive asynchronously, so conversations are saved whenever they change
+  useEffect(() => {
+    if (!isHydrated) return;
+    const save = () => storage.saveConversations(conversationStore).catch(err => console.error("Failed to save conversations", err));
+    if (!isReplyStreaming) {
+      save();
+      return;
+    }
+    // While a reply streams in, only save once it pauses
+    const timer = window.setTimeout(save, 1000);
+    return () => window.clearTimeout(timer);
+  }, [conversationStore, isHydrated, isReplyStreaming]);
+
+  useEffect(() => {
+    const stopNetwork = watchNetwork(setNetworkOnline);
+    const stopRequests = watchRequests(setRequestOutcomes);
+    return () => {
+      stopNetwork();
+      stopRequests();
+    };
+  }, []);
+
+  const updateLlmSettings = (patch: Partial<LlmSettings>) => {
+    const next = { ...llmSettings, ...patch };
+    setLlmSettings(next);
+    configureLlm(next);
+    storage.saveLlmSettings(next).catch(err => console.error("Failed to save model settings", err));
+  };
+
+  const updateSpeechSettings = (patch: Partial<SpeechSettings>) => {
+    const next = { ...speechSettings, ...patch };
+    setSpeechSettings(next);
+    storage.saveSpeechSettings(next).catch(err => console.error("Failed to save speech settings", err));
+  };
+
+  const updateVoiceSettings = (patch: Partial<VoiceSettings>) => {
+    const next = { ...voiceSettings, ...patch };
+    setVoiceSettings(next);
+    if (patch.readReplies === false) stopSpeaking();
+    storage.saveVoiceSettings(next).catch(err => console.error("Failed to save voice settings", err));
+  };
+
+  const selectProvider = (provider: LlmProviderId) => {
+    if (provider === llmSettings.provider) return;
+    const option = PROVIDER_OPTIONS.find(p => p.id === provider);
+    // Model names don't carry over between backends
+    updateLlmSettings({ provider, model: option?.defaultModel || llmSettings.model });
+  };
+
+  const toggleTheme = () => setTheme(prev => prev === 'light' ? 'dark' : 'light');
+
+  const updatePermissions = (update: (current: Permissions) => Permissions) => {
+    setPermissions(current => {
+      const updated = update(current);
+      storage.savePermissions(updated).catch(err => console.error("Failed to save permissions", err));
+      return updated;
+    });
+  };
+
+  // Granted in Lucy OS and not blocked by the browser; where the browser hasn't
+  // decided yet, it asks the user when the app first uses the capability
+  const canUse = (app: AppId, capability: Capability) =>
+    isGranted(permissions, app, capability) && browserPermissions[capability] !== 'denied' && browserPermissions[capability] !== 'unsupported';
+
+  const requestPermission = async (app: AppId, capability: Capability) => {
+    const result = await requestAccess(permissions, app, capability);
+    setBrowserPermissions(b => ({ ...b, [capability]: result.state }));
+    updatePermissions(() => result.permissions);
+    return result.state === 'granted';
+  };
+
+  const togglePermission = (app: AppId, capability: Capability) => {
+    if (canUse(app, capability)) updatePermissions(p => revokeAccess(p, app, capability));
+    else requestPermission(app, capability);
+  };
+
+  const logPermissionUse = (app: AppId, capability: Capability, detail: string) =>
+    updatePermissions(p => logPermissionEvent(p, { app, capability, event: 'used', detail }));
+
+  // Follow changes made in the browser's own site settings while the app is open
+  useEffect(() => {
+    const capabilities = Object.keys(CAPABILITY_INFO) as Capability[];
+    capabilities.forEach(c => queryBrowserPermission(c).then(state => setBrowserPermissions(b => ({ ...b, [c]: state }))));
+    const stops = capabilities.map(c => watchBrowserPermission(c, state => {
+      setBrowserPermissions(b => ({ ...b, [c]: state }));
+      updatePermissions(p => logPermissionEvent(p, { app: 'system', capability: c, event: 'browser-changed', detail: `now ${state}` }));
+    }));
+    return () => stops.forEach(stop => stop());
+  }, []);
+
+  useEffect(() => {
+    if (isHydrated) storage.saveContacts(contacts).catch(err => console.error("Failed to save contacts", err));
+  }, [contacts, isHydrated]);
+
+  const updateMessagingSettings = (patch: Partial<MessagingSettings>) => {
+    const next = { ...messagingSettings, ...patch };
+    setMessagingSettings(next);
+    storage.saveMessagingSettings(next).catch(err => console.error("Failed to save messaging settings", err));
+  };
+
+  const saveContactForm = () => {
+    if (!contactForm || !contactForm.address.trim()) return;
+    const contact = { ...createContact(contactForm.name, contactForm.address, contactForm.note), id: contactForm.id || crypto.randomUUID() };
+    setContacts(c => upsertContact(c, contact));
+    setContactForm(null);
+  };
+
+  // Reminders
+  useEffect(() => {
+    if (isHydrated) storage.saveReminders(reminderStore).catch(err => console.error("Failed to save reminders", err));
+  }, [reminderStore, isHydrated]);
+
+  const deliverNotifications = (fired: AppNotification[]) => {
+    setNotificationBanner(fired[0]);
+    if (!canUse('reminders', 'notifications')) return;
+    fired.forEach(n => showSystemNotification(n)
+      .then(shown => shown && logPermissionUse('reminders', 'notifications', `Showed a ${n.kind}`))
+      .catch(err => console.error("Failed to show notification", err)));
+  };
+
+  // Fires whatever is due, then waits for the next one. Timers are throttled while
+  // the app is in the background, so coming back to it checks straight away.
+  useEffect(() => {
+    if (!isHydrated) return;
+    const check = () => {
+      const { store, fired } = fireDueReminders(reminderStore);
+      if (!fired.length) {
+        setReminderCheck(c => c + 1);
+        return;
+      }
+      setReminderStore(store);
+      deliverNotifications(fired);
+    };
+    const next = nextDueAt(reminderStore);
+    if (next === null) return;
+    const timer = window.setTimeout(check, Math.min(Math.max(0, next - Date.now()), REMINDER_CHECK_MS));
+    const checkWhenVisible = () => {
+      if (document.visibilityState === 'visible') check();
+    };
+    document.addEventListener('visibilitychange', checkWhenVisible);
+    return () => {
+      window.clearTimeout(timer);
+      document.removeEventListener('visibilitychange', checkWhenVisible);
+    };
+  }, [reminderStore, isHydrated, reminderCheck]);
+
+  useEffect(() => {
+    if (!notificationBanner) return;
+    const timer = window.setTimeout(() => setNotificationBanner(null), NOTIFICATION_BANNER_MS);
+    return () => window.clearTimeout(timer);
+  }, [notificationBanner]);
+
+  const openShade = () => {
+    setIsShadeOpen(true);
+    setReminderStore(markNotificationsRead);
+  };
+
+  // Check-ins and reflection prompts continue as a conversation; plain reminders are just cleared
+  const openNotification = (notification: AppNotification) => {
+    setReminderStore(s => dismissNotification(s, notification.id));
+    setIsShadeOpen(false);
+    setNotificationBanner(null);
+    if (notification.kind === 'reminder') return;
+    setConversationStore(s => addConversation(s, promptConversation(notification)));
+    openApp('chat');
+  };
+
+  // Adds a proposal to the Memory Bank; false when the entry it adds to is gone
+  const applyProposal = (proposal: MemoryProposal) => {
+    if (proposal.kind === 'add_item') {
+      saveMemory(addMemoryItem(memory, proposal.category, createMemoryItem({ description: proposal.description, details: proposal.details })));
+      return true;
+    }
+    const target = proposal.targetId ? findMemoryItem(memory, proposal.targetId) : null;
+    if (!target) return false;
+    saveMemory(addMemoryDetail(memory, target.category, target.item.id, proposal.details[0]));
+    return true;
+  };
+
+  // Opens the entry modal prefilled with Lucy's suggestion; saving it accepts the proposal
+  const editProposal = (proposal: MemoryProposal, onAccepted: () => void) => {
+    if (proposal.kind === 'add_item') {
+      setEditingMemory(null);
+      setMemoryDraft({ category: proposal.category, description: proposal.description, details: proposal.details });
+    } else {
+      const target = proposal.targetId ? findMemoryItem(memory, proposal.targetId) : null;
+      if (!target) return;
+      setMemoryDraft(null);
+      setEditingMemory({
+        category: target.category,
+        item: { ...target.item, value: { ...target.item.value, details: [...target.item.value.details, ...proposal.details] } }
+      });
+    }
+    setProposalBeingEdited({ onAccepted });
+    setIsModalOpen(true);
+  };
+
+  // Accept, edit and reject for the proposals an app keeps, which records their status through `setStatus`
+  const proposalActions = (setStatus: (proposalId: string, status: MemoryProposal['status']) => void) => ({
+    accept: (proposal: MemoryProposal) => {
+      if (applyProposal(proposal)) setStatus(proposal.id, 'accepted');
+    },
+    edit: (proposal: MemoryProposal) => editProposal(proposal, () => setStatus(proposal.id, 'accepted')),
+    reject: (proposal: MemoryProposal) => setStatus(proposal.id, 'rejected')
+  });
+
+  useEffect(() => {
+    if (isHydrated) storage.saveLauncherLayout(launcherLayout).catch(err => console.error("Failed to save home screen", err));
+  }, [launcherLayout, isHydrated]);
+
+  return {
+    memory, categories, setCategories, activeApp, launchRequest, isModalOpen, setIsModalOpen, editingMemory, setEditingMemory,
+    memoryDraft, setMemoryDraft, proposalBeingEdited, setProposalBeingEdited, historyTarget, setHistoryTarget, pendingDeletion,
+    theme, isHydrated, storageNotice, setStorageNotice, permissions, browserPermissions, llmSettings, speechSettings, voiceSettings,
+    privacySettings, isLocked, isPrivateShared, setIsPrivateShared, conversationStore, setConversationStore, networkOnline, contacts,
+    setContacts, contactForm, setContactForm, messagingSettings, reminderStore, setReminderStore, isShadeOpen, setIsShadeOpen,
+    notificationBanner, setNotificationBanner, launcherLayout, setLauncherLayout, isEditingHome, setIsEditingHome, draggingItemId,
+    setDraggingItemId, longPressRef, activeConversation, canReachModel, lucyConnection, journalCategories, lucyMemory, openApp,
+    goHome, unlockApp, lockApp, updatePrivacySettings, togglePrivateCategory, toggleCategoryArchived, mergeCategory, applyPasscode,
+    saveMemory, openNewMemory, openEditMemory, handleDeleteMemory, handleUndoDelete, linkOptions, cardLinks, historyItem,
+    updateLlmSettings, updateSpeechSettings, updateVoiceSettings, selectProvider, toggleTheme, canUse, requestPermission,
+    togglePermission, logPermissionUse, updateMessagingSettings, saveContactForm, openShade, openNotification, proposalActions
+  };
+};
+
+export type ShellState = ReturnType<typeof useShellState>;
@@ -0,0 +1,35 @@
+import { useState, useEffect } from 'react';
+import { Granularity, RangePreset, PeriodReview, RANGE_PRESETS, resolveRange, createPeriodReview } from '../../services/analyticsService';
+import { createAppState } from './appState';
+import { useShell } from './ShellContext';
+
+// The period the timeline shows and Lucy's review of it
+const useTimelineState = () => {
+  const { memory, categories, lucyMemory } = useShell();
+
+  const [timelineRange, setTimelineRange] = useState<RangePreset>('30d');
+  const [timelineGranularity, setTimelineGranularity] = useState<Granularity>('week');
+  // Reviews are kept per range until the Memory Bank changes
+  const [periodReview, setPeriodReview] = useState<{ range: RangePreset; review: PeriodReview } | null>(null);
+  const [isReviewLoading, setIsReviewLoading] = useState(false);
+
+  useEffect(() => setPeriodReview(null), [memory]);
+
+  const generatePeriodReview = async () => {
+    const preset = RANGE_PRESETS.find(p => p.id === timelineRange);
+    const label = preset?.days ? `the last ${preset.label}` : 'everything recorded so far';
+    setIsReviewLoading(true);
+    try {
+      const review = await createPeriodReview(lucyMemory, resolveRange(timelineRange, memory), label, categories);
+      setPeriodReview({ range: timelineRange, review });
+    } finally {
+      setIsReviewLoading(false);
+    }
+  };
+
+  return {
+    timelineRange, setTimelineRange, timelineGranularity, setTimelineGranularity, periodReview, isReviewLoading, generatePeriodReview
+  };
+};
+
+export const { Provider: TimelineState, use: useTimeline } = createAppState('Timeline', useTimelineState);
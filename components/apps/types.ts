@@ -0,0 +1,61 @@
+import React from 'react';
+import { AppId, Capability, Theme } from '../../types';
+
+// What an app declares to appear in Lucy OS. Adding an entry to the manifest in
+// ./manifest.ts and its view to the registry in ./index.ts puts it on the home
+// screen, in Settings → App Permissions and behind its own URL.
+
+export type IconComponent = React.FC<{ className?: string }>;
+
+export interface AppViewProps {
+  theme: Theme;
+  onClose: () => void; // Back to the home screen
+  openApp: (id: AppId, target?: string) => void; // The target is handed to the app, see useLaunch
+}
+
+export interface OverlayViewProps {
+  theme: Theme;
+}
+
+export interface WidgetViewProps {
+  theme: Theme;
+  onOpen: () => void; // Opens the app the widget belongs to
+}
+
+export interface WidgetDefinition {
+  id: string;
+  name: string;
+  description: string; // Shown when choosing widgets
+  view: React.FC<WidgetViewProps>;
+}
+
+// An extra home screen icon, opening the app at `target`
+export interface AppShortcut {
+  id: string;
+  label: string;
+  icon: IconComponent;
+  color: string;
+  target: string;
+}
+
+export interface AppManifest {
+  id: AppId;
+  name: string; // As listed in Settings and the permission history
+  label?: string; // Under the home screen icon, when it differs from the name
+  capabilities: Capability[]; // What it may ask for; anything else is refused outright
+}
+
+export interface AppDefinition extends AppManifest {
+  icon: IconComponent;
+  color: string; // Tailwind background class for the icon
+  accent?: Record<Theme, string>; // Tailwind text class for the icon in the dock, when it stands out there
+  view: React.FC<AppViewProps>; // The app's screen; built-in apps also read the shell's state through useShell
+  widgets?: WidgetDefinition[];
+  // Forms and full screens shown over whichever app is open; each renders nothing while closed
+  overlays?: React.FC<OverlayViewProps>[];
+  // Holds the app's own state while Lucy OS is unlocked, see ./appState.ts
+  state?: React.FC<{ children?: React.ReactNode }>;
+  // Hooks the home screen calls inside the app's state
+  useBadge?: () => number; // Shown on the icon, like unread messages
+  useShortcuts?: () => AppShortcut[];
+}
@@ -0,0 +1,37 @@
+import React from 'react';
+import { CategoryColor, CategoryIcon } from '../types';
+import { Brain, ShieldAlert, Sprout, BookOpen, Users, Target, Flame, Sparkles, Heart, Briefcase } from './Icons';
+
+// How a category looks wherever it appears. Class names are written out in full
+// so Tailwind can find every one of them.
+
+export const CATEGORY_ICON_COMPONENTS: Record<CategoryIcon, React.FC<{ className?: string }>> = {
+  'shield-alert': ShieldAlert,
+  sprout: Sprout,
+  brain: Brain,
+  book: BookOpen,
+  users: Users,
+  target: Target,
+  flame: Flame,
+  sparkles: Sparkles,
+  heart: Heart,
+  briefcase: Briefcase
+};
+
+interface CategoryColorClasses {
+  solid: string; // Home screen icons, chart bars and swatches
+  text: string; // The icon on a memory card
+  card: string; // A memory card's border and background
+}
+
+export const CATEGORY_COLOR_CLASSES: Record<CategoryColor, CategoryColorClasses> = {
+  amber: { solid: 'bg-amber-500', text: 'text-amber-600', card: 'border-amber-200 bg-amber-50 hover:border-amber-300' },
+  emerald: { solid: 'bg-emerald-500', text: 'text-emerald-600', card: 'border-emerald-200 bg-emerald-50 hover:border-emerald-300' },
+  indigo: { solid: 'bg-indigo-500', text: 'text-indigo-600', card: 'border-indigo-200 bg-indigo-50 hover:border-indigo-300' },
+  rose: { solid: 'bg-rose-500', text: 'text-rose-600', card: 'border-rose-200 bg-rose-50 hover:border-rose-300' },
+  sky: { solid: 'bg-sky-500', text: 'text-sky-600', card: 'border-sky-200 bg-sky-50 hover:border-sky-300' },
+  violet: { solid: 'bg-violet-500', text: 'text-violet-600', card: 'border-violet-200 bg-violet-50 hover:border-violet-300' },
+  orange: { solid: 'bg-orange-500', text: 'text-orange-600', card: 'border-orange-200 bg-orange-50 hover:border-orange-300' },
+  teal: { solid: 'bg-teal-500', text: 'text-teal-600', card: 'border-teal-200 bg-teal-50 hover:border-teal-300' },
+  slate: { solid: 'bg-slate-500', text: 'text-slate-600', card: 'border-slate-200 bg-slate-50 hover:border-slate-300' }
+};
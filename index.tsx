@@ -12,4 +12,12 @@ root.render(
   <React.StrictMode>
     <App />
   </React.StrictMode>
-);
\ No newline at end of file
+);
+
+// Caches the app shell so Lucy OS opens without a network. Left out in development,
+// where it would hold on to files the dev server is changing.
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(err => console.error("Service worker registration failed", err));
+  });
+}
\ No newline at end of file
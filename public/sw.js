@@ -0,0 +1,75 @@
+// Keeps Lucy OS opening without a network. The page and the app's own files are
+// fetched fresh when possible and served from the cache when not. Fonts and
+// scripts from the CDNs are served from the cache and refreshed in the background.
+// Everything else, including every request to the model, goes straight through.
+
+const CACHE = 'lucy-shell-v1';
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'esm.sh'];
+
+const isCdn = (url) => CDN_HOSTS.includes(url.hostname);
+
+// The page plus every script and stylesheet it references
+const precacheShell = async () => {
+  const cache = await caches.open(CACHE);
+  const response = await fetch('/', { cache: 'no-cache' });
+  if (!response.ok) return;
+  const html = await response.clone().text();
+  await cache.put('/', response);
+
+  const assets = [...html.matchAll(/(?:src|href)="([^"]+)"/g)]
+    .map(match => new URL(match[1], self.location.origin))
+    .filter(url => url.origin === self.location.origin || isCdn(url));
+  await Promise.allSettled(assets.map(async url => {
+    const asset = await fetch(url.href, url.origin === self.location.origin ? {} : { mode: 'no-cors' });
+    if (asset.ok || asset.type === 'opaque') await cache.put(url.href, asset);
+  }));
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(precacheShell().catch(error => console.warn('Could not cache the app shell', error)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Every page of the app is the same document, so navigations share one entry
+const networkFirst = async (request, cacheKey = request) => {
+  const cache = await caches.open(CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(cacheKey, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(cacheKey);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request);
+  const refresh = fetch(request)
+    .then(response => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    });
+  if (!cached) return refresh;
+  refresh.catch(() => {});
+  return cached;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') event.respondWith(networkFirst(request, '/'));
+  else if (url.origin === self.location.origin) event.respondWith(networkFirst(request));
+  else if (isCdn(url)) event.respondWith(staleWhileRevalidate(request));
+});
@@ -0,0 +1,247 @@
+import { MemoryStore, MemoryItem, Category, CategoryDefinition } from '../types';
+import { memoryCategories } from './memoryService';
+import { findCategory } from './categoryService';
+import { writePeriodReview } from './lucyService';
+
+// Aggregates over the Memory Bank for the Timeline app: entries over time,
+// how long struggles stay open, and journaling streaks. Everything is computed
+// in local time, since that's how the user experiences their days.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type Granularity = 'week' | 'month';
+export type RangePreset = '30d' | '90d' | '1y' | 'all';
+
+export const RANGE_PRESETS: { id: RangePreset; label: string; days: number | null }[] = [
+  { id: '30d', label: '30 days', days: 30 },
+  { id: '90d', label: '90 days', days: 90 },
+  { id: '1y', label: 'Year', days: 365 },
+  { id: 'all', label: 'All time', days: null }
+];
+
+export interface DateRange {
+  from: Date; // Start of the first day
+  to: Date; // End of the last day
+}
+
+export interface Bucket {
+  start: Date;
+  label: string;
+  counts: Record<Category, number>;
+}
+
+export interface StruggleDuration {
+  item: MemoryItem;
+  openedAt: Date;
+  resolvedAt: Date | null; // Null while still active
+  days: number; // Open so far, or until resolved
+}
+
+export interface StreakStats {
+  current: number; // Consecutive days up to today (or yesterday, if nothing yet today)
+  longest: number;
+  activeDays: number; // Days with journaling activity within the range
+}
+
+const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate());
+const endOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate(), 23, 59, 59, 999);
+
+const dayKey = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+const allItems = (memory: MemoryStore) => memoryCategories(memory).flatMap(category => memory[category].map(item => ({ category, item })));
+
+// A zero for every category in the store
+const emptyCounts = (memory: MemoryStore): Record<Category, number> =>
+  Object.fromEntries(memoryCategories(memory).map(category => [category, 0]));
+
+export const countTotal = (counts: Record<Category, number>) => Object.values(counts).reduce((sum, n) => sum + n, 0);
+
+export const resolveRange = (preset: RangePreset, memory: MemoryStore, now = new Date()): DateRange => {
+  const days = RANGE_PRESETS.find(p => p.id === preset)?.days;
+  if (days) return { from: startOfDay(new Date(now.getTime() - (days - 1) * DAY_MS)), to: endOfDay(now) };
+  const earliest = Math.min(now.getTime(), ...allItems(memory).map(({ item }) => Date.parse(item.timestamp)));
+  return { from: startOfDay(new Date(earliest)), to: endOfDay(now) };
+};
+
+export const entriesInRange = (memory: MemoryStore, range: DateRange) =>
+  allItems(memory).filter(({ item }) => {
+    const t = Date.parse(item.timestamp);
+    return t >= range.from.getTime() && t <= range.to.getTime();
+  });
+
+// Weeks start on Monday
+const bucketStart = (d: Date, granularity: Granularity) => {
+  if (granularity === 'month') return new Date(d.getFullYear(), d.getMonth(), 1);
+  const day = startOfDay(d);
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate() - ((day.getDay() + 6) % 7));
+};
+
+const nextBucket = (d: Date, granularity: Granularity) =>
+  granularity === 'month' ? new Date(d.getFullYear(), d.getMonth() + 1, 1) : new Date(d.getFullYear(), d.getMonth(), d.getDate() + 7);
+
+const bucketLabel = (d: Date, granularity: Granularity) =>
+  granularity === 'month'
+    ? d.toLocaleDateString(undefined, { month: 'short', year: '2-digit' })
+    : d.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+// One bucket per week or month across the range, including empty ones, oldest first
+export const bucketEntries = (memory: MemoryStore, range: DateRange, granularity: Granularity): Bucket[] => {
+  const buckets = new Map<string, Bucket>();
+  for (let start = bucketStart(range.from, granularity); start <= range.to; start = nextBucket(start, granularity)) {
+    buckets.set(dayKey(start), { start, label: bucketLabel(start, granularity), counts: emptyCounts(memory) });
+  }
+  entriesInRange(memory, range).forEach(({ category, item }) => {
+    const bucket = buckets.get(dayKey(bucketStart(new Date(item.timestamp), granularity)));
+    if (bucket) bucket.counts[category]++;
+  });
+  return [...buckets.values()];
+};
+
+// When a struggle was marked resolved: the start of the unbroken run of resolved
+// versions that ends with the current one
+const resolvedAt = (item: MemoryItem): Date | null => {
+  if (item.value.status !== 'resolved') return null;
+  const versions = [
+    ...(item.revisions || []).map(r => ({ since: r.timestamp, status: r.value.status })),
+    { since: item.updatedAt || item.timestamp, status: item.value.status }
+  ];
+  let i = versions.length - 1;
+  while (i > 0 && versions[i - 1].status === 'resolved') i--;
+  return new Date(versions[i].since);
+};
+
+// Struggles opened within the range, longest-open first
+export const struggleDurations = (memory: MemoryStore, range: DateRange, now = new Date()): StruggleDuration[] =>
+  entriesInRange(memory, range)
+    .filter(({ category }) => category === 'struggles')
+    .map(({ item }) => {
+      const openedAt = new Date(item.timestamp);
+      const resolved = resolvedAt(item);
+      const days = Math.max(0, Math.round(((resolved || now).getTime() - openedAt.getTime()) / DAY_MS));
+      return { item, openedAt, resolvedAt: resolved, days };
+    })
+    .sort((a, b) => b.days - a.days);
+
+export const averageDaysToResolve = (durations: StruggleDuration[]): number | null => {
+  const resolved = durations.filter(d => d.resolvedAt);
+  return resolved.length ? Math.round(resolved.reduce((sum, d) => sum + d.days, 0) / resolved.length) : null;
+};
+
+// A day counts when an entry was added or edited on it
+const activityDays = (memory: MemoryStore): Set<string> => {
+  const days = new Set<string>();
+  allItems(memory).forEach(({ item }) => {
+    days.add(dayKey(new Date(item.timestamp)));
+    if (item.updatedAt) days.add(dayKey(new Date(item.updatedAt)));
+    item.revisions?.forEach(r => days.add(dayKey(new Date(r.timestamp))));
+  });
+  return days;
+};
+
+export const journalingStreaks = (memory: MemoryStore, range: DateRange, now = new Date()): StreakStats => {
+  const days = activityDays(memory);
+  const sorted = [...days].sort();
+
+  let longest = 0;
+  let run = 0;
+  let previous: Date | null = null;
+  sorted.forEach(key => {
+    const [y, m, d] = key.split('-').map(Number);
+    const day = new Date(y, m - 1, d);
+    // Compare calendar days, so daylight saving changes don't break a run
+    const isNext = previous && dayKey(new Date(previous.getFullYear(), previous.getMonth(), previous.getDate() + 1)) === key;
+    run = isNext ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = day;
+  });
+
+  let current = 0;
+  const cursor = startOfDay(now);
+  if (!days.has(dayKey(cursor))) cursor.setDate(cursor.getDate() - 1);
+  while (days.has(dayKey(cursor))) {
+    current++;
+    cursor.setDate(cursor.getDate() - 1);
+  }
+
+  const from = dayKey(range.from);
+  const to = dayKey(range.to);
+  const activeDays = sorted.filter(key => key >= from && key <= to).length;
+  return { current, longest, activeDays };
+};
+
+export interface PeriodStats {
+  counts: Record<Category, number>;
+  resolvedCount: number;
+  openCount: number;
+  averageDaysToResolve: number | null;
+  streaks: StreakStats;
+}
+
+export const periodStats = (memory: MemoryStore, range: DateRange, now = new Date()): PeriodStats => {
+  const counts = emptyCounts(memory);
+  entriesInRange(memory, range).forEach(({ category }) => counts[category]++);
+  const durations = struggleDurations(memory, range, now);
+  return {
+    counts,
+    resolvedCount: durations.filter(d => d.resolvedAt).length,
+    openCount: durations.filter(d => !d.resolvedAt).length,
+    averageDaysToResolve: averageDaysToResolve(durations),
+    streaks: journalingStreaks(memory, range, now)
+  };
+};
+
+export const formatRange = (range: DateRange) => {
+  const opts: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', year: 'numeric' };
+  return `${range.from.toLocaleDateString(undefined, opts)} – ${range.to.toLocaleDateString(undefined, opts)}`;
+};
+
+// e.g. "4 in Growth, 2 in Struggles and 1 in Health", biggest first
+const listCounts = (counts: Record<Category, number>, categories: CategoryDefinition[]) => {
+  const parts = Object.entries(counts)
+    .filter(([, n]) => n > 0)
+    .sort((a, b) => b[1] - a[1])
+    .map(([category, n]) => `${n} in ${findCategory(categories, category).name}`);
+  return parts.length > 1 ? `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}` : parts[0];
+};
+
+// Used when no model is reachable
+export const composeOfflineReview = (stats: PeriodStats, categories: CategoryDefinition[]): string => {
+  const { counts } = stats;
+  const total = countTotal(counts);
+  if (!total) return "Nothing was recorded in this period. Even one short entry gives Lucy something to reflect on.";
+
+  const parts = [
+    `You recorded ${total} ${total === 1 ? 'entry' : 'entries'}: ${listCounts(counts, categories)}.`
+  ];
+  if (stats.resolvedCount) {
+    parts.push(`You resolved ${stats.resolvedCount} ${stats.resolvedCount === 1 ? 'struggle' : 'struggles'}${stats.averageDaysToResolve !== null ? `, in ${stats.averageDaysToResolve} days on average` : ''}.`);
+  }
+  if (stats.openCount) parts.push(`${stats.openCount} ${stats.openCount === 1 ? 'struggle is' : 'struggles are'} still open.`);
+  parts.push(`You journaled on ${stats.streaks.activeDays} ${stats.streaks.activeDays === 1 ? 'day' : 'days'}; your longest streak is ${stats.streaks.longest}.`);
+  return parts.join(' ');
+};
+
+export interface PeriodReview {
+  text: string;
+  origin: 'lucy' | 'offline';
+}
+
+export const createPeriodReview = async (
+  memory: MemoryStore,
+  range: DateRange,
+  periodLabel: string,
+  categories: CategoryDefinition[]
+): Promise<PeriodReview> => {
+  const entries = entriesInRange(memory, range);
+  const stats = periodStats(memory, range);
+  const fallback = composeOfflineReview(stats, categories);
+  if (!entries.length) return { text: fallback, origin: 'offline' };
+
+  try {
+    const text = await writePeriodReview(periodLabel, entries, fallback);
+    if (text) return { text, origin: 'lucy' };
+  } catch (error) {
+    console.warn("Period review falling back to offline text", error);
+  }
+  return { text: fallback, origin: 'offline' };
+};
@@ -0,0 +1,39 @@
+import { CallRecord, MemoryProposal } from '../types';
+
+// The Phone app's call log and the notes kept for each call.
+
+// Oldest calls are dropped past this; notes go with them
+export const CALL_LOG_LIMIT = 200;
+
+export const createCallRecord = (address: string, direction: CallRecord['direction'] = 'outgoing'): CallRecord => ({
+  id: crypto.randomUUID(),
+  address,
+  direction,
+  startedAt: Date.now(),
+  durationSeconds: 0
+});
+
+// Newest first
+export const addCall = (calls: CallRecord[], call: CallRecord): CallRecord[] => [call, ...calls].slice(0, CALL_LOG_LIMIT);
+
+export const updateCall = (calls: CallRecord[], id: string, patch: Partial<CallRecord>): CallRecord[] =>
+  calls.map(c => (c.id === id ? { ...c, ...patch } : c));
+
+export const deleteCall = (calls: CallRecord[], id: string): CallRecord[] => calls.filter(c => c.id !== id);
+
+export const updateCallProposal = (calls: CallRecord[], id: string, proposalId: string, patch: Partial<MemoryProposal>): CallRecord[] =>
+  calls.map(c => (c.id !== id ? c : { ...c, proposals: c.proposals?.map(p => (p.id === proposalId ? { ...p, ...patch } : p)) }));
+
+export const formatCallDuration = (seconds: number) => {
+  const s = Math.round(seconds);
+  if (s < 60) return `${s}s`;
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  return h ? `${h}h ${m}m` : `${m}m ${String(s % 60).padStart(2, '0')}s`;
+};
+
+// Incoming calls that never connected
+export const isMissedCall = (call: CallRecord) => call.direction === 'incoming' && call.durationSeconds === 0;
+
+// Keypad input: digits and the symbols a phone number can contain
+export const cleanDialInput = (input: string) => input.replace(/[^\d+*#]/g, '');
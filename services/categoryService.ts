@@ -0,0 +1,99 @@
+import { Category, CategoryDefinition, MemoryItem, MemoryStore } from '../types';
+import { itemsIn, memoryCategories } from './memoryService';
+
+// The registry of Memory Bank categories. The three built-ins can be renamed and
+// restyled but never archived or merged away, since goals, check-ins and insights
+// rely on them; every other category is the user's own.
+
+export const BUILT_IN_CATEGORIES: CategoryDefinition[] = [
+  { id: 'struggles', name: 'Struggles', icon: 'shield-alert', color: 'amber', hint: 'Challenges, setbacks and difficult feelings the user is working through' },
+  { id: 'development', name: 'Growth', icon: 'sprout', color: 'emerald', hint: 'Progress, milestones and new skills' },
+  { id: 'mindset', name: 'Mindset', icon: 'brain', color: 'indigo', hint: 'Beliefs and realisations that guide how the user thinks' }
+];
+
+export const isBuiltInCategory = (id: Category) => BUILT_IN_CATEGORIES.some(c => c.id === id);
+
+// For ids with no definition, e.g. from an import, until the registry is reconciled
+const fallbackDefinition = (id: Category): CategoryDefinition => ({
+  id,
+  name: id.charAt(0).toUpperCase() + id.slice(1).replace(/-/g, ' '),
+  icon: 'book',
+  color: 'slate'
+});
+
+export const findCategory = (categories: CategoryDefinition[], id: Category): CategoryDefinition =>
+  categories.find(c => c.id === id) || BUILT_IN_CATEGORIES.find(c => c.id === id) || fallbackDefinition(id);
+
+export const activeCategories = (categories: CategoryDefinition[]) => categories.filter(c => !c.archived);
+
+export const archivedCategoryIds = (categories: CategoryDefinition[]): Category[] => categories.filter(c => c.archived).map(c => c.id);
+
+const slugify = (name: string) =>
+  name.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'category';
+
+// Ids are slugs of the name, numbered when taken. Names inherited from every
+// object, like "constructor", are avoided so they can't shadow a store key.
+export const createCategory = (
+  categories: CategoryDefinition[],
+  fields: Pick<CategoryDefinition, 'name' | 'icon' | 'color' | 'hint'>
+): CategoryDefinition => {
+  const base = slugify(fields.name);
+  let id = base;
+  for (let n = 2; categories.some(c => c.id === id) || id in Object.prototype; n++) id = `${base}-${n}`;
+  return { id, name: fields.name.trim(), icon: fields.icon, color: fields.color, hint: fields.hint?.trim() || undefined };
+};
+
+export const addCategory = (categories: CategoryDefinition[], category: CategoryDefinition): CategoryDefinition[] => [...categories, category];
+
+// Renaming keeps the id, so entries, reminders and privacy settings stay attached
+export const updateCategory = (
+  categories: CategoryDefinition[],
+  id: Category,
+  fields: Pick<CategoryDefinition, 'name' | 'icon' | 'color' | 'hint'>
+): CategoryDefinition[] =>
+  categories.map(c => (c.id !== id ? c : {
+    ...c,
+    name: fields.name.trim() || c.name,
+    icon: fields.icon,
+    color: fields.color,
+    hint: fields.hint?.trim() || undefined
+  }));
+
+export const setCategoryArchived = (categories: CategoryDefinition[], id: Category, archived: boolean): CategoryDefinition[] =>
+  isBuiltInCategory(id) ? categories : categories.map(c => (c.id !== id ? c : { ...c, archived: archived || undefined }));
+
+// Moves every entry from one category into another and retires the first. Links
+// point at entry ids, so they survive the move.
+export const mergeCategories = (
+  memory: MemoryStore,
+  categories: CategoryDefinition[],
+  from: Category,
+  into: Category
+): { memory: MemoryStore; categories: CategoryDefinition[] } => {
+  if (from === into || isBuiltInCategory(from)) return { memory, categories };
+  const newestFirst = (items: MemoryItem[]) => [...items].sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp));
+  const { [from]: moved = [], ...rest } = memory;
+  return {
+    memory: { ...rest, [into]: newestFirst([...itemsIn(memory, into), ...moved]) } as MemoryStore,
+    categories: categories.filter(c => c.id !== from)
+  };
+};
+
+// Brings the registry and the store into line: the built-ins always exist, every
+// list in the store has a definition and every definition has a list. Data saved
+// before categories were configurable migrates through here.
+export const reconcileCategories = (
+  categories: CategoryDefinition[],
+  memory: MemoryStore
+): { categories: CategoryDefinition[]; memory: MemoryStore } => {
+  const missingBuiltIns = BUILT_IN_CATEGORIES.filter(b => !categories.some(c => c.id === b.id));
+  const known = [...missingBuiltIns, ...categories];
+  const unknown = memoryCategories(memory).filter(id => !known.some(c => c.id === id)).map(fallbackDefinition);
+  const reconciled = [...known, ...unknown];
+
+  const missingLists = reconciled.filter(c => !Array.isArray(memory[c.id]));
+  return {
+    categories: missingBuiltIns.length || unknown.length ? reconciled : categories,
+    memory: missingLists.length ? { ...memory, ...Object.fromEntries(missingLists.map(c => [c.id, []])) } : memory
+  };
+};
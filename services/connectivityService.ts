@@ -0,0 +1,127 @@
+import { LlmSettings } from '../types';
+import { LlmProvider } from './providers';
+
+// What the device and the browser can tell us about the connection, plus how
+// Lucy's own recent requests went. A network that's up doesn't mean the model is
+// reachable, so the indicator shown for Lucy is based on both.
+
+export type LucyStatus = 'online' | 'degraded' | 'offline';
+
+export interface RequestOutcome {
+  ok: boolean;
+  at: number;
+}
+
+export interface BatteryStatus {
+  level: number; // 0 to 1
+  charging: boolean;
+}
+
+// Only the last few requests, from the last few minutes, count towards the status
+const OUTCOME_WINDOW = 5;
+const OUTCOME_TTL_MS = 5 * 60000;
+
+let outcomes: RequestOutcome[] = [];
+const outcomeListeners = new Set<(outcomes: RequestOutcome[]) => void>();
+
+export const isNetworkOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+// Calls back with the new state whenever the browser goes on or offline
+export const watchNetwork = (onChange: (online: boolean) => void): (() => void) => {
+  const online = () => onChange(true);
+  const offline = () => onChange(false);
+  window.addEventListener('online', online);
+  window.addEventListener('offline', offline);
+  return () => {
+    window.removeEventListener('online', online);
+    window.removeEventListener('offline', offline);
+  };
+};
+
+interface BatteryManager extends EventTarget {
+  level: number;
+  charging: boolean;
+}
+
+// Calls back with null when the browser doesn't report the battery
+export const watchBattery = (onChange: (battery: BatteryStatus | null) => void): (() => void) => {
+  const nav = navigator as Navigator & { getBattery?: () => Promise<BatteryManager> };
+  if (!nav.getBattery) {
+    onChange(null);
+    return () => {};
+  }
+
+  let manager: BatteryManager | null = null;
+  let stopped = false;
+  const report = () => manager && onChange({ level: manager.level, charging: manager.charging });
+  nav.getBattery().then(m => {
+    if (stopped) return;
+    manager = m;
+    m.addEventListener('levelchange', report);
+    m.addEventListener('chargingchange', report);
+    report();
+  }).catch(() => onChange(null));
+
+  return () => {
+    stopped = true;
+    manager?.removeEventListener('levelchange', report);
+    manager?.removeEventListener('chargingchange', report);
+  };
+};
+
+export const recordRequest = (ok: boolean, now = Date.now()) => {
+  outcomes = [...outcomes, { ok, at: now }].slice(-OUTCOME_WINDOW);
+  outcomeListeners.forEach(listener => listener(outcomes));
+};
+
+export const recentOutcomes = () => outcomes;
+
+export const watchRequests = (onChange: (outcomes: RequestOutcome[]) => void): (() => void) => {
+  outcomeListeners.add(onChange);
+  return () => {
+    outcomeListeners.delete(onChange);
+  };
+};
+
+// Reports every call the provider makes. Requests the user stopped don't count either way.
+export const trackRequests = (provider: LlmProvider): LlmProvider => {
+  const track = <T>(request: Promise<T>, signal?: AbortSignal): Promise<T> =>
+    request.then(
+      result => {
+        recordRequest(true);
+        return result;
+      },
+      error => {
+        if (!signal?.aborted) recordRequest(false);
+        throw error;
+      }
+    );
+
+  return {
+    id: provider.id,
+    streamChat: (request, options) => track(provider.streamChat(request, options), options.signal),
+    generate: (request) => track(provider.generate(request)),
+    embed: provider.embed && ((texts) => track(provider.embed!(texts)))
+  };
+};
+
+// The mock provider and models served from this machine keep working without a network
+export const providerNeedsNetwork = (settings: LlmSettings) => {
+  if (settings.provider === 'mock') return false;
+  if (settings.provider === 'gemini') return true;
+  try {
+    return !['localhost', '127.0.0.1', '[::1]'].includes(new URL(settings.baseUrl).hostname);
+  } catch {
+    return true;
+  }
+};
+
+// Offline when there's no way to reach the model or the last two requests failed;
+// degraded after any other recent failure
+export const lucyStatus = (reachable: boolean, history: RequestOutcome[], now = Date.now()): LucyStatus => {
+  if (!reachable) return 'offline';
+  const recent = history.filter(o => now - o.at < OUTCOME_TTL_MS);
+  const lastTwo = recent.slice(-2);
+  if (lastTwo.length === 2 && lastTwo.every(o => !o.ok)) return 'offline';
+  return recent.some(o => !o.ok) ? 'degraded' : 'online';
+};
@@ -0,0 +1,177 @@
+import { ChatMessage, Conversation, ConversationStore, MemoryProposal, OutboxEntry, ReminderProposal } from '../types';
+
+// Saved conversations with Lucy and the policy for how much of each one is sent
+// back to the model.
+
+export const DEFAULT_CONVERSATION_TITLE = 'New conversation';
+
+// Rough budget for replayed history, in tokens (estimated at ~4 characters each)
+export const HISTORY_TOKEN_BUDGET = 6000;
+// Once the unsummarised history passes this, older turns get folded into the summary
+export const SUMMARY_TRIGGER_TOKENS = 4500;
+// Recent history that always stays verbatim when summarising
+export const KEEP_RECENT_TOKENS = 2000;
+
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export const createConversation = (messages: ChatMessage[] = []): Conversation => {
+  const now = Date.now();
+  return { id: crypto.randomUUID(), title: DEFAULT_CONVERSATION_TITLE, createdAt: now, updatedAt: now, messages };
+};
+
+export const getActiveConversation = (store: ConversationStore): Conversation | null =>
+  store.conversations.find(c => c.id === store.activeId) || null;
+
+const titleFromMessage = (text: string) => {
+  const clean = text.trim().replace(/\s+/g, ' ');
+  return clean.length > 40 ? `${clean.slice(0, 40).trimEnd()}…` : clean;
+};
+
+const updateConversation = (store: ConversationStore, id: string, update: (c: Conversation) => Conversation): ConversationStore => ({
+  ...store,
+  conversations: store.conversations.map(c => (c.id === id ? update(c) : c))
+});
+
+// Most recently used first
+const sortByRecent = (store: ConversationStore): ConversationStore => ({
+  ...store,
+  conversations: [...store.conversations].sort((a, b) => b.updatedAt - a.updatedAt)
+});
+
+export const addConversation = (store: ConversationStore, conversation: Conversation): ConversationStore =>
+  sortByRecent({ conversations: [conversation, ...store.conversations], activeId: conversation.id });
+
+export const appendMessage = (store: ConversationStore, id: string, message: ChatMessage): ConversationStore =>
+  sortByRecent(updateConversation(store, id, c => ({
+    ...c,
+    // The first thing the user says names the conversation until they rename it
+    title: c.title === DEFAULT_CONVERSATION_TITLE && message.role === 'user' ? titleFromMessage(message.text) : c.title,
+    messages: [...c.messages, message],
+    updatedAt: message.timestamp
+  })));
+
+export const updateMessage = (store: ConversationStore, id: string, messageId: string, patch: Partial<ChatMessage>): ConversationStore =>
+  updateConversation(store, id, c => ({
+    ...c,
+    messages: c.messages.map(m => (m.id === messageId ? { ...m, ...patch } : m))
+  }));
+
+// Lucy's reply to a queued message goes right after it, ahead of anything written since
+export const insertMessageAfter = (store: ConversationStore, id: string, afterId: string, message: ChatMessage): ConversationStore =>
+  updateConversation(store, id, c => {
+    const index = c.messages.findIndex(m => m.id === afterId);
+    if (index < 0) return { ...c, messages: [...c.messages, message] };
+    return { ...c, messages: [...c.messages.slice(0, index + 1), message, ...c.messages.slice(index + 1)] };
+  });
+
+export const removeMessage = (store: ConversationStore, id: string, messageId: string): ConversationStore =>
+  updateConversation(store, id, c => ({ ...c, messages: c.messages.filter(m => m.id !== messageId) }));
+
+// The thread as it was when a message was written, which is what gets replayed to Lucy
+export const conversationBefore = (conversation: Conversation, messageId: string): Conversation => {
+  const index = conversation.messages.findIndex(m => m.id === messageId);
+  return index < 0 ? conversation : { ...conversation, messages: conversation.messages.slice(0, index) };
+};
+
+export const updateProposal = (
+  store: ConversationStore,
+  id: string,
+  messageId: string,
+  proposalId: string,
+  patch: Partial<MemoryProposal>
+): ConversationStore =>
+  updateConversation(store, id, c => ({
+    ...c,
+    messages: c.messages.map(m => (m.id !== messageId ? m : {
+      ...m,
+      proposals: m.proposals?.map(p => (p.id === proposalId ? { ...p, ...patch } : p))
+    }))
+  }));
+
+export const updateReminderProposal = (
+  store: ConversationStore,
+  id: string,
+  messageId: string,
+  proposalId: string,
+  patch: Partial<ReminderProposal>
+): ConversationStore =>
+  updateConversation(store, id, c => ({
+    ...c,
+    messages: c.messages.map(m => (m.id !== messageId ? m : {
+      ...m,
+      reminders: m.reminders?.map(r => (r.id === proposalId ? { ...r, ...patch } : r))
+    }))
+  }));
+
+export const renameConversation = (store: ConversationStore, id: string, title: string): ConversationStore =>
+  updateConversation(store, id, c => ({ ...c, title: title.trim() || c.title }));
+
+export const deleteConversation = (store: ConversationStore, id: string): ConversationStore => {
+  const conversations = store.conversations.filter(c => c.id !== id);
+  const activeId = store.activeId === id ? (conversations[0]?.id ?? null) : store.activeId;
+  return { conversations, activeId };
+};
+
+export const setActiveConversation = (store: ConversationStore, id: string): ConversationStore => ({ ...store, activeId: id });
+
+export const setConversationSummary = (store: ConversationStore, id: string, summary: string, summarizedCount: number): ConversationStore =>
+  updateConversation(store, id, c => ({ ...c, summary, summarizedCount }));
+
+export interface HistoryWindow {
+  summary?: string;
+  messages: ChatMessage[]; // Verbatim turns to replay, oldest first
+}
+
+// Picks what to replay: the summary plus as many of the latest unsummarised
+// messages as fit in the budget. The window always starts on a user turn.
+export const selectHistory = (conversation: Conversation): HistoryWindow => {
+  // Replies stopped before any text arrived have nothing to replay
+  const pending = conversation.messages.slice(conversation.summarizedCount || 0).filter(m => m.text.trim());
+  let budget = HISTORY_TOKEN_BUDGET - (conversation.summary ? estimateTokens(conversation.summary) : 0);
+
+  let start = pending.length;
+  while (start > 0 && budget - estimateTokens(pending[start - 1].text) >= 0) {
+    budget -= estimateTokens(pending[start - 1].text);
+    start--;
+  }
+  while (start < pending.length && pending[start].role !== 'user') start++;
+
+  return { summary: conversation.summary, messages: pending.slice(start) };
+};
+
+// Returns the messages that should be folded into the summary next, or null if
+// the conversation still fits comfortably.
+export const messagesToSummarize = (conversation: Conversation): { messages: ChatMessage[]; upTo: number } | null => {
+  const from = conversation.summarizedCount || 0;
+  const pending = conversation.messages.slice(from);
+  const pendingTokens = pending.reduce((sum, m) => sum + estimateTokens(m.text), 0);
+  if (pendingTokens <= SUMMARY_TRIGGER_TOKENS) return null;
+
+  let kept = 0;
+  let cut = pending.length;
+  while (cut > 0 && kept + estimateTokens(pending[cut - 1].text) <= KEEP_RECENT_TOKENS) {
+    kept += estimateTokens(pending[cut - 1].text);
+    cut--;
+  }
+  // Keep whole exchanges together by cutting just before a user turn
+  while (cut > 0 && pending[cut]?.role !== 'user') cut--;
+  if (cut === 0) return null;
+
+  return { messages: pending.slice(0, cut), upTo: from + cut };
+};
+
+// Messages waiting for Lucy are sent oldest first, across conversations
+
+export const queueMessage = (outbox: OutboxEntry[], conversationId: string, messageId: string, now = Date.now()): OutboxEntry[] =>
+  outbox.some(e => e.messageId === messageId) ? outbox : [...outbox, { conversationId, messageId, queuedAt: now }];
+
+export const dequeueMessage = (outbox: OutboxEntry[], messageId: string): OutboxEntry[] => outbox.filter(e => e.messageId !== messageId);
+
+// Drops entries whose message went with its conversation. Entries being sent stay
+// put until they're through, so a failed attempt keeps its place.
+export const pruneOutbox = (outbox: OutboxEntry[], store: ConversationStore): OutboxEntry[] => {
+  const pruned = outbox.filter(e =>
+    store.conversations.some(c => c.id === e.conversationId && c.messages.some(m => m.id === e.messageId))
+  );
+  return pruned.length === outbox.length ? outbox : pruned;
+};
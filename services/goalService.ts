@@ -0,0 +1,85 @@
+import { Goal, GoalStep } from '../types';
+import { todayKey } from './insightService';
+
+// Goals with target dates and measurable steps. Progress is the share of steps
+// done; development entries record what moved a goal forward, and struggles are
+// linked as the blockers in its way.
+
+const DAY_MS = 86400000;
+
+export const createGoalStep = (text: string): GoalStep => ({ id: crypto.randomUUID(), text: text.trim() });
+
+export const createGoal = (fields: Pick<Goal, 'title' | 'targetDate' | 'developmentIds' | 'blockerIds'> & { steps: string[] }): Goal => ({
+  id: crypto.randomUUID(),
+  title: fields.title.trim(),
+  targetDate: fields.targetDate || undefined,
+  steps: fields.steps.filter(s => s.trim()).map(createGoalStep),
+  developmentIds: fields.developmentIds,
+  blockerIds: fields.blockerIds,
+  createdAt: Date.now()
+});
+
+// A goal is complete once it has steps and all of them are done
+const withCompletion = (goal: Goal, now = Date.now()): Goal => {
+  const complete = goal.steps.length > 0 && goal.steps.every(s => s.doneAt);
+  if (complete === !!goal.completedAt) return goal;
+  return { ...goal, completedAt: complete ? now : undefined };
+};
+
+// Replaces the goal's fields from the edit form. Steps whose text is unchanged keep their progress.
+export const updateGoal = (
+  goals: Goal[],
+  id: string,
+  fields: Pick<Goal, 'title' | 'targetDate' | 'developmentIds' | 'blockerIds'> & { steps: string[] }
+): Goal[] =>
+  goals.map(g => {
+    if (g.id !== id) return g;
+    const steps = fields.steps
+      .filter(text => text.trim())
+      .map(text => g.steps.find(s => s.text === text.trim()) || createGoalStep(text));
+    return withCompletion({
+      ...g,
+      title: fields.title.trim() || g.title,
+      targetDate: fields.targetDate || undefined,
+      steps,
+      developmentIds: fields.developmentIds,
+      blockerIds: fields.blockerIds
+    });
+  });
+
+export const addGoal = (goals: Goal[], goal: Goal): Goal[] => [goal, ...goals];
+
+export const deleteGoal = (goals: Goal[], id: string): Goal[] => goals.filter(g => g.id !== id);
+
+export const toggleGoalStep = (goals: Goal[], goalId: string, stepId: string, now = Date.now()): Goal[] =>
+  goals.map(g => (g.id !== goalId ? g : withCompletion({
+    ...g,
+    steps: g.steps.map(s => (s.id !== stepId ? s : s.doneAt ? { id: s.id, text: s.text } : { ...s, doneAt: now }))
+  }, now)));
+
+// Marks steps done from a reflection, crediting the development entry it produced to each goal involved
+export const completeGoalSteps = (goals: Goal[], stepIds: string[], developmentId?: string, now = Date.now()): Goal[] =>
+  goals.map(g => {
+    if (!g.steps.some(s => stepIds.includes(s.id))) return g;
+    return withCompletion({
+      ...g,
+      steps: g.steps.map(s => (stepIds.includes(s.id) && !s.doneAt ? { ...s, doneAt: now } : s)),
+      developmentIds: developmentId && !g.developmentIds.includes(developmentId) ? [...g.developmentIds, developmentId] : g.developmentIds
+    }, now);
+  });
+
+export const goalProgress = (goal: Goal) =>
+  goal.steps.length ? goal.steps.filter(s => s.doneAt).length / goal.steps.length : goal.completedAt ? 1 : 0;
+
+// Every step still open, across all unfinished goals
+export const openGoalSteps = (goals: Goal[]): { goal: Goal; step: GoalStep }[] =>
+  goals.filter(g => !g.completedAt).flatMap(goal => goal.steps.filter(s => !s.doneAt).map(step => ({ goal, step })));
+
+export const describeTarget = (goal: Goal, now = new Date()) => {
+  if (goal.completedAt) return `Done ${new Date(goal.completedAt).toLocaleDateString()}`;
+  if (!goal.targetDate) return 'No target date';
+  const days = Math.round((Date.parse(goal.targetDate) - Date.parse(todayKey(now))) / DAY_MS);
+  if (days === 0) return 'Due today';
+  if (days > 0) return `${days} ${days === 1 ? 'day' : 'days'} left`;
+  return `${-days} ${days === -1 ? 'day' : 'days'} overdue`;
+};
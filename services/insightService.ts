@@ -0,0 +1,111 @@
+import { MemoryStore, MemoryItem, Category, DailyInsight, Conversation } from '../types';
+import { searchMemories, hashString } from './retrievalService';
+import { createConversation } from './conversationService';
+import { memoryCategories } from './memoryService';
+import { writeDailyInsight } from './lucyService';
+
+// The home screen's Daily Insight: one or two of the user's own memories paired
+// up and reflected back, made once per day and kept until the date changes.
+
+// Struggles older than this are only used when there is nothing more recent
+const RECENT_DAYS = 14;
+
+export interface InsightSource {
+  category: Category;
+  item: MemoryItem;
+}
+
+// Local date, so the insight turns over at the user's midnight rather than UTC's
+export const todayKey = (now = new Date()) =>
+  `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+
+export const isInsightCurrent = (insight: DailyInsight | null, memory: MemoryStore, date = todayKey()) => {
+  if (!insight || insight.date !== date) return false;
+  // An insight made from an empty Memory Bank is replaced once there is something to draw on
+  const hasMemories = memoryCategories(memory).some(category => memory[category].length > 0);
+  return insight.sourceIds.length > 0 || !hasMemories;
+};
+
+const newestFirst = (items: MemoryItem[]) =>
+  [...items].sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp));
+
+// Stable for a given day and attempt, so reloading shows the same insight and refreshing moves on
+const pick = <T>(items: T[], seed: string): T | undefined =>
+  items.length ? items[parseInt(hashString(seed), 36) % items.length] : undefined;
+
+// Prefers a recent struggle paired with the growth most related to it, then a
+// mindset reminder, then a recent development, then a recent entry of any kind
+export const pickInsightSources = (memory: MemoryStore, date: string, attempt = 0): InsightSource[] => {
+  const seed = `${date}:${attempt}`;
+  const cutoff = Date.now() - RECENT_DAYS * 24 * 60 * 60 * 1000;
+  const struggles = newestFirst(memory.struggles);
+  const recent = struggles.filter(i => Date.parse(i.timestamp) >= cutoff);
+  const struggle = pick(recent.length ? recent : struggles.slice(0, 5), `${seed}:struggle`);
+
+  if (struggle) {
+    const query = [struggle.value.description, ...struggle.value.details].join(' ');
+    const related = searchMemories(memory, query).filter(r => r.category !== 'struggles');
+    const growth = related.find(r => r.category === 'development') || related[0];
+    if (growth) return [{ category: 'struggles', item: struggle }, { category: growth.category, item: growth.item }];
+    const mindset = pick(memory.mindset, `${seed}:mindset`);
+    return mindset
+      ? [{ category: 'struggles', item: struggle }, { category: 'mindset', item: mindset }]
+      : [{ category: 'struggles', item: struggle }];
+  }
+
+  const fallback = pick(memory.mindset, `${seed}:mindset`) || pick(newestFirst(memory.development).slice(0, 10), `${seed}:development`);
+  if (fallback) return [{ category: memory.mindset.includes(fallback) ? 'mindset' : 'development', item: fallback }];
+
+  const entries = memoryCategories(memory)
+    .flatMap(category => memory[category].map(item => ({ category, item })))
+    .sort((a, b) => Date.parse(b.item.timestamp) - Date.parse(a.item.timestamp));
+  const entry = pick(entries.slice(0, 10), `${seed}:any`);
+  return entry ? [entry] : [];
+};
+
+const quote = (item: MemoryItem) => `"${item.value.description.replace(/[.!?]+$/, '')}"`;
+
+// Used when no model is reachable; built only from the memories themselves
+export const composeOfflineInsight = (sources: InsightSource[]): string => {
+  const [first, second] = sources;
+  if (!first) return "Add a few entries to your Memory Bank and Lucy will reflect them back to you here each day.";
+
+  if (first.category === 'struggles' && second?.category === 'development') {
+    return `You're working through ${quote(first.item)}. Remember you've already managed ${quote(second.item)}. That same strength applies here.`;
+  }
+  if (first.category === 'struggles' && second) {
+    return `When ${quote(first.item)} weighs on you, come back to this: ${quote(second.item)}.`;
+  }
+  if (first.category === 'struggles') {
+    return `You named ${quote(first.item)} as a struggle. Naming it is the first step. What's one small move you could make today?`;
+  }
+  if (first.category === 'development') {
+    return `Look how far you've come: ${quote(first.item)}. Progress like that is worth pausing on.`;
+  }
+  return `A reminder you wrote for yourself: ${quote(first.item)}.`;
+};
+
+export const createDailyInsight = async (memory: MemoryStore, date = todayKey(), attempt = 0): Promise<DailyInsight> => {
+  const sources = pickInsightSources(memory, date, attempt);
+  const base = { date, sourceIds: sources.map(s => s.item.id), createdAt: Date.now() };
+  if (!sources.length) return { ...base, text: composeOfflineInsight(sources), origin: 'offline' };
+
+  try {
+    const text = await writeDailyInsight(sources);
+    if (text) return { ...base, text, origin: 'lucy' };
+  } catch (error) {
+    console.warn("Daily insight falling back to offline text", error);
+  }
+  return { ...base, text: composeOfflineInsight(sources), origin: 'offline' };
+};
+
+// A new chat that opens with the insight. It is also recorded as the conversation
+// summary, since the replayed history has to start with a user turn.
+export const insightConversation = (insight: DailyInsight): Conversation => ({
+  ...createConversation([
+    { id: crypto.randomUUID(), role: 'model', text: insight.text, timestamp: Date.now(), citations: insight.sourceIds.length ? insight.sourceIds : undefined }
+  ]),
+  title: `Daily insight · ${insight.date}`,
+  summary: `Lucy opened this conversation by sharing today's insight with the user: ${insight.text}`,
+  summarizedCount: 0
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { MemoryItem, MemoryStore, MemoryValue } from '../types';
+import { BUILT_IN_CATEGORIES } from './categoryService';
+import { DEFAULT_JOURNAL_FILTERS, JournalFilters, filterJournal } from './journalService';
+
+// Timestamps in local time, since the journal filters by the user's calendar day
+const entry = (id: string, localDate: [number, number, number, number?], value: Partial<MemoryValue> = {}): MemoryItem => {
+  const [year, month, day, hour = 12] = localDate;
+  return {
+    id,
+    timestamp: new Date(year, month - 1, day, hour).toISOString(),
+    value: { description: `Entry ${id}`, details: [], ...value }
+  };
+};
+
+const store = (): MemoryStore => ({
+  struggles: [
+    entry('feb-end', [2026, 2, 28, 23], { description: 'Late night tax worries' }),
+    entry('mar-start', [2026, 3, 1, 0], { description: 'Tax deadline stress' })
+  ],
+  development: [
+    entry('mar-mid', [2026, 3, 15], { description: 'Filed the tax return', tags: ['money'] })
+  ],
+  mindset: [
+    entry('dec', [2025, 12, 31, 23], { description: 'Year in review' })
+  ]
+});
+
+const ids = (filters: Partial<JournalFilters>) =>
+  filterJournal(store(), { ...DEFAULT_JOURNAL_FILTERS, ...filters }, BUILT_IN_CATEGORIES).hits.map(hit => hit.item.id);
+
+describe('filterJournal', () => {
+  it('includes the whole last day of a month-long upper bound', () => {
+    expect(ids({ query: 'to:2026-02' })).toEqual(['feb-end', 'dec']);
+  });
+
+  it('starts a month-long lower bound at midnight on the first', () => {
+    expect(ids({ query: 'from:2026-03' })).toEqual(['mar-mid', 'mar-start']);
+  });
+
+  it('limits on: to a single day', () => {
+    expect(ids({ query: 'on:2026-03-01' })).toEqual(['mar-start']);
+  });
+
+  it('keeps the year boundary on the local calendar', () => {
+    expect(ids({ query: 'on:2025' })).toEqual(['dec']);
+  });
+
+  it('applies the narrower bound when the search box and the facets disagree', () => {
+    expect(ids({ query: 'from:2026-03-10', from: '2026-02-01' })).toEqual(['mar-mid']);
+    expect(ids({ query: 'to:2026-12', to: '2026-02-28' })).toEqual(['feb-end', 'dec']);
+  });
+
+  it('ranks text matches across categories while sorting by relevance', () => {
+    const results = filterJournal(store(), { ...DEFAULT_JOURNAL_FILTERS, query: 'tax' }, BUILT_IN_CATEGORIES);
+    expect(results.ranked).toBe(true);
+    expect(results.hits.map(hit => hit.category)).toEqual(expect.arrayContaining(['struggles', 'development']));
+  });
+
+  it('combines search filters with text', () => {
+    expect(ids({ query: 'tax #money' })).toEqual(['mar-mid']);
+    expect(ids({ query: 'tax in:struggles from:2026-03' })).toEqual(['mar-start']);
+  });
+
+  it('leaves out categories that are not given', () => {
+    const results = filterJournal(store(), DEFAULT_JOURNAL_FILTERS, BUILT_IN_CATEGORIES.filter(c => c.id !== 'mindset'));
+    expect(results.hits.map(hit => hit.item.id)).not.toContain('dec');
+  });
+});
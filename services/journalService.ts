@@ -0,0 +1,108 @@
+import { MemoryStore, MemoryItem, Category, CategoryDefinition, StruggleStatus } from '../types';
+import { memoryCategories } from './memoryService';
+import { parseSearchQuery, searchEntries } from './searchService';
+
+// Faceted filtering and sorting for the Memory Bank journal view. The search box
+// goes through the search engine, including its filters (see searchService).
+
+export const MOOD_LABELS = ['Very low', 'Low', 'Okay', 'Good', 'Very good'];
+
+// 'relevance' ranks by search score while there's text to search for, and falls back to newest
+export type JournalSort = 'relevance' | 'newest' | 'oldest' | 'mood-high' | 'mood-low';
+
+export interface JournalFilters {
+  category: Category | 'all';
+  query: string;
+  tags: string[]; // An entry has to carry every selected tag
+  from: string; // YYYY-MM-DD, inclusive; empty for no bound
+  to: string;
+  moods: number[]; // Empty means any mood, including none
+  status: StruggleStatus | 'any'; // Anything but 'any' shows struggles only
+  sort: JournalSort;
+}
+
+export const DEFAULT_JOURNAL_FILTERS: JournalFilters = {
+  category: 'all',
+  query: '',
+  tags: [],
+  from: '',
+  to: '',
+  moods: [],
+  status: 'any',
+  sort: 'relevance'
+};
+
+export interface JournalHit {
+  category: Category;
+  item: MemoryItem;
+  matches: string[]; // Search terms to highlight
+}
+
+export interface JournalResults {
+  hits: JournalHit[];
+  ranked: boolean; // Ordered by relevance across categories rather than grouped
+}
+
+// Facets beyond category and text search that are currently narrowing the list
+export const countActiveFacets = (filters: JournalFilters) =>
+  filters.tags.length + (filters.from ? 1 : 0) + (filters.to ? 1 : 0) + (filters.moods.length ? 1 : 0) + (filters.status !== 'any' ? 1 : 0);
+
+export const collectTags = (memory: MemoryStore): { tag: string; count: number }[] => {
+  const counts = new Map<string, number>();
+  memoryCategories(memory).forEach(c => memory[c].forEach(item => item.value.tags?.forEach(t => counts.set(t, (counts.get(t) || 0) + 1))));
+  return [...counts.entries()].map(([tag, count]) => ({ tag, count })).sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+const localDay = (timestamp: string) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+const matches = (item: MemoryItem, category: Category, filters: JournalFilters) => {
+  const { value } = item;
+  if (filters.tags.length && !filters.tags.every(t => value.tags?.includes(t))) return false;
+  if (filters.from || filters.to) {
+    const day = localDay(item.timestamp);
+    if (filters.from && day < filters.from) return false;
+    if (filters.to && day > filters.to) return false;
+  }
+  if (filters.moods.length && (value.mood === undefined || !filters.moods.includes(value.mood))) return false;
+  if (filters.status !== 'any' && (category !== 'struggles' || (value.status || 'active') !== filters.status)) return false;
+  return true;
+};
+
+const compare = (sort: JournalSort) => (a: MemoryItem, b: MemoryItem) => {
+  const byDate = Date.parse(b.timestamp) - Date.parse(a.timestamp);
+  switch (sort) {
+    case 'relevance':
+    case 'newest': return byDate;
+    case 'oldest': return -byDate;
+    // Entries without a mood go last either way
+    case 'mood-high': return (b.value.mood ?? 0) - (a.value.mood ?? 0) || byDate;
+    case 'mood-low': return (a.value.mood ?? 6) - (b.value.mood ?? 6) || byDate;
+  }
+};
+
+// Only the given categories are searched, so archived ones stay out of the journal
+export const filterJournal = (memory: MemoryStore, filters: JournalFilters, categories: CategoryDefinition[]): JournalResults => {
+  const query = parseSearchQuery(filters.query, categories);
+  // Filters typed into the search box narrow on top of the facet panel
+  const combined: JournalFilters = {
+    ...filters,
+    tags: [...new Set([...filters.tags, ...query.tags])],
+    from: [filters.from, query.from].filter(Boolean).sort().pop() || '',
+    to: [filters.to, query.to].filter(Boolean).sort().shift() || ''
+  };
+  const inScope = (category: Category) =>
+    categories.some(c => c.id === category) &&
+    (filters.category === 'all' || filters.category === category) && (!query.category || query.category === category);
+
+  const candidates: JournalHit[] = query.terms.length
+    ? searchEntries(memory, query.terms).map(({ category, item, matches }) => ({ category, item, matches }))
+    : memoryCategories(memory).flatMap(category => memory[category].map(item => ({ category, item, matches: [] })));
+  const hits = candidates.filter(hit => inScope(hit.category) && matches(hit.item, hit.category, combined));
+
+  const ranked = filters.sort === 'relevance' && query.terms.length > 0;
+  if (!ranked) hits.sort((a, b) => compare(filters.sort)(a.item, b.item));
+  return { hits, ranked };
+};
@@ -0,0 +1,74 @@
+import { Category, LauncherLayout } from '../types';
+
+// The home screen's arrangement. The layout only records the user's choices;
+// which items exist comes from the app registry and the journal categories, so
+// apps added later and new categories simply appear at the end of the grid.
+
+export const MAX_DOCK_ITEMS = 3;
+
+export const DEFAULT_LAUNCHER_LAYOUT: LauncherLayout = {
+  order: [
+    'phone', 'messages', 'settings', 'live',
+    'category:struggles', 'category:development', 'category:mindset',
+    'journal', 'timeline', 'reminders', 'goals'
+  ],
+  hidden: [],
+  dock: ['chat'],
+  widgets: ['insight']
+};
+
+export const categoryShortcutId = (category: Category) => `category:${category}`;
+
+// Stored positions first, then anything not placed yet. Ids that no longer match an
+// item, like an archived category's shortcut, are kept so it returns to its place.
+const fullOrder = (layout: LauncherLayout, itemIds: string[]) => [
+  ...layout.order,
+  ...itemIds.filter(id => !layout.order.includes(id))
+];
+
+export const arrangeLauncher = (layout: LauncherLayout, itemIds: string[]) => {
+  const dock = layout.dock.filter(id => itemIds.includes(id)).slice(0, MAX_DOCK_ITEMS);
+  const hidden = layout.hidden.filter(id => itemIds.includes(id));
+  const grid = fullOrder(layout, itemIds).filter(id => itemIds.includes(id) && !dock.includes(id) && !hidden.includes(id));
+  return { grid, dock, hidden };
+};
+
+// Puts `id` where `targetId` is, shifting the rest along
+export const moveLauncherItem = (layout: LauncherLayout, itemIds: string[], id: string, targetId: string): LauncherLayout => {
+  const order = fullOrder(layout, itemIds);
+  const from = order.indexOf(id);
+  const to = order.indexOf(targetId);
+  if (from < 0 || to < 0 || from === to) return layout;
+  order.splice(from, 1);
+  order.splice(to, 0, id);
+  return { ...layout, order };
+};
+
+// Hidden items leave the dock too
+export const setItemHidden = (layout: LauncherLayout, id: string, hidden: boolean): LauncherLayout => ({
+  ...layout,
+  hidden: hidden ? [...layout.hidden.filter(h => h !== id), id] : layout.hidden.filter(h => h !== id),
+  dock: hidden ? layout.dock.filter(d => d !== id) : layout.dock
+});
+
+// Unchanged when the dock is already full. Ids that no longer match an item don't take up a place.
+export const setItemPinned = (layout: LauncherLayout, itemIds: string[], id: string, pinned: boolean): LauncherLayout => {
+  if (!pinned) return { ...layout, dock: layout.dock.filter(d => d !== id) };
+  if (layout.dock.includes(id) || layout.dock.filter(d => itemIds.includes(d)).length >= MAX_DOCK_ITEMS) return layout;
+  return { ...layout, dock: [...layout.dock, id], hidden: layout.hidden.filter(h => h !== id) };
+};
+
+export const addWidget = (layout: LauncherLayout, id: string): LauncherLayout =>
+  layout.widgets.includes(id) ? layout : { ...layout, widgets: [...layout.widgets, id] };
+
+export const removeWidget = (layout: LauncherLayout, id: string): LauncherLayout => ({ ...layout, widgets: layout.widgets.filter(w => w !== id) });
+
+// -1 moves it up, 1 down
+export const moveWidget = (layout: LauncherLayout, id: string, offset: number): LauncherLayout => {
+  const widgets = [...layout.widgets];
+  const from = widgets.indexOf(id);
+  const to = from + offset;
+  if (from < 0 || to < 0 || to >= widgets.length) return layout;
+  [widgets[from], widgets[to]] = [widgets[to], widgets[from]];
+  return { ...layout, widgets };
+};
@@ -0,0 +1,526 @@
+import {
+  MemoryStore, MemoryItem, Category, CategoryDefinition, ChatMessage, Conversation, LlmSettings, MemoryProposal, ReminderProposal
+} from '../types';
+import { selectHistory } from './conversationService';
+import { LlmProvider, ToolRound, createProvider, DEFAULT_LLM_SETTINGS } from './providers';
+import { memoryTools, runMemoryTool } from './memoryTools';
+import { itemsIn } from './memoryService';
+import { BUILT_IN_CATEGORIES, activeCategories, findCategory } from './categoryService';
+import { trackRequests } from './connectivityService';
+import {
+  RetrievedMemory, MEMORY_TOKEN_BUDGET, hashMemory, retrieveMemories, formatRetrievedMemories, extractCitations, stripCitationMarkers,
+  describeMemoryFields
+} from './retrievalService';
+
+// Upper bound on tool call rounds per reply, so a confused model can't loop forever
+const MAX_TOOL_ROUNDS = 4;
+
+// Lucy's side of the conversation, independent of which model backend answers.
+// A session is the system instruction plus the turns exchanged since it was built;
+// the provider receives all of it on every request.
+interface ChatSession {
+  systemInstruction: string;
+  history: ChatMessage[];
+}
+
+let llmSettings: LlmSettings = DEFAULT_LLM_SETTINGS;
+// Every request is reported to the connectivity status
+let provider: LlmProvider = trackRequests(createProvider(llmSettings));
+
+// The user's active categories, which Lucy reads from and files into
+let categories: CategoryDefinition[] = BUILT_IN_CATEGORIES;
+
+let chatSession: ChatSession | null = null;
+let currentMemoryHash: string = "";
+// Identifies the conversation and history window the current session was built from
+let currentHistoryKey: string = "";
+
+export interface LucyReply {
+  text: string;
+  interrupted: boolean; // Stopped by the user before the reply finished
+  proposals: MemoryProposal[]; // Memory Bank changes awaiting the user's decision
+  reminders: ReminderProposal[]; // Reminders awaiting the user's decision
+  citations: string[]; // Ids of the Memory Bank entries the reply cited
+  unreachable?: boolean; // The model couldn't be reached, even on retry; the text is an apology
+}
+
+export interface SendOptions {
+  onChunk?: (textSoFar: string) => void;
+  onProposals?: (proposals: MemoryProposal[]) => void;
+  onReminders?: (reminders: ReminderProposal[]) => void;
+  signal?: AbortSignal;
+}
+
+const historyKey = (conversation?: Conversation) => {
+  if (!conversation) return "";
+  const window = selectHistory(conversation);
+  return `${conversation.id}:${conversation.summarizedCount || 0}:${window.messages[0]?.id || ''}`;
+};
+
+// Called whenever the model settings change; the next message starts a fresh session
+export const configureLlm = (settings: LlmSettings) => {
+  llmSettings = settings;
+  provider = trackRequests(createProvider(settings));
+  chatSession = null;
+};
+
+// Called whenever the category registry changes; the next message starts a fresh session
+export const configureCategories = (registry: CategoryDefinition[]) => {
+  categories = activeCategories(registry);
+  chatSession = null;
+};
+
+const categoryIds = () => categories.map(c => c.id);
+
+// One line per category, with the user's hint about what belongs in it
+const describeCategories = () =>
+  categories.map(c => `- ${c.id} ("${c.name}")${c.hint ? `: ${c.hint}` : ''}`).join('\n');
+
+// Only the shape of the Memory Bank goes into the session; the entries themselves
+// are retrieved per message
+const describeMemory = (memory: MemoryStore) => {
+  const counts = categories.map(c => `${itemsIn(memory, c.id).length} ${c.id}`).join(', ');
+  return `The Memory Bank holds ${counts} entries. Its categories, by id:\n${describeCategories()}`;
+};
+
+const embedFn = () => (llmSettings.useEmbeddings ? provider.embed : undefined);
+
+export const initializeChat = async (memory: MemoryStore, conversation?: Conversation): Promise<ChatSession> => {
+  currentMemoryHash = hashMemory(memory);
+  currentHistoryKey = historyKey(conversation);
+
+  const window = conversation ? selectHistory(conversation) : { messages: [] };
+  const summaryContext = window.summary
+    ? `\n    Summary of the earlier part of this conversation:\n    ${window.summary}\n`
+    : '';
+
+  const systemInstruction = `
+    You are Lucy, the Operating System Kernel and Personal Growth Assistant for this device.
+
+    You have deep access to the user's "Memory Bank", their personal history.
+    The user views you as the soul of their phone's launcher.
+
+    ${describeMemory(memory)}
+    With each message you receive the entries most relevant to it, labelled [M1], [M2] and so on.
+    Entries may carry tags, a mood (how the user felt), a status (struggles are active or resolved) and links to other entries by id.
+    Treat resolved struggles as wins to build on, not problems to fix.
+    Use search_memory to look for anything else.
+    ${summaryContext}
+    Directives:
+    1. Act as a helpful OS Assistant. If the user asks about permissions, battery, or apps, guide them conceptually (even if you can't physically control hardware).
+    2. Use the "Development" and "Struggles" memory to provide context-aware advice.
+    3. Be encouraging but realistic ("Mindset" protocol).
+    4. If the user talks about "Listening" or "Auto-updates", refer to the "Lucy Live" app which uses the microphone to update your context.
+    5. When resuming a conversation, continue naturally from where it left off.
+    6. When the user shares progress, a struggle or a realisation worth keeping, propose a Memory Bank change with your tools. Prefer adding a detail to an existing entry over creating a near-duplicate. Never claim something was saved: the user confirms each proposal.
+    7. When you draw on a memory, cite its label right after the statement, e.g. "You handled this before [M2]." Only cite labels you were given, and don't cite memories you didn't use.
+    8. When the user asks to be reminded of something, or would benefit from a check-in on a struggle, propose a reminder with propose_reminder. As with memories, the user confirms it.
+
+    Maintain a concise, helpful, and slightly futuristic persona.
+  `;
+
+  chatSession = {
+    systemInstruction,
+    history: window.messages,
+  };
+
+  return chatSession;
+};
+
+export const resetChatSession = () => {
+  chatSession = null;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// e.g. "Monday 2025-01-27T18:05", in the same form propose_reminder expects
+const describeNow = (now = new Date()) =>
+  `${now.toLocaleDateString('en-GB', { weekday: 'long' })} ${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}T${pad(now.getHours())}:${pad(now.getMinutes())}`;
+
+// Streams one reply, reporting the accumulated text after every chunk. Tool calls
+// are answered locally and the model is asked to continue until it replies in text.
+// If the request is aborted, whatever arrived so far is returned as an interrupted reply.
+const streamReply = async (
+  session: ChatSession,
+  message: string,
+  memory: MemoryStore,
+  retrieved: RetrievedMemory[],
+  options: SendOptions
+): Promise<LucyReply> => {
+  let text = "";
+  // The local time lets the model turn "tomorrow evening" into a due date
+  const clock = `Current local time: ${describeNow()}`;
+  const systemInstruction = retrieved.length
+    ? `${session.systemInstruction}\n${clock}\nRelevant memories for this message:\n${formatRetrievedMemories(retrieved)}`
+    : `${session.systemInstruction}\n${clock}`;
+  const proposals: MemoryProposal[] = [];
+  const reminders: ReminderProposal[] = [];
+  const rounds: ToolRound[] = [];
+
+  try {
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      const roundStart = text.length;
+      const response = await provider.streamChat(
+        {
+          model: llmSettings.model,
+          temperature: llmSettings.temperature,
+          systemInstruction,
+          history: session.history,
+          message,
+          // On the last round the model has to answer in words
+          tools: round < MAX_TOOL_ROUNDS ? memoryTools(categoryIds()) : undefined,
+          toolRounds: rounds
+        },
+        {
+          signal: options.signal,
+          onChunk: (piece) => {
+            text += piece;
+            options.onChunk?.(stripCitationMarkers(text));
+          }
+        }
+      );
+      if (!response.toolCalls.length) break;
+
+      const outcomes = response.toolCalls.map(call => ({ call, ...runMemoryTool(call, memory, categoryIds()) }));
+      outcomes.forEach(o => o.proposal && proposals.push(o.proposal));
+      if (outcomes.some(o => o.proposal)) options.onProposals?.([...proposals]);
+      outcomes.forEach(o => o.reminder && reminders.push(o.reminder));
+      if (outcomes.some(o => o.reminder)) options.onReminders?.([...reminders]);
+      rounds.push({
+        text: text.slice(roundStart),
+        calls: response.toolCalls,
+        results: outcomes.map(o => ({ callId: o.call.id, name: o.call.name, result: o.result }))
+      });
+    }
+  } catch (error) {
+    if (!options.signal?.aborted) throw error;
+  }
+
+  const citations = extractCitations(text, retrieved);
+  text = stripCitationMarkers(text);
+
+  if (options.signal?.aborted) {
+    // Rebuild from the stored conversation next time, which keeps the partial reply
+    chatSession = null;
+    return { text, interrupted: true, proposals, reminders, citations };
+  }
+
+  const timestamp = Date.now();
+  session.history = [
+    ...session.history,
+    { id: crypto.randomUUID(), role: 'user', text: message, timestamp },
+    { id: crypto.randomUUID(), role: 'model', text, timestamp }
+  ];
+  return { text, interrupted: false, proposals, reminders, citations };
+};
+
+// `conversation` is the thread as it was before this message; its history is
+// replayed when the session has to be rebuilt.
+export const sendMessageToLucy = async (
+  message: string,
+  memory: MemoryStore,
+  conversation?: Conversation,
+  options: SendOptions = {}
+): Promise<LucyReply> => {
+  // Rebuild the session when the Memory Bank or the conversation changed since it was created
+  if (!chatSession || hashMemory(memory) !== currentMemoryHash || historyKey(conversation) !== currentHistoryKey) {
+    await initializeChat(memory, conversation);
+  }
+
+  if (!chatSession) {
+      throw new Error("Failed to initialize chat session.");
+  }
+
+  const retrieved = await retrieveMemories(memory, message, MEMORY_TOKEN_BUDGET, embedFn());
+
+  try {
+    const reply = await streamReply(chatSession, message, memory, retrieved, options);
+    if (reply.interrupted) return reply;
+    const fallback = reply.proposals.length ? "Here's what I'd add to your Memory Bank:"
+      : reply.reminders.length ? "Here's the reminder I'd set:"
+      : "I processed that, but have no words to reply.";
+    return { ...reply, text: reply.text || fallback };
+  } catch (error: any) {
+    console.error("LLM Error:", error);
+
+    // Covers streams that drop partway through as well as failed requests
+    const isRpcError = error?.message?.includes('Rpc failed') ||
+                       error?.message?.includes('500') ||
+                       error?.message?.includes('fetch') ||
+                       error?.message?.includes('network') ||
+                       error?.message?.includes('xhr') ||
+                       (error?.code === 6);
+
+    if (isRpcError) {
+      console.log("Connection instability detected. Retrying in 1s...");
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      if (options.signal?.aborted) return { text: "", interrupted: true, proposals: [], reminders: [], citations: [] };
+
+      chatSession = null;
+      try {
+         await initializeChat(memory, conversation);
+         if (chatSession) {
+            // Start the bubble over rather than appending a second copy to a half-received reply
+            options.onChunk?.("");
+            options.onProposals?.([]);
+            options.onReminders?.([]);
+            const retry = await streamReply(chatSession, message, memory, retrieved, options);
+            if (retry.interrupted) return retry;
+            return { ...retry, text: retry.text || "I'm back online." };
+         }
+      } catch (retryError) {
+        console.error("Retry failed:", retryError);
+        return {
+          text: "I'm having trouble connecting to my neural core right now. Please check your network connection.",
+          interrupted: false, proposals: [], reminders: [], citations: [], unreachable: true
+        };
+      }
+    }
+
+    return { text: "I encountered an error accessing my memory banks. Please try again.", interrupted: false, proposals: [], reminders: [], citations: [] };
+  }
+};
+
+// Condenses older turns so long conversations stay within the context budget
+export const summarizeConversation = async (previousSummary: string | undefined, messages: ChatMessage[]): Promise<string> => {
+  const transcript = messages.map(m => `${m.role === 'user' ? 'User' : 'Lucy'}: ${m.text}`).join('\n');
+
+  const response = await provider.generate({
+    model: llmSettings.model,
+    temperature: 0.2,
+    prompt: `Summarise this conversation between the user and Lucy, their personal growth assistant, in under 200 words.
+Keep facts about the user, decisions, open questions and anything Lucy promised to follow up on.
+${previousSummary ? `\nSummary of what came before:\n${previousSummary}\n` : ''}
+Conversation:
+${transcript}`,
+  });
+
+  const summary = response.trim();
+  if (!summary) throw new Error("Empty summary");
+  return summary;
+};
+
+// Reads the JSON array of suggested entries both memory prompts below ask for
+const parseProposals = (response: string): MemoryProposal[] => {
+  // Models like to wrap JSON in prose or code fences
+  const json = response.slice(response.indexOf('['), response.lastIndexOf(']') + 1);
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error("Lucy's suggestions could not be read");
+  }
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap((entry): MemoryProposal[] => {
+    const category = categoryIds().find(c => c === entry?.category);
+    const description = typeof entry?.description === 'string' ? entry.description.trim() : '';
+    if (!category || !description) return [];
+    const details = Array.isArray(entry.details)
+      ? entry.details.filter((d: unknown): d is string => typeof d === 'string' && d.trim() !== '').map((d: string) => d.trim())
+      : [];
+    return [{ id: crypto.randomUUID(), kind: 'add_item', category, description, details, status: 'pending' }];
+  });
+};
+
+const proposalFormat = () => `Each entry goes in one of these categories:
+${describeCategories()}
+Reply with only a JSON array, no prose: [{"category": ${categoryIds().map(id => `"${id}"`).join(' | ')}, "description": "one line", "details": ["specific example"]}]
+Reply with [] if nothing is worth keeping.`;
+
+// Pulls what's worth keeping out of a Lucy Live transcript. The result is a set of
+// proposals for the user to review; nothing is saved here.
+export const suggestMemoriesFromTranscript = async (transcript: string, memory: MemoryStore): Promise<MemoryProposal[]> => {
+  const related = await retrieveMemories(memory, transcript, MEMORY_TOKEN_BUDGET);
+
+  const response = await provider.generate({
+    model: llmSettings.model,
+    temperature: 0.2,
+    prompt: `You are Lucy, a personal growth assistant. Below is a transcript of what the user said aloud.
+Pick out at most 5 things worth keeping in their Memory Bank.
+Skip small talk and anything already covered by the existing entries listed below.
+${proposalFormat()}
+${related.length ? `\nExisting entries:\n${formatRetrievedMemories(related)}\n` : ''}
+Transcript:
+${transcript}`,
+  });
+
+  return parseProposals(response);
+};
+
+// The same for the notes the user took after a phone call. Only what the call meant
+// for the user is kept, not a record of the other person's life.
+export const suggestMemoriesFromCallNotes = async (contact: string, notes: string, memory: MemoryStore): Promise<MemoryProposal[]> => {
+  const related = await retrieveMemories(memory, notes, MEMORY_TOKEN_BUDGET);
+
+  const response = await provider.generate({
+    model: llmSettings.model,
+    temperature: 0.2,
+    prompt: `You are Lucy, a personal growth assistant. Below are the user's notes from a phone call with ${contact}.
+Pick out at most 3 things worth keeping in their Memory Bank, such as progress, decisions and realisations.
+Focus on the user. Skip logistics and anything already covered by the existing entries listed below.
+${proposalFormat()}
+${related.length ? `\nExisting entries:\n${formatRetrievedMemories(related)}\n` : ''}
+Call notes:
+${notes}`,
+  });
+
+  return parseProposals(response);
+};
+
+// A short reflection for the home screen, written from the memories picked for today
+export const writeDailyInsight = async (sources: { category: Category; item: MemoryItem }[]): Promise<string> => {
+  const listed = sources.map(s => `- (${findCategory(categories, s.category).name}) ${s.item.value.description}${s.item.value.details.length ? `: ${s.item.value.details.join('; ')}` : ''}`).join('\n');
+
+  const response = await provider.generate({
+    model: llmSettings.model,
+    temperature: 0.8,
+    prompt: `You are Lucy, a personal growth assistant. Write today's insight for the user's home screen from these entries in their Memory Bank:
+${listed}
+
+If there is a struggle and a growth milestone, connect them: show how what they've already achieved helps with what they're facing.
+Speak to the user directly, warmly and concretely. Two sentences, under 45 words, no greeting, no quotation marks around the whole thing.`,
+  });
+  return response.trim();
+};
+
+// Upper bound on entries quoted in a period review prompt; the newest are kept
+const REVIEW_ENTRY_LIMIT = 60;
+
+// "Your last 30 days": a look back over the entries recorded in a date range
+export const writePeriodReview = async (
+  periodLabel: string,
+  entries: { category: Category; item: MemoryItem }[],
+  statsSummary: string
+): Promise<string> => {
+  const listed = [...entries]
+    .sort((a, b) => Date.parse(b.item.timestamp) - Date.parse(a.item.timestamp))
+    .slice(0, REVIEW_ENTRY_LIMIT)
+    .map(({ category, item }) => {
+      const fields = describeMemoryFields(category, item);
+      return `- ${item.timestamp.slice(0, 10)} (${findCategory(categories, category).name}) ${item.value.description}${fields ? ` [${fields}]` : ''}`;
+    })
+    .join('\n');
+
+  const response = await provider.generate({
+    model: llmSettings.model,
+    temperature: 0.6,
+    prompt: `You are Lucy, a personal growth assistant. Write the user's review of ${periodLabel} from their Memory Bank.
+Cover the main themes, what they achieved, which struggles they overcame or still face, and one thing to focus on next.
+Speak to the user directly and warmly. Around 120 words, plain text, no headings or lists.
+
+Figures for the period: ${statsSummary}
+
+Entries (newest first):
+${listed}`,
+  });
+  return response.trim();
+};
+
+const AUDIT_ENTRY_LIMIT = 80;
+
+// Plain-language answer to "what has had access to what?"
+export const writePermissionExplanation = async (auditLines: string[], accessSummary: string): Promise<string> => {
+  const response = await provider.generate({
+    model: llmSettings.model,
+    temperature: 0.3,
+    prompt: `You are Lucy, the assistant built into the user's personal OS. Explain the permission history below in plain language.
+Say which apps can use what right now, what they were used for recently, and point out anything unusual, such as repeated refusals or access changed in the browser's settings.
+Be factual and brief: at most 120 words, plain text, no headings or lists. Don't invent events that aren't listed.
+
+Current access: ${accessSummary}
+
+Permission history (oldest first):
+${auditLines.slice(-AUDIT_ENTRY_LIMIT).join('\n')}`,
+  });
+  return response.trim();
+};
+
+const describeExchange = (exchange: { from: string; text: string }[]) =>
+  exchange.length ? exchange.map(m => `${m.from}: ${m.text}`).join('\n') : '(no messages yet)';
+
+// Entries that bear on the conversation, so drafts sound like the user and know their situation
+const memoryContextFor = async (memory: MemoryStore, query: string) => {
+  const related = await retrieveMemories(memory, query, MEMORY_TOKEN_BUDGET / 2);
+  return related.length ? `\nWhat the user's Memory Bank says that may be relevant (use it only where it fits naturally):\n${formatRetrievedMemories(related)}\n` : '';
+};
+
+// Short replies to the latest message in a text conversation
+export const writeReplySuggestions = async (
+  contact: string,
+  exchange: { from: string; text: string }[],
+  memory: MemoryStore
+): Promise<string[]> => {
+  const context = await memoryContextFor(memory, exchange.slice(-3).map(m => m.text).join(' '));
+
+  const response = await provider.generate({
+    model: llmSettings.model,
+    temperature: 0.7,
+    prompt: `You are Lucy, helping the user reply to a text message from ${contact}.
+Suggest 3 different replies the user could send next, in the user's voice: short, natural, each under 25 words.
+Reply with only a JSON array of strings, no prose.
+${context}
+Conversation (oldest first; "Me" is the user):
+${describeExchange(exchange)}`,
+  });
+
+  const json = response.slice(response.indexOf('['), response.lastIndexOf(']') + 1);
+  try {
+    const raw = JSON.parse(json);
+    return Array.isArray(raw) ? raw.filter((r): r is string => typeof r === 'string' && r.trim() !== '').map(r => r.trim()).slice(0, 3) : [];
+  } catch {
+    return [];
+  }
+};
+
+// A message written from the user's instruction, for them to edit before sending
+export const writeMessageDraft = async (
+  contact: string,
+  exchange: { from: string; text: string }[],
+  instruction: string,
+  memory: MemoryStore
+): Promise<string> => {
+  const context = await memoryContextFor(memory, `${instruction} ${exchange.slice(-3).map(m => m.text).join(' ')}`);
+
+  const response = await provider.generate({
+    model: llmSettings.model,
+    temperature: 0.6,
+    prompt: `You are Lucy, drafting a text message the user will send to ${contact}.
+What the user wants to say: ${instruction.trim() || 'a natural reply to the latest message'}
+Write it in the user's voice as a text message: plain, warm, concise. Only the message itself, no quotation marks or commentary.
+${context}
+Conversation so far (oldest first; "Me" is the user):
+${describeExchange(exchange)}`,
+  });
+
+  const draft = response.trim();
+  if (!draft) throw new Error("Empty draft");
+  return draft;
+};
+
+// One of Lucy's turns in a guided reflection: a brief acknowledgement of the last
+// answer, then the template's next question in her own words
+export const writeReflectionTurn = async (
+  sessionTitle: string,
+  exchange: { from: string; text: string }[],
+  nextQuestion: string,
+  memory: MemoryStore
+): Promise<string> => {
+  const context = await memoryContextFor(memory, exchange.slice(-2).map(m => m.text).join(' '));
+
+  const response = await provider.generate({
+    model: llmSettings.model,
+    temperature: 0.6,
+    prompt: `You are Lucy, a personal growth assistant, guiding the user through a ${sessionTitle}.
+Respond to the user's last answer in one sentence: acknowledge it warmly and specifically, without advice or judgement.
+Then ask the next question, keeping its meaning: "${nextQuestion}"
+At most 50 words, plain text, no greeting.
+${context}
+Session so far (oldest first):
+${describeExchange(exchange)}`,
+  });
+
+  const turn = response.trim();
+  if (!turn) throw new Error("Empty reflection turn");
+  return turn;
+};
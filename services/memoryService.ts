@@ -0,0 +1,105 @@
+import { MemoryStore, MemoryItem, MemoryValue, Category } from '../types';
+
+// Pure helpers for changing the Memory Bank. Every function returns a new store
+// so React state updates stay predictable.
+
+// Every category the store holds a list for, built-in or the user's own
+export const memoryCategories = (memory: MemoryStore): Category[] => Object.keys(memory);
+
+// A category's entries; one created since the store was last reconciled has none yet
+export const itemsIn = (memory: MemoryStore, category: Category): MemoryItem[] => memory[category] || [];
+
+export const createMemoryItem = (value: MemoryValue): MemoryItem => ({
+  id: crypto.randomUUID(),
+  timestamp: new Date().toISOString(),
+  value
+});
+
+export const addMemoryItem = (memory: MemoryStore, category: Category, item: MemoryItem): MemoryStore => ({
+  ...memory,
+  [category]: [item, ...itemsIn(memory, category)]
+});
+
+const sameList = (a: unknown[] = [], b: unknown[] = []) =>
+  a.length === b.length && a.every((x, i) => JSON.stringify(x) === JSON.stringify(b[i]));
+
+export const sameValue = (a: MemoryValue, b: MemoryValue) =>
+  a.description === b.description &&
+  sameList(a.details, b.details) &&
+  sameList(a.tags, b.tags) &&
+  a.mood === b.mood &&
+  (a.status || 'active') === (b.status || 'active') &&
+  sameList(a.links, b.links);
+
+// Replaces the current value and keeps the old one as a revision
+export const updateMemoryItem = (memory: MemoryStore, category: Category, id: string, value: MemoryValue): MemoryStore => ({
+  ...memory,
+  [category]: itemsIn(memory, category).map(item => {
+    if (item.id !== id || sameValue(item.value, value)) return item;
+
+    return {
+      ...item,
+      value,
+      updatedAt: new Date().toISOString(),
+      revisions: [...(item.revisions || []), { timestamp: item.updatedAt || item.timestamp, value: item.value }]
+    };
+  })
+});
+
+export const addMemoryDetail = (memory: MemoryStore, category: Category, id: string, detail: string): MemoryStore => {
+  const item = itemsIn(memory, category).find(i => i.id === id);
+  if (!item) return memory;
+  return updateMemoryItem(memory, category, id, { ...item.value, details: [...item.value.details, detail] });
+};
+
+// Saving an entry that resolves a struggle marks that struggle resolved too
+export const applyResolutions = (memory: MemoryStore, value: MemoryValue): MemoryStore =>
+  (value.links || [])
+    .filter(link => link.kind === 'resolves')
+    .reduce((store, link) => {
+      const struggle = store.struggles.find(i => i.id === link.targetId);
+      if (!struggle || struggle.value.status === 'resolved') return store;
+      return updateMemoryItem(store, 'struggles', struggle.id, { ...struggle.value, status: 'resolved' });
+    }, memory);
+
+// Entries whose links point at this one
+export const findBacklinks = (memory: MemoryStore, id: string) =>
+  memoryCategories(memory).flatMap(category =>
+    memory[category]
+      .filter(item => item.value.links?.some(l => l.targetId === id))
+      .map(item => ({ category, item, kind: item.value.links!.find(l => l.targetId === id)!.kind }))
+  );
+
+export const findMemoryItem = (memory: MemoryStore, id: string): { category: Category; item: MemoryItem } | null => {
+  for (const category of memoryCategories(memory)) {
+    const item = itemsIn(memory, category).find(i => i.id === id);
+    if (item) return { category, item };
+  }
+  return null;
+};
+
+// Restoring is itself an edit, so the value being replaced is not lost
+export const restoreMemoryRevision = (memory: MemoryStore, category: Category, id: string, revisionIndex: number): MemoryStore => {
+  const item = itemsIn(memory, category).find(i => i.id === id);
+  const revision = item?.revisions?.[revisionIndex];
+  if (!revision) return memory;
+  return updateMemoryItem(memory, category, id, revision.value);
+};
+
+export const deleteMemoryItem = (memory: MemoryStore, category: Category, id: string): MemoryStore => ({
+  ...memory,
+  [category]: itemsIn(memory, category).filter(item => item.id !== id)
+});
+
+// Puts a deleted item back at its previous position
+export const reinsertMemoryItem = (memory: MemoryStore, category: Category, item: MemoryItem, index: number): MemoryStore => {
+  const items = itemsIn(memory, category).filter(i => i.id !== item.id);
+  items.splice(Math.min(index, items.length), 0, item);
+  return { ...memory, [category]: items };
+};
+
+// The view of the store Lucy sees: current values only, no revision history
+export const toCurrentMemory = (memory: MemoryStore): MemoryStore => {
+  const strip = (items: MemoryItem[]) => items.map(({ id, timestamp, value }) => ({ id, timestamp, value }));
+  return Object.fromEntries(memoryCategories(memory).map(category => [category, strip(memory[category])])) as MemoryStore;
+};
@@ -0,0 +1,151 @@
+import { MemoryStore, MemoryProposal, Category, Recurrence, ReminderProposal } from '../types';
+import { ToolCall, ToolDefinition } from './providers';
+import { findMemoryItem } from './memoryService';
+import { searchMemories } from './retrievalService';
+
+// Tools that let Lucy look things up in the Memory Bank, suggest changes to it and
+// suggest reminders. Writes never happen here: they come back as proposals the
+// user has to accept.
+
+const SEARCH_LIMIT = 5;
+const RECURRENCES: Recurrence[] = ['none', 'daily', 'weekly'];
+
+// The category enums list the user's active categories, so Lucy files into those only
+export const memoryTools = (categories: Category[]): ToolDefinition[] => [
+  {
+    name: 'search_memory',
+    description: "Search the user's Memory Bank. Use it before proposing changes, to find an existing item to add to.",
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Words to look for' },
+        category: { type: 'string', enum: categories, description: 'Optionally limit the search to one category' }
+      },
+      required: ['query']
+    }
+  },
+  {
+    name: 'propose_memory_item',
+    description: 'Propose a new Memory Bank entry. The user sees it as a card and decides whether to save it.',
+    parameters: {
+      type: 'object',
+      properties: {
+        category: { type: 'string', enum: categories },
+        description: { type: 'string', description: 'One-line summary of the memory' },
+        details: { type: 'array', items: { type: 'string' }, description: 'Specific examples or milestones' }
+      },
+      required: ['category', 'description']
+    }
+  },
+  {
+    name: 'propose_memory_detail',
+    description: 'Propose adding one detail (example or milestone) to an existing Memory Bank entry, found with search_memory.',
+    parameters: {
+      type: 'object',
+      properties: {
+        item_id: { type: 'string', description: 'id of the entry returned by search_memory' },
+        detail: { type: 'string' }
+      },
+      required: ['item_id', 'detail']
+    }
+  },
+  {
+    name: 'propose_reminder',
+    description: 'Propose a reminder or a check-in, e.g. when the user asks to be reminded or to follow up on a struggle later. The user sees it as a card and decides whether to set it.',
+    parameters: {
+      type: 'object',
+      properties: {
+        title: { type: 'string', description: 'What the notification says, addressed to the user' },
+        due: { type: 'string', description: "When it first fires, as a local date and time: YYYY-MM-DDTHH:MM" },
+        repeat: { type: 'string', enum: RECURRENCES, description: 'How often it repeats; none for a one-off' },
+        memory_id: { type: 'string', description: 'Optionally, the id of a struggle to check in on, found with search_memory' }
+      },
+      required: ['title', 'due']
+    }
+  }
+];
+
+export interface ToolOutcome {
+  result: Record<string, unknown>;
+  proposal?: MemoryProposal;
+  reminder?: ReminderProposal;
+}
+
+const asString = (raw: unknown) => (typeof raw === 'string' ? raw.trim() : '');
+
+const searchMemory = (memory: MemoryStore, query: string, category?: Category) =>
+  searchMemories(memory, query)
+    .filter(r => !category || r.category === category)
+    .slice(0, SEARCH_LIMIT)
+    .map(r => ({
+      id: r.item.id,
+      category: r.category,
+      description: r.item.value.description,
+      details: r.item.value.details,
+      tags: r.item.value.tags || [],
+      mood: r.item.value.mood ?? null,
+      status: r.category === 'struggles' ? r.item.value.status || 'active' : undefined,
+      links: r.item.value.links || [],
+      date: r.item.timestamp.slice(0, 10)
+    }));
+
+export const runMemoryTool = (call: ToolCall, memory: MemoryStore, categories: Category[]): ToolOutcome => {
+  switch (call.name) {
+    case 'search_memory': {
+      const query = asString(call.args.query);
+      const category = categories.find(c => c === call.args.category);
+      if (!query) return { result: { error: 'query is required' } };
+      const matches = searchMemory(memory, query, category);
+      return { result: { matches, count: matches.length } };
+    }
+
+    case 'propose_memory_item': {
+      const category = categories.find(c => c === call.args.category);
+      const description = asString(call.args.description);
+      if (!category || !description) return { result: { error: 'category and description are required' } };
+      const details = Array.isArray(call.args.details) ? call.args.details.map(asString).filter(Boolean) : [];
+      return {
+        result: { status: 'shown_to_user', note: 'The user will accept, edit or reject this entry.' },
+        proposal: { id: crypto.randomUUID(), kind: 'add_item', category, description, details, status: 'pending' }
+      };
+    }
+
+    case 'propose_memory_detail': {
+      const target = findMemoryItem(memory, asString(call.args.item_id));
+      const detail = asString(call.args.detail);
+      if (!target) return { result: { error: 'No memory with that item_id. Use search_memory to find it.' } };
+      if (!detail) return { result: { error: 'detail is required' } };
+      return {
+        result: { status: 'shown_to_user', note: 'The user will accept, edit or reject this detail.' },
+        proposal: {
+          id: crypto.randomUUID(),
+          kind: 'add_detail',
+          category: target.category,
+          description: target.item.value.description,
+          details: [detail],
+          targetId: target.item.id,
+          status: 'pending'
+        }
+      };
+    }
+
+    case 'propose_reminder': {
+      const title = asString(call.args.title);
+      // Date-time strings without an offset are read as local time
+      const dueAt = Date.parse(asString(call.args.due));
+      const recurrence = RECURRENCES.find(r => r === call.args.repeat) || 'none';
+      const memoryId = asString(call.args.memory_id);
+      if (!title) return { result: { error: 'title is required' } };
+      if (!Number.isFinite(dueAt)) return { result: { error: 'due must be a date and time like 2025-01-31T18:00' } };
+      if (dueAt <= Date.now() && recurrence === 'none') return { result: { error: 'due is in the past' } };
+      if (memoryId && !findMemoryItem(memory, memoryId)) return { result: { error: 'No memory with that memory_id. Use search_memory to find it.' } };
+      return {
+        result: { status: 'shown_to_user', note: 'The user will set or dismiss this reminder.' },
+        reminder: { id: crypto.randomUUID(), title, dueAt, recurrence, memoryId: memoryId || undefined, status: 'pending' }
+      };
+    }
+
+    default:
+      return { result: { error: `Unknown tool ${call.name}` } };
+  }
+};
@@ -0,0 +1,107 @@
+import { Contact, MessageThread, TextMessage, MemoryStore } from '../types';
+import { IncomingMessage } from './messaging';
+import { writeMessageDraft, writeReplySuggestions } from './lucyService';
+
+// Contacts and message threads for the Messages app, and Lucy's help with writing.
+// Threads are keyed by address; contacts only give those addresses a name.
+
+export const createContact = (name: string, address: string, note = ''): Contact => {
+  const contact: Contact = { id: crypto.randomUUID(), name: name.trim() || address.trim(), address: address.trim() };
+  if (note.trim()) contact.note = note.trim();
+  return contact;
+};
+
+// Adds the contact, or replaces the one with the same id
+export const upsertContact = (contacts: Contact[], contact: Contact): Contact[] =>
+  contacts.some(c => c.id === contact.id)
+    ? contacts.map(c => (c.id === contact.id ? contact : c))
+    : [...contacts, contact].sort((a, b) => a.name.localeCompare(b.name));
+
+export const deleteContact = (contacts: Contact[], id: string): Contact[] => contacts.filter(c => c.id !== id);
+
+// Addresses are compared loosely, so "+1 555 0100" and "+15550100" are one thread
+export const normalizeAddress = (address: string) => address.trim().toLowerCase().replace(/[\s().-]/g, '');
+
+export const findContact = (contacts: Contact[], address: string): Contact | undefined =>
+  contacts.find(c => normalizeAddress(c.address) === normalizeAddress(address));
+
+export const contactName = (contacts: Contact[], address: string) => findContact(contacts, address)?.name || address;
+
+export const findThread = (threads: MessageThread[], address: string): MessageThread | undefined =>
+  threads.find(t => normalizeAddress(t.address) === normalizeAddress(address));
+
+// Most recent first
+const sortByRecent = (threads: MessageThread[]) => [...threads].sort((a, b) => b.updatedAt - a.updatedAt);
+
+// Adds to the address's thread, starting one if there isn't one yet
+export const appendTextMessage = (threads: MessageThread[], address: string, message: TextMessage): MessageThread[] => {
+  const existing = findThread(threads, address);
+  const thread: MessageThread = existing || { id: crypto.randomUUID(), address, messages: [], updatedAt: message.timestamp, unread: 0 };
+  const updated: MessageThread = {
+    ...thread,
+    messages: [...thread.messages, message],
+    updatedAt: Math.max(thread.updatedAt, message.timestamp),
+    unread: thread.unread + (message.direction === 'incoming' ? 1 : 0)
+  };
+  return sortByRecent(existing ? threads.map(t => (t.id === thread.id ? updated : t)) : [updated, ...threads]);
+};
+
+export const receiveMessage = (threads: MessageThread[], incoming: IncomingMessage): MessageThread[] => {
+  // Transports may repeat a message after reconnecting
+  if (findThread(threads, incoming.from)?.messages.some(m => m.id === incoming.id)) return threads;
+  return appendTextMessage(threads, incoming.from, {
+    id: incoming.id,
+    direction: 'incoming',
+    text: incoming.text,
+    timestamp: incoming.timestamp,
+    status: 'received'
+  });
+};
+
+export const updateTextMessage = (threads: MessageThread[], threadId: string, messageId: string, patch: Partial<TextMessage>): MessageThread[] =>
+  threads.map(t => (t.id !== threadId ? t : { ...t, messages: t.messages.map(m => (m.id === messageId ? { ...m, ...patch } : m)) }));
+
+export const markThreadRead = (threads: MessageThread[], threadId: string): MessageThread[] =>
+  threads.some(t => t.id === threadId && t.unread > 0) ? threads.map(t => (t.id === threadId ? { ...t, unread: 0 } : t)) : threads;
+
+export const deleteThread = (threads: MessageThread[], threadId: string): MessageThread[] => threads.filter(t => t.id !== threadId);
+
+// Where to resume fetching after the app was closed or locked
+export const latestIncoming = (threads: MessageThread[]) =>
+  threads.reduce((latest, t) => t.messages.reduce((l, m) => (m.direction === 'incoming' ? Math.max(l, m.timestamp) : l), latest), 0);
+
+export const countUnread = (threads: MessageThread[]) => threads.reduce((sum, t) => sum + t.unread, 0);
+
+// Recent messages Lucy sees when helping with a reply
+const DRAFT_CONTEXT_MESSAGES = 12;
+
+const recentExchange = (thread: MessageThread | undefined, name: string) =>
+  (thread?.messages || [])
+    .filter(m => m.status !== 'failed')
+    .slice(-DRAFT_CONTEXT_MESSAGES)
+    .map(m => ({ from: m.direction === 'outgoing' ? 'Me' : name, text: m.text }));
+
+export interface ReplySuggestions {
+  replies: string[];
+  origin: 'lucy' | 'offline';
+}
+
+// Quick replies when Lucy can't be reached; they fit most messages without saying much
+const OFFLINE_REPLIES = ["Thanks!", "Sounds good.", "Can I get back to you later?"];
+
+export const suggestReplies = async (contact: string, thread: MessageThread | undefined, memory: MemoryStore): Promise<ReplySuggestions> => {
+  const exchange = recentExchange(thread, contact);
+  if (!exchange.length) return { replies: [], origin: 'offline' };
+  try {
+    const replies = await writeReplySuggestions(contact, exchange, memory);
+    if (replies.length) return { replies, origin: 'lucy' };
+  } catch (error) {
+    console.warn("Reply suggestions falling back to offline replies", error);
+  }
+  return { replies: OFFLINE_REPLIES, origin: 'offline' };
+};
+
+// A message written from the user's instructions, e.g. "say I'll be late". Unlike
+// replies there is nothing sensible to offer offline, so failures are left to the caller.
+export const draftMessage = (contact: string, thread: MessageThread | undefined, instruction: string, memory: MemoryStore): Promise<string> =>
+  writeMessageDraft(contact, recentExchange(thread, contact), instruction, memory);
@@ -0,0 +1,24 @@
+import { MessageTransportId, MessagingSettings } from '../../types';
+import { MessageTransport } from './types';
+import { createLoopbackTransport } from './loopbackTransport';
+import { createServerTransport } from './serverTransport';
+
+export * from './types';
+
+export const MESSAGE_TRANSPORT_OPTIONS: { id: MessageTransportId; label: string }[] = [
+  { id: 'loopback', label: 'Loopback (on this device)' },
+  { id: 'server', label: 'Message server' }
+];
+
+export const DEFAULT_MESSAGING_SETTINGS: MessagingSettings = {
+  transport: 'loopback',
+  serverUrl: 'http://localhost:8787',
+  apiKey: ''
+};
+
+export const createMessageTransport = (settings: MessagingSettings): MessageTransport => {
+  switch (settings.transport) {
+    case 'loopback': return createLoopbackTransport();
+    case 'server': return createServerTransport(settings.serverUrl, settings.apiKey);
+  }
+};
@@ -0,0 +1,53 @@
+import { MessageTransport, IncomingMessage } from './types';
+
+// Never leaves the device: every message is accepted, and a moment later the
+// recipient "answers" from a fixed script. For trying out Messages without a server.
+
+const REPLIES = [
+  "Got it, thanks!",
+  "Sounds good to me.",
+  "Can I get back to you on that later today?",
+  "Ha, yes. Let's do it.",
+  "Thanks for letting me know.",
+  "How are you doing, by the way?"
+];
+
+const SEND_DELAY_MS = 300;
+const REPLY_DELAY_MS = 2500;
+
+export const createLoopbackTransport = (): MessageTransport => {
+  let deliver: ((message: IncomingMessage) => void) | null = null;
+  const timers = new Set<number>();
+  let replyIndex = 0;
+
+  const later = (ms: number, task: () => void) => {
+    const timer = window.setTimeout(() => {
+      timers.delete(timer);
+      task();
+    }, ms);
+    timers.add(timer);
+  };
+
+  return {
+    id: 'loopback',
+
+    send: (message) => new Promise(resolve => {
+      later(SEND_DELAY_MS, resolve);
+      later(REPLY_DELAY_MS, () => deliver?.({
+        id: crypto.randomUUID(),
+        from: message.to,
+        text: REPLIES[replyIndex++ % REPLIES.length],
+        timestamp: Date.now()
+      }));
+    }),
+
+    connect: (onMessage) => {
+      deliver = onMessage;
+      return () => {
+        deliver = null;
+        timers.forEach(t => window.clearTimeout(t));
+        timers.clear();
+      };
+    }
+  };
+};
@@ -0,0 +1,75 @@
+import { MessageTransport, IncomingMessage, MessagingError } from './types';
+import { isRecord } from '../validation';
+
+// Talks to a message server over plain HTTP:
+//   POST {serverUrl}/messages                 { id, to, text }
+//   GET  {serverUrl}/messages?since=<ms>   -> { messages: [{ id, from, text, timestamp }] }
+// Incoming messages are polled for, so any small test server can implement it.
+
+const POLL_MS = 5000;
+// Ids already delivered, kept so a server that repeats itself doesn't duplicate messages
+const SEEN_LIMIT = 500;
+
+const parseIncoming = (raw: unknown): IncomingMessage | null =>
+  isRecord(raw) && typeof raw.id === 'string' && typeof raw.from === 'string' && typeof raw.text === 'string' && typeof raw.timestamp === 'number'
+    ? { id: raw.id, from: raw.from, text: raw.text, timestamp: raw.timestamp }
+    : null;
+
+export const createServerTransport = (serverUrl: string, apiKey: string): MessageTransport => {
+  const endpoint = `${serverUrl.replace(/\/+$/, '')}/messages`;
+  const headers = (): Record<string, string> => {
+    const h: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) h.Authorization = `Bearer ${apiKey}`;
+    return h;
+  };
+
+  return {
+    id: 'server',
+
+    send: async (message) => {
+      if (!serverUrl) throw new MessagingError("No message server configured. Add one in Settings.");
+      let response: Response;
+      try {
+        response = await fetch(endpoint, { method: 'POST', headers: headers(), body: JSON.stringify(message) });
+      } catch {
+        throw new MessagingError("The message server couldn't be reached.");
+      }
+      if (!response.ok) throw new MessagingError(`The message server returned ${response.status}.`);
+    },
+
+    connect: (onMessage, from) => {
+      if (!serverUrl) return () => {};
+      let stopped = false;
+      let since = from;
+      const seen: string[] = [];
+      let timer: number | undefined;
+
+      const poll = async () => {
+        try {
+          const response = await fetch(`${endpoint}?since=${since}`, { headers: headers() });
+          if (!response.ok) throw new Error(`Message server returned ${response.status}`);
+          const json: unknown = await response.json();
+          const raw: unknown[] = isRecord(json) && Array.isArray(json.messages) ? json.messages : [];
+          const messages = raw.map(parseIncoming).filter((m): m is IncomingMessage => m !== null);
+          messages.forEach(m => {
+            since = Math.max(since, m.timestamp);
+            if (stopped || seen.includes(m.id)) return;
+            seen.push(m.id);
+            onMessage(m);
+          });
+          seen.splice(0, Math.max(0, seen.length - SEEN_LIMIT));
+        } catch (error) {
+          // Keep polling; the server may just be restarting
+          console.warn("Checking for messages failed", error);
+        }
+        if (!stopped) timer = window.setTimeout(poll, POLL_MS);
+      };
+      poll();
+
+      return () => {
+        stopped = true;
+        window.clearTimeout(timer);
+      };
+    }
+  };
+};
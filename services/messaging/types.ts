@@ -0,0 +1,32 @@
+import { MessageTransportId } from '../../types';
+
+export interface OutgoingMessage {
+  id: string;
+  to: string; // The recipient's address
+  text: string;
+}
+
+export interface IncomingMessage {
+  id: string; // Assigned by the transport; repeats of an id are the same message
+  from: string;
+  text: string;
+  timestamp: number;
+}
+
+// Carries messages between Lucy OS and a backend. The app only talks to this
+// interface, so a local loopback or a test server can stand in for a real network.
+export interface MessageTransport {
+  id: MessageTransportId;
+  // Resolves once the backend has accepted the message; rejects with a MessagingError otherwise
+  send: (message: OutgoingMessage) => Promise<void>;
+  // Starts delivering incoming messages, including any that arrived after `since` while
+  // the app wasn't connected. Returns a function that stops.
+  connect: (onMessage: (message: IncomingMessage) => void, since: number) => () => void;
+}
+
+export class MessagingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MessagingError';
+  }
+}
@@ -0,0 +1,70 @@
+import { AppId } from '../types';
+
+// The open app lives in the URL (#/journal), so reloads, links and the browser's
+// back gesture all land where you'd expect. Home is always the first history
+// entry, and each app opened from there is an entry on top of it.
+
+interface NavigationState {
+  app: AppId;
+  depth: number; // Entries above home
+}
+
+const HOME: AppId = 'home';
+
+const hashFor = (app: AppId) => (app === HOME ? '#/' : `#/${app}`);
+
+const appFromHash = (): AppId => window.location.hash.replace(/^#\/?/, '').split(/[/?]/)[0] || HOME;
+
+const entry = (app: AppId, depth: number): NavigationState => ({ app, depth });
+
+const currentState = (): NavigationState | null => {
+  const state = window.history.state;
+  return state && typeof state.app === 'string' && typeof state.depth === 'number' ? state : null;
+};
+
+// Puts home underneath whatever app the page was opened at and returns that app
+export const startNavigation = (isKnownApp: (app: AppId) => boolean): AppId => {
+  const existing = currentState();
+  if (existing && existing.app === appFromHash()) return isKnownApp(existing.app) ? existing.app : HOME;
+
+  const app = appFromHash();
+  window.history.replaceState(entry(HOME, 0), '', hashFor(HOME));
+  if (app === HOME || !isKnownApp(app)) return HOME;
+  window.history.pushState(entry(app, 1), '', hashFor(app));
+  return app;
+};
+
+export const navigateTo = (app: AppId) => {
+  const state = currentState();
+  if (state?.app === app) return;
+  if (app === HOME) {
+    navigateHome();
+    return;
+  }
+  window.history.pushState(entry(app, (state?.depth ?? 0) + 1), '', hashFor(app));
+};
+
+// Unwinds back to the home entry, so the back gesture afterwards leaves the app
+// rather than reopening what was just closed
+export const navigateHome = () => {
+  const depth = currentState()?.depth ?? 0;
+  if (depth > 0) window.history.go(-depth);
+  else window.history.replaceState(entry(HOME, 0), '', hashFor(HOME));
+};
+
+// Calls back with the app to show after back, forward or an edited URL
+export const watchNavigation = (onChange: (app: AppId) => void): (() => void) => {
+  const handle = () => {
+    const state = currentState();
+    if (state) {
+      onChange(state.app);
+      return;
+    }
+    // A hash typed into the address bar has no state yet; closing it then just returns home
+    const app = appFromHash();
+    window.history.replaceState(entry(app, 0), '', hashFor(app));
+    onChange(app);
+  };
+  window.addEventListener('popstate', handle);
+  return () => window.removeEventListener('popstate', handle);
+};
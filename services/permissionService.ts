@@ -0,0 +1,195 @@
+import { AppId, Capability, BrowserPermissionState, Permissions, PermissionAuditEntry } from '../types';
+import { writePermissionExplanation } from './lucyService';
+import { APP_MANIFESTS } from '../components/apps/manifest';
+
+// Access to device capabilities. An app may use one only when the browser allows
+// it and the user has granted it to that app; every request, grant and change is
+// kept in an audit log.
+
+export const CAPABILITY_INFO: Record<Capability, { label: string; description: string }> = {
+  microphone: { label: 'Microphone', description: 'Hear you for transcription and dictation' },
+  notifications: { label: 'Notifications', description: 'Show alerts outside the app' },
+  geolocation: { label: 'Location', description: 'Know where you are' },
+  'persistent-storage': { label: 'Persistent storage', description: "Keep your data from being cleared when the device is short on space" }
+};
+
+// The capabilities each app declares in its manifest; anything else is refused outright
+export const APP_CAPABILITIES: Partial<Record<AppId, Capability[]>> = Object.fromEntries(
+  APP_MANIFESTS.filter(app => app.capabilities.length).map(app => [app.id, app.capabilities])
+);
+
+export const APP_LABELS: Record<AppId | 'system', string> = {
+  home: 'Home',
+  ...Object.fromEntries(APP_MANIFESTS.map(app => [app.id, app.name])),
+  system: 'Browser settings'
+};
+
+// Older entries are dropped past this
+const AUDIT_LIMIT = 500;
+
+// Names the Permissions API knows these capabilities by
+const PERMISSION_NAMES: Record<Capability, string> = {
+  microphone: 'microphone',
+  notifications: 'notifications',
+  geolocation: 'geolocation',
+  'persistent-storage': 'persistent-storage'
+};
+
+const isAvailable = (capability: Capability): boolean => {
+  switch (capability) {
+    case 'microphone': return !!navigator.mediaDevices?.getUserMedia;
+    case 'notifications': return typeof Notification !== 'undefined';
+    case 'geolocation': return 'geolocation' in navigator;
+    case 'persistent-storage': return !!navigator.storage?.persist;
+  }
+};
+
+const queryStatus = async (capability: Capability): Promise<PermissionStatus | null> => {
+  try {
+    return await navigator.permissions.query({ name: PERMISSION_NAMES[capability] as PermissionName });
+  } catch {
+    // Not every browser can be asked about every permission (Firefox and the microphone, for one)
+    return null;
+  }
+};
+
+export const queryBrowserPermission = async (capability: Capability): Promise<BrowserPermissionState> => {
+  if (!isAvailable(capability)) return 'unsupported';
+  if (capability === 'persistent-storage' && await navigator.storage.persisted()) return 'granted';
+  if (capability === 'notifications' && Notification.permission !== 'default') return Notification.permission;
+  const status = await queryStatus(capability);
+  return status ? status.state : 'prompt';
+};
+
+// Reports changes made in the browser's own settings. Returns a function that stops watching.
+export const watchBrowserPermission = (capability: Capability, onChange: (state: BrowserPermissionState) => void): (() => void) => {
+  let status: PermissionStatus | null = null;
+  let stopped = false;
+  const handle = () => status && onChange(status.state);
+  queryStatus(capability).then(s => {
+    if (stopped || !s) return;
+    status = s;
+    status.addEventListener('change', handle);
+  });
+  return () => {
+    stopped = true;
+    status?.removeEventListener('change', handle);
+  };
+};
+
+// Shows the browser's own prompt where there is one
+export const requestBrowserPermission = async (capability: Capability): Promise<BrowserPermissionState> => {
+  if (!isAvailable(capability)) return 'unsupported';
+  try {
+    switch (capability) {
+      case 'microphone': {
+        // Only asks for access; the app opens the microphone itself when it needs it
+        const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+        stream.getTracks().forEach(t => t.stop());
+        return 'granted';
+      }
+      case 'notifications': {
+        const result = await Notification.requestPermission();
+        return result === 'default' ? 'prompt' : result;
+      }
+      case 'geolocation':
+        await new Promise<GeolocationPosition>((resolve, reject) => navigator.geolocation.getCurrentPosition(resolve, reject));
+        return 'granted';
+      case 'persistent-storage':
+        return (await navigator.storage.persist()) ? 'granted' : 'denied';
+    }
+  } catch (error) {
+    console.warn(`Browser refused ${capability}`, error);
+    return 'denied';
+  }
+};
+
+export const isGranted = (permissions: Permissions, app: AppId, capability: Capability) =>
+  !!permissions.grants[app]?.includes(capability);
+
+export const logPermissionEvent = (
+  permissions: Permissions,
+  entry: Omit<PermissionAuditEntry, 'id' | 'timestamp'>
+): Permissions => ({
+  ...permissions,
+  audit: [...permissions.audit, { ...entry, id: crypto.randomUUID(), timestamp: Date.now() }].slice(-AUDIT_LIMIT)
+});
+
+export const setGrant = (permissions: Permissions, app: AppId, capability: Capability, allowed: boolean): Permissions => {
+  const current = permissions.grants[app] || [];
+  const next = allowed ? [...new Set([...current, capability])] : current.filter(c => c !== capability);
+  return { ...permissions, grants: { ...permissions.grants, [app]: next } };
+};
+
+// Asks the browser on the app's behalf and records the outcome as the app's grant
+export const requestAccess = async (
+  permissions: Permissions,
+  app: AppId,
+  capability: Capability
+): Promise<{ permissions: Permissions; state: BrowserPermissionState }> => {
+  if (!APP_CAPABILITIES[app]?.includes(capability)) {
+    const refused = logPermissionEvent(permissions, { app, capability, event: 'denied', detail: "This app doesn't use it" });
+    return { permissions: refused, state: 'denied' };
+  }
+
+  let updated = logPermissionEvent(permissions, { app, capability, event: 'requested' });
+  const state = await requestBrowserPermission(capability);
+  const granted = state === 'granted';
+  updated = setGrant(updated, app, capability, granted);
+  updated = logPermissionEvent(updated, {
+    app,
+    capability,
+    event: granted ? 'granted' : 'denied',
+    detail: granted ? undefined : state === 'unsupported' ? 'Not supported by this browser' : 'Blocked by the browser'
+  });
+  return { permissions: updated, state };
+};
+
+export const revokeAccess = (permissions: Permissions, app: AppId, capability: Capability): Permissions =>
+  logPermissionEvent(setGrant(permissions, app, capability, false), { app, capability, event: 'revoked' });
+
+const EVENT_PHRASES: Record<PermissionAuditEntry['event'], string> = {
+  requested: 'asked for',
+  granted: 'was given access to',
+  denied: 'was refused access to',
+  revoked: 'lost access to',
+  used: 'used',
+  'browser-changed': 'changed the permission for'
+};
+
+// One entry as a sentence, for the log in Settings and for Lucy
+export const describeAuditEntry = (entry: PermissionAuditEntry) => {
+  const when = new Date(entry.timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+  const who = APP_LABELS[entry.app] || entry.app; // Apps removed since keep their id
+  const what = CAPABILITY_INFO[entry.capability].label.toLowerCase();
+  return `${when}: ${who} ${EVENT_PHRASES[entry.event]} ${what}${entry.detail ? ` (${entry.detail})` : ''}`;
+};
+
+// Summarises the log without the model: what each app can use now and how recently it used it
+export const composeOfflineAuditSummary = (permissions: Permissions): string => {
+  const apps = (Object.keys(APP_CAPABILITIES) as AppId[]).map(app => {
+    const granted = permissions.grants[app] || [];
+    const lastUse = [...permissions.audit].reverse().find(e => e.app === app && e.event === 'used');
+    const access = granted.length ? granted.map(c => CAPABILITY_INFO[c].label.toLowerCase()).join(' and ') : 'nothing';
+    return `${APP_LABELS[app]} can use ${access}${lastUse ? `, last used ${new Date(lastUse.timestamp).toLocaleDateString()}` : ''}.`;
+  });
+  return [`${permissions.audit.length} permission events are recorded.`, ...apps].join(' ');
+};
+
+export interface AuditExplanation {
+  text: string;
+  origin: 'lucy' | 'offline';
+}
+
+export const explainAuditLog = async (permissions: Permissions): Promise<AuditExplanation> => {
+  const fallback = composeOfflineAuditSummary(permissions);
+  if (!permissions.audit.length) return { text: 'No app has asked for any permission yet.', origin: 'offline' };
+
+  try {
+    const text = await writePermissionExplanation(permissions.audit.map(describeAuditEntry), fallback);
+    if (text) return { text, origin: 'lucy' };
+  } catch (error) {
+    console.warn("Permission explanation falling back to offline text", error);
+  }
+  return { text: fallback, origin: 'offline' };
+};
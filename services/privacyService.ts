@@ -0,0 +1,83 @@
+import { MemoryStore, Category, PrivacySettings, PasscodeRecord, SealedPayload } from '../types';
+
+// Passcode lock and encryption at rest. A key is derived from the passcode with
+// PBKDF2 and used for AES-GCM; the passcode itself is never stored. The key only
+// lives in memory while the app is unlocked.
+
+export const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = {
+  passcode: null,
+  autoLockMinutes: 5,
+  privateCategories: []
+};
+
+export const AUTO_LOCK_OPTIONS: { minutes: number; label: string }[] = [
+  { minutes: 1, label: '1 minute' },
+  { minutes: 5, label: '5 minutes' },
+  { minutes: 15, label: '15 minutes' },
+  { minutes: 60, label: '1 hour' },
+  { minutes: 0, label: 'Never' }
+];
+
+export const MIN_PASSCODE_LENGTH = 4;
+
+const PBKDF2_ITERATIONS = 310000;
+// Sealed into the passcode record; only the right key can open it
+const CHECK_VALUE = 'lucy-os';
+
+// Chunked, since spreading a large ciphertext into one call overflows the stack
+const BASE64_CHUNK = 0x8000;
+
+const toBase64 = (bytes: Uint8Array) => {
+  const chunks: string[] = [];
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK) {
+    chunks.push(String.fromCharCode(...bytes.subarray(i, i + BASE64_CHUNK)));
+  }
+  return btoa(chunks.join(''));
+};
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const deriveKey = async (passcode: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passcode), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const sealJson = async (key: CryptoKey, data: unknown): Promise<SealedPayload> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(data)));
+  return { iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+};
+
+// Rejects when the key is wrong or the payload was tampered with
+export const openJson = async (key: CryptoKey, payload: SealedPayload): Promise<unknown> => {
+  const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(payload.iv) }, key, fromBase64(payload.ciphertext));
+  return JSON.parse(new TextDecoder().decode(plain));
+};
+
+export const createPasscode = async (passcode: string): Promise<{ record: PasscodeRecord; key: CryptoKey }> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passcode, salt, PBKDF2_ITERATIONS);
+  const check = await sealJson(key, CHECK_VALUE);
+  return { record: { salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, check }, key };
+};
+
+// The key for this passcode, or null if it's the wrong one
+export const unlockWithPasscode = async (passcode: string, record: PasscodeRecord): Promise<CryptoKey | null> => {
+  const key = await deriveKey(passcode, fromBase64(record.salt), record.iterations);
+  try {
+    return (await openJson(key, record.check)) === CHECK_VALUE ? key : null;
+  } catch {
+    return null;
+  }
+};
+
+// The Memory Bank as Lucy may see it: private categories are left empty
+export const withoutPrivateCategories = (memory: MemoryStore, privateCategories: Category[]): MemoryStore =>
+  privateCategories.length
+    ? { ...memory, ...Object.fromEntries(privateCategories.map(c => [c, []])) }
+    : memory;
@@ -0,0 +1,88 @@
+import { GoogleGenAI, Content } from "@google/genai";
+import { ChatMessage } from '../../types';
+import { LlmProvider, ProviderError, ToolCall, ToolRound } from './types';
+
+const EMBEDDING_MODEL = 'text-embedding-004';
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+const toContents = (messages: ChatMessage[]): Content[] =>
+  messages.map(m => ({ role: m.role, parts: [{ text: m.text }] }));
+
+// Each round becomes the model's function calls followed by the user's function responses
+const toolRoundContents = (rounds: ToolRound[]): Content[] =>
+  rounds.flatMap(round => [
+    {
+      role: 'model',
+      parts: [
+        ...(round.text ? [{ text: round.text }] : []),
+        ...round.calls.map(call => ({ functionCall: { id: call.id, name: call.name, args: call.args } }))
+      ]
+    },
+    {
+      role: 'user',
+      parts: round.results.map(r => ({ functionResponse: { id: r.callId, name: r.name, response: r.result } }))
+    }
+  ]);
+
+// A key entered in Settings wins over the one baked in at build time
+export const createGeminiProvider = (apiKey: string): LlmProvider => {
+  const getClient = () => {
+    const key = apiKey || process.env.API_KEY;
+    if (!key) {
+      throw new ProviderError("API Key is missing");
+    }
+    return new GoogleGenAI({ apiKey: key });
+  };
+
+  return {
+    id: 'gemini',
+
+    streamChat: async (request, { onChunk, signal }) => {
+      const stream = await getClient().models.generateContentStream({
+        model: request.model,
+        contents: [
+          ...toContents(request.history),
+          { role: 'user', parts: [{ text: request.message }] },
+          ...toolRoundContents(request.toolRounds || [])
+        ],
+        config: {
+          systemInstruction: request.systemInstruction,
+          temperature: request.temperature,
+          abortSignal: signal,
+          tools: request.tools?.length
+            ? [{ functionDeclarations: request.tools.map(t => ({ name: t.name, description: t.description, parametersJsonSchema: t.parameters })) }]
+            : undefined,
+        },
+      });
+
+      let text = "";
+      const toolCalls: ToolCall[] = [];
+      for await (const chunk of stream) {
+        if (signal?.aborted) throw abortError();
+        const piece = chunk.text || "";
+        text += piece;
+        if (piece) onChunk?.(piece);
+        chunk.functionCalls?.forEach(call => {
+          if (!call.name) return;
+          toolCalls.push({ id: call.id || crypto.randomUUID(), name: call.name, args: call.args || {} });
+        });
+      }
+      return { text, toolCalls };
+    },
+
+    generate: async (request) => {
+      const response = await getClient().models.generateContent({
+        model: request.model,
+        contents: request.prompt,
+        config: { temperature: request.temperature },
+      });
+      return response.text || "";
+    },
+
+    embed: async (texts) => {
+      const response = await getClient().models.embedContent({ model: EMBEDDING_MODEL, contents: texts });
+      return (response.embeddings || []).map(e => e.values || []);
+    }
+  };
+};
@@ -0,0 +1,30 @@
+import { LlmProviderId, LlmSettings } from '../../types';
+import { LlmProvider } from './types';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { createMockProvider } from './mockProvider';
+
+export * from './types';
+
+export const PROVIDER_OPTIONS: { id: LlmProviderId; label: string; defaultModel: string }[] = [
+  { id: 'gemini', label: 'Gemini', defaultModel: 'gemini-2.5-flash' },
+  { id: 'openai', label: 'Local / OpenAI-compatible', defaultModel: 'llama3.1' },
+  { id: 'mock', label: 'Mock (offline)', defaultModel: 'mock-lucy' }
+];
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  provider: 'gemini',
+  model: 'gemini-2.5-flash',
+  temperature: 0.7,
+  baseUrl: 'http://localhost:11434/v1',
+  apiKey: '',
+  useEmbeddings: false
+};
+
+export const createProvider = (settings: LlmSettings): LlmProvider => {
+  switch (settings.provider) {
+    case 'gemini': return createGeminiProvider(settings.apiKey);
+    case 'openai': return createOpenAiCompatibleProvider(settings.baseUrl, settings.apiKey);
+    case 'mock': return createMockProvider();
+  }
+};
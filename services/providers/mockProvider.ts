@@ -0,0 +1,81 @@
+import { LlmProvider, ChatRequest, ToolCall } from './types';
+
+// Offline stand-in for development and tests. Replies depend only on the input,
+// so the same conversation always produces the same text.
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError());
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(abortError());
+  }, { once: true });
+});
+
+// Mimics tool use for a couple of recognisable phrasings so the confirmation flow can be exercised offline
+const pickToolCall = (request: ChatRequest): ToolCall | null => {
+  const available = new Set((request.tools || []).map(t => t.name));
+  if (request.toolRounds?.length) return null;
+
+  const search = request.message.match(/^search(?: memory| memories)?(?: for)?\s+(.+)/i);
+  if (search && available.has('search_memory')) {
+    return { id: 'mock-call-1', name: 'search_memory', args: { query: search[1].trim() } };
+  }
+  if (/\b(remember that|i finally|i just)\b/i.test(request.message) && available.has('propose_memory_item')) {
+    return { id: 'mock-call-1', name: 'propose_memory_item', args: { category: 'development', description: request.message.trim(), details: [] } };
+  }
+  return null;
+};
+
+// Hashed bag of words: texts sharing words get similar vectors, no model needed
+const MOCK_EMBEDDING_SIZE = 64;
+const mockEmbedding = (text: string): number[] => {
+  const vector = new Array(MOCK_EMBEDDING_SIZE).fill(0);
+  for (const word of text.toLowerCase().match(/[a-z0-9]+/g) || []) {
+    let h = 0;
+    for (let i = 0; i < word.length; i++) h = (h * 31 + word.charCodeAt(i)) >>> 0;
+    vector[h % MOCK_EMBEDDING_SIZE] += 1;
+  }
+  return vector;
+};
+
+export const createMockProvider = (chunkDelayMs = 40): LlmProvider => ({
+  id: 'mock',
+
+  streamChat: async (request, { onChunk, signal }) => {
+    const toolCall = pickToolCall(request);
+    if (toolCall) return { text: "", toolCalls: [toolCall] };
+
+    const turns = request.history.filter(m => m.role === 'user').length;
+    const toolNote = request.toolRounds?.length
+      ? ` I used ${request.toolRounds.flatMap(r => r.calls.map(c => c.name)).join(', ')}.`
+      : '';
+    const reply = `Mock Lucy here (${request.model}). You said: "${request.message.trim()}". ` +
+      `This conversation has ${turns} earlier ${turns === 1 ? 'message' : 'messages'} from you.${toolNote}`;
+
+    // Stream word by word so the UI behaves as it would with a real model
+    let text = "";
+    for (const piece of reply.match(/\S+\s*/g) || []) {
+      if (chunkDelayMs > 0) await wait(chunkDelayMs, signal);
+      else if (signal?.aborted) throw abortError();
+      text += piece;
+      onChunk?.(piece);
+    }
+    return { text, toolCalls: [] };
+  },
+
+  generate: async (request) => {
+    // Lucy Live asks for memory suggestions as JSON; offer one per spoken sentence
+    const transcript = request.prompt.split('\nTranscript:\n')[1];
+    if (transcript !== undefined) {
+      const sentences = transcript.split(/(?<=[.!?])\s+/).map(s => s.trim()).filter(Boolean).slice(0, 3);
+      return JSON.stringify(sentences.map(description => ({ category: 'development', description, details: [] })));
+    }
+    const firstLine = request.prompt.trim().split('\n')[0];
+    return `Mock response to: ${firstLine.slice(0, 120)}`;
+  },
+
+  embed: async (texts) => texts.map(mockEmbedding)
+});
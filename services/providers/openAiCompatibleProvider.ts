@@ -0,0 +1,145 @@
+import { LlmProvider, ProviderError, ToolCall } from './types';
+import { isRecord } from '../validation';
+
+// Talks to any server exposing the OpenAI /chat/completions API, which covers
+// self-hosted runtimes such as Ollama, llama.cpp, LM Studio and vLLM.
+
+interface OpenAiToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+type OpenAiMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; tool_calls?: OpenAiToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+const parseArgs = (raw: string): Record<string, unknown> => {
+  try {
+    const parsed: unknown = JSON.parse(raw || '{}');
+    return isRecord(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+// The first choice in a completion or stream chunk, empty when the server sent none
+const firstChoice = (json: unknown): Record<string, unknown> => {
+  const choice: unknown = isRecord(json) && Array.isArray(json.choices) ? json.choices[0] : undefined;
+  return isRecord(choice) ? choice : {};
+};
+
+// Ollama's default embedding model; other servers usually alias or ignore the name
+const EMBEDDING_MODEL = 'nomic-embed-text';
+
+export const createOpenAiCompatibleProvider = (baseUrl: string, apiKey: string): LlmProvider => {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const post = async (path: string, body: object, signal?: AbortSignal) => {
+    if (!baseUrl) throw new ProviderError("No server URL configured for the local model");
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+    const response = await fetch(`${root}${path}`, { method: 'POST', headers, body: JSON.stringify(body), signal });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new ProviderError(`Model server returned ${response.status} ${detail.slice(0, 200)}`.trim(), response.status);
+    }
+    return response;
+  };
+
+  return {
+    id: 'openai',
+
+    streamChat: async (request, { onChunk, signal }) => {
+      const messages: OpenAiMessage[] = [
+        { role: 'system', content: request.systemInstruction },
+        ...request.history.map(m => ({ role: m.role === 'model' ? 'assistant' as const : 'user' as const, content: m.text })),
+        { role: 'user', content: request.message },
+        ...(request.toolRounds || []).flatMap((round): OpenAiMessage[] => [
+          {
+            role: 'assistant',
+            content: round.text || null,
+            tool_calls: round.calls.map(call => ({ id: call.id, type: 'function', function: { name: call.name, arguments: JSON.stringify(call.args) } }))
+          },
+          ...round.results.map((r): OpenAiMessage => ({ role: 'tool', tool_call_id: r.callId, content: JSON.stringify(r.result) }))
+        ])
+      ];
+      const tools = request.tools?.length
+        ? request.tools.map(t => ({ type: 'function', function: { name: t.name, description: t.description, parameters: t.parameters } }))
+        : undefined;
+      const response = await post('/chat/completions', { model: request.model, temperature: request.temperature, messages, tools, stream: true }, signal);
+      if (!response.body) throw new ProviderError("Model server sent no response body");
+
+      // Server-sent events: one "data: {json}" line per chunk, ending with "data: [DONE]"
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      let text = "";
+      // Tool call names and arguments arrive in fragments, keyed by their index
+      const partialCalls = new Map<number, { id: string; name: string; arguments: string }>();
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || "";
+
+        for (const line of lines) {
+          const data = line.trim().replace(/^data:\s*/, '');
+          if (!data || data === '[DONE]' || !line.trim().startsWith('data:')) continue;
+          try {
+            const chunk: unknown = JSON.parse(data);
+            const { delta } = firstChoice(chunk);
+            if (!isRecord(delta)) continue;
+            const piece = typeof delta.content === 'string' ? delta.content : "";
+            text += piece;
+            if (piece) onChunk?.(piece);
+            const fragments: unknown[] = Array.isArray(delta.tool_calls) ? delta.tool_calls : [];
+            fragments.forEach(fragment => {
+              if (!isRecord(fragment)) return;
+              const index = typeof fragment.index === 'number' ? fragment.index : 0;
+              const fn: unknown = fragment.function;
+              const call = partialCalls.get(index) || { id: '', name: '', arguments: '' };
+              if (typeof fragment.id === 'string' && fragment.id) call.id = fragment.id;
+              if (isRecord(fn) && typeof fn.name === 'string') call.name += fn.name;
+              if (isRecord(fn) && typeof fn.arguments === 'string') call.arguments += fn.arguments;
+              partialCalls.set(index, call);
+            });
+          } catch {
+            console.warn("Skipping unreadable stream chunk", data);
+          }
+        }
+      }
+      const toolCalls: ToolCall[] = [...partialCalls.values()]
+        .filter(call => call.name)
+        .map(call => ({ id: call.id || crypto.randomUUID(), name: call.name, args: parseArgs(call.arguments) }));
+      return { text, toolCalls };
+    },
+
+    generate: async (request) => {
+      const response = await post('/chat/completions', {
+        model: request.model,
+        temperature: request.temperature,
+        messages: [{ role: 'user', content: request.prompt }],
+        stream: false
+      });
+      const json: unknown = await response.json();
+      const { message } = firstChoice(json);
+      return isRecord(message) && typeof message.content === 'string' ? message.content : "";
+    },
+
+    embed: async (texts) => {
+      const response = await post('/embeddings', { model: EMBEDDING_MODEL, input: texts });
+      const json: unknown = await response.json();
+      const data: unknown[] = isRecord(json) && Array.isArray(json.data) ? json.data : [];
+      // Each embedding carries the index of the text it belongs to
+      return data
+        .map(d => isRecord(d) ? d : {})
+        .sort((a, b) => (typeof a.index === 'number' ? a.index : 0) - (typeof b.index === 'number' ? b.index : 0))
+        .map(d => (Array.isArray(d.embedding) ? d.embedding.filter((n: unknown): n is number => typeof n === 'number') : []));
+    }
+  };
+};
@@ -0,0 +1,75 @@
+import { ChatMessage, LlmProviderId } from '../../types';
+
+// What every model backend has to offer Lucy. Providers are stateless: each call
+// carries the full system instruction and history it needs.
+
+// Functions the model may call. Parameters are described with JSON Schema.
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface ToolResult {
+  callId: string;
+  name: string;
+  result: Record<string, unknown>;
+}
+
+// One exchange of tool calls and their results within the current turn
+export interface ToolRound {
+  text: string; // Anything the model said alongside the calls
+  calls: ToolCall[];
+  results: ToolResult[];
+}
+
+export interface ChatRequest {
+  model: string;
+  temperature: number;
+  systemInstruction: string;
+  history: ChatMessage[]; // Earlier turns, oldest first
+  message: string;
+  tools?: ToolDefinition[];
+  toolRounds?: ToolRound[]; // Calls already made while answering `message`
+}
+
+export interface ChatResponse {
+  text: string;
+  toolCalls: ToolCall[]; // Empty when the model answered directly
+}
+
+export interface GenerateRequest {
+  model: string;
+  temperature: number;
+  prompt: string;
+}
+
+export interface StreamOptions {
+  onChunk?: (chunk: string) => void; // Receives each new piece of text, not the running total
+  signal?: AbortSignal;
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  // Resolves with the complete reply; rejects when aborted or on transport errors
+  streamChat: (request: ChatRequest, options: StreamOptions) => Promise<ChatResponse>;
+  generate: (request: GenerateRequest) => Promise<string>;
+  // One vector per input text, in order. Backends without an embedding model leave it out.
+  embed?: (texts: string[]) => Promise<number[][]>;
+}
+
+export class ProviderError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+  }
+}
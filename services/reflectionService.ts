@@ -0,0 +1,181 @@
+import { Category, MemoryItem, MemoryStore, MemoryValue } from '../types';
+import { writeReflectionTurn } from './lucyService';
+
+// Guided reflection sessions: Lucy asks a fixed template's questions one at a
+// time, and the answers become new Memory Bank entries once the user saves them.
+
+export type ReflectionTemplateId = 'weekly-review' | 'reframe' | 'gratitude';
+
+export interface ReflectionQuestion {
+  id: string;
+  prompt: string;
+  kind: 'text' | 'goal-steps'; // goal-steps is answered by ticking off open goal steps
+  optional?: boolean;
+}
+
+export interface ReflectionTemplate {
+  id: ReflectionTemplateId;
+  title: string;
+  description: string;
+  needsStruggle?: boolean; // Works through one particular struggle
+  questions: ReflectionQuestion[];
+}
+
+export const REFLECTION_TEMPLATES: ReflectionTemplate[] = [
+  {
+    id: 'weekly-review',
+    title: 'Weekly review',
+    description: 'Look back at the week, tick off goal steps and pick a focus for the next one.',
+    questions: [
+      { id: 'wins', prompt: 'What moved forward for you this week?', kind: 'text' },
+      { id: 'steps', prompt: 'Did you finish any of your goal steps?', kind: 'goal-steps' },
+      { id: 'obstacles', prompt: 'What got in the way?', kind: 'text', optional: true },
+      { id: 'focus', prompt: "What's one thing you'll focus on next week?", kind: 'text' }
+    ]
+  },
+  {
+    id: 'reframe',
+    title: 'Reframe a struggle',
+    description: 'Work through a difficult thought, CBT-style, and find a more balanced way to see it.',
+    needsStruggle: true,
+    questions: [
+      { id: 'situation', prompt: 'What happened the last time it came up?', kind: 'text' },
+      { id: 'thought', prompt: 'What went through your mind in that moment?', kind: 'text' },
+      { id: 'evidence', prompt: "What supports that thought, and what doesn't?", kind: 'text' },
+      { id: 'balanced', prompt: "How could you put it in a more balanced way, as you'd say it to a friend?", kind: 'text' }
+    ]
+  },
+  {
+    id: 'gratitude',
+    title: 'Gratitude',
+    description: "Notice what's going well and what it says about you.",
+    questions: [
+      { id: 'grateful', prompt: 'What are three things you feel grateful for today?', kind: 'text' },
+      { id: 'why', prompt: 'Pick one of them. Why did it matter to you?', kind: 'text' },
+      { id: 'tomorrow', prompt: 'How could you make room for more of that tomorrow?', kind: 'text', optional: true }
+    ]
+  }
+];
+
+export interface ReflectionTurn {
+  from: 'lucy' | 'user';
+  text: string;
+}
+
+export interface ReflectionSession {
+  templateId: ReflectionTemplateId;
+  subjectId?: string; // The struggle being reframed
+  questionIds: string[]; // The template's questions that apply this time, in order
+  answers: Record<string, string>;
+  stepIds: string[]; // Goal steps the user ticked off
+  turns: ReflectionTurn[];
+  origin: 'lucy' | 'offline'; // Whether Lucy's follow-ups came from the model
+}
+
+export const getTemplate = (id: ReflectionTemplateId) => REFLECTION_TEMPLATES.find(t => t.id === id) || REFLECTION_TEMPLATES[0];
+
+const questionAt = (session: ReflectionSession, index: number) =>
+  getTemplate(session.templateId).questions.find(q => q.id === session.questionIds[index]);
+
+export const currentQuestion = (session: ReflectionSession) => questionAt(session, Object.keys(session.answers).length);
+
+// Goal-step questions are left out when there are no open steps to tick
+export const startReflection = (templateId: ReflectionTemplateId, subject?: MemoryItem, hasOpenSteps = false): ReflectionSession => {
+  const template = getTemplate(templateId);
+  const questions = template.questions.filter(q => q.kind !== 'goal-steps' || hasOpenSteps);
+  const intro = subject ? `Let's look at "${subject.value.description}" together.` : `Let's do a ${template.title.toLowerCase()}.`;
+  return {
+    templateId,
+    subjectId: subject?.id,
+    questionIds: questions.map(q => q.id),
+    answers: {},
+    stepIds: [],
+    turns: [{ from: 'lucy', text: `${intro} ${questions[0].prompt}` }],
+    origin: 'lucy'
+  };
+};
+
+// Records the answer to the current question and has Lucy ask the next one. When
+// the model can't be reached the template's own wording is used.
+export const answerReflection = async (
+  session: ReflectionSession,
+  answer: { text: string; stepIds?: string[] },
+  memory: MemoryStore
+): Promise<ReflectionSession> => {
+  const question = currentQuestion(session);
+  if (!question) return session;
+
+  const answered: ReflectionSession = {
+    ...session,
+    answers: { ...session.answers, [question.id]: answer.text.trim() },
+    stepIds: [...session.stepIds, ...(answer.stepIds || [])],
+    turns: [...session.turns, { from: 'user', text: answer.text.trim() || 'Skipped' }]
+  };
+
+  const next = currentQuestion(answered);
+  if (!next) {
+    return { ...answered, turns: [...answered.turns, { from: 'lucy', text: "Thank you for taking the time. Here's what I'd keep from this:" }] };
+  }
+
+  const template = getTemplate(session.templateId);
+  try {
+    const exchange = answered.turns.map(t => ({ from: t.from === 'lucy' ? 'Lucy' : 'User', text: t.text }));
+    const text = await writeReflectionTurn(template.title.toLowerCase(), exchange, next.prompt, memory);
+    return { ...answered, turns: [...answered.turns, { from: 'lucy', text }] };
+  } catch (error) {
+    console.warn("Reflection falling back to the template's questions", error);
+    return { ...answered, turns: [...answered.turns, { from: 'lucy', text: next.prompt }], origin: 'offline' };
+  }
+};
+
+// First line of an answer, short enough to serve as an entry's description
+const headline = (text: string, max = 90) => {
+  const line = text.split('\n')[0].trim();
+  return line.length > max ? `${line.slice(0, max).trimEnd()}…` : line;
+};
+
+// The Memory Bank entry a finished session produces, for the user to review before saving
+export const reflectionEntry = (session: ReflectionSession, stepLabels: string[] = []): { category: Category; value: MemoryValue } | null => {
+  const a = session.answers;
+  const detail = (label: string, text?: string) => (text ? [`${label}: ${text}`] : []);
+
+  switch (session.templateId) {
+    case 'weekly-review':
+      if (!a.wins) return null;
+      return {
+        category: 'development',
+        value: {
+          description: headline(a.wins),
+          details: [
+            ...stepLabels.map(step => `Finished: ${step}`),
+            ...detail('Got in the way', a.obstacles),
+            ...detail('Next focus', a.focus)
+          ],
+          tags: ['weekly-review']
+        }
+      };
+
+    case 'reframe':
+      if (!a.balanced) return null;
+      return {
+        category: 'mindset',
+        value: {
+          description: headline(a.balanced),
+          details: [...detail('Situation', a.situation), ...detail('Thought', a.thought), ...detail('Evidence', a.evidence)],
+          tags: ['reframe'],
+          links: session.subjectId ? [{ targetId: session.subjectId, kind: 'related' }] : undefined
+        }
+      };
+
+    case 'gratitude':
+      if (!a.grateful) return null;
+      return {
+        category: 'mindset',
+        value: {
+          description: `Grateful for ${headline(a.grateful, 80)}`,
+          details: [...detail('Why it mattered', a.why), ...detail('Tomorrow', a.tomorrow)],
+          tags: ['gratitude']
+        }
+      };
+  }
+};
@@ -0,0 +1,216 @@
+import { AppNotification, Category, CategoryDefinition, Conversation, MemoryItem, Recurrence, Reminder, ReminderProposal, ReminderStore } from '../types';
+import { createConversation } from './conversationService';
+
+// Reminders, scheduled check-ins on struggles and recurring reflection prompts.
+// Each fires into the notification shade on the home screen, and to the system's
+// notifications when the user has allowed them.
+
+export const EMPTY_REMINDER_STORE: ReminderStore = { reminders: [], notifications: [] };
+
+export const RECURRENCE_LABELS: Record<Recurrence, string> = {
+  none: 'Once',
+  daily: 'Every day',
+  weekly: 'Every week'
+};
+
+const REFLECTION_PROMPTS: Record<Category, string> = {
+  struggles: "What's been hard lately, and what helped even a little?",
+  development: 'What did you make progress on lately? Small steps count.',
+  mindset: 'Which belief or realisation has been guiding you this week?'
+};
+
+// The built-ins have their own questions; the user's categories share a general one
+export const reflectionPrompt = (category: CategoryDefinition) =>
+  REFLECTION_PROMPTS[category.id] || `What's happened lately that belongs under ${category.name}?`;
+
+// Reflection prompts and check-ins arrive in the evening unless set otherwise
+export const DEFAULT_PROMPT_TIME = '19:00';
+
+// Oldest notifications are dropped past this
+const NOTIFICATION_LIMIT = 50;
+
+const soonestFirst = (reminders: Reminder[]) => [...reminders].sort((a, b) => a.dueAt - b.dueAt);
+
+export const createReminder = (fields: Omit<Reminder, 'id' | 'createdAt'>): Reminder => ({
+  ...fields,
+  id: crypto.randomUUID(),
+  createdAt: Date.now()
+});
+
+export const addReminder = (store: ReminderStore, reminder: Reminder): ReminderStore => ({
+  ...store,
+  reminders: soonestFirst([...store.reminders, reminder])
+});
+
+export const deleteReminder = (store: ReminderStore, id: string): ReminderStore => ({
+  ...store,
+  reminders: store.reminders.filter(r => r.id !== id)
+});
+
+// The next time the clock shows HH:MM, today if that's still ahead
+export const nextTimeOfDay = (time: string, now = Date.now()): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const date = new Date(now);
+  date.setHours(hours || 0, minutes || 0, 0, 0);
+  if (date.getTime() <= now) date.setDate(date.getDate() + 1);
+  return date.getTime();
+};
+
+// Steps in calendar days so a daily reminder keeps its time across daylight saving changes
+const advance = (dueAt: number, recurrence: Recurrence): number => {
+  const date = new Date(dueAt);
+  date.setDate(date.getDate() + (recurrence === 'weekly' ? 7 : 1));
+  return date.getTime();
+};
+
+export const reminderFromProposal = (proposal: ReminderProposal): Reminder => createReminder({
+  kind: proposal.memoryId ? 'check-in' : 'reminder',
+  title: proposal.title,
+  dueAt: proposal.dueAt,
+  recurrence: proposal.recurrence,
+  memoryId: proposal.memoryId,
+  createdBy: 'lucy'
+});
+
+export const checkInReminder = (struggle: MemoryItem, now = Date.now()): Reminder => createReminder({
+  kind: 'check-in',
+  title: `How did "${struggle.value.description}" go this week?`,
+  dueAt: advance(nextTimeOfDay(DEFAULT_PROMPT_TIME, now), 'weekly'),
+  recurrence: 'weekly',
+  memoryId: struggle.id,
+  createdBy: 'user'
+});
+
+export const findCheckIn = (store: ReminderStore, memoryId: string) =>
+  store.reminders.find(r => r.kind === 'check-in' && r.memoryId === memoryId);
+
+export const findReflection = (store: ReminderStore, category: Category) =>
+  store.reminders.find(r => r.kind === 'reflection' && r.category === category);
+
+// Sets how often a category's reflection prompt comes round; 'none' turns it off
+export const setReflectionSchedule = (
+  store: ReminderStore,
+  category: CategoryDefinition,
+  recurrence: Recurrence,
+  now = Date.now()
+): ReminderStore => {
+  const others = store.reminders.filter(r => !(r.kind === 'reflection' && r.category === category.id));
+  if (recurrence === 'none') return { ...store, reminders: others };
+  const existing = findReflection(store, category.id);
+  const reminder = existing
+    ? { ...existing, recurrence }
+    : createReminder({
+        kind: 'reflection',
+        title: reflectionPrompt(category),
+        dueAt: nextTimeOfDay(DEFAULT_PROMPT_TIME, now),
+        recurrence,
+        category: category.id,
+        createdBy: 'user'
+      });
+  return { ...store, reminders: soonestFirst([...others, reminder]) };
+};
+
+// Turns everything that has come due into notifications. One-off reminders are
+// removed; recurring ones move to their next occurrence, and any occurrences
+// missed while the app was closed collapse into a single notification.
+export const fireDueReminders = (store: ReminderStore, now = Date.now()): { store: ReminderStore; fired: AppNotification[] } => {
+  const fired: AppNotification[] = [];
+  const reminders: Reminder[] = [];
+
+  store.reminders.forEach(reminder => {
+    if (reminder.dueAt > now) {
+      reminders.push(reminder);
+      return;
+    }
+    fired.push({
+      id: crypto.randomUUID(),
+      reminderId: reminder.id,
+      kind: reminder.kind,
+      title: reminder.title,
+      firedAt: now,
+      read: false,
+      memoryId: reminder.memoryId,
+      category: reminder.category
+    });
+    if (reminder.recurrence === 'none') return;
+    let dueAt = reminder.dueAt;
+    while (dueAt <= now) dueAt = advance(dueAt, reminder.recurrence);
+    reminders.push({ ...reminder, dueAt });
+  });
+
+  if (!fired.length) return { store, fired };
+  return {
+    store: {
+      reminders: soonestFirst(reminders),
+      notifications: [...fired.reverse(), ...store.notifications].slice(0, NOTIFICATION_LIMIT)
+    },
+    fired
+  };
+};
+
+export const nextDueAt = (store: ReminderStore): number | null => store.reminders[0]?.dueAt ?? null;
+
+export const countUnreadNotifications = (store: ReminderStore) => store.notifications.filter(n => !n.read).length;
+
+export const markNotificationsRead = (store: ReminderStore): ReminderStore => ({
+  ...store,
+  notifications: store.notifications.map(n => (n.read ? n : { ...n, read: true }))
+});
+
+export const dismissNotification = (store: ReminderStore, id: string): ReminderStore => ({
+  ...store,
+  notifications: store.notifications.filter(n => n.id !== id)
+});
+
+export const clearNotifications = (store: ReminderStore): ReminderStore => ({ ...store, notifications: [] });
+
+// Shown outside the app too, when the browser allows it. Android's Chrome only
+// shows notifications through a service worker, so that is tried when the
+// constructor is refused.
+export const showSystemNotification = async (notification: AppNotification) => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return false;
+  const options = { body: notification.title, tag: notification.id };
+  try {
+    new Notification('Lucy', options);
+    return true;
+  } catch {
+    const registration = await navigator.serviceWorker?.getRegistration().catch(() => undefined);
+    if (!registration) return false;
+    await registration.showNotification('Lucy', options);
+    return true;
+  }
+};
+
+// In the form a datetime-local input takes, e.g. 2025-01-31T18:00
+export const toDateTimeInput = (timestamp: number) => {
+  const d = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+export const formatDueTime = (dueAt: number, now = Date.now()) => {
+  const due = new Date(dueAt);
+  const time = due.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+  const today = new Date(now);
+  const tomorrow = new Date(now);
+  tomorrow.setDate(tomorrow.getDate() + 1);
+  if (due.toDateString() === today.toDateString()) return `Today ${time}`;
+  if (due.toDateString() === tomorrow.toDateString()) return `Tomorrow ${time}`;
+  return `${due.toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' })} ${time}`;
+};
+
+// Check-ins and reflection prompts open a conversation where Lucy asks the question
+export const promptConversation = (notification: AppNotification): Conversation => ({
+  ...createConversation([
+    {
+      id: crypto.randomUUID(),
+      role: 'model',
+      text: notification.title,
+      timestamp: Date.now(),
+      citations: notification.memoryId ? [notification.memoryId] : undefined
+    }
+  ]),
+  title: notification.kind === 'check-in' ? 'Check-in' : 'Reflection',
+  summary: `Lucy opened this conversation with a ${notification.kind === 'check-in' ? 'scheduled check-in' : 'reflection prompt'}: ${notification.title}`,
+  summarizedCount: 0
+});
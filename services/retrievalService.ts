@@ -0,0 +1,228 @@
+import { MemoryStore, MemoryItem, Category } from '../types';
+import { memoryCategories, toCurrentMemory } from './memoryService';
+import { estimateTokens } from './conversationService';
+
+// Picks the Memory Bank entries worth showing Lucy for a given message. Keyword
+// ranking (BM25) runs entirely on the device; when an embedding function is
+// available its similarity scores are blended in.
+
+// Rough budget for the memories attached to each message, in tokens
+export const MEMORY_TOKEN_BUDGET = 1500;
+
+export type EmbedFn = (texts: string[]) => Promise<number[][]>;
+
+export interface RetrievedMemory {
+  ref: string; // Short label Lucy uses to cite the entry, e.g. "M2"
+  category: Category;
+  item: MemoryItem;
+  score: number;
+}
+
+interface IndexedDoc {
+  category: Category;
+  item: MemoryItem;
+  text: string;
+  hash: string;
+  termFreq: Map<string, number>;
+  length: number;
+}
+
+interface MemoryIndex {
+  hash: string;
+  docs: IndexedDoc[];
+  docFreq: Map<string, number>;
+  avgLength: number;
+}
+
+// BM25 tuning: term frequency saturation and length normalisation
+const K1 = 1.2;
+const B = 0.75;
+// Weight of embedding similarity against keyword score when both are available
+const EMBEDDING_WEIGHT = 0.5;
+// Entries offered when nothing in the store matches the message
+const RECENT_FALLBACK = 3;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'had', 'has', 'have', 'i', 'if', 'in',
+  'into', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the', 'their', 'then', 'there', 'this',
+  'to', 'was', 'we', 'were', 'what', 'when', 'with', 'you', 'your', 'about', 'how', 'did', 'do', 'does', 'am'
+]);
+
+// 53-bit string hash (cyrb53). Fast, synchronous and sensitive to every character.
+export const hashString = (text: string, seed = 0): string => {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+// Content hash of what Lucy can see; revisions and other bookkeeping don't count
+export const hashMemory = (memory: MemoryStore) => hashString(JSON.stringify(toCurrentMemory(memory)));
+
+// Lowercases, splits on non-letters and strips common English suffixes so
+// "struggling" and "struggled" meet at "struggl"
+export const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(t => t.length > 1 && !STOPWORDS.has(t))
+    .map(t => t.replace(/(ing|ed|ly|es|s)$/, '') || t);
+
+const itemText = (item: MemoryItem) => [item.value.description, ...item.value.details, ...(item.value.tags || [])].join('\n');
+
+let cachedIndex: MemoryIndex | null = null;
+
+export const getMemoryIndex = (memory: MemoryStore): MemoryIndex => {
+  const hash = hashMemory(memory);
+  if (cachedIndex && cachedIndex.hash === hash) return cachedIndex;
+
+  const docFreq = new Map<string, number>();
+  const docs = memoryCategories(memory).flatMap(category => memory[category].map(item => {
+    const text = itemText(item);
+    const terms = tokenize(text);
+    const termFreq = new Map<string, number>();
+    terms.forEach(t => termFreq.set(t, (termFreq.get(t) || 0) + 1));
+    termFreq.forEach((_, t) => docFreq.set(t, (docFreq.get(t) || 0) + 1));
+    return { category, item, text, hash: hashString(text), termFreq, length: terms.length };
+  }));
+
+  const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / (docs.length || 1);
+  cachedIndex = { hash, docs, docFreq, avgLength };
+  return cachedIndex;
+};
+
+const bm25Scores = (index: MemoryIndex, query: string): number[] => {
+  const terms = [...new Set(tokenize(query))];
+  const n = index.docs.length;
+  return index.docs.map(doc => terms.reduce((score, term) => {
+    const tf = doc.termFreq.get(term);
+    if (!tf) return score;
+    const df = index.docFreq.get(term) || 0;
+    const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+    return score + idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * doc.length / (index.avgLength || 1)));
+  }, 0));
+};
+
+// Keyword-only ranking, for lookups that have to answer synchronously
+export const searchMemories = (memory: MemoryStore, query: string): { category: Category; item: MemoryItem; score: number }[] => {
+  const index = getMemoryIndex(memory);
+  const scores = bm25Scores(index, query);
+  return index.docs
+    .map((doc, i) => ({ category: doc.category, item: doc.item, score: scores[i] }))
+    .filter(r => r.score > 0)
+    .sort((a, b) => b.score - a.score);
+};
+
+// Embeddings are cached by entry content, so edits re-embed only what changed
+const embeddingCache = new Map<string, number[]>();
+
+const cosine = (a: number[], b: number[]) => {
+  let dot = 0, na = 0, nb = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+};
+
+const embeddingScores = async (index: MemoryIndex, query: string, embed: EmbedFn): Promise<number[]> => {
+  const missing = index.docs.filter(d => !embeddingCache.has(d.hash));
+  if (missing.length) {
+    const vectors = await embed(missing.map(d => d.text));
+    missing.forEach((d, i) => vectors[i] && embeddingCache.set(d.hash, vectors[i]));
+  }
+  const [queryVector] = await embed([query]);
+  return index.docs.map(d => {
+    const vector = embeddingCache.get(d.hash);
+    return vector && queryVector ? Math.max(0, cosine(vector, queryVector)) : 0;
+  });
+};
+
+const entryTokens = (doc: IndexedDoc) => estimateTokens(doc.text) + 12; // Plus labels and dates
+
+// Ranks every entry against the query and keeps the best ones that fit in the token budget
+export const retrieveMemories = async (
+  memory: MemoryStore,
+  query: string,
+  tokenBudget: number,
+  embed?: EmbedFn
+): Promise<RetrievedMemory[]> => {
+  const index = getMemoryIndex(memory);
+  if (!index.docs.length) return [];
+
+  const keyword = bm25Scores(index, query);
+  const maxKeyword = Math.max(...keyword);
+  let scores = keyword.map(s => (maxKeyword > 0 ? s / maxKeyword : 0));
+
+  if (embed) {
+    try {
+      const semantic = await embeddingScores(index, query, embed);
+      scores = scores.map((s, i) => (1 - EMBEDDING_WEIGHT) * s + EMBEDDING_WEIGHT * semantic[i]);
+    } catch (error) {
+      console.warn("Embedding retrieval failed, using keywords only", error);
+    }
+  }
+
+  let ranked = index.docs
+    .map((doc, i) => ({ doc, score: scores[i] }))
+    .filter(r => r.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  if (!ranked.length) {
+    ranked = [...index.docs]
+      .sort((a, b) => Date.parse(b.item.timestamp) - Date.parse(a.item.timestamp))
+      .slice(0, RECENT_FALLBACK)
+      .map(doc => ({ doc, score: 0 }));
+  }
+
+  const selected: RetrievedMemory[] = [];
+  let used = 0;
+  for (const { doc, score } of ranked) {
+    const cost = entryTokens(doc);
+    if (used + cost > tokenBudget) continue;
+    used += cost;
+    selected.push({ ref: `M${selected.length + 1}`, category: doc.category, item: doc.item, score });
+  }
+  return selected;
+};
+
+const MOODS = ['very low', 'low', 'okay', 'good', 'very good'];
+
+// Tags, mood, status and links as a compact line Lucy can read
+export const describeMemoryFields = (category: Category, item: MemoryItem): string => {
+  const { tags, mood, status, links } = item.value;
+  const parts: string[] = [];
+  if (category === 'struggles') parts.push(`status: ${status || 'active'}`);
+  if (mood) parts.push(`mood: ${MOODS[mood - 1]}`);
+  if (tags?.length) parts.push(`tags: ${tags.map(t => `#${t}`).join(' ')}`);
+  links?.forEach(l => parts.push(`${l.kind === 'resolves' ? 'resolves' : 'related to'} ${l.targetId}`));
+  return parts.join('; ');
+};
+
+// The block of retrieved entries placed in Lucy's instructions for one message
+export const formatRetrievedMemories = (memories: RetrievedMemory[]): string =>
+  memories.map(m => {
+    const fields = describeMemoryFields(m.category, m.item);
+    const details = m.item.value.details.map(d => `    - ${d}`).join('\n');
+    return `[${m.ref}] (${m.category}, ${m.item.timestamp.slice(0, 10)}, id ${m.item.id}) ${m.item.value.description}` +
+      `${fields ? `\n    ${fields}` : ''}${details ? `\n${details}` : ''}`;
+  }).join('\n');
+
+const CITATION_MARKER = /\[(M\d+)\]/g;
+
+// Finds which of the offered entries a reply cited with [M#] markers
+export const extractCitations = (text: string, memories: RetrievedMemory[]): string[] => {
+  const refs = new Set([...text.matchAll(CITATION_MARKER)].map(m => m[1]));
+  return memories.filter(m => refs.has(m.ref)).map(m => m.item.id);
+};
+
+// Markers only mean something for the message they were offered with, so the
+// shown and stored text drops them; sources are listed under the reply instead
+export const stripCitationMarkers = (text: string) => text.replace(/ ?\[M\d+\]/g, '');
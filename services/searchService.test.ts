@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import { MemoryItem, MemoryStore, MemoryValue } from '../types';
+import { BUILT_IN_CATEGORIES } from './categoryService';
+import { parseSearchQuery, searchEntries, highlightSegments } from './searchService';
+
+const entry = (id: string, value: Partial<MemoryValue>): MemoryItem => ({
+  id,
+  timestamp: '2026-03-01T12:00:00.000Z',
+  value: { description: '', details: [], ...value }
+});
+
+// A fresh store each time, since the index is cached by identity
+const store = (): MemoryStore => ({
+  struggles: [
+    entry('s1', { description: 'Procrastination on the tax return', details: ['Put it off for a week'] }),
+    entry('s2', { description: 'Trouble sleeping', details: ['Awake until 3am worrying about deadlines'] })
+  ],
+  development: [
+    entry('d1', { description: 'Started running again', details: ['Ran 5k without stopping'], tags: ['fitness'] }),
+    entry('d2', { description: 'Finished the tax course', details: ['Finally understand deductions'] })
+  ],
+  mindset: [
+    entry('m1', { description: 'Small steps count', details: ['Procrastination shrinks when the first step is tiny'] })
+  ]
+});
+
+// Terms go through the query parser, as they do in the journal
+const search = (memory: MemoryStore, text: string) => searchEntries(memory, parseSearchQuery(text).terms);
+const ids = (memory: MemoryStore, text: string) => search(memory, text).map(hit => hit.item.id);
+
+describe('parseSearchQuery', () => {
+  it('keeps plain words as tokenised terms', () => {
+    const query = parseSearchQuery('Running with friends');
+    expect(query.terms).toEqual(['runn', 'friend']);
+    expect(query.tags).toEqual([]);
+    expect(query.category).toBeUndefined();
+  });
+
+  it('reads category: and in: by id, by name and by prefix', () => {
+    expect(parseSearchQuery('category:mindset', BUILT_IN_CATEGORIES).category).toBe('mindset');
+    expect(parseSearchQuery('in:growth', BUILT_IN_CATEGORIES).category).toBe('development');
+    expect(parseSearchQuery('in:gro', BUILT_IN_CATEGORIES).category).toBe('development');
+    expect(parseSearchQuery('IN:Strug', BUILT_IN_CATEGORIES).category).toBe('struggles');
+  });
+
+  it('searches an unknown category as text', () => {
+    const query = parseSearchQuery('in:hobbies', BUILT_IN_CATEGORIES);
+    expect(query.category).toBeUndefined();
+    expect(query.terms).toContain('hobbi');
+  });
+
+  it('reads tag: and #tag in lowercase', () => {
+    expect(parseSearchQuery('#Fitness tag:#sleep tag:work').tags).toEqual(['fitness', 'sleep', 'work']);
+  });
+
+  it('treats a lone # as text rather than an empty tag', () => {
+    expect(parseSearchQuery('#').tags).toEqual([]);
+  });
+
+  it('completes partial dates to the range they cover', () => {
+    expect(parseSearchQuery('from:2026-03')).toEqual({ terms: [], tags: [], from: '2026-03-01' });
+    expect(parseSearchQuery('to:2026-03')).toEqual({ terms: [], tags: [], to: '2026-03-31' });
+    expect(parseSearchQuery('from:2026 to:2026')).toMatchObject({ from: '2026-01-01', to: '2026-12-31' });
+    expect(parseSearchQuery('from:2026-03-15')).toMatchObject({ from: '2026-03-15' });
+  });
+
+  it('reads on: as both bounds', () => {
+    expect(parseSearchQuery('on:2026-02-14')).toMatchObject({ from: '2026-02-14', to: '2026-02-14' });
+    expect(parseSearchQuery('on:2026-02')).toMatchObject({ from: '2026-02-01', to: '2026-02-31' });
+  });
+
+  it('searches malformed dates as text', () => {
+    const query = parseSearchQuery('from:yesterday to:2026-3');
+    expect(query.from).toBeUndefined();
+    expect(query.to).toBeUndefined();
+    expect(query.terms).toContain('yesterday');
+  });
+
+  it('combines filters with text', () => {
+    const query = parseSearchQuery('tax in:struggles #money from:2026-01', BUILT_IN_CATEGORIES);
+    expect(query).toMatchObject({ terms: ['tax'], category: 'struggles', tags: ['money'], from: '2026-01-01' });
+  });
+});
+
+describe('searchEntries', () => {
+  it('ranks across categories, weighting descriptions above details', () => {
+    expect(ids(store(), 'procrastination')).toEqual(['s1', 'm1']);
+  });
+
+  it('requires every term to match', () => {
+    expect(ids(store(), 'tax course')).toEqual(['d2']);
+    expect(ids(store(), 'tax sleep')).toEqual([]);
+  });
+
+  it('matches words by prefix', () => {
+    expect(ids(store(), 'procr')).toEqual(['s1', 'm1']);
+    expect(ids(store(), 'dead')).toEqual(['s2']);
+  });
+
+  it('tolerates typos in longer terms', () => {
+    expect(ids(store(), 'procrastnation')).toEqual(['s1', 'm1']);
+    expect(ids(store(), 'deductoins')).toEqual(['d2']);
+  });
+
+  it('does not fuzz short terms', () => {
+    expect(ids(store(), 'tex')).toEqual([]);
+  });
+
+  it('ranks an exact match above a looser one', () => {
+    const memory: MemoryStore = {
+      struggles: [entry('loose', { description: 'Walkway home' })],
+      development: [entry('exact', { description: 'Walk home' })],
+      mindset: []
+    };
+    expect(ids(memory, 'walk')).toEqual(['exact', 'loose']);
+  });
+
+  it('reports the index terms that matched', () => {
+    const [hit] = search(store(), 'strated');
+    expect(hit.item.id).toBe('d1');
+    expect(hit.matches).toEqual(['start']);
+  });
+
+  it('returns nothing for no terms or an empty store', () => {
+    expect(searchEntries(store(), [])).toEqual([]);
+    expect(searchEntries({ struggles: [], development: [], mindset: [] }, ['tax'])).toEqual([]);
+  });
+});
+
+describe('highlightSegments', () => {
+  it('marks words whose index term matched', () => {
+    expect(highlightSegments('Started running again', ['runn'])).toEqual([
+      { text: 'Started ', highlight: false },
+      { text: 'running', highlight: true },
+      { text: ' again', highlight: false }
+    ]);
+  });
+
+  it('marks every occurrence and keeps the original casing', () => {
+    expect(highlightSegments('Tax, more TAX', ['tax'])).toEqual([
+      { text: 'Tax', highlight: true },
+      { text: ', more ', highlight: false },
+      { text: 'TAX', highlight: true }
+    ]);
+  });
+
+  it('returns the text unmarked when nothing matched', () => {
+    expect(highlightSegments('Nothing here', [])).toEqual([{ text: 'Nothing here', highlight: false }]);
+    expect(highlightSegments('Nothing here', ['tax'])).toEqual([{ text: 'Nothing here', highlight: false }]);
+  });
+});
@@ -0,0 +1,225 @@
+import { MemoryStore, MemoryItem, Category, CategoryDefinition } from '../types';
+import { memoryCategories } from './memoryService';
+import { tokenize } from './retrievalService';
+
+// Full-text search for the journal: an inverted index over the Memory Bank with
+// prefix and typo-tolerant term matching, BM25 ranking and a small query syntax
+// (category:, tag: or #tag, from:, to:, on:).
+
+export interface SearchQuery {
+  terms: string[]; // Tokenised free text; every term has to match
+  category?: Category;
+  tags: string[];
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string;
+}
+
+export interface SearchHit {
+  category: Category;
+  item: MemoryItem;
+  score: number;
+  matches: string[]; // Index terms that matched, for highlighting
+}
+
+export interface TextSegment {
+  text: string;
+  highlight: boolean;
+}
+
+interface Posting {
+  doc: number;
+  tf: number; // Field-weighted term frequency
+}
+
+interface SearchIndex {
+  memory: MemoryStore;
+  docs: { category: Category; item: MemoryItem; length: number }[];
+  postings: Map<string, Posting[]>;
+  vocabulary: string[];
+  avgLength: number;
+  expansions: Map<string, Map<string, number>>; // Query term -> index terms with their similarity
+}
+
+// A word in the description counts for more than one in the details
+const FIELD_WEIGHTS = { description: 2, tags: 1.5, details: 1 };
+const K1 = 1.2;
+const B = 0.75;
+// How much a looser match is worth next to an exact one
+const PREFIX_SIMILARITY = 0.8;
+const TYPO_SIMILARITY = [1, 0.7, 0.5];
+
+// Typos tolerated for a term of this length; short terms only match exactly or by prefix
+const maxTypos = (term: string) => (term.length < 4 ? 0 : term.length < 7 ? 1 : 2);
+
+// Edit distance with adjacent transpositions, or null once it's certain to exceed max
+const editDistance = (a: string, b: string, max: number): number | null => {
+  if (Math.abs(a.length - b.length) > max) return null;
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let d = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d = Math.min(d, prevPrev[j - 2] + 1);
+      row.push(d);
+      rowMin = Math.min(rowMin, d);
+    }
+    if (rowMin > max) return null;
+    prevPrev = prev;
+    prev = row;
+  }
+  return prev[b.length] <= max ? prev[b.length] : null;
+};
+
+let cachedIndex: SearchIndex | null = null;
+
+// The store is replaced rather than mutated on every change, so the index is
+// rebuilt only when the Memory Bank actually changes, not on each keystroke
+const getSearchIndex = (memory: MemoryStore): SearchIndex => {
+  if (cachedIndex && cachedIndex.memory === memory) return cachedIndex;
+
+  const postings = new Map<string, Posting[]>();
+  const docs = memoryCategories(memory).flatMap(category => memory[category].map(item => ({ category, item, length: 0 })));
+  docs.forEach((doc, i) => {
+    const weighted = new Map<string, number>();
+    const add = (text: string, weight: number) => tokenize(text).forEach(t => {
+      weighted.set(t, (weighted.get(t) || 0) + weight);
+      doc.length++;
+    });
+    add(doc.item.value.description, FIELD_WEIGHTS.description);
+    doc.item.value.details.forEach(d => add(d, FIELD_WEIGHTS.details));
+    doc.item.value.tags?.forEach(t => add(t, FIELD_WEIGHTS.tags));
+    weighted.forEach((tf, term) => {
+      const list = postings.get(term);
+      if (list) list.push({ doc: i, tf });
+      else postings.set(term, [{ doc: i, tf }]);
+    });
+  });
+
+  const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / (docs.length || 1);
+  cachedIndex = { memory, docs, postings, vocabulary: [...postings.keys()], avgLength, expansions: new Map() };
+  return cachedIndex;
+};
+
+// Index terms a query term can stand for: itself, words it starts, and near misses
+const expandTerm = (index: SearchIndex, term: string): Map<string, number> => {
+  const cached = index.expansions.get(term);
+  if (cached) return cached;
+
+  const found = new Map<string, number>();
+  const typos = maxTypos(term);
+  for (const candidate of index.vocabulary) {
+    if (candidate === term) {
+      found.set(candidate, 1);
+    } else if (candidate.startsWith(term)) {
+      found.set(candidate, PREFIX_SIMILARITY);
+    } else if (typos > 0) {
+      const distance = editDistance(term, candidate, typos);
+      if (distance !== null) found.set(candidate, TYPO_SIMILARITY[distance]);
+    }
+  }
+  index.expansions.set(term, found);
+  return found;
+};
+
+const DATE_VALUE = /^\d{4}(-\d{2}(-\d{2})?)?$/;
+
+// Completes a partial date to the first or last day it covers; "2026-03" as an
+// upper bound means up to the end of March. Day strings compare correctly as text
+// even when padded past the real end of the month.
+const dateBound = (value: string, end: boolean) => {
+  const [year, month, day] = value.split('-');
+  return `${year}-${month || (end ? '12' : '01')}-${day || (end ? '31' : '01')}`;
+};
+
+// Splits out filters; anything that isn't a recognised filter is searched as text.
+// in: matches the start of a category's id or its name, e.g. in:gro for Growth.
+export const parseSearchQuery = (raw: string, categories: CategoryDefinition[] = []): SearchQuery => {
+  const findCategory = (value: string) => {
+    const prefix = value.toLowerCase();
+    return categories.find(c => c.id.startsWith(prefix) || c.name.toLowerCase().startsWith(prefix));
+  };
+  const query: SearchQuery = { terms: [], tags: [] };
+  const text: string[] = [];
+
+  raw.trim().split(/\s+/).filter(Boolean).forEach(word => {
+    const [, key, value] = word.match(/^(\w+):(.+)$/) || [];
+    const filter = key?.toLowerCase();
+    if (word.startsWith('#') && word.length > 1) {
+      query.tags.push(word.slice(1).toLowerCase());
+    } else if (filter === 'tag') {
+      query.tags.push(value.replace(/^#/, '').toLowerCase());
+    } else if ((filter === 'category' || filter === 'in') && findCategory(value)) {
+      query.category = findCategory(value)!.id;
+    } else if ((filter === 'from' || filter === 'to' || filter === 'on') && DATE_VALUE.test(value)) {
+      if (filter !== 'to') query.from = dateBound(value, false);
+      if (filter !== 'from') query.to = dateBound(value, true);
+    } else {
+      text.push(word.replace(/"/g, ''));
+    }
+  });
+
+  query.terms = [...new Set(tokenize(text.join(' ')))];
+  return query;
+};
+
+// Entries matching every term, best first. Each query term scores through its
+// best-matching index term, discounted by how loose that match was; every index
+// term it matched is kept for highlighting.
+export const searchEntries = (memory: MemoryStore, terms: string[]): SearchHit[] => {
+  const index = getSearchIndex(memory);
+  const n = index.docs.length;
+  if (!terms.length || !n) return [];
+
+  let scores: Map<number, { score: number; matches: string[] }> | null = null;
+  for (const term of terms) {
+    const best = new Map<number, { score: number; matches: string[] }>();
+    expandTerm(index, term).forEach((similarity, indexTerm) => {
+      const postings = index.postings.get(indexTerm) || [];
+      const idf = Math.log(1 + (n - postings.length + 0.5) / (postings.length + 0.5));
+      postings.forEach(({ doc, tf }) => {
+        const length = index.docs[doc].length / (index.avgLength || 1);
+        const score = similarity * idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * length));
+        const current = best.get(doc);
+        if (!current) best.set(doc, { score, matches: [indexTerm] });
+        else best.set(doc, { score: Math.max(score, current.score), matches: [...current.matches, indexTerm] });
+      });
+    });
+
+    const next = new Map<number, { score: number; matches: string[] }>();
+    best.forEach(({ score, matches }, doc) => {
+      if (!scores) next.set(doc, { score, matches });
+      else {
+        const previous = scores.get(doc);
+        if (previous) next.set(doc, { score: previous.score + score, matches: [...previous.matches, ...matches] });
+      }
+    });
+    scores = next;
+    if (!scores.size) return [];
+  }
+
+  return [...scores!.entries()]
+    .map(([doc, { score, matches }]) => ({ category: index.docs[doc].category, item: index.docs[doc].item, score, matches }))
+    .sort((a, b) => b.score - a.score);
+};
+
+// Splits text into plain and highlighted runs, marking the words whose index
+// term is among the matches
+export const highlightSegments = (text: string, matches: string[]): TextSegment[] => {
+  if (!matches.length) return [{ text, highlight: false }];
+  const wanted = new Set(matches);
+  const segments: TextSegment[] = [];
+  let last = 0;
+  for (const word of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const [term] = tokenize(word[0]);
+    if (!term || !wanted.has(term)) continue;
+    const start = word.index ?? 0;
+    if (start > last) segments.push({ text: text.slice(last, start), highlight: false });
+    segments.push({ text: word[0], highlight: true });
+    last = start + word[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), highlight: false });
+  return segments;
+};
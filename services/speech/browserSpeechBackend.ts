@@ -0,0 +1,105 @@
+import { SpeechBackend, SpeechError } from './types';
+
+// The Web Speech API. Most browsers send the audio to their vendor's recognition
+// service; newer Chrome builds can recognise on the device instead (processLocally).
+
+interface RecognitionAlternative { transcript: string }
+interface RecognitionResult { isFinal: boolean; length: number; [index: number]: RecognitionAlternative }
+interface RecognitionEvent { resultIndex: number; results: { length: number; [index: number]: RecognitionResult } }
+
+interface Recognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  processLocally?: boolean;
+  onresult: ((event: RecognitionEvent) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+}
+
+interface RecognitionConstructor {
+  new (): Recognition;
+  available?: (options: { langs: string[]; processLocally: boolean }) => Promise<string>;
+}
+
+const getRecognitionClass = (): RecognitionConstructor | null => {
+  const w = window as unknown as { SpeechRecognition?: RecognitionConstructor; webkitSpeechRecognition?: RecognitionConstructor };
+  return w.SpeechRecognition || w.webkitSpeechRecognition || null;
+};
+
+const canRecogniseLocally = async (Recognition: RecognitionConstructor, language: string) => {
+  if (!Recognition.available) return false;
+  try {
+    return (await Recognition.available({ langs: [language], processLocally: true })) === 'available';
+  } catch {
+    return false;
+  }
+};
+
+export const createBrowserSpeechBackend = (language: string, allowCloud: boolean): SpeechBackend => ({
+  id: 'browser',
+
+  start: async ({ onPartial, onFinal, onError }) => {
+    const Recognition = getRecognitionClass();
+    if (!Recognition) throw new SpeechError("This browser doesn't support speech recognition. Choose a transcription server in Settings.");
+
+    const local = await canRecogniseLocally(Recognition, language);
+    if (!local && !allowCloud) {
+      throw new SpeechError("This browser can only transcribe by sending audio to its vendor's service. Allow cloud transcription in Settings, or use a local transcription server.");
+    }
+
+    const recognition = new Recognition();
+    recognition.lang = language;
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    if (local) recognition.processLocally = true;
+
+    let stopping = false;
+    let finished: () => void = () => {};
+    const ended = new Promise<void>(resolve => { finished = resolve; });
+
+    recognition.onresult = (event) => {
+      let partial = "";
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        const text = result[0]?.transcript.trim() || "";
+        if (result.isFinal) {
+          if (text) onFinal(text);
+        } else {
+          partial += `${text} `;
+        }
+      }
+      onPartial(partial.trim());
+    };
+    recognition.onerror = (event) => {
+      // Silence ends a recognition run; onend restarts it
+      if (event.error === 'no-speech' || event.error === 'aborted') return;
+      stopping = true;
+      onError(new SpeechError(event.error === 'not-allowed' ? "Microphone access was blocked." : `Speech recognition failed (${event.error}).`));
+    };
+    // Browsers end continuous recognition after a while, so keep it going until stopped
+    recognition.onend = () => {
+      if (stopping) {
+        onPartial("");
+        finished();
+        return;
+      }
+      try {
+        recognition.start();
+      } catch {
+        finished();
+      }
+    };
+    recognition.start();
+
+    return {
+      stop: async () => {
+        stopping = true;
+        recognition.stop();
+        await ended;
+      }
+    };
+  }
+});
@@ -0,0 +1,37 @@
+import { SpeechBackendId, SpeechSettings, VoiceSettings } from '../../types';
+import { SpeechBackend } from './types';
+import { createBrowserSpeechBackend } from './browserSpeechBackend';
+import { createServerSpeechBackend } from './serverSpeechBackend';
+import { createMockSpeechBackend } from './mockSpeechBackend';
+
+export * from './types';
+export * from './speechSynthesis';
+
+export const SPEECH_BACKEND_OPTIONS: { id: SpeechBackendId; label: string }[] = [
+  { id: 'browser', label: 'Browser speech recognition' },
+  { id: 'server', label: 'Transcription server (Whisper)' },
+  { id: 'mock', label: 'Mock (offline)' }
+];
+
+export const DEFAULT_SPEECH_SETTINGS: SpeechSettings = {
+  backend: 'browser',
+  language: 'en-US',
+  serverUrl: 'http://localhost:8000/v1',
+  apiKey: '',
+  allowCloud: false
+};
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  voiceURI: '',
+  rate: 1,
+  autoSend: false,
+  readReplies: false
+};
+
+export const createSpeechBackend = (settings: SpeechSettings): SpeechBackend => {
+  switch (settings.backend) {
+    case 'browser': return createBrowserSpeechBackend(settings.language, settings.allowCloud);
+    case 'server': return createServerSpeechBackend(settings.serverUrl, settings.apiKey, settings.language, settings.allowCloud);
+    case 'mock': return createMockSpeechBackend();
+  }
+};
@@ -0,0 +1,32 @@
+import { SpeechBackend } from './types';
+
+// Offline stand-in that "hears" a fixed script, for developing Lucy Live
+// without a microphone or transcription service.
+
+const SCRIPT = [
+  "I finally finished the first draft of my portfolio site.",
+  "I keep putting off calling the bank about the loan.",
+  "Reminding myself that progress matters more than perfection."
+];
+
+export const createMockSpeechBackend = (phraseDelayMs = 2500): SpeechBackend => ({
+  id: 'mock',
+
+  start: async ({ onPartial, onFinal }) => {
+    let index = 0;
+    const timer = window.setInterval(() => {
+      const phrase = SCRIPT[index % SCRIPT.length];
+      index++;
+      onPartial("");
+      onFinal(phrase);
+    }, phraseDelayMs);
+    onPartial("…");
+
+    return {
+      stop: async () => {
+        window.clearInterval(timer);
+        onPartial("");
+      }
+    };
+  }
+});
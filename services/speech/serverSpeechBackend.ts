@@ -0,0 +1,119 @@
+import { SpeechBackend, SpeechError } from './types';
+
+// Records the microphone in short clips and posts each one to a server exposing
+// the OpenAI /audio/transcriptions API (whisper.cpp, faster-whisper-server,
+// LocalAI). Clips are held in memory only until they are transcribed.
+
+// Length of each clip; shorter clips show text sooner but cut more words in half
+const CLIP_MS = 6000;
+
+const isLocalUrl = (url: string) => {
+  try {
+    const { hostname } = new URL(url);
+    return hostname === 'localhost' || hostname === '127.0.0.1' || hostname === '[::1]' || hostname.endsWith('.local');
+  } catch {
+    return false;
+  }
+};
+
+const pickMimeType = () =>
+  ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4']
+    .find(type => MediaRecorder.isTypeSupported(type)) || '';
+
+export const createServerSpeechBackend = (serverUrl: string, apiKey: string, language: string, allowCloud: boolean): SpeechBackend => {
+  const endpoint = `${serverUrl.replace(/\/+$/, '')}/audio/transcriptions`;
+
+  const transcribe = async (clip: Blob) => {
+    const form = new FormData();
+    form.append('file', clip, `clip.${clip.type.includes('mp4') ? 'mp4' : clip.type.includes('ogg') ? 'ogg' : 'webm'}`);
+    form.append('model', 'whisper-1');
+    form.append('language', language.split('-')[0]);
+    form.append('response_format', 'json');
+    const headers: Record<string, string> = {};
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+    const response = await fetch(endpoint, { method: 'POST', headers, body: form });
+    if (!response.ok) throw new SpeechError(`Transcription server returned ${response.status}`);
+    const json = await response.json();
+    return typeof json.text === 'string' ? json.text.trim() : "";
+  };
+
+  return {
+    id: 'server',
+
+    start: async ({ onPartial, onFinal, onError }) => {
+      if (!serverUrl) throw new SpeechError("No transcription server configured. Add one in Settings.");
+      if (!isLocalUrl(serverUrl) && !allowCloud) {
+        throw new SpeechError("The transcription server isn't on this device. Allow cloud transcription in Settings to use it.");
+      }
+      if (typeof MediaRecorder === 'undefined') throw new SpeechError("This browser can't record audio.");
+
+      let stream: MediaStream;
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      } catch {
+        throw new SpeechError("Microphone access was blocked.");
+      }
+
+      const mimeType = pickMimeType();
+      let stopping = false;
+      let recorder: MediaRecorder | null = null;
+      let timer: number | undefined;
+      // Clips are transcribed one after another so phrases arrive in order
+      let queue: Promise<void> = Promise.resolve();
+
+      const fail = (error: unknown) => {
+        if (stopping) return;
+        stopping = true;
+        window.clearTimeout(timer);
+        if (recorder?.state === 'recording') recorder.stop();
+        stream.getTracks().forEach(t => t.stop());
+        onError(error instanceof Error ? error : new SpeechError("Transcription failed."));
+      };
+
+      // A fresh recorder per clip, so every clip is a complete audio file
+      const recordClip = () => {
+        const chunks: Blob[] = [];
+        recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+        recorder.ondataavailable = (e) => {
+          if (e.data.size) chunks.push(e.data);
+        };
+        recorder.onstop = () => {
+          const clip = new Blob(chunks, { type: recorder?.mimeType || mimeType });
+          if (clip.size) {
+            onPartial("Transcribing…");
+            queue = queue
+              .then(() => transcribe(clip))
+              .then(text => {
+                onPartial("");
+                if (text) onFinal(text);
+              })
+              .catch(fail);
+          }
+          if (!stopping) recordClip();
+        };
+        recorder.start();
+        timer = window.setTimeout(() => {
+          if (recorder?.state === 'recording') recorder.stop();
+        }, CLIP_MS);
+      };
+      recordClip();
+
+      return {
+        stop: async () => {
+          if (stopping) return queue;
+          stopping = true;
+          window.clearTimeout(timer);
+          const finalClip = new Promise<void>(resolve => {
+            if (recorder?.state !== 'recording') return resolve();
+            recorder.addEventListener('stop', () => resolve(), { once: true });
+            recorder.stop();
+          });
+          await finalClip;
+          stream.getTracks().forEach(t => t.stop());
+          await queue;
+        }
+      };
+    }
+  };
+};
@@ -0,0 +1,44 @@
+import { VoiceSettings } from '../../types';
+
+// Reads Lucy's replies aloud with the browser's speech synthesis. Voices come
+// from the operating system, so the list differs per device.
+
+const synth = () => (typeof window !== 'undefined' && 'speechSynthesis' in window ? window.speechSynthesis : null);
+
+export const isSpeechSynthesisSupported = () => synth() !== null;
+
+// Some browsers load voices asynchronously and report an empty list at first
+export const listVoices = (): Promise<SpeechSynthesisVoice[]> => {
+  const s = synth();
+  if (!s) return Promise.resolve([]);
+  const voices = s.getVoices();
+  if (voices.length) return Promise.resolve(voices);
+  return new Promise(resolve => {
+    const done = () => resolve(s.getVoices());
+    s.addEventListener('voiceschanged', done, { once: true });
+    window.setTimeout(done, 1500);
+  });
+};
+
+// Resolves when the text has been spoken, or straight away if it was cut off
+export const speak = (text: string, settings: VoiceSettings): Promise<void> => {
+  const s = synth();
+  if (!s || !text.trim()) return Promise.resolve();
+  s.cancel();
+
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.rate = settings.rate;
+  const voice = s.getVoices().find(v => v.voiceURI === settings.voiceURI);
+  if (voice) {
+    utterance.voice = voice;
+    utterance.lang = voice.lang;
+  }
+
+  return new Promise(resolve => {
+    utterance.onend = () => resolve();
+    utterance.onerror = () => resolve();
+    s.speak(utterance);
+  });
+};
+
+export const stopSpeaking = () => synth()?.cancel();
@@ -0,0 +1,29 @@
+import { SpeechBackendId } from '../../types';
+
+// What a speech-to-text backend offers Lucy Live. Each backend opens the
+// microphone itself and reports text as it is recognised; audio is never stored.
+
+export interface TranscriptHandlers {
+  onPartial: (text: string) => void; // The phrase currently being spoken, replaced on every call
+  onFinal: (text: string) => void; // A finished phrase to append to the transcript
+  onError: (error: Error) => void; // The session stopped on its own
+}
+
+export interface SpeechSession {
+  // Resolves once audio still in flight has been transcribed
+  stop: () => Promise<void>;
+}
+
+export interface SpeechBackend {
+  id: SpeechBackendId;
+  // Rejects with a SpeechError when the backend can't run, including when it
+  // would have to send audio off the device and the user hasn't allowed that
+  start: (handlers: TranscriptHandlers) => Promise<SpeechSession>;
+}
+
+export class SpeechError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpeechError';
+  }
+}
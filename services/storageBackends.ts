@@ -0,0 +1,114 @@
+// Key/value backends used by the storage layer. Values are plain JSON-compatible
+// objects; each backend decides how to encode them.
+
+export interface StorageBackend {
+  name: string;
+  read: (key: string) => Promise<unknown>; // undefined when the key is absent
+  write: (key: string, value: unknown) => Promise<void>;
+  writeAll: (entries: [string, unknown][]) => Promise<void>; // All of them or, when it fails, none
+  remove: (key: string) => Promise<void>;
+}
+
+// Thrown when a stored value exists but cannot be decoded at all
+export class StorageCorruptionError extends Error {
+  raw: string;
+
+  constructor(key: string, raw: string) {
+    super(`Stored value for "${key}" could not be decoded`);
+    this.name = 'StorageCorruptionError';
+    this.raw = raw;
+  }
+}
+
+export const localStorageBackend: StorageBackend = {
+  name: 'localStorage',
+
+  read: async (key) => {
+    const raw = localStorage.getItem(key);
+    if (raw === null) return undefined;
+    try {
+      return JSON.parse(raw);
+    } catch {
+      throw new StorageCorruptionError(key, raw);
+    }
+  },
+
+  write: async (key, value) => {
+    localStorage.setItem(key, JSON.stringify(value));
+  },
+
+  writeAll: async (entries) => {
+    const previous = entries.map(([key]) => [key, localStorage.getItem(key)] as const);
+    try {
+      entries.forEach(([key, value]) => localStorage.setItem(key, JSON.stringify(value)));
+    } catch (error) {
+      // Usually the quota running out partway; put back what was there
+      previous.forEach(([key, raw]) => raw === null ? localStorage.removeItem(key) : localStorage.setItem(key, raw));
+      throw error;
+    }
+  },
+
+  remove: async (key) => {
+    localStorage.removeItem(key);
+  }
+};
+
+const DB_NAME = 'lucy_os';
+const DB_STORE = 'kv';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(DB_STORE)) {
+          request.result.createObjectStore(DB_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runTransaction = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest | undefined): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(DB_STORE, mode);
+    const request = action(tx.objectStore(DB_STORE));
+    tx.oncomplete = () => resolve(request?.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const indexedDbBackend: StorageBackend = {
+  name: 'indexedDB',
+  read: (key) => runTransaction('readonly', store => store.get(key)),
+  write: (key, value) => runTransaction('readwrite', store => store.put(value, key)),
+  // One transaction, so either every entry is written or none is
+  writeAll: (entries) => runTransaction('readwrite', store => {
+    entries.forEach(([key, value]) => store.put(value, key));
+    return undefined;
+  }),
+  remove: (key) => runTransaction('readwrite', store => store.delete(key))
+};
+
+// IndexedDB is preferred for its larger quota; private browsing modes and some
+// webviews refuse to open it, in which case localStorage is used instead.
+export const detectBackend = async (): Promise<StorageBackend> => {
+  if (typeof indexedDB === 'undefined') return localStorageBackend;
+  try {
+    await openDatabase();
+    return indexedDbBackend;
+  } catch (error) {
+    console.warn('IndexedDB unavailable, falling back to localStorage', error);
+    return localStorageBackend;
+  }
+};
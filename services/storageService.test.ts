@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { MemoryStore } from '../types';
+import { DEFAULT_PRIVACY_SETTINGS, createPasscode } from './privacyService';
+import { STORAGE_KEYS, changeEncryption, loadMemory, loadPrivacySettings, migrateMemoryData, saveMemory } from './storageService';
+
+// localStorage in memory, able to fail partway like a full quota does
+const values = new Map<string, string>();
+let failingKey: string | null = null;
+
+beforeAll(() => {
+  Object.assign(globalThis, {
+    localStorage: {
+      getItem: (key: string) => values.get(key) ?? null,
+      setItem: (key: string, value: string) => {
+        if (key === failingKey) throw new Error('QuotaExceededError');
+        values.set(key, value);
+      },
+      removeItem: (key: string) => values.delete(key)
+    }
+  });
+});
+
+const stored = (key: string) => JSON.parse(values.get(key) || 'null');
+
+const memory: MemoryStore = {
+  struggles: [{ id: 's1', timestamp: '2026-03-01T12:00:00.000Z', value: { description: 'Trouble sleeping', details: [] } }],
+  development: [],
+  mindset: []
+};
+
+describe('changeEncryption', () => {
+  it('leaves the data and the passcode as they were when a write fails', async () => {
+    await saveMemory(memory);
+    const next = await createPasscode('1234');
+
+    // The privacy settings are written last, after the memory record
+    failingKey = STORAGE_KEYS.privacySettings;
+    await expect(changeEncryption({ mode: 'unlocked', key: next.key }, { ...DEFAULT_PRIVACY_SETTINGS, passcode: next.record }))
+      .rejects.toThrow('QuotaExceededError');
+    failingKey = null;
+
+    expect(stored(STORAGE_KEYS.memory).data).toEqual(memory);
+    expect(stored(STORAGE_KEYS.privacySettings)).toBeNull();
+    expect((await loadMemory()).value).toEqual(memory);
+  });
+
+  it('seals the data and saves the new passcode together', async () => {
+    const next = await createPasscode('1234');
+    await changeEncryption({ mode: 'unlocked', key: next.key }, { ...DEFAULT_PRIVACY_SETTINGS, passcode: next.record });
+
+    expect(stored(STORAGE_KEYS.memory).sealed).toBeDefined();
+    expect(stored(STORAGE_KEYS.memory).data).toBeUndefined();
+    expect((await loadPrivacySettings()).value.passcode).toEqual(next.record);
+    expect((await loadMemory()).value).toEqual(memory);
+  });
+
+  it('keeps saves made during the change under the new key', async () => {
+    const next = await createPasscode('5678');
+    const updated: MemoryStore = { ...memory, mindset: [{ id: 'm1', timestamp: '2026-03-02T12:00:00.000Z', value: { description: 'Small steps', details: [] } }] };
+    const change = changeEncryption({ mode: 'unlocked', key: next.key }, { ...DEFAULT_PRIVACY_SETTINGS, passcode: next.record });
+    const save = saveMemory(updated);
+    await Promise.all([change, save]);
+
+    expect((await loadMemory()).value).toEqual(updated);
+  });
+});
+
+describe('migrateMemoryData', () => {
+  it('turns version 1 examples and milestones into details', () => {
+    const result = migrateMemoryData({
+      struggles: [{ id: 's1', timestamp: '2026-03-01T12:00:00.000Z', value: { description: 'Public speaking', examples: ['Froze in standup'] } }],
+      development: [{ id: 'd1', timestamp: '2026-03-01T12:00:00.000Z', value: { description: 'Gave a talk', milestones: ['First slide'] } }],
+      mindset: 'not a list'
+    }, 1);
+    expect(result.value.struggles[0].value.details).toEqual(['Froze in standup']);
+    expect(result.value.development[0].value.details).toEqual(['First slide']);
+    expect(result.value.mindset).toEqual([]);
+  });
+
+  it('drops entries that are not objects', () => {
+    const result = migrateMemoryData({ struggles: [null, 'text', { id: 's1' }], development: [], mindset: [] }, 1);
+    expect(result.value.struggles).toEqual([]);
+    expect(result.dropped).toBe(3);
+  });
+
+  it('copes with data that is not a store at all', () => {
+    expect(migrateMemoryData('nonsense', 1).value).toEqual({ struggles: [], development: [], mindset: [] });
+  });
+});
@@ -0,0 +1,459 @@
+import {
+  MemoryStore, Theme, Permissions, ConversationStore, LlmSettings, SpeechSettings, VoiceSettings,
+  DailyInsight, PrivacySettings, SealedPayload, Contact, MessageThread, MessagingSettings,
+  CallRecord, ReminderStore, Goal, CategoryDefinition, OutboxEntry, LauncherLayout
+} from '../types';
+import { StorageBackend, StorageCorruptionError, detectBackend, localStorageBackend } from './storageBackends';
+import {
+  Recovered, isRecord, parseMemoryStore, parseTheme, parsePermissions, parseConversationStore, parseLlmSettings,
+  parseSpeechSettings, parseVoiceSettings, parseDailyInsight, parsePrivacySettings, parseSealedPayload, parseContacts,
+  parseMessageThreads, parseMessagingSettings, parseCallLog, parseReminderStore, parseGoals, parseCategories, parseOutbox,
+  parseLauncherLayout
+} from './validation';
+import { DEFAULT_LLM_SETTINGS } from './providers';
+import { DEFAULT_SPEECH_SETTINGS, DEFAULT_VOICE_SETTINGS } from './speech';
+import { DEFAULT_PRIVACY_SETTINGS, sealJson, openJson } from './privacyService';
+import { DEFAULT_MESSAGING_SETTINGS } from './messaging';
+import { DEFAULT_LAUNCHER_LAYOUT } from './launcherService';
+
+// Versioned persistence for everything Lucy OS keeps on the device.
+//
+// Each key holds a record { version, savedAt, data }. Version 1 is the bare JSON
+// the app wrote before this layer existed. On load, data is upgraded one version
+// at a time through the migration table, validated, and written back if anything
+// had to change.
+//
+// Once a passcode is set, records holding journal content keep their data sealed
+// with AES-GCM instead: { version, savedAt, sealed }. They can only be read or
+// written while the app is unlocked.
+
+export const STORAGE_VERSION = 3;
+
+export const STORAGE_KEYS = {
+  memory: 'lucy_memory',
+  theme: 'lucy_theme',
+  permissions: 'lucy_permissions',
+  conversations: 'lucy_conversations',
+  llmSettings: 'lucy_llm_settings',
+  speechSettings: 'lucy_speech_settings',
+  voiceSettings: 'lucy_voice_settings',
+  dailyInsight: 'lucy_daily_insight',
+  privacySettings: 'lucy_privacy_settings',
+  contacts: 'lucy_contacts',
+  messageThreads: 'lucy_message_threads',
+  messagingSettings: 'lucy_messaging_settings',
+  callLog: 'lucy_call_log',
+  reminders: 'lucy_reminders',
+  goals: 'lucy_goals',
+  categories: 'lucy_categories',
+  outbox: 'lucy_outbox',
+  launcher: 'lucy_launcher'
+} as const;
+
+// Records holding personal content, encrypted at rest when a passcode is set
+const SENSITIVE_KEYS: string[] = [
+  STORAGE_KEYS.memory, STORAGE_KEYS.conversations, STORAGE_KEYS.dailyInsight, STORAGE_KEYS.contacts, STORAGE_KEYS.messageThreads,
+  STORAGE_KEYS.callLog, STORAGE_KEYS.reminders, STORAGE_KEYS.goals, STORAGE_KEYS.categories, STORAGE_KEYS.outbox,
+  STORAGE_KEYS.launcher
+];
+
+export const DEFAULT_PERMISSIONS: Permissions = {
+  grants: {},
+  audit: []
+};
+
+interface StoredRecord {
+  version: number;
+  savedAt: string;
+  data?: unknown;
+  sealed?: SealedPayload; // Instead of data, for sensitive records while encryption is on
+}
+
+export type EncryptionState =
+  | { mode: 'off' }
+  | { mode: 'locked' } // A passcode is set but hasn't been entered
+  | { mode: 'unlocked'; key: CryptoKey };
+
+// Thrown when sensitive data is read or written while the app is locked
+export class StorageLockedError extends Error {
+  constructor(key: string) {
+    super(`"${key}" is encrypted and the app is locked`);
+    this.name = 'StorageLockedError';
+  }
+}
+
+// MIGRATIONS[n] upgrades data from version n to version n + 1
+type Migration = (data: unknown) => unknown;
+
+interface RecordSpec<T> {
+  key: string;
+  migrations: Record<number, Migration>;
+  parse: (data: unknown) => Recovered<T>;
+  decodeText?: (raw: string) => unknown; // For legacy values that were stored as bare strings
+}
+
+export interface LoadResult<T> {
+  value: T;
+  dropped: number; // Invalid entries that were left out
+  backupKey?: string; // Where the original data was copied before it was repaired
+}
+
+const MEMORY_MIGRATIONS: Record<number, Migration> = {
+  // v1 -> v2: fill in missing details and accept the Python script's examples/milestones
+  1: (data) => {
+    if (!isRecord(data)) return data;
+    const upgraded: Record<string, unknown> = { ...data };
+    (['struggles', 'development', 'mindset'] as const).forEach(cat => {
+      const items: unknown = data[cat];
+      if (!Array.isArray(items)) return;
+      upgraded[cat] = items.map((item: unknown) => {
+        if (!isRecord(item) || !isRecord(item.value)) return item;
+        const { examples, milestones, ...value }: Record<string, unknown> = item.value;
+        const details = value.details ?? examples ?? milestones ?? [];
+        return { ...item, value: { ...value, details } };
+      });
+    });
+    return upgraded;
+  },
+  // v2 -> v3: only the permissions record changed
+  2: (data) => data
+};
+
+const memorySpec: RecordSpec<MemoryStore> = {
+  key: STORAGE_KEYS.memory,
+  migrations: MEMORY_MIGRATIONS,
+  parse: parseMemoryStore
+};
+
+const themeSpec: RecordSpec<Theme | null> = {
+  key: STORAGE_KEYS.theme,
+  migrations: { 1: (data) => data, 2: (data) => data },
+  parse: (data) => ({ value: parseTheme(data), dropped: 0 }),
+  decodeText: (raw) => raw
+};
+
+const permissionsSpec: RecordSpec<Permissions> = {
+  key: STORAGE_KEYS.permissions,
+  migrations: {
+    1: (data) => data,
+    // v2 -> v3: simulated switches become per-app grants. Only the microphone was ever
+    // backed by the browser; the location, activity and auto-update switches did nothing.
+    2: (data) => ({ grants: isRecord(data) && data.mic ? { live: ['microphone'], chat: ['microphone'] } : {}, audit: [] })
+  },
+  parse: (data) => ({ value: parsePermissions(data, DEFAULT_PERMISSIONS), dropped: 0 })
+};
+
+// Conversations were never stored before version 2, so there is nothing to upgrade
+const conversationsSpec: RecordSpec<ConversationStore> = {
+  key: STORAGE_KEYS.conversations,
+  migrations: { 1: (data) => data, 2: (data) => data },
+  parse: parseConversationStore
+};
+
+const llmSettingsSpec: RecordSpec<LlmSettings> = {
+  key: STORAGE_KEYS.llmSettings,
+  migrations: { 1: (data) => data, 2: (data) => data },
+  parse: (data) => ({ value: parseLlmSettings(data, DEFAULT_LLM_SETTINGS), dropped: 0 })
+};
+
+const speechSettingsSpec: RecordSpec<SpeechSettings> = {
+  key: STORAGE_KEYS.speechSettings,
+  migrations: { 1: (data) => data, 2: (data) => data },
+  parse: (data) => ({ value: parseSpeechSettings(data, DEFAULT_SPEECH_SETTINGS), dropped: 0 })
+};
+
+const voiceSettingsSpec: RecordSpec<VoiceSettings> = {
+  key: STORAGE_KEYS.voiceSettings,
+  migrations: { 1: (data) => data, 2: (data) => data },
+  parse: (data) => ({ value: parseVoiceSettings(data, DEFAULT_VOICE_SETTINGS), dropped: 0 })
+};
+
+// A cache: when unreadable it is simply made again
+const dailyInsightSpec: RecordSpec<DailyInsight | null> = {
+  key: STORAGE_KEYS.dailyInsight,
+  migrations: { 1: (data) => data, 2: (data) => data },
+  parse: (data) => ({ value: parseDailyInsight(data), dropped: 0 })
+};
+
+// Stays readable while locked: it holds what's needed to unlock
+const privacySettingsSpec: RecordSpec<PrivacySettings> = {
+  key: STORAGE_KEYS.privacySettings,
+  migrations: { 1: (data) => data, 2: (data) => data },
+  parse: (data) => ({ value: parsePrivacySettings(data, DEFAULT_PRIVACY_SETTINGS), dropped: 0 })
+};
+
+// Contacts, messages and calls were never stored before version 3, so there is nothing to upgrade
+const contactsSpec: RecordSpec<Contact[]> = {
+  key: STORAGE_KEYS.contacts,
+  migrations: { 1: (data) => data, 2: (data) => data },
+  parse: parseContacts
+};
+
+const messageThreadsSpec: RecordSpec<MessageThread[]> = {
+  key: STORAGE_KEYS.messageThreads,
+  migrations: { 1: (data) => data, 2: (data) => data },
+  parse: parseMessageThreads
+};
+
+const messagingSettingsSpec: RecordSpec<MessagingSettings> = {
+  key: STORAGE_KEYS.messagingSettings,
+  migrations: { 1: (data) => data, 2: (data) => data },
+  parse: (data) => ({ value: parseMessagingSettings(data, DEFAULT_MESSAGING_SETTINGS), dropped: 0 })
+};
+
+const callLogSpec: RecordSpec<CallRecord[]> = {
+  key: STORAGE_KEYS.callLog,
+  migrations: { 1: (data) => data, 2: (data) => data },
+  parse: parseCallLog
+};
+
+const remindersSpec: RecordSpec<ReminderStore> = {
+  key: STORAGE_KEYS.reminders,
+  migrations: { 1: (data) => data, 2: (data) => data },
+  parse: parseReminderStore
+};
+
+const goalsSpec: RecordSpec<Goal[]> = {
+  key: STORAGE_KEYS.goals,
+  migrations: { 1: (data) => data, 2: (data) => data },
+  parse: parseGoals
+};
+
+// Missing on installs from before categories were configurable; reconcileCategories fills in the built-ins
+const categoriesSpec: RecordSpec<CategoryDefinition[]> = {
+  key: STORAGE_KEYS.categories,
+  migrations: { 1: (data) => data, 2: (data) => data },
+  parse: parseCategories
+};
+
+const outboxSpec: RecordSpec<OutboxEntry[]> = {
+  key: STORAGE_KEYS.outbox,
+  migrations: { 1: (data) => data, 2: (data) => data },
+  parse: parseOutbox
+};
+
+// Category shortcuts carry category ids, so the layout is sealed along with the journal
+const launcherSpec: RecordSpec<LauncherLayout> = {
+  key: STORAGE_KEYS.launcher,
+  migrations: { 1: (data) => data, 2: (data) => data },
+  parse: (data) => ({ value: parseLauncherLayout(data, DEFAULT_LAUNCHER_LAYOUT), dropped: 0 })
+};
+
+let encryption: EncryptionState = { mode: 'off' };
+
+// Switches between locked and unlocked without touching what's stored
+export const setEncryptionState = (state: EncryptionState) => {
+  encryption = state;
+};
+
+let backendPromise: Promise<StorageBackend> | null = null;
+const getBackend = () => {
+  if (!backendPromise) backendPromise = detectBackend();
+  return backendPromise;
+};
+
+// Writes to the same key are chained so an older save can never land after a newer one
+const writeQueues = new Map<string, Promise<void>>();
+
+const enqueueWrite = (key: string, task: () => Promise<void>): Promise<void> => {
+  const previous = writeQueues.get(key) || Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  writeQueues.set(key, next);
+  return next;
+};
+
+const isStoredRecord = (raw: unknown): raw is StoredRecord =>
+  typeof raw === 'object' && raw !== null && typeof (raw as StoredRecord).version === 'number' && ('data' in raw || 'sealed' in raw);
+
+const recordData = async (key: string, record: StoredRecord): Promise<unknown> => {
+  if (!('sealed' in record)) return record.data;
+  const sealed = parseSealedPayload(record.sealed);
+  if (encryption.mode !== 'unlocked' || !sealed) throw new StorageLockedError(key);
+  return openJson(encryption.key, sealed);
+};
+
+const readRaw = async (backend: StorageBackend, spec: RecordSpec<unknown>): Promise<{ raw: unknown; source: StorageBackend; corrupt?: string }> => {
+  const attempt = async (source: StorageBackend) => {
+    try {
+      return { raw: await source.read(spec.key), source };
+    } catch (error) {
+      if (!(error instanceof StorageCorruptionError)) throw error;
+      if (spec.decodeText) return { raw: spec.decodeText(error.raw), source };
+      return { raw: undefined, source, corrupt: error.raw };
+    }
+  };
+
+  const primary = await attempt(backend);
+  if (primary.raw !== undefined || primary.corrupt !== undefined || backend === localStorageBackend) return primary;
+
+  // Data written before IndexedDB was used still lives in localStorage
+  return attempt(localStorageBackend);
+};
+
+const migrate = (spec: RecordSpec<unknown>, version: number, data: unknown): unknown => {
+  let current = data;
+  for (let v = version; v < STORAGE_VERSION; v++) {
+    const step = spec.migrations[v];
+    if (!step) throw new Error(`No migration for "${spec.key}" from version ${v}`);
+    current = step(current);
+  }
+  return current;
+};
+
+const buildRecord = async (key: string, data: unknown, state: EncryptionState, version: number): Promise<StoredRecord> => {
+  const record: StoredRecord = { version, savedAt: new Date().toISOString() };
+  if (!SENSITIVE_KEYS.includes(key) || state.mode === 'off') record.data = data;
+  else if (state.mode === 'locked') throw new StorageLockedError(key);
+  else record.sealed = await sealJson(state.key, data);
+  return record;
+};
+
+const writeRecord = (backend: StorageBackend, key: string, data: unknown, version = STORAGE_VERSION) => {
+  // Taken now, so locking right after a save can't change how it's written. A
+  // passcode change that lands first still applies, since it re-sealed everything.
+  const state = encryption;
+  return enqueueWrite(key, async () => {
+    const current = encryption.mode === 'locked' ? state : encryption;
+    await backend.write(key, await buildRecord(key, data, current, version));
+  });
+};
+
+const loadRecord = async <T>(spec: RecordSpec<T>): Promise<LoadResult<T>> => {
+  const backend = await getBackend();
+  const { raw, source, corrupt } = await readRaw(backend, spec as RecordSpec<unknown>);
+
+  const backup = async (original: unknown) => {
+    const backupKey = `${spec.key}_backup_${Date.now()}`;
+    await backend.write(backupKey, original);
+    console.warn(`Stored "${spec.key}" was damaged; original copied to "${backupKey}"`);
+    return backupKey;
+  };
+
+  if (corrupt !== undefined) {
+    const backupKey = await backup(corrupt);
+    const empty = spec.parse(undefined);
+    await writeRecord(backend, spec.key, empty.value);
+    return { value: empty.value, dropped: 1, backupKey };
+  }
+
+  if (raw === undefined) return spec.parse(undefined);
+
+  const version = isStoredRecord(raw) ? raw.version : 1;
+  const data = isStoredRecord(raw) ? await recordData(spec.key, raw) : raw;
+  // Written in the clear before the passcode was set
+  const needsSealing = SENSITIVE_KEYS.includes(spec.key) && encryption.mode === 'unlocked' && !(isStoredRecord(raw) && raw.sealed);
+
+  if (version > STORAGE_VERSION) {
+    // Written by a newer build; read what we understand but never overwrite it
+    console.warn(`Stored "${spec.key}" has version ${version}, newer than ${STORAGE_VERSION}`);
+    return spec.parse(data);
+  }
+
+  let result: Recovered<T>;
+  try {
+    result = spec.parse(migrate(spec as RecordSpec<unknown>, version, data));
+  } catch (error) {
+    console.error(`Migration of "${spec.key}" failed`, error);
+    const backupKey = await backup(raw);
+    result = spec.parse(undefined);
+    await writeRecord(backend, spec.key, result.value);
+    return { value: result.value, dropped: 1, backupKey };
+  }
+
+  let backupKey: string | undefined;
+  if (result.dropped > 0) backupKey = await backup(raw);
+
+  if (result.dropped > 0 || version !== STORAGE_VERSION || source !== backend || needsSealing) {
+    await writeRecord(backend, spec.key, result.value);
+    if (source !== backend) await source.remove(spec.key);
+  }
+
+  return { ...result, backupKey };
+};
+
+// Re-saves every sensitive record for a new encryption state: sealed with a new
+// key when the passcode is set or changed, in the clear when it's removed. The
+// records and the privacy settings holding the new passcode are written in one
+// go, so a failure or a closed tab leaves the old passcode and data as they were.
+export const changeEncryption = async (next: EncryptionState, settings: PrivacySettings) => {
+  const backend = await getBackend();
+  const keys = [...SENSITIVE_KEYS, STORAGE_KEYS.privacySettings];
+
+  // Saves made meanwhile wait until the change is done, so none lands under the old key
+  let finish = () => {};
+  const done = new Promise<void>(resolve => { finish = resolve; });
+  await Promise.all(keys.map(key => new Promise<void>(started => {
+    enqueueWrite(key, () => { started(); return done; });
+  })));
+
+  try {
+    const records = await Promise.all(SENSITIVE_KEYS.map(async (key): Promise<[string, unknown] | null> => {
+      const raw = await backend.read(key);
+      if (!isStoredRecord(raw)) return null; // Absent, or legacy data that's upgraded on its next load
+      return [key, await buildRecord(key, await recordData(key, raw), next, raw.version)];
+    }));
+    const privacy = await buildRecord(STORAGE_KEYS.privacySettings, settings, next, STORAGE_VERSION);
+    await backend.writeAll([...records.filter(r => r !== null), [STORAGE_KEYS.privacySettings, privacy]]);
+    encryption = next;
+  } finally {
+    finish();
+  }
+};
+
+// Brings Memory Bank data written by an older schema (e.g. a backup file) up to date
+export const migrateMemoryData = (data: unknown, fromVersion: number): Recovered<MemoryStore> =>
+  memorySpec.parse(migrate(memorySpec as RecordSpec<unknown>, fromVersion, data));
+
+export const loadMemory = () => loadRecord(memorySpec);
+export const saveMemory = async (memory: MemoryStore) => writeRecord(await getBackend(), STORAGE_KEYS.memory, memory);
+
+export const loadTheme = () => loadRecord(themeSpec);
+export const saveTheme = async (theme: Theme) => writeRecord(await getBackend(), STORAGE_KEYS.theme, theme);
+
+export const loadPermissions = () => loadRecord(permissionsSpec);
+export const savePermissions = async (permissions: Permissions) => writeRecord(await getBackend(), STORAGE_KEYS.permissions, permissions);
+
+export const loadConversations = () => loadRecord(conversationsSpec);
+export const saveConversations = async (store: ConversationStore) => writeRecord(await getBackend(), STORAGE_KEYS.conversations, store);
+
+export const loadLlmSettings = () => loadRecord(llmSettingsSpec);
+export const saveLlmSettings = async (settings: LlmSettings) => writeRecord(await getBackend(), STORAGE_KEYS.llmSettings, settings);
+
+export const loadSpeechSettings = () => loadRecord(speechSettingsSpec);
+export const saveSpeechSettings = async (settings: SpeechSettings) => writeRecord(await getBackend(), STORAGE_KEYS.speechSettings, settings);
+
+export const loadVoiceSettings = () => loadRecord(voiceSettingsSpec);
+export const saveVoiceSettings = async (settings: VoiceSettings) => writeRecord(await getBackend(), STORAGE_KEYS.voiceSettings, settings);
+
+export const loadDailyInsight = () => loadRecord(dailyInsightSpec);
+export const saveDailyInsight = async (insight: DailyInsight) => writeRecord(await getBackend(), STORAGE_KEYS.dailyInsight, insight);
+
+export const loadPrivacySettings = () => loadRecord(privacySettingsSpec);
+export const savePrivacySettings = async (settings: PrivacySettings) => writeRecord(await getBackend(), STORAGE_KEYS.privacySettings, settings);
+
+export const loadContacts = () => loadRecord(contactsSpec);
+export const saveContacts = async (contacts: Contact[]) => writeRecord(await getBackend(), STORAGE_KEYS.contacts, contacts);
+
+export const loadMessageThreads = () => loadRecord(messageThreadsSpec);
+export const saveMessageThreads = async (threads: MessageThread[]) => writeRecord(await getBackend(), STORAGE_KEYS.messageThreads, threads);
+
+export const loadMessagingSettings = () => loadRecord(messagingSettingsSpec);
+export const saveMessagingSettings = async (settings: MessagingSettings) => writeRecord(await getBackend(), STORAGE_KEYS.messagingSettings, settings);
+
+export const loadCallLog = () => loadRecord(callLogSpec);
+export const saveCallLog = async (calls: CallRecord[]) => writeRecord(await getBackend(), STORAGE_KEYS.callLog, calls);
+
+export const loadReminders = () => loadRecord(remindersSpec);
+export const saveReminders = async (store: ReminderStore) => writeRecord(await getBackend(), STORAGE_KEYS.reminders, store);
+
+export const loadGoals = () => loadRecord(goalsSpec);
+export const saveGoals = async (goals: Goal[]) => writeRecord(await getBackend(), STORAGE_KEYS.goals, goals);
+
+export const loadCategories = () => loadRecord(categoriesSpec);
+export const saveCategories = async (categories: CategoryDefinition[]) => writeRecord(await getBackend(), STORAGE_KEYS.categories, categories);
+
+export const loadOutbox = () => loadRecord(outboxSpec);
+export const saveOutbox = async (outbox: OutboxEntry[]) => writeRecord(await getBackend(), STORAGE_KEYS.outbox, outbox);
+
+export const loadLauncherLayout = () => loadRecord(launcherSpec);
+export const saveLauncherLayout = async (layout: LauncherLayout) => writeRecord(await getBackend(), STORAGE_KEYS.launcher, layout);
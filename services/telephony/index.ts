@@ -0,0 +1,8 @@
+import { Dialer } from './types';
+import { createStubDialer } from './stubDialer';
+
+export * from './types';
+
+// The web build only has the stub. A native build registers its bridge here,
+// e.g. an Android WebView interface that starts the call with the system dialer.
+export const createDialer = (): Dialer => createStubDialer();
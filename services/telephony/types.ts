@@ -0,0 +1,22 @@
+export interface CallHandlers {
+  onConnected: () => void;
+  onEnded: () => void; // Also called when the other side hangs up or the call fails
+}
+
+export interface CallSession {
+  hangUp: () => Promise<void>;
+}
+
+// Places calls for the Phone app. The app only talks to this interface, so the
+// web build can use a stub and a native build can hand calls to the device.
+export interface Dialer {
+  id: 'stub' | 'native';
+  placeCall: (number: string, handlers: CallHandlers) => Promise<CallSession>;
+}
+
+export class CallError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CallError';
+  }
+}
@@ -0,0 +1,247 @@
+import { MemoryStore, MemoryItem, ChatMessage, Category, CategoryDefinition } from '../types';
+import { isCategoryId, isRecord, parseCategories, parseChatMessages, parseMemoryValue } from './validation';
+import { STORAGE_VERSION, migrateMemoryData } from './storageService';
+import { createMemoryItem, itemsIn, memoryCategories } from './memoryService';
+import { findCategory } from './categoryService';
+import { describeMemoryFields } from './retrievalService';
+
+// Moving the Memory Bank in and out of the app: versioned JSON backups, a readable
+// Markdown export, and the examples/milestones layout used by the original Python script.
+
+export const BACKUP_FORMAT = 'lucy-backup';
+export const BACKUP_VERSION = 1;
+
+export type ExportFormat = 'json' | 'markdown' | 'python';
+export type ImportSource = 'lucy-backup' | 'lucy-store' | 'python';
+export type ImportMode = 'merge' | 'replace' | 'skip';
+
+interface LucyBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number; // STORAGE_VERSION of the memory inside
+  exportedAt: string;
+  memory: MemoryStore;
+  categories?: CategoryDefinition[]; // Names, icons and colours of the categories in memory
+  chat?: ChatMessage[];
+}
+
+export interface CategoryPreview {
+  incoming: MemoryItem[];
+  duplicates: MemoryItem[]; // Incoming items already present, by id or content
+  fresh: MemoryItem[];
+  existingCount: number;
+}
+
+export interface ImportPreview {
+  source: ImportSource;
+  categories: Record<Category, CategoryPreview>;
+  definitions: CategoryDefinition[]; // From a backup; used for categories this device doesn't have yet
+  chat: ChatMessage[];
+  dropped: number;
+}
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+// The Python script names the detail list after the category; it only knew the built-ins
+const pythonDetailKey = (category: Category) => (category === 'development' ? 'milestones' : 'examples');
+
+// --- Export ---
+
+export const exportToJson = (memory: MemoryStore, categories: CategoryDefinition[], chat?: ChatMessage[]): string => {
+  const backup: LucyBackup = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: STORAGE_VERSION,
+    exportedAt: new Date().toISOString(),
+    memory,
+    categories
+  };
+  if (chat) backup.chat = chat;
+  return JSON.stringify(backup, null, 2);
+};
+
+export const exportToPython = (memory: MemoryStore): string => {
+  const layout: Record<string, unknown[]> = {};
+  memoryCategories(memory).forEach(cat => {
+    layout[cat] = memory[cat].map(item => ({
+      id: item.id,
+      timestamp: item.timestamp,
+      description: item.value.description,
+      [pythonDetailKey(cat)]: item.value.details
+    }));
+  });
+  return JSON.stringify(layout, null, 2);
+};
+
+const formatDay = (iso: string) => new Date(iso).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+
+export const exportToMarkdown = (memory: MemoryStore, categories: CategoryDefinition[], chat?: ChatMessage[]): string => {
+  const lines: string[] = ['# Lucy Memory Bank', '', `_Exported ${new Date().toLocaleString()}_`, ''];
+
+  memoryCategories(memory).forEach(cat => {
+    lines.push(`## ${findCategory(categories, cat).name}`, '');
+    if (memory[cat].length === 0) {
+      lines.push('_No entries._', '');
+      return;
+    }
+    memory[cat].forEach(item => {
+      lines.push(`### ${item.value.description}`, '', `*${formatDay(item.timestamp)}*`, '');
+      const fields = describeMemoryFields(cat, item);
+      if (fields) lines.push(fields, '');
+      item.value.details.forEach(d => lines.push(`- ${d}`));
+      if (item.value.details.length) lines.push('');
+    });
+  });
+
+  if (chat && chat.length) {
+    lines.push('## Conversation with Lucy', '');
+    chat.forEach(msg => {
+      const time = new Date(msg.timestamp).toLocaleString();
+      lines.push(`**${msg.role === 'user' ? 'You' : 'Lucy'}** (${time}):`, '', msg.text, '');
+    });
+  }
+
+  return lines.join('\n');
+};
+
+export const exportFileName = (format: ExportFormat) => {
+  const date = new Date().toISOString().slice(0, 10);
+  const ext = format === 'markdown' ? 'md' : 'json';
+  return `lucy-memory-${format === 'python' ? 'python-' : ''}${date}.${ext}`;
+};
+
+export const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// --- Import ---
+
+// Python entries are flat ({ description, examples }) and may lack ids and timestamps
+const parsePythonItem = (raw: unknown, category: Category): MemoryItem | null => {
+  if (!isRecord(raw)) return null;
+  const source = isRecord(raw.value) ? raw.value : raw;
+  const value = parseMemoryValue({
+    description: source.description,
+    details: source.details ?? source[pythonDetailKey(category)] ?? source.examples ?? source.milestones ?? []
+  });
+  if (!value) return null;
+
+  const item = createMemoryItem(value);
+  if (typeof raw.id === 'string' && raw.id) item.id = raw.id;
+  if (typeof raw.timestamp === 'string' && !Number.isNaN(Date.parse(raw.timestamp))) item.timestamp = raw.timestamp;
+  return item;
+};
+
+const detectSource = (data: Record<string, unknown>): ImportSource => {
+  if (data.format === BACKUP_FORMAT) return 'lucy-backup';
+  const store = typeof data.version === 'number' && data.data ? data.data : data;
+  const lists = isRecord(store) ? Object.values(store).filter(Array.isArray) : [];
+  const looksLikeStore = lists.some(list => list.some((i: unknown) => isRecord(i) && isRecord(i.value)));
+  return looksLikeStore ? 'lucy-store' : 'python';
+};
+
+// Normalised text used to spot the same memory saved under a different id
+const contentKey = (item: MemoryItem) =>
+  [item.value.description, ...item.value.details].map(s => s.trim().toLowerCase().replace(/\s+/g, ' ')).join('\u0000');
+
+export const previewImport = (text: string, current: MemoryStore): ImportPreview => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ImportError('The file is not valid JSON. Markdown exports are for reading and cannot be imported.');
+  }
+  if (!isRecord(data)) throw new ImportError('The file does not contain a Memory Bank.');
+
+  const source = detectSource(data);
+  let incoming: MemoryStore;
+  let dropped = 0;
+  let chat: ChatMessage[] = [];
+  let definitions: CategoryDefinition[] = [];
+
+  if (source === 'lucy-backup') {
+    if (typeof data.version !== 'number' || data.version > BACKUP_VERSION) {
+      throw new ImportError('This backup was made by a newer version of Lucy OS.');
+    }
+    const schemaVersion = typeof data.schemaVersion === 'number' ? data.schemaVersion : 1;
+    if (schemaVersion > STORAGE_VERSION) throw new ImportError('This backup was made by a newer version of Lucy OS.');
+    const memory = migrateMemoryData(data.memory, schemaVersion);
+    const messages = parseChatMessages(data.chat);
+    incoming = memory.value;
+    chat = messages.value;
+    definitions = parseCategories(data.categories).value;
+    dropped = memory.dropped + messages.dropped;
+  } else if (source === 'lucy-store') {
+    // A raw copy of lucy_memory, with or without the storage record around it
+    const isStorageRecord = typeof data.version === 'number' && 'data' in data;
+    const memory = migrateMemoryData(isStorageRecord ? data.data : data, isStorageRecord ? data.version : 1);
+    incoming = memory.value;
+    dropped = memory.dropped;
+  } else {
+    incoming = { struggles: [], development: [], mindset: [] };
+    Object.entries(data).forEach(([cat, entries]) => {
+      if (!isCategoryId(cat) || !Array.isArray(entries)) return;
+      entries.forEach((raw: unknown) => {
+        const item = parsePythonItem(raw, cat);
+        if (item) incoming[cat] = [...itemsIn(incoming, cat), item];
+        else dropped++;
+      });
+    });
+  }
+
+  const total = memoryCategories(incoming).reduce((sum, cat) => sum + incoming[cat].length, 0);
+  if (total === 0 && chat.length === 0) throw new ImportError('No memories were found in this file.');
+
+  const categories = {} as Record<Category, CategoryPreview>;
+  [...new Set([...memoryCategories(current), ...memoryCategories(incoming)])].forEach(cat => {
+    const existing = itemsIn(current, cat);
+    const ids = new Set(existing.map(i => i.id));
+    const contents = new Set(existing.map(contentKey));
+    const duplicates: MemoryItem[] = [];
+    const fresh: MemoryItem[] = [];
+    itemsIn(incoming, cat).forEach(item => {
+      const key = contentKey(item);
+      if (ids.has(item.id) || contents.has(key)) {
+        duplicates.push(item);
+      } else {
+        fresh.push(item);
+        // Also catch duplicates within the file itself
+        ids.add(item.id);
+        contents.add(key);
+      }
+    });
+    categories[cat] = { incoming: itemsIn(incoming, cat), duplicates, fresh, existingCount: existing.length };
+  });
+
+  return { source, categories, definitions, chat, dropped };
+};
+
+const newestFirst = (a: MemoryItem, b: MemoryItem) => Date.parse(b.timestamp) - Date.parse(a.timestamp);
+
+const uniqueById = (items: MemoryItem[]) => {
+  const seen = new Set<string>();
+  return items.filter(item => !seen.has(item.id) && seen.add(item.id));
+};
+
+export const applyImport = (current: MemoryStore, preview: ImportPreview, modes: Record<Category, ImportMode>): MemoryStore => {
+  const result: MemoryStore = { ...current };
+  Object.keys(preview.categories).forEach(cat => {
+    const { incoming, fresh } = preview.categories[cat];
+    if (modes[cat] === 'replace') {
+      result[cat] = uniqueById(incoming).sort(newestFirst);
+    } else if (modes[cat] === 'merge') {
+      result[cat] = [...itemsIn(current, cat), ...fresh].sort(newestFirst);
+    }
+  });
+  return result;
+};
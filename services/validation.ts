@@ -0,0 +1,512 @@
+import {
+  MemoryStore, MemoryItem, MemoryValue, MemoryRevision, ChatMessage, Category, Theme, Permissions,
+  Conversation, ConversationStore, LlmSettings, MemoryProposal, SpeechSettings, VoiceSettings,
+  DailyInsight, MemoryLink, PrivacySettings, PasscodeRecord, SealedPayload, AppId, Capability, PermissionAuditEntry,
+  Contact, TextMessage, MessageThread, MessagingSettings, CallRecord, Recurrence, Reminder, ReminderProposal,
+  AppNotification, ReminderStore, Goal, GoalStep, CategoryDefinition, CategoryIcon, CategoryColor, OutboxEntry,
+  LauncherLayout
+} from '../types';
+
+// Runtime checks for data that comes back from storage or imports. Parsers return
+// null for entries that can't be used, and collection parsers keep whatever is valid.
+
+// Category ids are lowercase slugs. Names every object inherits, like
+// "constructor", would shadow real keys in the store and are refused.
+export const isCategoryId = (raw: unknown): raw is Category =>
+  typeof raw === 'string' && /^[a-z0-9]+(-[a-z0-9]+)*$/.test(raw) && !(raw in Object.prototype);
+
+// App ids follow the same rules; an app that's since been removed just has nothing to show
+export const isAppId = (raw: unknown): raw is AppId => isCategoryId(raw);
+
+export interface Recovered<T> {
+  value: T;
+  dropped: number; // Entries that were discarded as invalid
+}
+
+export const isRecord = (raw: unknown): raw is Record<string, any> =>
+  typeof raw === 'object' && raw !== null && !Array.isArray(raw);
+
+const isDateString = (raw: unknown): raw is string =>
+  typeof raw === 'string' && !Number.isNaN(Date.parse(raw));
+
+export const parseMemoryValue = (raw: unknown): MemoryValue | null => {
+  if (!isRecord(raw) || typeof raw.description !== 'string' || !raw.description.trim()) return null;
+  const details = Array.isArray(raw.details) ? raw.details.filter((d: unknown): d is string => typeof d === 'string') : [];
+  const value: MemoryValue = { description: raw.description, details };
+
+  // Structured fields are optional; anything unreadable is dropped rather than the entry
+  if (Array.isArray(raw.tags)) {
+    const tags = normalizeTags(raw.tags.filter((t: unknown): t is string => typeof t === 'string'));
+    if (tags.length) value.tags = tags;
+  }
+  if (typeof raw.mood === 'number' && Number.isInteger(raw.mood) && raw.mood >= 1 && raw.mood <= 5) value.mood = raw.mood;
+  if (raw.status === 'active' || raw.status === 'resolved') value.status = raw.status;
+  if (Array.isArray(raw.links)) {
+    const links = raw.links.filter((l: unknown): l is MemoryLink =>
+      isRecord(l) && typeof l.targetId === 'string' && !!l.targetId && (l.kind === 'resolves' || l.kind === 'related'));
+    if (links.length) value.links = links.map(l => ({ targetId: l.targetId, kind: l.kind }));
+  }
+  return value;
+};
+
+// Lowercase, no leading #, no blanks or repeats
+export const normalizeTags = (tags: string[]): string[] =>
+  [...new Set(tags.map(t => t.trim().replace(/^#+/, '').toLowerCase()).filter(Boolean))];
+
+const parseRevision = (raw: unknown): MemoryRevision | null => {
+  if (!isRecord(raw) || !isDateString(raw.timestamp)) return null;
+  const value = parseMemoryValue(raw.value);
+  return value ? { timestamp: raw.timestamp, value } : null;
+};
+
+export const parseMemoryItem = (raw: unknown): MemoryItem | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || !raw.id || !isDateString(raw.timestamp)) return null;
+  const value = parseMemoryValue(raw.value);
+  if (!value) return null;
+
+  const item: MemoryItem = { id: raw.id, timestamp: raw.timestamp, value };
+  if (isDateString(raw.updatedAt)) item.updatedAt = raw.updatedAt;
+  if (Array.isArray(raw.revisions)) {
+    const revisions = raw.revisions.map(parseRevision).filter((r): r is MemoryRevision => r !== null);
+    if (revisions.length) item.revisions = revisions;
+  }
+  return item;
+};
+
+export const parseMemoryStore = (raw: unknown): Recovered<MemoryStore> => {
+  const store: MemoryStore = { struggles: [], development: [], mindset: [] };
+  let dropped = 0;
+  if (!isRecord(raw)) return { value: store, dropped: raw === undefined || raw === null ? 0 : 1 };
+
+  // Any list under a usable id is a category; the built-ins are there even when empty
+  Object.keys(raw).forEach(cat => {
+    const items = raw[cat];
+    if (items === undefined) return;
+    if (!isCategoryId(cat) || !Array.isArray(items)) {
+      dropped++;
+      return;
+    }
+    store[cat] = store[cat] || [];
+    const seen = new Set<string>();
+    items.forEach(entry => {
+      const item = parseMemoryItem(entry);
+      if (!item || seen.has(item.id)) {
+        dropped++;
+        return;
+      }
+      seen.add(item.id);
+      store[cat].push(item);
+    });
+  });
+
+  return { value: store, dropped };
+};
+
+const parseProposal = (raw: unknown): MemoryProposal | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || !isCategoryId(raw.category)) return null;
+  if (raw.kind !== 'add_item' && raw.kind !== 'add_detail') return null;
+  if (raw.status !== 'pending' && raw.status !== 'accepted' && raw.status !== 'rejected') return null;
+  const value = parseMemoryValue(raw);
+  if (!value || (raw.kind === 'add_detail' && (typeof raw.targetId !== 'string' || value.details.length !== 1))) return null;
+
+  const proposal: MemoryProposal = { id: raw.id, kind: raw.kind, category: raw.category, ...value, status: raw.status };
+  if (raw.kind === 'add_detail') proposal.targetId = raw.targetId;
+  return proposal;
+};
+
+const RECURRENCES: Recurrence[] = ['none', 'daily', 'weekly'];
+
+const parseReminderProposal = (raw: unknown): ReminderProposal | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.title !== 'string' || !raw.title.trim()) return null;
+  if (typeof raw.dueAt !== 'number' || !Number.isFinite(raw.dueAt) || !RECURRENCES.includes(raw.recurrence)) return null;
+  if (raw.status !== 'pending' && raw.status !== 'accepted' && raw.status !== 'rejected') return null;
+  const proposal: ReminderProposal = { id: raw.id, title: raw.title, dueAt: raw.dueAt, recurrence: raw.recurrence, status: raw.status };
+  if (typeof raw.memoryId === 'string') proposal.memoryId = raw.memoryId;
+  return proposal;
+};
+
+export const parseChatMessage = (raw: unknown): ChatMessage | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.text !== 'string') return null;
+  if (raw.role !== 'user' && raw.role !== 'model') return null;
+  if (typeof raw.timestamp !== 'number' || !Number.isFinite(raw.timestamp)) return null;
+  const message: ChatMessage = { id: raw.id, role: raw.role, text: raw.text, timestamp: raw.timestamp };
+  // A reply still streaming when the app closed will never finish
+  if (raw.status === 'streaming' || raw.status === 'interrupted') message.status = 'interrupted';
+  if (raw.status === 'queued') message.status = 'queued';
+  if (Array.isArray(raw.proposals)) {
+    const proposals = raw.proposals.map(parseProposal).filter((p): p is MemoryProposal => p !== null);
+    if (proposals.length) message.proposals = proposals;
+  }
+  if (Array.isArray(raw.reminders)) {
+    const reminders = raw.reminders.map(parseReminderProposal).filter((r): r is ReminderProposal => r !== null);
+    if (reminders.length) message.reminders = reminders;
+  }
+  if (Array.isArray(raw.citations)) {
+    const citations = raw.citations.filter((c): c is string => typeof c === 'string');
+    if (citations.length) message.citations = citations;
+  }
+  return message;
+};
+
+export const parseChatMessages = (raw: unknown): Recovered<ChatMessage[]> => {
+  if (!Array.isArray(raw)) return { value: [], dropped: raw === undefined || raw === null ? 0 : 1 };
+  const messages = raw.map(parseChatMessage).filter((m): m is ChatMessage => m !== null);
+  return { value: messages, dropped: raw.length - messages.length };
+};
+
+export const parseConversation = (raw: unknown): Recovered<Conversation> | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || !raw.id) return null;
+  if (typeof raw.createdAt !== 'number' || typeof raw.updatedAt !== 'number') return null;
+  const messages = parseChatMessages(raw.messages);
+
+  const conversation: Conversation = {
+    id: raw.id,
+    title: typeof raw.title === 'string' ? raw.title : 'Conversation',
+    createdAt: raw.createdAt,
+    updatedAt: raw.updatedAt,
+    messages: messages.value
+  };
+  // A summary only makes sense while the messages it covers are intact
+  if (typeof raw.summary === 'string' && typeof raw.summarizedCount === 'number' && messages.dropped === 0 &&
+      raw.summarizedCount > 0 && raw.summarizedCount <= messages.value.length) {
+    conversation.summary = raw.summary;
+    conversation.summarizedCount = raw.summarizedCount;
+  }
+  return { value: conversation, dropped: messages.dropped };
+};
+
+export const parseConversationStore = (raw: unknown): Recovered<ConversationStore> => {
+  const store: ConversationStore = { conversations: [], activeId: null };
+  if (!isRecord(raw)) return { value: store, dropped: raw === undefined || raw === null ? 0 : 1 };
+  if (!Array.isArray(raw.conversations)) return { value: store, dropped: 1 };
+
+  let dropped = 0;
+  const seen = new Set<string>();
+  raw.conversations.forEach((entry: unknown) => {
+    const parsed = parseConversation(entry);
+    if (!parsed || seen.has(parsed.value.id)) {
+      dropped++;
+      return;
+    }
+    seen.add(parsed.value.id);
+    dropped += parsed.dropped;
+    store.conversations.push(parsed.value);
+  });
+
+  if (typeof raw.activeId === 'string' && seen.has(raw.activeId)) store.activeId = raw.activeId;
+  return { value: store, dropped };
+};
+
+const parseOutboxEntry = (raw: unknown): OutboxEntry | null => {
+  if (!isRecord(raw) || typeof raw.conversationId !== 'string' || typeof raw.messageId !== 'string') return null;
+  if (typeof raw.queuedAt !== 'number' || !Number.isFinite(raw.queuedAt)) return null;
+  return { conversationId: raw.conversationId, messageId: raw.messageId, queuedAt: raw.queuedAt };
+};
+
+export const parseOutbox = (raw: unknown): Recovered<OutboxEntry[]> => {
+  if (!Array.isArray(raw)) return { value: [], dropped: raw === undefined || raw === null ? 0 : 1 };
+  const entries = raw.map(parseOutboxEntry).filter((e): e is OutboxEntry => e !== null);
+  return { value: entries, dropped: raw.length - entries.length };
+};
+
+export const parseTheme = (raw: unknown): Theme | null =>
+  raw === 'light' || raw === 'dark' ? raw : null;
+
+const CAPABILITIES: Capability[] = ['microphone', 'notifications', 'geolocation', 'persistent-storage'];
+const AUDIT_EVENTS: PermissionAuditEntry['event'][] = ['requested', 'granted', 'denied', 'revoked', 'used', 'browser-changed'];
+
+const parseAuditEntry = (raw: unknown): PermissionAuditEntry | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.timestamp !== 'number') return null;
+  if (raw.app !== 'system' && !isAppId(raw.app)) return null;
+  if (!CAPABILITIES.includes(raw.capability) || !AUDIT_EVENTS.includes(raw.event)) return null;
+  const entry: PermissionAuditEntry = { id: raw.id, timestamp: raw.timestamp, app: raw.app, capability: raw.capability, event: raw.event };
+  if (typeof raw.detail === 'string') entry.detail = raw.detail;
+  return entry;
+};
+
+export const parsePermissions = (raw: unknown, defaults: Permissions): Permissions => {
+  if (!isRecord(raw)) return defaults;
+  const grants: Permissions['grants'] = {};
+  if (isRecord(raw.grants)) {
+    Object.keys(raw.grants).filter(isAppId).forEach(app => {
+      const list = raw.grants[app];
+      if (Array.isArray(list)) grants[app] = CAPABILITIES.filter(c => list.includes(c));
+    });
+  }
+  const audit = Array.isArray(raw.audit) ? raw.audit.map(parseAuditEntry).filter((e): e is PermissionAuditEntry => e !== null) : [];
+  return { grants, audit };
+};
+
+export const parseLlmSettings = (raw: unknown, defaults: LlmSettings): LlmSettings => {
+  if (!isRecord(raw)) return defaults;
+  const provider = raw.provider === 'gemini' || raw.provider === 'openai' || raw.provider === 'mock' ? raw.provider : defaults.provider;
+  const temperature = typeof raw.temperature === 'number' && raw.temperature >= 0 && raw.temperature <= 2 ? raw.temperature : defaults.temperature;
+  return {
+    provider,
+    model: typeof raw.model === 'string' && raw.model.trim() ? raw.model : defaults.model,
+    temperature,
+    baseUrl: typeof raw.baseUrl === 'string' ? raw.baseUrl : defaults.baseUrl,
+    apiKey: typeof raw.apiKey === 'string' ? raw.apiKey : defaults.apiKey,
+    useEmbeddings: typeof raw.useEmbeddings === 'boolean' ? raw.useEmbeddings : defaults.useEmbeddings
+  };
+};
+
+export const parseSpeechSettings = (raw: unknown, defaults: SpeechSettings): SpeechSettings => {
+  if (!isRecord(raw)) return defaults;
+  const backend = raw.backend === 'browser' || raw.backend === 'server' || raw.backend === 'mock' ? raw.backend : defaults.backend;
+  return {
+    backend,
+    language: typeof raw.language === 'string' && raw.language.trim() ? raw.language : defaults.language,
+    serverUrl: typeof raw.serverUrl === 'string' ? raw.serverUrl : defaults.serverUrl,
+    apiKey: typeof raw.apiKey === 'string' ? raw.apiKey : defaults.apiKey,
+    allowCloud: typeof raw.allowCloud === 'boolean' ? raw.allowCloud : defaults.allowCloud
+  };
+};
+
+export const parseVoiceSettings = (raw: unknown, defaults: VoiceSettings): VoiceSettings => {
+  if (!isRecord(raw)) return defaults;
+  return {
+    voiceURI: typeof raw.voiceURI === 'string' ? raw.voiceURI : defaults.voiceURI,
+    rate: typeof raw.rate === 'number' && raw.rate >= 0.5 && raw.rate <= 2 ? raw.rate : defaults.rate,
+    autoSend: typeof raw.autoSend === 'boolean' ? raw.autoSend : defaults.autoSend,
+    readReplies: typeof raw.readReplies === 'boolean' ? raw.readReplies : defaults.readReplies
+  };
+};
+
+export const parseDailyInsight = (raw: unknown): DailyInsight | null => {
+  if (!isRecord(raw) || typeof raw.date !== 'string' || typeof raw.text !== 'string' || !raw.text.trim()) return null;
+  return {
+    date: raw.date,
+    text: raw.text,
+    sourceIds: Array.isArray(raw.sourceIds) ? raw.sourceIds.filter((id): id is string => typeof id === 'string') : [],
+    origin: raw.origin === 'lucy' ? 'lucy' : 'offline',
+    createdAt: typeof raw.createdAt === 'number' ? raw.createdAt : 0
+  };
+};
+
+export const parseSealedPayload = (raw: unknown): SealedPayload | null =>
+  isRecord(raw) && typeof raw.iv === 'string' && typeof raw.ciphertext === 'string' ? { iv: raw.iv, ciphertext: raw.ciphertext } : null;
+
+const parsePasscodeRecord = (raw: unknown): PasscodeRecord | null => {
+  if (!isRecord(raw) || typeof raw.salt !== 'string' || typeof raw.iterations !== 'number' || raw.iterations < 1) return null;
+  const check = parseSealedPayload(raw.check);
+  return check ? { salt: raw.salt, iterations: raw.iterations, check } : null;
+};
+
+export const parsePrivacySettings = (raw: unknown, defaults: PrivacySettings): PrivacySettings => {
+  if (!isRecord(raw)) return defaults;
+  return {
+    passcode: raw.passcode === null ? null : parsePasscodeRecord(raw.passcode) ?? defaults.passcode,
+    autoLockMinutes: typeof raw.autoLockMinutes === 'number' && raw.autoLockMinutes >= 0 ? raw.autoLockMinutes : defaults.autoLockMinutes,
+    privateCategories: Array.isArray(raw.privateCategories)
+      ? [...new Set(raw.privateCategories.filter(isCategoryId))]
+      : defaults.privateCategories
+  };
+};
+
+const parseContact = (raw: unknown): Contact | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || !raw.id || typeof raw.address !== 'string' || !raw.address.trim()) return null;
+  const contact: Contact = { id: raw.id, name: typeof raw.name === 'string' && raw.name.trim() ? raw.name : raw.address, address: raw.address };
+  if (typeof raw.note === 'string' && raw.note) contact.note = raw.note;
+  return contact;
+};
+
+export const parseContacts = (raw: unknown): Recovered<Contact[]> => {
+  if (!Array.isArray(raw)) return { value: [], dropped: raw === undefined || raw === null ? 0 : 1 };
+  const seen = new Set<string>();
+  const contacts: Contact[] = [];
+  raw.forEach(entry => {
+    const contact = parseContact(entry);
+    if (!contact || seen.has(contact.id)) return;
+    seen.add(contact.id);
+    contacts.push(contact);
+  });
+  return { value: contacts, dropped: raw.length - contacts.length };
+};
+
+const parseTextMessage = (raw: unknown): TextMessage | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.text !== 'string') return null;
+  if (raw.direction !== 'outgoing' && raw.direction !== 'incoming') return null;
+  if (typeof raw.timestamp !== 'number' || !Number.isFinite(raw.timestamp)) return null;
+  // A message still sending when the app closed never got an answer from the transport
+  const status = raw.status === 'sent' || raw.status === 'received' ? raw.status : raw.direction === 'incoming' ? 'received' : 'failed';
+  const message: TextMessage = { id: raw.id, direction: raw.direction, text: raw.text, timestamp: raw.timestamp, status };
+  if (raw.draftedByLucy === true) message.draftedByLucy = true;
+  return message;
+};
+
+export const parseMessageThreads = (raw: unknown): Recovered<MessageThread[]> => {
+  if (!Array.isArray(raw)) return { value: [], dropped: raw === undefined || raw === null ? 0 : 1 };
+  let dropped = 0;
+  const seen = new Set<string>();
+  const threads: MessageThread[] = [];
+  raw.forEach(entry => {
+    if (!isRecord(entry) || typeof entry.id !== 'string' || seen.has(entry.id) || typeof entry.address !== 'string' || !Array.isArray(entry.messages)) {
+      dropped++;
+      return;
+    }
+    const messages = entry.messages.map(parseTextMessage).filter((m: TextMessage | null): m is TextMessage => m !== null);
+    dropped += entry.messages.length - messages.length;
+    seen.add(entry.id);
+    threads.push({
+      id: entry.id,
+      address: entry.address,
+      messages,
+      updatedAt: typeof entry.updatedAt === 'number' ? entry.updatedAt : (messages[messages.length - 1]?.timestamp ?? 0),
+      unread: typeof entry.unread === 'number' && entry.unread >= 0 ? entry.unread : 0
+    });
+  });
+  return { value: threads, dropped };
+};
+
+export const parseMessagingSettings = (raw: unknown, defaults: MessagingSettings): MessagingSettings => {
+  if (!isRecord(raw)) return defaults;
+  return {
+    transport: raw.transport === 'loopback' || raw.transport === 'server' ? raw.transport : defaults.transport,
+    serverUrl: typeof raw.serverUrl === 'string' ? raw.serverUrl : defaults.serverUrl,
+    apiKey: typeof raw.apiKey === 'string' ? raw.apiKey : defaults.apiKey
+  };
+};
+
+const parseCallRecord = (raw: unknown): CallRecord | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.address !== 'string' || typeof raw.startedAt !== 'number') return null;
+  if (raw.direction !== 'outgoing' && raw.direction !== 'incoming') return null;
+  const call: CallRecord = {
+    id: raw.id,
+    address: raw.address,
+    direction: raw.direction,
+    startedAt: raw.startedAt,
+    durationSeconds: typeof raw.durationSeconds === 'number' && raw.durationSeconds >= 0 ? raw.durationSeconds : 0
+  };
+  if (typeof raw.notes === 'string' && raw.notes) call.notes = raw.notes;
+  if (Array.isArray(raw.proposals)) {
+    const proposals = raw.proposals.map(parseProposal).filter((p): p is MemoryProposal => p !== null);
+    if (proposals.length) call.proposals = proposals;
+  }
+  return call;
+};
+
+export const parseCallLog = (raw: unknown): Recovered<CallRecord[]> => {
+  if (!Array.isArray(raw)) return { value: [], dropped: raw === undefined || raw === null ? 0 : 1 };
+  const calls = raw.map(parseCallRecord).filter((c): c is CallRecord => c !== null);
+  return { value: calls, dropped: raw.length - calls.length };
+};
+
+const REMINDER_KINDS: Reminder['kind'][] = ['reminder', 'check-in', 'reflection'];
+
+const parseReminder = (raw: unknown): Reminder | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.title !== 'string' || !raw.title.trim()) return null;
+  if (!REMINDER_KINDS.includes(raw.kind) || !RECURRENCES.includes(raw.recurrence)) return null;
+  if (typeof raw.dueAt !== 'number' || !Number.isFinite(raw.dueAt)) return null;
+  const reminder: Reminder = {
+    id: raw.id,
+    kind: raw.kind,
+    title: raw.title,
+    dueAt: raw.dueAt,
+    recurrence: raw.recurrence,
+    createdBy: raw.createdBy === 'lucy' ? 'lucy' : 'user',
+    createdAt: typeof raw.createdAt === 'number' ? raw.createdAt : raw.dueAt
+  };
+  if (isCategoryId(raw.category)) reminder.category = raw.category;
+  if (typeof raw.memoryId === 'string') reminder.memoryId = raw.memoryId;
+  return reminder;
+};
+
+const parseNotification = (raw: unknown): AppNotification | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.reminderId !== 'string' || typeof raw.title !== 'string') return null;
+  if (!REMINDER_KINDS.includes(raw.kind) || typeof raw.firedAt !== 'number') return null;
+  const notification: AppNotification = {
+    id: raw.id,
+    reminderId: raw.reminderId,
+    kind: raw.kind,
+    title: raw.title,
+    firedAt: raw.firedAt,
+    read: raw.read === true
+  };
+  if (isCategoryId(raw.category)) notification.category = raw.category;
+  if (typeof raw.memoryId === 'string') notification.memoryId = raw.memoryId;
+  return notification;
+};
+
+export const parseReminderStore = (raw: unknown): Recovered<ReminderStore> => {
+  const store: ReminderStore = { reminders: [], notifications: [] };
+  if (!isRecord(raw)) return { value: store, dropped: raw === undefined || raw === null ? 0 : 1 };
+  const reminders = Array.isArray(raw.reminders) ? raw.reminders : [];
+  const notifications = Array.isArray(raw.notifications) ? raw.notifications : [];
+  store.reminders = reminders.map(parseReminder).filter((r): r is Reminder => r !== null).sort((a, b) => a.dueAt - b.dueAt);
+  store.notifications = notifications.map(parseNotification).filter((n): n is AppNotification => n !== null);
+  return { value: store, dropped: reminders.length - store.reminders.length + notifications.length - store.notifications.length };
+};
+
+const parseGoalStep = (raw: unknown): GoalStep | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.text !== 'string' || !raw.text.trim()) return null;
+  const step: GoalStep = { id: raw.id, text: raw.text };
+  if (typeof raw.doneAt === 'number') step.doneAt = raw.doneAt;
+  return step;
+};
+
+const parseIdList = (raw: unknown): string[] =>
+  Array.isArray(raw) ? [...new Set(raw.filter((id): id is string => typeof id === 'string'))] : [];
+
+const parseGoal = (raw: unknown): Goal | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.title !== 'string' || !raw.title.trim()) return null;
+  const goal: Goal = {
+    id: raw.id,
+    title: raw.title,
+    steps: Array.isArray(raw.steps) ? raw.steps.map(parseGoalStep).filter((s): s is GoalStep => s !== null) : [],
+    developmentIds: parseIdList(raw.developmentIds),
+    blockerIds: parseIdList(raw.blockerIds),
+    createdAt: typeof raw.createdAt === 'number' ? raw.createdAt : Date.now()
+  };
+  if (typeof raw.targetDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(raw.targetDate)) goal.targetDate = raw.targetDate;
+  if (typeof raw.completedAt === 'number') goal.completedAt = raw.completedAt;
+  return goal;
+};
+
+export const parseGoals = (raw: unknown): Recovered<Goal[]> => {
+  if (!Array.isArray(raw)) return { value: [], dropped: raw === undefined || raw === null ? 0 : 1 };
+  const goals = raw.map(parseGoal).filter((g): g is Goal => g !== null);
+  return { value: goals, dropped: raw.length - goals.length };
+};
+
+export const CATEGORY_ICONS: CategoryIcon[] = ['shield-alert', 'sprout', 'brain', 'book', 'users', 'target', 'flame', 'sparkles', 'heart', 'briefcase'];
+export const CATEGORY_COLORS: CategoryColor[] = ['amber', 'emerald', 'indigo', 'rose', 'sky', 'violet', 'orange', 'teal', 'slate'];
+
+const parseCategory = (raw: unknown): CategoryDefinition | null => {
+  if (!isRecord(raw) || !isCategoryId(raw.id) || typeof raw.name !== 'string' || !raw.name.trim()) return null;
+  const category: CategoryDefinition = {
+    id: raw.id,
+    name: raw.name,
+    icon: CATEGORY_ICONS.includes(raw.icon) ? raw.icon : 'book',
+    color: CATEGORY_COLORS.includes(raw.color) ? raw.color : 'slate'
+  };
+  if (typeof raw.hint === 'string' && raw.hint.trim()) category.hint = raw.hint;
+  if (raw.archived === true) category.archived = true;
+  return category;
+};
+
+export const parseCategories = (raw: unknown): Recovered<CategoryDefinition[]> => {
+  if (!Array.isArray(raw)) return { value: [], dropped: raw === undefined || raw === null ? 0 : 1 };
+  const categories = raw.map(parseCategory).filter((c, i, all): c is CategoryDefinition =>
+    c !== null && all.findIndex(other => other?.id === c.id) === i);
+  return { value: categories, dropped: raw.length - categories.length };
+};
+
+// Home screen items are app ids or category shortcuts
+const isLauncherItemId = (raw: unknown): raw is string => {
+  if (typeof raw !== 'string') return false;
+  return raw.startsWith('category:') ? isCategoryId(raw.slice('category:'.length)) : isAppId(raw);
+};
+
+const parseItemIds = (raw: unknown, fallback: string[]) =>
+  Array.isArray(raw) ? [...new Set(raw.filter(isLauncherItemId))] : fallback;
+
+export const parseLauncherLayout = (raw: unknown, defaults: LauncherLayout): LauncherLayout => {
+  if (!isRecord(raw)) return defaults;
+  return {
+    order: parseItemIds(raw.order, defaults.order),
+    hidden: parseItemIds(raw.hidden, defaults.hidden),
+    dock: parseItemIds(raw.dock, defaults.dock),
+    widgets: Array.isArray(raw.widgets) ? [...new Set(raw.widgets.filter(isAppId))] : defaults.widgets // Widget ids are slugs like app ids
+  };
+};
@@ -1,20 +1,92 @@
-export type Category = 'struggles' | 'development' | 'mindset';
+// The id of a Memory Bank category: one of the built-ins or a slug of a user-made category's name
+export type Category = string;
+export type Theme = 'light' | 'dark';
+
+// Apps come from the registry in components/apps, so any id it declares is valid.
+// 'home' is the launcher itself.
+export type AppId = string;
+
+// Device capabilities; each needs the browser's permission and the app's grant in Lucy OS
+export type Capability = 'microphone' | 'notifications' | 'geolocation' | 'persistent-storage';
+
+// As reported by the browser; 'unsupported' when it can't provide the capability at all
+export type BrowserPermissionState = 'granted' | 'denied' | 'prompt' | 'unsupported';
+
+export interface PermissionAuditEntry {
+  id: string;
+  timestamp: number;
+  app: AppId | 'system'; // 'system' for changes made in the browser's own settings
+  capability: Capability;
+  event: 'requested' | 'granted' | 'denied' | 'revoked' | 'used' | 'browser-changed';
+  detail?: string;
+}
+
+export interface Permissions {
+  grants: Partial<Record<AppId, Capability[]>>; // What each app has been allowed to use
+  audit: PermissionAuditEntry[]; // Oldest first
+}
+
+export type StruggleStatus = 'active' | 'resolved';
+
+// How one entry relates to another, e.g. a development that resolves a struggle
+export interface MemoryLink {
+  targetId: string;
+  kind: 'resolves' | 'related';
+}
 
 export interface MemoryValue {
   description: string;
   details: string[]; // Maps to 'examples' or 'milestones' from python script
+  tags?: string[]; // Lowercase, without the leading #
+  mood?: number; // 1 (very low) to 5 (very good): how the user felt about it
+  status?: StruggleStatus; // Struggles only; unset means active
+  links?: MemoryLink[];
+}
+
+// A superseded version of a memory, kept so edits can be reviewed and undone
+export interface MemoryRevision {
+  timestamp: string;
+  value: MemoryValue;
 }
 
 export interface MemoryItem {
   id: string;
   timestamp: string;
   value: MemoryValue;
+  updatedAt?: string;
+  revisions?: MemoryRevision[]; // Oldest first, never includes the current value
 }
 
+// One list per category. The built-ins are always present, as struggles and
+// development entries mean something to goals, check-ins and insights.
 export interface MemoryStore {
   struggles: MemoryItem[];
   development: MemoryItem[];
   mindset: MemoryItem[];
+  [category: string]: MemoryItem[];
+}
+
+export type CategoryIcon = 'shield-alert' | 'sprout' | 'brain' | 'book' | 'users' | 'target' | 'flame' | 'sparkles' | 'heart' | 'briefcase';
+export type CategoryColor = 'amber' | 'emerald' | 'indigo' | 'rose' | 'sky' | 'violet' | 'orange' | 'teal' | 'slate';
+
+export interface CategoryDefinition {
+  id: Category;
+  name: string; // As shown on tabs and home screen icons
+  icon: CategoryIcon;
+  color: CategoryColor;
+  hint?: string; // Tells Lucy what belongs in the category
+  archived?: boolean; // Hidden everywhere but Settings; its entries are kept
+}
+
+// A change to the Memory Bank suggested by Lucy, applied only once the user accepts it
+export interface MemoryProposal {
+  id: string;
+  kind: 'add_item' | 'add_detail';
+  category: Category;
+  description: string; // New item's description, or the target item's for add_detail
+  details: string[]; // Details of the new item, or the single detail to append
+  targetId?: string; // add_detail only
+  status: 'pending' | 'accepted' | 'rejected';
 }
 
 export interface ChatMessage {
@@ -22,4 +94,195 @@ export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
   timestamp: number;
+  status?: 'streaming' | 'interrupted' | 'queued'; // Unset once a reply has fully arrived, or a queued message is sent
+  proposals?: MemoryProposal[];
+  reminders?: ReminderProposal[];
+  citations?: string[]; // Ids of the Memory Bank entries the reply drew on
+}
+
+// A chat message written while Lucy couldn't be reached, waiting in the outbox
+export interface OutboxEntry {
+  conversationId: string;
+  messageId: string;
+  queuedAt: number;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: ChatMessage[];
+  summary?: string; // Condensed version of the earliest messages, used once the thread outgrows the context budget
+  summarizedCount?: number; // How many of the leading messages the summary covers
+}
+
+export interface ConversationStore {
+  conversations: Conversation[];
+  activeId: string | null;
+}
+
+export type LlmProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface LlmSettings {
+  provider: LlmProviderId;
+  model: string;
+  temperature: number;
+  baseUrl: string; // OpenAI-compatible servers only, e.g. http://localhost:11434/v1
+  apiKey: string; // Empty means the build-time key (Gemini) or no auth (local servers)
+  useEmbeddings: boolean; // Rank memories by meaning as well as keywords, using the provider's embedding model
+}
+
+export type SpeechBackendId = 'browser' | 'server' | 'mock';
+
+export interface SpeechSettings {
+  backend: SpeechBackendId;
+  language: string; // BCP 47 tag, e.g. en-US
+  serverUrl: string; // Transcription server only, e.g. http://localhost:8000/v1
+  apiKey: string;
+  allowCloud: boolean; // Whether audio may be sent to a service off the device
+}
+
+export interface VoiceSettings {
+  voiceURI: string; // Empty uses the system's default voice
+  rate: number; // 0.5 to 2, 1 is normal speed
+  autoSend: boolean; // Send dictated messages as soon as the mic is released
+  readReplies: boolean; // Hands-free mode: Lucy's replies are spoken aloud
+}
+
+export interface DailyInsight {
+  date: string; // Local calendar day it was made for, YYYY-MM-DD
+  text: string;
+  sourceIds: string[]; // Memory Bank entries it was drawn from
+  origin: 'lucy' | 'offline'; // Written by the model, or composed on the device when it wasn't reachable
+  createdAt: number;
+}
+
+// AES-GCM ciphertext with its nonce, both base64
+export interface SealedPayload {
+  iv: string;
+  ciphertext: string;
+}
+
+export interface PasscodeRecord {
+  salt: string; // base64, for PBKDF2
+  iterations: number;
+  check: SealedPayload; // A known value sealed with the derived key; opening it proves the passcode
+}
+
+export interface PrivacySettings {
+  passcode: PasscodeRecord | null; // Null when the lock and encryption at rest are off
+  autoLockMinutes: number; // 0 never locks automatically
+  privateCategories: Category[]; // Kept out of Lucy's context unless shared for the session
+}
+
+export interface Contact {
+  id: string;
+  name: string;
+  address: string; // Where messages are delivered: a phone number, username or email, depending on the transport
+  note?: string;
+}
+
+export interface TextMessage {
+  id: string;
+  direction: 'outgoing' | 'incoming';
+  text: string;
+  timestamp: number;
+  status: 'sending' | 'sent' | 'failed' | 'received';
+  draftedByLucy?: boolean; // Written with Lucy's help, whether or not it was edited afterwards
+}
+
+// One conversation per address, so messages from people not in the contacts still have a home
+export interface MessageThread {
+  id: string;
+  address: string;
+  messages: TextMessage[]; // Oldest first
+  updatedAt: number;
+  unread: number;
+}
+
+export type MessageTransportId = 'loopback' | 'server';
+
+export interface MessagingSettings {
+  transport: MessageTransportId;
+  serverUrl: string; // Message server only, e.g. http://localhost:8787
+  apiKey: string;
+}
+
+export interface CallRecord {
+  id: string;
+  address: string; // The number that was called, or that called
+  direction: 'outgoing' | 'incoming';
+  startedAt: number;
+  durationSeconds: number; // 0 when the call never connected
+  notes?: string; // The user's own summary, written or dictated after the call
+  proposals?: MemoryProposal[]; // What Lucy suggested keeping from the notes
+}
+
+export type Recurrence = 'none' | 'daily' | 'weekly';
+
+export interface Reminder {
+  id: string;
+  kind: 'reminder' | 'check-in' | 'reflection';
+  title: string; // What the notification says
+  dueAt: number; // The next time it fires
+  recurrence: Recurrence;
+  category?: Category; // Reflection prompts: the category they ask about
+  memoryId?: string; // Check-ins: the struggle they follow up on
+  createdBy: 'user' | 'lucy';
+  createdAt: number;
+}
+
+// A reminder Lucy suggested in chat, set only once the user accepts it
+export interface ReminderProposal {
+  id: string;
+  title: string;
+  dueAt: number;
+  recurrence: Recurrence;
+  memoryId?: string;
+  status: 'pending' | 'accepted' | 'rejected';
+}
+
+// A reminder that has fired, as shown in the home screen's notification shade
+export interface AppNotification {
+  id: string;
+  reminderId: string;
+  kind: Reminder['kind'];
+  title: string;
+  firedAt: number;
+  read: boolean;
+  memoryId?: string;
+  category?: Category;
+}
+
+export interface ReminderStore {
+  reminders: Reminder[]; // Soonest first
+  notifications: AppNotification[]; // Newest first
+}
+
+export interface GoalStep {
+  id: string;
+  text: string;
+  doneAt?: number; // Unset while the step is still open
+}
+
+// Something the user is working toward, measured by its steps
+export interface Goal {
+  id: string;
+  title: string;
+  targetDate?: string; // Local calendar day, YYYY-MM-DD
+  steps: GoalStep[];
+  developmentIds: string[]; // Development entries that moved it forward
+  blockerIds: string[]; // Struggles standing in the way
+  createdAt: number;
+  completedAt?: number; // Set once every step is done
+}
+
+// Where things sit on the home screen. Items are app ids, or "category:<id>" for a
+// journal category's shortcut. Anything not yet placed goes after `order`.
+export interface LauncherLayout {
+  order: string[];
+  hidden: string[];
+  dock: string[]; // Pinned to the dock, in order, instead of the grid
+  widgets: string[]; // Home screen widgets, top to bottom
 }